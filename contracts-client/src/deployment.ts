@@ -0,0 +1,23 @@
+// Shape of deployments/<network>.json, written by scripts/deploy.ts.
+// Bump DEPLOYMENT_MANIFEST_VERSION whenever this interface changes.
+
+export const DEPLOYMENT_MANIFEST_VERSION = 2;
+
+export type DeployedContractName = "DPNToken" | "RewardPool" | "NodeRegistry" | "Participation" | "NodeRightsNFT";
+
+export interface DeployedContract {
+    address: string;
+    startBlock: number;        // Block of the deployment transaction (subgraph startBlock)
+    transactionHash: string;
+    abiHash: string;           // keccak256 of the JSON-encoded ABI
+}
+
+export interface DeploymentManifest {
+    version: number;
+    network: string;
+    chainId: number;
+    deployer: string;
+    deployedAt: string;        // ISO-8601
+    abiHash: string;           // keccak256 over every contract's abiHash, in name order
+    contracts: Record<DeployedContractName, DeployedContract>;
+}
@@ -0,0 +1,95 @@
+import { Signer, TypedDataDomain, TypedDataEncoder, verifyTypedData } from "ethers";
+import type { Participation } from "./typechain";
+
+// EIP-712 heartbeat messages accepted by Participation.recordSignedUptime and
+// by the performance oracle. A node owner signs one Heartbeat per reporting
+// window for Participation, which a reporter relays, and one per heartbeat
+// interval for the oracle.
+
+export interface Heartbeat {
+    nodeId: bigint;
+    windowStart: number;    // Unix seconds
+    windowEnd: number;      // Unix seconds, at most the block time it is relayed at
+    heartbeats: number;     // Heartbeats the node sent during the window
+    uptimeMinutes: number;  // At most the window length in minutes
+    nonce: bigint;          // Participation.heartbeatNonces(nodeId)
+}
+
+export const HEARTBEAT_DOMAIN_NAME = "DePIN Participation";
+export const HEARTBEAT_DOMAIN_VERSION = "1";
+
+// Field order must match Participation.HEARTBEAT_TYPEHASH
+export const HEARTBEAT_TYPES = {
+    Heartbeat: [
+        { name: "nodeId", type: "uint256" },
+        { name: "windowStart", type: "uint64" },
+        { name: "windowEnd", type: "uint64" },
+        { name: "heartbeats", type: "uint32" },
+        { name: "uptimeMinutes", type: "uint32" },
+        { name: "nonce", type: "uint256" },
+    ],
+};
+
+export function heartbeatDomain(chainId: bigint | number, verifyingContract: string): TypedDataDomain {
+    return { name: HEARTBEAT_DOMAIN_NAME, version: HEARTBEAT_DOMAIN_VERSION, chainId, verifyingContract };
+}
+
+export const ORACLE_HEARTBEAT_DOMAIN_NAME = "DePIN Performance Oracle";
+
+/**
+ * The signing domain of heartbeats posted to the performance oracle, where
+ * nodeId is a NodeRightsNFT token id. No contract verifies them, so the domain
+ * names none; it keeps them from being valid on Participation.
+ */
+export function oracleHeartbeatDomain(chainId: bigint | number): TypedDataDomain {
+    return { name: ORACLE_HEARTBEAT_DOMAIN_NAME, version: HEARTBEAT_DOMAIN_VERSION, chainId };
+}
+
+/** The signing domain of a deployed Participation contract. */
+export async function participationHeartbeatDomain(participation: Participation): Promise<TypedDataDomain> {
+    const { chainId } = await participation.runner!.provider!.getNetwork();
+    return heartbeatDomain(chainId, await participation.getAddress());
+}
+
+export function signHeartbeat(signer: Signer, domain: TypedDataDomain, heartbeat: Heartbeat): Promise<string> {
+    return signer.signTypedData(domain, HEARTBEAT_TYPES, heartbeat);
+}
+
+/** Address that signed `heartbeat`; compare it with the node owner. */
+export function recoverHeartbeatSigner(domain: TypedDataDomain, heartbeat: Heartbeat, signature: string): string {
+    return verifyTypedData(domain, HEARTBEAT_TYPES, heartbeat, signature);
+}
+
+export function verifyHeartbeat(
+    domain: TypedDataDomain,
+    heartbeat: Heartbeat,
+    signature: string,
+    expectedSigner: string
+): boolean {
+    try {
+        return recoverHeartbeatSigner(domain, heartbeat, signature).toLowerCase() === expectedSigner.toLowerCase();
+    } catch {
+        return false;
+    }
+}
+
+// EIP-712 digest the contract recovers the signer from
+export function hashHeartbeat(domain: TypedDataDomain, heartbeat: Heartbeat): string {
+    return TypedDataEncoder.hash(domain, HEARTBEAT_TYPES, heartbeat);
+}
+
+/**
+ * Aggregate a window of heartbeats sent every `intervalSeconds` into one
+ * message, crediting each heartbeat with at most one interval of uptime.
+ */
+export function aggregateHeartbeats(
+    nodeId: bigint,
+    windowStart: number,
+    windowEnd: number,
+    heartbeats: number,
+    intervalSeconds: number,
+    nonce: bigint
+): Heartbeat {
+    const upSeconds = Math.min(heartbeats * intervalSeconds, windowEnd - windowStart);
+    return { nodeId, windowStart, windowEnd, heartbeats, uptimeMinutes: Math.floor(upSeconds / 60), nonce };
+}
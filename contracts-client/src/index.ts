@@ -0,0 +1,22 @@
+// Shared typed client for the DePIN contracts.
+// `./typechain` is generated by `npx hardhat compile` (see hardhat.config.ts);
+// run `npm run build:client` from the repo root after changing a contract.
+
+export * from "./typechain";
+export * from "./deployment";
+export * from "./heartbeat";
+
+// Mirrors NodeRightsNFT.NodeType
+export enum NodeType {
+    STORAGE = 0,
+    COMPUTE = 1,
+    BANDWIDTH = 2,
+}
+
+// Mirrors NodeRightsNFT.NodeStatus
+export enum NodeStatus {
+    ACTIVE = 0,
+    SLASHED_MINOR = 1,
+    SLASHED_MAJOR = 2,
+    TERMINATED = 3,
+}
@@ -2,9 +2,27 @@
 pragma solidity ^0.8.0;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
 
-contract DPNToken is ERC20 {
-    constructor(uint256 initialSupply) ERC20("DPN Token", "DPN") {
+contract DPNToken is ERC20, Ownable {
+    // The only address allowed to mint after deployment (the RewardPool); set once
+    address public minter;
+
+    event MinterUpdated(address indexed minter);
+
+    constructor(uint256 initialSupply) ERC20("DPN Token", "DPN") Ownable(msg.sender) {
         _mint(msg.sender, initialSupply);
     }
+
+    function setMinter(address _minter) external onlyOwner {
+        require(minter == address(0), "Minter already set");
+        require(_minter != address(0), "Invalid minter");
+        minter = _minter;
+        emit MinterUpdated(_minter);
+    }
+
+    function mint(address to, uint256 amount) external {
+        require(msg.sender == minter, "Not minter");
+        _mint(to, amount);
+    }
 }
@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./IRewardCalculator.sol";
+import "./RewardMath.sol";
+
+/**
+ * @title HalvingRewardCalculator
+ * @dev Decaying emission: the base reward rate halves every halvingInterval
+ * seconds after genesis, then the usual multipliers apply. Time before genesis
+ * earns the full rate.
+ */
+contract HalvingRewardCalculator is IRewardCalculator {
+    // After this many halvings any realistic rate is zero
+    uint256 public constant MAX_HALVINGS = 64;
+
+    uint256 public immutable genesis;
+    uint256 public immutable halvingInterval;
+
+    /**
+     * @param _genesis Start of the first era; 0 uses the deployment time
+     * @param _halvingInterval Length of each era in seconds
+     */
+    constructor(uint256 _genesis, uint256 _halvingInterval) {
+        require(_halvingInterval > 0, "Invalid halving interval");
+        genesis = _genesis == 0 ? block.timestamp : _genesis;
+        halvingInterval = _halvingInterval;
+    }
+
+    function calculateRewards(RewardInput calldata input) external view returns (uint256) {
+        return RewardMath.applyMultipliers(input, baseReward(input.baseRewardRate, input.from, input.to));
+    }
+
+    /**
+     * @dev Sum of the halved rate over each era [from, to) overlaps
+     */
+    function baseReward(uint256 rate, uint256 from, uint256 to) public view returns (uint256 reward) {
+        uint256 t = from;
+        while (t < to) {
+            uint256 era = t < genesis ? 0 : (t - genesis) / halvingInterval;
+            if (era >= MAX_HALVINGS) break;
+
+            uint256 eraEnd = genesis + (era + 1) * halvingInterval;
+            uint256 end = eraEnd < to ? eraEnd : to;
+            reward += (rate >> era) * (end - t);
+            t = end;
+        }
+    }
+}
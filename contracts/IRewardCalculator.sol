@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @dev What NodeRightsNFT knows about a node when it asks for its pending rewards.
+ * Rewards accrue over [from, to): from the node's last claim to now.
+ */
+struct RewardInput {
+    uint256 tokenId;
+    uint8 nodeType;            // NodeRightsNFT.NodeType
+    uint256 baseRewardRate;    // DPN wei per second
+    uint256 minETHStake;
+    uint256 maxCapacity;
+    uint256 stakedETH;
+    uint256 performanceScore;  // 10000 = 100%
+    uint256 capacityUsed;
+    uint256 from;
+    uint256 to;
+}
+
+/**
+ * @title IRewardCalculator
+ * @dev Reward curve plugged into NodeRightsNFT with setRewardCalculatorContract.
+ * Only called for ACTIVE nodes. RewardsDistributed.performanceBonus assumes the
+ * result scales linearly with performanceScore.
+ */
+interface IRewardCalculator {
+    function calculateRewards(RewardInput calldata input) external view returns (uint256);
+}
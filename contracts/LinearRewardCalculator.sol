@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./IRewardCalculator.sol";
+import "./RewardMath.sol";
+
+/**
+ * @title LinearRewardCalculator
+ * @dev NodeRightsNFT's built-in formula: a constant baseRewardRate per second
+ */
+contract LinearRewardCalculator is IRewardCalculator {
+    function calculateRewards(RewardInput calldata input) external pure returns (uint256) {
+        return RewardMath.linearReward(input);
+    }
+}
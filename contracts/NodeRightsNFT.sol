@@ -5,6 +5,11 @@ import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./RewardPool.sol";
+import "./IRewardCalculator.sol";
+import "./RewardMath.sol";
 
 /**
  * @title NodeRightsNFT
@@ -12,6 +17,7 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
  * @notice Each NFT represents operational rights to a specific node type with staking requirements
  */
 contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
 
     uint256 private _tokenIdCounter;
 
@@ -37,7 +43,7 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
         uint256 stakedETH;          // ETH staked for this node
         uint256 stakedDPN;          // DPN tokens staked
         uint256 mintedAt;           // Block timestamp when minted
-        uint256 lastRewardClaim;    // Last reward claim timestamp
+        uint256 lastRewardClaim;    // Rewards are priced from here (last claim or settlement)
         NodeStatus status;          // Current node status
         uint256 totalUptime;        // Cumulative uptime in seconds
         uint256 performanceScore;   // 0-10000 (100.00% = 10000)
@@ -59,21 +65,45 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
     mapping(NodeType => NodeTypeConfig) public nodeTypeConfigs;
     mapping(address => uint256[]) public ownerNodes;
     mapping(uint256 => uint256) public nodeCapacityUsed; // Current capacity usage
+    // Rewards settled at an earlier utilization, paid with the next claim
+    mapping(uint256 => uint256) public accruedRewards;
 
-    // Cross-chain simulation
+    // Capacity units each consumer has reserved on a node
+    mapping(uint256 => mapping(address => uint256)) public capacityReservations;
+    // Jobs/consumers allowed to reserve capacity (besides the owner)
+    mapping(address => bool) public capacityConsumers;
+
+    // Cross-chain simulation: bridged nodes are locked in this contract
     mapping(uint256 => string) public crossChainBridges; // tokenId => destination chain
+    // Counts each node's bridges so the relayer can tell trips apart
+    mapping(uint256 => uint256) public bridgeNonces;
+    // Relayer that mirrors locked nodes on the destination chain and releases them
+    address public bridgeRelayer;
+    // Destination chains a relayer serves; nodes bridged elsewhere could never return
+    mapping(string => bool) public supportedChains;
 
     // Performance tracking
     mapping(uint256 => uint256) public lastPerformanceUpdate;
 
+    // Exit flow: when the owner asked to exit (0 = not exiting)
+    mapping(uint256 => uint256) public exitRequestedAt;
+
+    // ETH held as node stake, which emergencyWithdraw cannot touch
+    uint256 public totalStakedETH;
+
     // Reward calculation
     uint256 public constant PERFORMANCE_DECIMALS = 10000; // 100.00% = 10000
     uint256 public constant SLASHING_COOLDOWN = 7 days;
+    uint256 public constant UTILIZATION_BONUS = RewardMath.UTILIZATION_BONUS; // +50% rewards at full capacity
 
     // Contract addresses for integration
     address public participationContract;
     address public dpnTokenContract;
-    address public rewardCalculatorContract;
+    address public rewardCalculatorContract; // IRewardCalculator; unset uses RewardMath.linearReward
+    // Receives DPN slashed from node stakes
+    address public treasury;
+    // Pays claimed node rewards; needs this contract to hold its DISTRIBUTOR_ROLE
+    RewardPool public rewardPool;
 
     // ============ EVENTS ============
 
@@ -109,18 +139,65 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
     event CrossChainBridge(
         uint256 indexed tokenId,
         string destinationChain,
-        address operator
+        address operator,
+        uint256 bridgeNonce
     );
 
+    event NodeReturned(
+        uint256 indexed tokenId,
+        string sourceChain,
+        address indexed recipient
+    );
+
+    event BridgeRelayerUpdated(address indexed relayer);
+
+    event SupportedChainUpdated(string chain, bool supported);
+
+    // rewardAmount includes performanceBonus, the part earned by a score above 100%
     event RewardsDistributed(
         uint256 indexed tokenId,
         uint256 rewardAmount,
         uint256 performanceBonus
     );
 
+    event RewardPoolUpdated(address indexed rewardPool);
+
+    event RewardCalculatorUpdated(address indexed rewardCalculator);
+
+    event CapacityReserved(
+        uint256 indexed tokenId,
+        address indexed consumer,
+        uint256 units,
+        uint256 capacityUsed
+    );
+
+    event CapacityReleased(
+        uint256 indexed tokenId,
+        address indexed consumer,
+        uint256 units,
+        uint256 capacityUsed
+    );
+
+    event CapacityConsumerUpdated(address indexed consumer, bool allowed);
+
+    event ExitRequested(
+        uint256 indexed tokenId,
+        address indexed owner,
+        uint256 withdrawableAt
+    );
+
+    event NodeExited(
+        uint256 indexed tokenId,
+        address indexed owner,
+        uint256 ethReturned,
+        uint256 dpnReturned
+    );
+
     // ============ CONSTRUCTOR ============
 
     constructor() ERC721("DePIN Node Rights", "DEPIN") Ownable(msg.sender) {
+        treasury = msg.sender;
+
         // Initialize node type configurations
         _setupNodeTypes();
     }
@@ -143,8 +220,9 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
         require(msg.value >= config.minETHStake, "Insufficient ETH stake");
         require(dpnStakeAmount >= config.minDPNStake, "Insufficient DPN stake");
 
-        // Transfer DPN tokens (requires approval)
-        // Note: In full implementation, you'd call DPN token contract here
+        // Take custody of the DPN stake (requires approval)
+        _collectDPN(dpnStakeAmount);
+        totalStakedETH += msg.value;
 
         uint256 tokenId = _tokenIdCounter;
         _tokenIdCounter++;
@@ -185,10 +263,13 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
         require(_ownerOf(tokenId) != address(0), "Node does not exist");
         require(_ownerOf(tokenId) == msg.sender, "Not node owner");
         require(nodeRights[tokenId].status == NodeStatus.ACTIVE, "Node not active");
+        require(exitRequestedAt[tokenId] == 0, "Exit requested");
 
         NodeRights storage node = nodeRights[tokenId];
 
         // Update stakes
+        _collectDPN(additionalDPN);
+        totalStakedETH += msg.value;
         node.stakedETH += msg.value;
         node.stakedDPN += additionalDPN;
         node.isUpgraded = true;
@@ -238,7 +319,133 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Simulate cross-chain bridging
+     * @dev Pay a node's pending rewards to its owner in DPN and restart accrual
+     * @param tokenId Node to claim for
+     */
+    function claimNodeRewards(uint256 tokenId) external nonReentrant {
+        require(address(rewardPool) != address(0), "Reward pool not set");
+
+        uint256 amount = _claimRewards(tokenId);
+        if (amount > 0) {
+            rewardPool.payout(msg.sender, amount);
+        }
+    }
+
+    /**
+     * @dev Claim several nodes' rewards with a single payout
+     * @param tokenIds Nodes to claim for, all owned by the caller
+     */
+    function claimNodeRewardsBatch(uint256[] calldata tokenIds) external nonReentrant {
+        require(address(rewardPool) != address(0), "Reward pool not set");
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            total += _claimRewards(tokenIds[i]);
+        }
+        if (total > 0) {
+            rewardPool.payout(msg.sender, total);
+        }
+    }
+
+    /**
+     * @dev Reserve capacity units on a node for the caller's workload
+     * @param tokenId Node to allocate on
+     * @param units Units to add to the caller's reservation
+     */
+    function reserveCapacity(uint256 tokenId, uint256 units) external {
+        require(_ownerOf(tokenId) != address(0), "Node does not exist");
+        require(msg.sender == owner() || capacityConsumers[msg.sender], "Unauthorized");
+        require(units > 0, "Invalid units");
+
+        NodeRights storage node = nodeRights[tokenId];
+        require(node.status != NodeStatus.TERMINATED, "Node terminated");
+        require(exitRequestedAt[tokenId] == 0, "Exit requested");
+
+        uint256 used = nodeCapacityUsed[tokenId] + units;
+        require(used <= nodeTypeConfigs[node.nodeType].maxCapacity, "Capacity exceeded");
+
+        _settleRewards(tokenId);
+        nodeCapacityUsed[tokenId] = used;
+        capacityReservations[tokenId][msg.sender] += units;
+
+        emit CapacityReserved(tokenId, msg.sender, units, used);
+    }
+
+    /**
+     * @dev Release units the caller reserved; works on any node, even after it exited
+     * @param tokenId Node the units were reserved on
+     * @param units Units to release
+     */
+    function releaseCapacity(uint256 tokenId, uint256 units) external {
+        require(units > 0 && units <= capacityReservations[tokenId][msg.sender], "Invalid units");
+
+        _settleRewards(tokenId);
+        capacityReservations[tokenId][msg.sender] -= units;
+        nodeCapacityUsed[tokenId] -= units;
+
+        emit CapacityReleased(tokenId, msg.sender, units, nodeCapacityUsed[tokenId]);
+    }
+
+    /**
+     * @dev Start the exit cooldown; the node stays slashable until withdrawn
+     * @param tokenId Node to retire
+     */
+    function requestExit(uint256 tokenId) external {
+        require(_ownerOf(tokenId) != address(0), "Node does not exist");
+        require(_ownerOf(tokenId) == msg.sender, "Not node owner");
+        require(exitRequestedAt[tokenId] == 0, "Exit already requested");
+
+        exitRequestedAt[tokenId] = block.timestamp;
+
+        emit ExitRequested(tokenId, msg.sender, block.timestamp + SLASHING_COOLDOWN);
+    }
+
+    /**
+     * @dev Return the remaining stake and pay the rewards earned up to now, including
+     * during the cooldown, once it has passed; then burn the NFT
+     * @param tokenId Node to withdraw
+     */
+    function withdrawStake(uint256 tokenId) external nonReentrant {
+        require(_ownerOf(tokenId) != address(0), "Node does not exist");
+        require(_ownerOf(tokenId) == msg.sender, "Not node owner");
+        uint256 requestedAt = exitRequestedAt[tokenId];
+        require(requestedAt != 0, "Exit not requested");
+        require(block.timestamp >= requestedAt + SLASHING_COOLDOWN, "Cooldown active");
+
+        // Claimed before the burn; they could not be claimed afterwards
+        uint256 rewards = _claimRewards(tokenId);
+        require(rewards == 0 || address(rewardPool) != address(0), "Reward pool not set");
+
+        NodeRights storage node = nodeRights[tokenId];
+        uint256 ethAmount = node.stakedETH;
+        uint256 dpnAmount = node.stakedDPN;
+
+        // The record outlives the NFT, marked terminated with nothing staked
+        node.stakedETH = 0;
+        node.stakedDPN = 0;
+        node.status = NodeStatus.TERMINATED;
+        totalStakedETH -= ethAmount;
+
+        _burn(tokenId);
+
+        if (dpnAmount > 0) {
+            IERC20(dpnTokenContract).safeTransfer(msg.sender, dpnAmount);
+        }
+        if (ethAmount > 0) {
+            (bool sent, ) = payable(msg.sender).call{value: ethAmount}("");
+            require(sent, "ETH transfer failed");
+        }
+        if (rewards > 0) {
+            rewardPool.payout(msg.sender, rewards);
+        }
+
+        emit NodeExited(tokenId, msg.sender, ethAmount, dpnAmount);
+    }
+
+    /**
+     * @dev Lock a node in this contract so the bridge relayer can mint its
+     * wrapped copy on the destination chain. The node keeps earning rewards
+     * while locked; they are claimable once it returns.
      * @param tokenId Node to bridge
      * @param destinationChain Target chain identifier
      */
@@ -247,10 +454,32 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
     {
         require(_ownerOf(tokenId) != address(0), "Node does not exist");
         require(_ownerOf(tokenId) == msg.sender, "Not node owner");
+        require(supportedChains[destinationChain], "Unsupported chain");
 
         crossChainBridges[tokenId] = destinationChain;
+        uint256 nonce = ++bridgeNonces[tokenId];
+        _transfer(msg.sender, address(this), tokenId);
 
-        emit CrossChainBridge(tokenId, destinationChain, msg.sender);
+        emit CrossChainBridge(tokenId, destinationChain, msg.sender, nonce);
+    }
+
+    /**
+     * @dev Unlock a bridged node after its wrapped copy was burned on the destination chain
+     * @param tokenId Node to release
+     * @param recipient Holder of the wrapped token when it was burned
+     * @param bridgeNonce Nonce of the bridge the wrapped token was minted for
+     */
+    function releaseBridgedNode(uint256 tokenId, address recipient, uint256 bridgeNonce) external {
+        require(msg.sender == bridgeRelayer, "Not bridge relayer");
+        require(_ownerOf(tokenId) == address(this), "Node not bridged");
+        require(bridgeNonce == bridgeNonces[tokenId], "Stale bridge nonce");
+        require(recipient != address(0), "Invalid recipient");
+
+        string memory sourceChain = crossChainBridges[tokenId];
+        delete crossChainBridges[tokenId];
+        _transfer(address(this), recipient, tokenId);
+
+        emit NodeReturned(tokenId, sourceChain, recipient);
     }
 
     // ============ VIEW FUNCTIONS ============
@@ -273,7 +502,7 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
         node = nodeRights[tokenId];
         config = nodeTypeConfigs[node.nodeType];
         timeStaked = block.timestamp - node.mintedAt;
-        estimatedRewards = _calculatePendingRewards(tokenId);
+        estimatedRewards = accruedRewards[tokenId] + _calculatePendingRewards(tokenId);
     }
 
     /**
@@ -319,6 +548,28 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
         }
     }
 
+    /**
+     * @dev Reserved and total capacity across the live, non-terminated nodes of a type
+     */
+    function getNodeTypeUtilization(NodeType nodeType)
+        external
+        view
+        returns (uint256 capacityUsed, uint256 totalCapacity)
+    {
+        uint256 maxCapacity = nodeTypeConfigs[nodeType].maxCapacity;
+        uint256 supply = totalSupply();
+
+        for (uint256 i = 0; i < supply; i++) {
+            uint256 tokenId = tokenByIndex(i);
+            NodeRights storage node = nodeRights[tokenId];
+
+            if (node.nodeType == nodeType && node.status != NodeStatus.TERMINATED) {
+                capacityUsed += nodeCapacityUsed[tokenId];
+                totalCapacity += maxCapacity;
+            }
+        }
+    }
+
     // ============ INTERNAL FUNCTIONS ============
 
     function _setupNodeTypes() internal {
@@ -368,6 +619,9 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
 
     function _applySlashing(uint256 tokenId, NodeStatus newStatus) internal {
         NodeRights storage node = nodeRights[tokenId];
+        // Leaving ACTIVE forfeits pending rewards, and returning to it starts
+        // accrual afresh, so the slashed period is never paid
+        node.lastRewardClaim = block.timestamp;
         node.status = newStatus;
 
         string memory reason;
@@ -386,7 +640,7 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
 
         if (penalty > 0) {
             node.stakedDPN -= penalty;
-            // In full implementation: transfer penalty to treasury
+            IERC20(dpnTokenContract).safeTransfer(treasury, penalty);
         }
 
         emit NodeSlashed(tokenId, newStatus, penalty, reason);
@@ -398,18 +652,57 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
 
         if (node.status != NodeStatus.ACTIVE) return 0;
 
-        uint256 timeElapsed = block.timestamp - node.lastRewardClaim;
-        uint256 baseReward = config.baseRewardRate * timeElapsed;
+        RewardInput memory input = RewardInput({
+            tokenId: tokenId,
+            nodeType: uint8(node.nodeType),
+            baseRewardRate: config.baseRewardRate,
+            minETHStake: config.minETHStake,
+            maxCapacity: config.maxCapacity,
+            stakedETH: node.stakedETH,
+            performanceScore: node.performanceScore,
+            capacityUsed: nodeCapacityUsed[tokenId],
+            from: node.lastRewardClaim,
+            to: block.timestamp
+        });
+
+        if (rewardCalculatorContract == address(0)) {
+            return RewardMath.linearReward(input);
+        }
+        return IRewardCalculator(rewardCalculatorContract).calculateRewards(input);
+    }
+
+    function _claimRewards(uint256 tokenId) internal returns (uint256 amount) {
+        require(_ownerOf(tokenId) != address(0), "Node does not exist");
+        require(_ownerOf(tokenId) == msg.sender, "Not node owner");
+
+        NodeRights storage node = nodeRights[tokenId];
+        amount = accruedRewards[tokenId] + _calculatePendingRewards(tokenId);
+        accruedRewards[tokenId] = 0;
+        node.lastRewardClaim = block.timestamp;
+
+        // The multipliers are linear, so the bonus is the share above a 100% score
+        uint256 performanceBonus = 0;
+        if (node.performanceScore > PERFORMANCE_DECIMALS) {
+            performanceBonus = amount - (amount * PERFORMANCE_DECIMALS) / node.performanceScore;
+        }
 
-        // Apply performance multiplier
-        uint256 performanceMultiplier = node.performanceScore; // Already in basis points
-        uint256 adjustedReward = (baseReward * performanceMultiplier) / PERFORMANCE_DECIMALS;
+        emit RewardsDistributed(tokenId, amount, performanceBonus);
+    }
 
-        // Apply staking multiplier (more stake = more rewards)
-        uint256 stakingMultiplier = PERFORMANCE_DECIMALS +
-            ((node.stakedETH - config.minETHStake) * 1000) / config.minETHStake;
+    /**
+     * @dev Price the rewards earned so far at the current utilization before it
+     * changes, so a reservation only affects rewards from then on
+     */
+    function _settleRewards(uint256 tokenId) internal {
+        accruedRewards[tokenId] += _calculatePendingRewards(tokenId);
+        nodeRights[tokenId].lastRewardClaim = block.timestamp;
+    }
 
-        return (adjustedReward * stakingMultiplier) / PERFORMANCE_DECIMALS;
+    function _collectDPN(uint256 amount) internal {
+        require(dpnTokenContract != address(0), "DPN token not set");
+        if (amount > 0) {
+            IERC20(dpnTokenContract).safeTransferFrom(msg.sender, address(this), amount);
+        }
     }
 
     function _min(uint256 a, uint256 b) internal pure returns (uint256) {
@@ -423,9 +716,44 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
     }
 
     function setDPNTokenContract(address _dpnToken) external onlyOwner {
+        // Stakes already held are denominated in the current token
+        require(_tokenIdCounter == 0, "Stakes already held");
         dpnTokenContract = _dpnToken;
     }
 
+    function setRewardPool(RewardPool _rewardPool) external onlyOwner {
+        rewardPool = _rewardPool;
+        emit RewardPoolUpdated(address(_rewardPool));
+    }
+
+    // address(0) restores the built-in linear formula
+    function setRewardCalculatorContract(address _rewardCalculator) external onlyOwner {
+        rewardCalculatorContract = _rewardCalculator;
+        emit RewardCalculatorUpdated(_rewardCalculator);
+    }
+
+    function setCapacityConsumer(address consumer, bool allowed) external onlyOwner {
+        capacityConsumers[consumer] = allowed;
+        emit CapacityConsumerUpdated(consumer, allowed);
+    }
+
+    function setBridgeRelayer(address _relayer) external onlyOwner {
+        bridgeRelayer = _relayer;
+        emit BridgeRelayerUpdated(_relayer);
+    }
+
+    // Unsupporting a chain only blocks new bridges; nodes already there can still return
+    function setSupportedChain(string calldata chain, bool supported) external onlyOwner {
+        require(bytes(chain).length > 0, "Invalid chain");
+        supportedChains[chain] = supported;
+        emit SupportedChainUpdated(chain, supported);
+    }
+
+    function setTreasury(address _treasury) external onlyOwner {
+        require(_treasury != address(0), "Invalid treasury");
+        treasury = _treasury;
+    }
+
     function updateNodeTypeConfig(
         NodeType nodeType,
         uint256 minETHStake,
@@ -440,9 +768,9 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
         config.isActive = isActive;
     }
 
-    // Emergency functions
+    // Emergency functions: only ETH beyond the node stakes can be recovered
     function emergencyWithdraw() external onlyOwner {
-        payable(owner()).transfer(address(this).balance);
+        payable(owner()).transfer(address(this).balance - totalStakedETH);
     }
 
     // ============ REQUIRED OVERRIDES FOR OPENZEPPELIN V5 ============
@@ -454,8 +782,13 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
     {
         address previousOwner = super._update(to, tokenId, auth);
 
-        // Update ownership tracking
-        if (previousOwner != address(0) && to != address(0) && previousOwner != to) {
+        // Exiting nodes can only be burned by withdrawStake
+        if (previousOwner != address(0) && to != address(0)) {
+            require(exitRequestedAt[tokenId] == 0, "Exit requested");
+        }
+
+        // Update ownership tracking (mints are tracked in mintNodeRights)
+        if (previousOwner != address(0) && previousOwner != to) {
             // Remove from old owner's list
             uint256[] storage fromNodes = ownerNodes[previousOwner];
             for (uint256 i = 0; i < fromNodes.length; i++) {
@@ -466,8 +799,10 @@ contract NodeRightsNFT is ERC721, ERC721Enumerable, Ownable, ReentrancyGuard {
                 }
             }
 
-            // Add to new owner's list
-            ownerNodes[to].push(tokenId);
+            // Add to new owner's list (none on burn)
+            if (to != address(0)) {
+                ownerNodes[to].push(tokenId);
+            }
         }
 
         return previousOwner;
@@ -1,38 +1,306 @@
 pragma solidity ^0.8.0;
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "./NodeRegistry.sol";
+import "./RewardPool.sol";
 
-contract Participation is NodeRegistry {
+contract Participation is NodeRegistry, EIP712, AccessControl {
   struct Stats {
     uint256 uptime;
     uint256 lastUpdate;
     uint256 earned;
   }
+
+  // Uptime for one reporting window, signed (EIP-712) by the node owner
+  struct Heartbeat {
+    uint256 nodeId;
+    uint64 windowStart;
+    uint64 windowEnd;
+    uint32 heartbeats;      // Heartbeats the node sent during the window
+    uint32 uptimeMinutes;   // Minutes up; at most the window length
+    uint256 nonce;          // Must equal heartbeatNonces[nodeId]
+  }
+
+  // One staker's position on one node
+  struct Delegation {
+    uint256 amount;             // Active stake (wei)
+    uint256 rewardDebt;         // amount * accRewardPerStake already accounted for
+    uint256 rewards;            // Settled, unclaimed DPN wei
+    uint256 unstaking;          // Stake waiting out UNSTAKE_DELAY
+    uint256 unstakeAvailableAt;
+  }
+
+  // Oracles allowed to call recordUptime and relay signed heartbeats;
+  // managed by DEFAULT_ADMIN_ROLE
+  bytes32 public constant REPORTER_ROLE = keccak256("REPORTER_ROLE");
+
+  bytes32 public constant HEARTBEAT_TYPEHASH = keccak256(
+    "Heartbeat(uint256 nodeId,uint64 windowStart,uint64 windowEnd,uint32 heartbeats,uint32 uptimeMinutes,uint256 nonce)"
+  );
+
+  // Each unit of `earned` (one minute of uptime) pays 1 DPN from the reward pool
+  uint256 public constant REWARD_PER_UNIT = 1e18;
+  RewardPool public rewardPool;
+
   mapping(uint256 => Stats) public stats;
   mapping(uint256 => uint256) public nodeStakes;
+  // Next heartbeat nonce and end of the last accepted window, per node
+  mapping(uint256 => uint256) public heartbeatNonces;
+  mapping(uint256 => uint256) public lastWindowEnd;
+
+  // recordUptime and recordSignedUptime together credit a node at most
+  // reportingWindow / 1 minutes per window of that length (windows are
+  // aligned to multiples of it)
+  uint256 public reportingWindow = 1 days;
+  mapping(uint256 => uint256) public reportedWindow;
+  mapping(uint256 => uint256) public reportedInWindow;
+
+  // Delegated staking. nodeStakes is every active stake on a node; the
+  // owner's own stake earns through stats.earned, so only delegatedStakes
+  // (everyone else's) share in the delegators' cut of each uptime report.
+  uint256 public constant UNSTAKE_DELAY = 7 days;
+  uint256 public constant COMMISSION_DECIMALS = 10000; // 100.00% = 10000
+  uint256 public constant MAX_COMMISSION = 5000;
+  uint256 private constant ACC_PRECISION = 1e18;
+  // The owner's stake counts as at least this much in the split, so an
+  // operator staking elsewhere (e.g. NodeRightsNFT) still keeps a share
+  uint256 public constant OPERATOR_STAKE_FLOOR = 1 ether;
+
+  mapping(uint256 => mapping(address => Delegation)) public delegations;
+  mapping(uint256 => uint256) public delegatedStakes;
+  mapping(uint256 => uint256) public commissions;
+  // DPN wei earned per wei of delegated stake, scaled by ACC_PRECISION
+  mapping(uint256 => uint256) public accRewardPerStake;
+  // DPN wei of the operator's share not yet credited as a whole unit
+  mapping(uint256 => uint256) public operatorRemainders;
 
   event UptimeRecorded(uint256 indexed nodeId, uint256 minutesUp, uint256 timestamp);
+  event HeartbeatAccepted(uint256 indexed nodeId, uint256 nonce, uint256 windowStart, uint256 windowEnd, uint256 heartbeats);
+  event ReportingWindowUpdated(uint256 reportingWindow);
+  event RewardPoolUpdated(address indexed rewardPool);
   event RewardClaimed(uint256 indexed nodeId, address indexed owner, uint256 amount, uint256 timestamp);
   event StakeUpdated(uint256 indexed nodeId, address indexed staker, uint256 amount, uint256 timestamp);
+  event UnstakeRequested(uint256 indexed nodeId, address indexed staker, uint256 amount, uint256 availableAt);
+  event Unstaked(uint256 indexed nodeId, address indexed staker, uint256 amount);
+  event CommissionUpdated(uint256 indexed nodeId, uint256 commission);
+  // Both amounts in DPN wei
+  event RewardsShared(uint256 indexed nodeId, uint256 operatorAmount, uint256 delegatorAmount);
+  event DelegatorRewardClaimed(uint256 indexed nodeId, address indexed staker, uint256 amount, uint256 timestamp);
 
+  constructor() EIP712("DePIN Participation", "1") {
+    _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    _grantRole(REPORTER_ROLE, msg.sender);
+  }
 
-  function recordUptime(uint256 nodeId, uint256 minutesUp) external {
-    stats[nodeId].uptime += minutesUp;
-    stats[nodeId].lastUpdate = block.timestamp;
-    stats[nodeId].earned += minutesUp; // 1 token per minute (static rate)
-    emit UptimeRecorded(nodeId, minutesUp, block.timestamp);
+  function recordUptime(uint256 nodeId, uint256 minutesUp) external onlyRole(REPORTER_ROLE) {
+    require(nodes[nodeId].owner != address(0), "Node does not exist");
+    _consumeWindowCap(nodeId, minutesUp);
+    _recordUptime(nodeId, minutesUp);
   }
 
+  /**
+   * @dev Record uptime from heartbeats signed by each node's owner and relayed
+   * by a reporter, which vouches for them. A heartbeat is accepted once (its
+   * nonce is consumed), only for a window that has ended and does not overlap
+   * the node's previous one, and counts towards the same window cap as
+   * recordUptime.
+   */
+  function recordSignedUptime(
+    Heartbeat[] calldata heartbeats,
+    bytes[] calldata signatures
+  ) external onlyRole(REPORTER_ROLE) {
+    require(heartbeats.length == signatures.length, "Length mismatch");
+
+    for (uint256 i = 0; i < heartbeats.length; i++) {
+      Heartbeat calldata heartbeat = heartbeats[i];
+      address owner = nodes[heartbeat.nodeId].owner;
+      require(owner != address(0), "Node does not exist");
+      require(heartbeat.nonce == heartbeatNonces[heartbeat.nodeId], "Invalid nonce");
+      require(heartbeat.windowStart < heartbeat.windowEnd, "Empty window");
+      require(heartbeat.windowEnd <= block.timestamp, "Window not ended");
+      require(heartbeat.windowStart >= nodes[heartbeat.nodeId].registeredAt, "Window before registration");
+      require(heartbeat.windowStart >= lastWindowEnd[heartbeat.nodeId], "Window overlaps");
+      require(
+        uint256(heartbeat.uptimeMinutes) * 60 <= heartbeat.windowEnd - heartbeat.windowStart,
+        "Uptime exceeds window"
+      );
+      require(ECDSA.recover(_hashHeartbeat(heartbeat), signatures[i]) == owner, "Invalid signature");
+
+      heartbeatNonces[heartbeat.nodeId]++;
+      lastWindowEnd[heartbeat.nodeId] = heartbeat.windowEnd;
+      emit HeartbeatAccepted(
+        heartbeat.nodeId,
+        heartbeat.nonce,
+        heartbeat.windowStart,
+        heartbeat.windowEnd,
+        heartbeat.heartbeats
+      );
+      _consumeWindowCap(heartbeat.nodeId, heartbeat.uptimeMinutes);
+      _recordUptime(heartbeat.nodeId, heartbeat.uptimeMinutes);
+    }
+  }
+
+  function setReportingWindow(uint256 _reportingWindow) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    require(_reportingWindow >= 1 minutes, "Window too short");
+    reportingWindow = _reportingWindow;
+    emit ReportingWindowUpdated(_reportingWindow);
+  }
+
+  function setRewardPool(RewardPool _rewardPool) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    rewardPool = _rewardPool;
+    emit RewardPoolUpdated(address(_rewardPool));
+  }
+
+  /**
+   * @dev Pay the node's earned units to its owner as DPN. RewardClaimed
+   * reports the amount in units; REWARD_PER_UNIT DPN wei each were paid.
+   */
   function claimReward(uint256 nodeId) external {
     require(nodes[nodeId].owner == msg.sender, "Not owner");
+    require(address(rewardPool) != address(0), "Reward pool not set");
     uint256 amount = stats[nodeId].earned;
     stats[nodeId].earned = 0;
     emit RewardClaimed(nodeId, msg.sender, amount, block.timestamp);
-    // optionally mint tokens
+    if (amount > 0) {
+      rewardPool.payout(msg.sender, amount * REWARD_PER_UNIT);
+    }
   }
 
   function stakeToNode(uint256 nodeId) external payable {
     require(msg.value > 0, "Send funds");
-    nodeStakes[nodeId] += msg.value;
+    require(nodes[nodeId].owner != address(0), "Node does not exist");
+    _setDelegation(nodeId, msg.sender, delegations[nodeId][msg.sender].amount + msg.value);
     emit StakeUpdated(nodeId, msg.sender, msg.value, block.timestamp);
   }
+
+  /**
+   * @dev Stop `amount` of the caller's stake earning now; it can be withdrawn
+   * after UNSTAKE_DELAY. A further request restarts the delay for the total.
+   */
+  function requestUnstake(uint256 nodeId, uint256 amount) external {
+    Delegation storage delegation = delegations[nodeId][msg.sender];
+    require(amount > 0 && amount <= delegation.amount, "Invalid amount");
+
+    _setDelegation(nodeId, msg.sender, delegation.amount - amount);
+    delegation.unstaking += amount;
+    delegation.unstakeAvailableAt = block.timestamp + UNSTAKE_DELAY;
+    emit UnstakeRequested(nodeId, msg.sender, amount, delegation.unstakeAvailableAt);
+  }
+
+  function withdrawUnstaked(uint256 nodeId) external {
+    Delegation storage delegation = delegations[nodeId][msg.sender];
+    uint256 amount = delegation.unstaking;
+    require(amount > 0, "Nothing to withdraw");
+    require(block.timestamp >= delegation.unstakeAvailableAt, "Unstake delay active");
+
+    delegation.unstaking = 0;
+    emit Unstaked(nodeId, msg.sender, amount);
+    (bool sent, ) = payable(msg.sender).call{value: amount}("");
+    require(sent, "ETH transfer failed");
+  }
+
+  // Share of each uptime report the operator keeps from the delegators' part
+  function setCommission(uint256 nodeId, uint256 commission) external {
+    require(nodes[nodeId].owner == msg.sender, "Not owner");
+    require(commission <= MAX_COMMISSION, "Commission too high");
+    commissions[nodeId] = commission;
+    emit CommissionUpdated(nodeId, commission);
+  }
+
+  function claimDelegatorReward(uint256 nodeId) external {
+    require(address(rewardPool) != address(0), "Reward pool not set");
+    Delegation storage delegation = delegations[nodeId][msg.sender];
+    _setDelegation(nodeId, msg.sender, delegation.amount);
+    uint256 amount = delegation.rewards;
+    delegation.rewards = 0;
+    emit DelegatorRewardClaimed(nodeId, msg.sender, amount, block.timestamp);
+    if (amount > 0) {
+      rewardPool.payout(msg.sender, amount);
+    }
+  }
+
+  // Unclaimed DPN wei of a delegator; always 0 for the node owner
+  function pendingDelegatorReward(uint256 nodeId, address staker) external view returns (uint256) {
+    if (staker == nodes[nodeId].owner) return 0;
+    Delegation storage delegation = delegations[nodeId][staker];
+    return delegation.rewards
+      + (delegation.amount * accRewardPerStake[nodeId]) / ACC_PRECISION
+      - delegation.rewardDebt;
+  }
+
+  /**
+   * @dev Each minute earns one unit, split pro rata between the owner's stake
+   * (at least OPERATOR_STAKE_FLOOR) and delegatedStakes; the operator also
+   * keeps its commission on the delegators' part. The split is made in DPN wei; the operator is credited
+   * in whole units and carries the rest of its share to the next report in
+   * operatorRemainders.
+   */
+  function _recordUptime(uint256 nodeId, uint256 minutesUp) internal {
+    stats[nodeId].uptime += minutesUp;
+    stats[nodeId].lastUpdate = block.timestamp;
+
+    uint256 delegated = delegatedStakes[nodeId];
+    if (delegated == 0) {
+      stats[nodeId].earned += minutesUp;
+      emit UptimeRecorded(nodeId, minutesUp, block.timestamp);
+      return;
+    }
+
+    uint256 operatorStake = nodeStakes[nodeId] - delegated;
+    if (operatorStake < OPERATOR_STAKE_FLOOR) {
+      operatorStake = OPERATOR_STAKE_FLOOR;
+    }
+    uint256 reward = minutesUp * REWARD_PER_UNIT;
+    uint256 delegatorAmount = (reward * delegated * (COMMISSION_DECIMALS - commissions[nodeId]))
+      / ((operatorStake + delegated) * COMMISSION_DECIMALS);
+    accRewardPerStake[nodeId] += (delegatorAmount * ACC_PRECISION) / delegated;
+
+    uint256 operatorAmount = reward - delegatorAmount;
+    uint256 operatorWei = operatorRemainders[nodeId] + operatorAmount;
+    stats[nodeId].earned += operatorWei / REWARD_PER_UNIT;
+    operatorRemainders[nodeId] = operatorWei % REWARD_PER_UNIT;
+
+    emit UptimeRecorded(nodeId, minutesUp, block.timestamp);
+    emit RewardsShared(nodeId, operatorAmount, delegatorAmount);
+  }
+
+  function _consumeWindowCap(uint256 nodeId, uint256 minutesUp) internal {
+    uint256 window = block.timestamp / reportingWindow;
+    if (reportedWindow[nodeId] != window) {
+      reportedWindow[nodeId] = window;
+      reportedInWindow[nodeId] = 0;
+    }
+    require(reportedInWindow[nodeId] + minutesUp <= reportingWindow / 1 minutes, "Exceeds window cap");
+    reportedInWindow[nodeId] += minutesUp;
+  }
+
+  // Settle the staker's rewards at the old amount, then move it to `amount`
+  function _setDelegation(uint256 nodeId, address staker, uint256 amount) internal {
+    Delegation storage delegation = delegations[nodeId][staker];
+    if (staker != nodes[nodeId].owner) {
+      uint256 acc = accRewardPerStake[nodeId];
+      delegation.rewards += (delegation.amount * acc) / ACC_PRECISION - delegation.rewardDebt;
+      delegation.rewardDebt = (amount * acc) / ACC_PRECISION;
+      delegatedStakes[nodeId] = delegatedStakes[nodeId] + amount - delegation.amount;
+    }
+    nodeStakes[nodeId] = nodeStakes[nodeId] + amount - delegation.amount;
+    delegation.amount = amount;
+  }
+
+  function _hashHeartbeat(Heartbeat calldata heartbeat) internal view returns (bytes32) {
+    return _hashTypedDataV4(
+      keccak256(
+        abi.encode(
+          HEARTBEAT_TYPEHASH,
+          heartbeat.nodeId,
+          heartbeat.windowStart,
+          heartbeat.windowEnd,
+          heartbeat.heartbeats,
+          heartbeat.uptimeMinutes,
+          heartbeat.nonce
+        )
+      )
+    );
+  }
 }
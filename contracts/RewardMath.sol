@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./IRewardCalculator.sol";
+
+/**
+ * @title RewardMath
+ * @dev The multipliers NodeRightsNFT applies to a node's base reward, shared by
+ * its built-in formula and the IRewardCalculator implementations.
+ */
+library RewardMath {
+    uint256 internal constant PERFORMANCE_DECIMALS = 10000; // 100.00% = 10000
+    uint256 internal constant UTILIZATION_BONUS = 5000; // +50% rewards at full capacity
+
+    /**
+     * @dev Scale a base reward by performance, stake above the minimum and reserved capacity
+     */
+    function applyMultipliers(RewardInput memory input, uint256 baseReward) internal pure returns (uint256) {
+        // Apply performance multiplier
+        uint256 adjustedReward = (baseReward * input.performanceScore) / PERFORMANCE_DECIMALS;
+
+        // Apply staking multiplier (more stake = more rewards)
+        uint256 stakingMultiplier = PERFORMANCE_DECIMALS +
+            ((input.stakedETH - input.minETHStake) * 1000) / input.minETHStake;
+        uint256 stakedReward = (adjustedReward * stakingMultiplier) / PERFORMANCE_DECIMALS;
+
+        // Apply utilization multiplier (reserved capacity earns up to UTILIZATION_BONUS more)
+        uint256 utilizationMultiplier = PERFORMANCE_DECIMALS;
+        if (input.maxCapacity > 0) {
+            utilizationMultiplier += (input.capacityUsed * UTILIZATION_BONUS) / input.maxCapacity;
+        }
+
+        return (stakedReward * utilizationMultiplier) / PERFORMANCE_DECIMALS;
+    }
+
+    /**
+     * @dev baseRewardRate for every second of the period
+     */
+    function linearReward(RewardInput memory input) internal pure returns (uint256) {
+        return applyMultipliers(input, input.baseRewardRate * (input.to - input.from));
+    }
+}
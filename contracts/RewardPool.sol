@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./DPNToken.sol";
+
+/**
+ * @title RewardPool
+ * @dev Pays DPN rewards on behalf of distributor contracts (Participation).
+ * Payouts come out of the pool's DPN balance first and any shortfall is
+ * minted, up to the remaining mintAllowance; the pool must be DPNToken's
+ * minter for that. A payout larger than balance + mintAllowance reverts.
+ */
+contract RewardPool is AccessControl {
+    using SafeERC20 for IERC20;
+
+    bytes32 public constant DISTRIBUTOR_ROLE = keccak256("DISTRIBUTOR_ROLE");
+
+    DPNToken public immutable dpnToken;
+    // DPN the pool may still mint on top of its balance
+    uint256 public mintAllowance;
+    uint256 public totalPaid;
+
+    event RewardPaid(address indexed distributor, address indexed to, uint256 amount, uint256 minted);
+    event MintAllowanceUpdated(uint256 mintAllowance);
+
+    constructor(DPNToken _dpnToken, uint256 _mintAllowance) {
+        dpnToken = _dpnToken;
+        mintAllowance = _mintAllowance;
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    }
+
+    /**
+     * @dev DPN the pool can still pay out
+     */
+    function available() public view returns (uint256) {
+        return dpnToken.balanceOf(address(this)) + mintAllowance;
+    }
+
+    function payout(address to, uint256 amount) external onlyRole(DISTRIBUTOR_ROLE) {
+        require(amount <= available(), "Reward pool exhausted");
+
+        uint256 balance = dpnToken.balanceOf(address(this));
+        uint256 minted = amount > balance ? amount - balance : 0;
+        if (minted > 0) {
+            mintAllowance -= minted;
+            dpnToken.mint(address(this), minted);
+        }
+
+        totalPaid += amount;
+        IERC20(address(dpnToken)).safeTransfer(to, amount);
+        emit RewardPaid(msg.sender, to, amount, minted);
+    }
+
+    function setMintAllowance(uint256 _mintAllowance) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        mintAllowance = _mintAllowance;
+        emit MintAllowanceUpdated(_mintAllowance);
+    }
+}
@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title WrappedNodeRights
+ * @dev Destination-chain copy of NodeRightsNFT nodes locked by bridgeToChain.
+ * The bridge relayer mints each wrapped token under its origin tokenId; the
+ * holder burns it with bridgeBack and the relayer releases the original node
+ * to them on the origin chain. Bridge nonces from the origin chain make every
+ * trip relayable once only.
+ */
+contract WrappedNodeRights is ERC721, Ownable {
+    struct WrappedNode {
+        uint8 nodeType;             // NodeRightsNFT.NodeType
+        uint256 stakedETH;          // Stake locked on the origin chain
+        uint256 performanceScore;   // Score when bridged, 10000 = 100.00%
+        string metadata;
+        uint256 bridgeNonce;        // NodeRightsNFT.bridgeNonces when bridged
+        uint256 wrappedAt;          // 0 = not wrapped
+    }
+
+    uint256 public immutable originChainId;
+    address public immutable originContract;
+
+    // Only the relayer mints wrapped nodes
+    address public relayer;
+
+    mapping(uint256 => WrappedNode) public wrappedNodes;
+    // Highest bridge nonce minted per tokenId
+    mapping(uint256 => uint256) public relayedNonces;
+
+    event WrappedNodeMinted(
+        uint256 indexed tokenId,
+        address indexed owner,
+        uint8 nodeType
+    );
+
+    event BridgeBackRequested(
+        uint256 indexed tokenId,
+        address indexed owner,
+        uint256 bridgeNonce
+    );
+
+    event RelayerUpdated(address indexed relayer);
+
+    /**
+     * @param _originChainId Chain id of the origin NodeRightsNFT
+     * @param _originContract NodeRightsNFT address on the origin chain
+     * @param _relayer Bridge relayer account
+     */
+    constructor(uint256 _originChainId, address _originContract, address _relayer)
+        ERC721("Wrapped DePIN Node Rights", "wDEPIN")
+        Ownable(msg.sender)
+    {
+        originChainId = _originChainId;
+        originContract = _originContract;
+        relayer = _relayer;
+    }
+
+    /**
+     * @dev Mirror a node locked on the origin chain
+     * @param to Operator that bridged the node
+     * @param tokenId Origin tokenId
+     * @param bridgeNonce Nonce from the origin CrossChainBridge event
+     */
+    function mintWrapped(
+        address to,
+        uint256 tokenId,
+        uint256 bridgeNonce,
+        uint8 nodeType,
+        uint256 stakedETH,
+        uint256 performanceScore,
+        string calldata metadata
+    ) external {
+        require(msg.sender == relayer, "Not bridge relayer");
+        require(bridgeNonce > relayedNonces[tokenId], "Already relayed");
+        require(_ownerOf(tokenId) == address(0), "Already wrapped");
+
+        relayedNonces[tokenId] = bridgeNonce;
+        wrappedNodes[tokenId] = WrappedNode({
+            nodeType: nodeType,
+            stakedETH: stakedETH,
+            performanceScore: performanceScore,
+            metadata: metadata,
+            bridgeNonce: bridgeNonce,
+            wrappedAt: block.timestamp
+        });
+        _mint(to, tokenId);
+
+        emit WrappedNodeMinted(tokenId, to, nodeType);
+    }
+
+    /**
+     * @dev Burn a wrapped node so the relayer returns the original to the caller
+     */
+    function bridgeBack(uint256 tokenId) external {
+        require(_ownerOf(tokenId) == msg.sender, "Not token owner");
+
+        uint256 nonce = wrappedNodes[tokenId].bridgeNonce;
+        delete wrappedNodes[tokenId];
+        _burn(tokenId);
+
+        emit BridgeBackRequested(tokenId, msg.sender, nonce);
+    }
+
+    function setRelayer(address _relayer) external onlyOwner {
+        relayer = _relayer;
+        emit RelayerUpdated(_relayer);
+    }
+}
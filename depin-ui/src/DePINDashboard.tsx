@@ -1,40 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, BarChart, Bar, ResponsiveContainer } from 'recharts';
+import { BrowserProvider, JsonRpcProvider, formatEther, parseEther } from 'ethers';
+import { NodeRightsNFT__factory, Participation__factory } from '@depin/contracts-client';
+import deployment from './deployment.json';
 
 // Add MetaMask types
 declare global {
     interface Window {
         ethereum?: any;
-        ethers?: any;
     }
 }
 
-// Contract addresses and ABIs
+// Contract addresses (deployment.json is generated by scripts/deploy.ts)
 const CONTRACT_ADDRESSES = {
-    NODE_REGISTRY: '0x2279B7A0a67DB372996a5FaB50D91eAA73d2eBe6',
-    PARTICIPATION: '0x5FbDB2315678afecb367f032d93F642f64180aa3', // Update with your actual address
-    DPN_TOKEN: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512' // Update with your actual address
+    PARTICIPATION: deployment.contracts.Participation.address, // Participation also serves as the NodeRegistry
+    DPN_TOKEN: deployment.contracts.DPNToken.address,
+    NODE_RIGHTS: deployment.contracts.NodeRightsNFT.address
 };
 
-const NODE_REGISTRY_ABI = [
-    "function registerNode(string memory metadata) external",
-    "function getNode(uint256 nodeId) external view returns (address owner, string memory metadata, bool isActive)",
-    "function getNodeCount() external view returns (uint256)"
-];
-
-const PARTICIPATION_ABI = [
-    "function stakeForNode(uint256 nodeId) external payable",
-    "function claimRewards(uint256 nodeId) external",
-    "function getStake(uint256 nodeId) external view returns (uint256)",
-    "function getRewards(address user) external view returns (uint256)",
-    "function getNodeOwner(uint256 nodeId) external view returns (address)"
-];
-
-const DPN_TOKEN_ABI = [
-    "function balanceOf(address account) external view returns (uint256)",
-    "function transfer(address to, uint256 amount) external returns (bool)"
-];
-
 const GRAPHQL_ENDPOINT = 'http://localhost:8000/subgraphs/name/participation-subgraph';
 const RPC_ENDPOINT = 'http://localhost:4000/rpc';
 
@@ -42,42 +25,86 @@ const RPC_ENDPOINT = 'http://localhost:4000/rpc';
 const formatAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
 const formatEth = (wei: string | number): string => (parseFloat(wei.toString()) / 1e18).toFixed(2);
 const formatTime = (timestamp: string): string => new Date(parseInt(timestamp) * 1000).toLocaleString();
+const formatCountdown = (seconds: number): string => {
+    const days = Math.floor(seconds / 86400);
+    const clock = [Math.floor(seconds / 3600) % 24, Math.floor(seconds / 60) % 60, seconds % 60]
+        .map(part => part.toString().padStart(2, '0'))
+        .join(':');
+    return days > 0 ? `${days}d ${clock}` : clock;
+};
 
 interface Node {
     id: string;
     nodeId: string;
     owner: string;
     timestamp: string;
+    totalStaked: string;
+    totalUptimeMinutes: string;
+    totalClaimed: string;
+    pendingEarned: string;
+    stakerCount: number;
 }
 
-interface Stake {
+// A NodeRightsNFT still held by the connected wallet (exitedAt is null)
+interface NodeRightPosition {
     id: string;
-    nodeId: string;
-    staker: string;
-    amount: string;
-    timestamp: string;
+    tokenId: string;
+    nodeType: string;
+    status: string;
+    stakedETH: string;
+    stakedDPN: string;
+    exitRequestedAt: string | null;
+    withdrawableAt: string | null;
+    // getNodeDetails(tokenId).estimatedRewards, in DPN wei
+    pendingRewards: string;
 }
 
-interface Reward {
+// The connected wallet's stake on one node, with its unclaimed DPN read from the contract
+interface DelegationPosition {
     id: string;
-    nodeId: string;
-    owner: string;
+    node: { nodeId: string; owner: string; commission: string };
     amount: string;
-    timestamp: string;
+    unstaking: string;
+    unstakeAvailableAt: string | null;
+    totalRewardsClaimed: string;
+    pendingReward: string;
+}
+
+// NodeRightsNFT.getNodeTypeUtilization for one NodeType
+interface CapacityUtilization {
+    nodeType: string;
+    capacityUsed: number;
+    totalCapacity: number;
+}
+
+interface NetworkDayData {
+    date: number;
+    claimedRewards: string;
+    cumulativeClaimed: string;
+}
+
+interface TokenStats {
+    totalSupply: string;
+    holderCount: number;
+    transferCount: string;
 }
 
-interface Uptime {
+interface TokenHolder {
     id: string;
-    nodeId: string;
-    minutesUp: string;
+    balance: string;
+}
+
+interface BalanceSnapshot {
+    balance: string;
+    delta: string;
     timestamp: string;
 }
 
 interface SubgraphData {
     nodes: Node[];
-    stakes: Stake[];
-    rewards: Reward[];
-    uptimes: Uptime[];
+    networkDayDatas: NetworkDayData[];
+    tokens: TokenStats[];
+    accounts: TokenHolder[];
 }
 
 interface WalletState {
@@ -87,9 +114,11 @@ interface WalletState {
     balance: string;
 }
 
+type TransactionType = 'stake' | 'claim' | 'register' | 'exit' | 'withdraw' | 'unstake';
+
 interface Transaction {
     hash: string;
-    type: 'stake' | 'claim' | 'register';
+    type: TransactionType;
     status: 'pending' | 'confirmed' | 'failed';
     nodeId?: string;
     amount?: string;
@@ -109,9 +138,9 @@ interface RegisterModalState {
 const DePINDashboard: React.FC = () => {
     const [data, setData] = useState<SubgraphData>({
         nodes: [],
-        stakes: [],
-        rewards: [],
-        uptimes: []
+        networkDayDatas: [],
+        tokens: [],
+        accounts: []
     });
     const [loading, setLoading] = useState<boolean>(true);
     const [searchTerm, setSearchTerm] = useState<string>('');
@@ -133,17 +162,21 @@ const DePINDashboard: React.FC = () => {
     const [stakeModal, setStakeModal] = useState<StakeModalState>({ isOpen: false, nodeId: '', amount: '' });
     const [registerModal, setRegisterModal] = useState<RegisterModalState>({ isOpen: false, metadata: '' });
     const [userDpnBalance, setUserDpnBalance] = useState<string>('0');
+    const [userBalanceHistory, setUserBalanceHistory] = useState<BalanceSnapshot[]>([]);
+    const [userNodeRights, setUserNodeRights] = useState<NodeRightPosition[]>([]);
+    const [userDelegations, setUserDelegations] = useState<DelegationPosition[]>([]);
+    const [now, setNow] = useState<number>(Math.floor(Date.now() / 1000));
+    const [capacityUtilization, setCapacityUtilization] = useState<CapacityUtilization[]>([]);
 
     // Contract interaction functions
-    const getContract = (address: string, abi: string[]) => {
+    const getSigner = async () => {
         if (!window.ethereum) throw new Error('MetaMask not available');
 
-        const provider = new (window as any).ethers.providers.Web3Provider(window.ethereum);
-        const signer = provider.getSigner();
-        return new (window as any).ethers.Contract(address, abi, signer);
+        const provider = new BrowserProvider(window.ethereum);
+        return provider.getSigner();
     };
 
-    const addTransaction = (hash: string, type: 'stake' | 'claim' | 'register', nodeId?: string, amount?: string) => {
+    const addTransaction = (hash: string, type: TransactionType, nodeId?: string, amount?: string) => {
         const newTx: Transaction = { hash, type, status: 'pending', nodeId, amount };
         setTransactions(prev => [newTx, ...prev]);
         return newTx;
@@ -162,10 +195,10 @@ const DePINDashboard: React.FC = () => {
         }
 
         try {
-            const contract = getContract(CONTRACT_ADDRESSES.PARTICIPATION, PARTICIPATION_ABI);
-            const amountWei = (window as any).ethers.utils.parseEther(amount);
+            const contract = Participation__factory.connect(CONTRACT_ADDRESSES.PARTICIPATION, await getSigner());
+            const amountWei = parseEther(amount);
 
-            const tx = await contract.stakeForNode(nodeId, { value: amountWei });
+            const tx = await contract.stakeToNode(nodeId, { value: amountWei });
             addTransaction(tx.hash, 'stake', nodeId, amount);
 
             showNotification('success', `Staking transaction submitted! Hash: ${tx.hash.slice(0, 10)}...`);
@@ -173,10 +206,11 @@ const DePINDashboard: React.FC = () => {
 
             // Wait for confirmation
             const receipt = await tx.wait();
-            if (receipt.status === 1) {
+            if (receipt?.status === 1) {
                 updateTransaction(tx.hash, 'confirmed');
                 showNotification('success', `Successfully staked ${amount} ETH on Node ${nodeId}!`);
                 fetchSubgraphData(); // Refresh data
+                fetchUserDelegations();
             } else {
                 updateTransaction(tx.hash, 'failed');
                 showNotification('error', 'Transaction failed');
@@ -194,16 +228,21 @@ const DePINDashboard: React.FC = () => {
         }
 
         try {
-            const contract = getContract(CONTRACT_ADDRESSES.PARTICIPATION, PARTICIPATION_ABI);
-            const tx = await contract.claimRewards(nodeId);
+            const contract = Participation__factory.connect(CONTRACT_ADDRESSES.PARTICIPATION, await getSigner());
+            const tx = await contract.claimReward(nodeId);
             addTransaction(tx.hash, 'claim', nodeId);
 
             showNotification('success', `Claim transaction submitted! Hash: ${tx.hash.slice(0, 10)}...`);
 
             const receipt = await tx.wait();
-            if (receipt.status === 1) {
+            if (receipt?.status === 1) {
                 updateTransaction(tx.hash, 'confirmed');
-                showNotification('success', `Successfully claimed rewards for Node ${nodeId}!`);
+                // RewardClaimed reports earned units; each pays 1 DPN from the RewardPool
+                const claimed = receipt.logs
+                    .map((log) => contract.interface.parseLog(log))
+                    .find((event) => event?.name === 'RewardClaimed');
+                const amount = claimed ? claimed.args.amount.toString() : '0';
+                showNotification('success', `Claimed ${amount} DPN for Node ${nodeId}!`);
                 fetchSubgraphData(); // Refresh data
                 fetchUserDpnBalance(); // Update DPN balance
             } else {
@@ -223,7 +262,7 @@ const DePINDashboard: React.FC = () => {
         }
 
         try {
-            const contract = getContract(CONTRACT_ADDRESSES.NODE_REGISTRY, NODE_REGISTRY_ABI);
+            const contract = Participation__factory.connect(CONTRACT_ADDRESSES.PARTICIPATION, await getSigner());
             const tx = await contract.registerNode(metadata);
             addTransaction(tx.hash, 'register');
 
@@ -231,7 +270,7 @@ const DePINDashboard: React.FC = () => {
             setRegisterModal({ isOpen: false, metadata: '' });
 
             const receipt = await tx.wait();
-            if (receipt.status === 1) {
+            if (receipt?.status === 1) {
                 updateTransaction(tx.hash, 'confirmed');
                 showNotification('success', `Successfully registered new node!`);
                 fetchSubgraphData(); // Refresh data
@@ -245,13 +284,250 @@ const DePINDashboard: React.FC = () => {
         }
     };
 
+    const requestNodeExit = async (tokenId: string) => {
+        if (!wallet.isConnected) {
+            showNotification('error', 'Please connect your wallet first');
+            return;
+        }
+
+        try {
+            const contract = NodeRightsNFT__factory.connect(CONTRACT_ADDRESSES.NODE_RIGHTS, await getSigner());
+            const tx = await contract.requestExit(tokenId);
+            addTransaction(tx.hash, 'exit', tokenId);
+
+            showNotification('success', `Exit request submitted! Hash: ${tx.hash.slice(0, 10)}...`);
+
+            const receipt = await tx.wait();
+            if (receipt?.status === 1) {
+                updateTransaction(tx.hash, 'confirmed');
+                showNotification('success', `Exit requested for Node Rights #${tokenId}; the cooldown has started`);
+                fetchUserNodeRights();
+            } else {
+                updateTransaction(tx.hash, 'failed');
+                showNotification('error', 'Transaction failed');
+            }
+        } catch (error: any) {
+            console.error('Exit request error:', error);
+            showNotification('error', `Exit request failed: ${error.message || 'Unknown error'}`);
+        }
+    };
+
+    // Claims one node, or every listed node with claimNodeRewardsBatch when tokenId is omitted
+    const claimNodeRewards = async (tokenId?: string) => {
+        if (!wallet.isConnected) {
+            showNotification('error', 'Please connect your wallet first');
+            return;
+        }
+
+        try {
+            const contract = NodeRightsNFT__factory.connect(CONTRACT_ADDRESSES.NODE_RIGHTS, await getSigner());
+            const tx = tokenId === undefined
+                ? await contract.claimNodeRewardsBatch(userNodeRights.map(node => node.tokenId))
+                : await contract.claimNodeRewards(tokenId);
+            addTransaction(tx.hash, 'claim', tokenId);
+
+            showNotification('success', `Claim transaction submitted! Hash: ${tx.hash.slice(0, 10)}...`);
+
+            const receipt = await tx.wait();
+            if (receipt?.status === 1) {
+                updateTransaction(tx.hash, 'confirmed');
+                const distributed = receipt.logs
+                    .filter((log) => log.address === CONTRACT_ADDRESSES.NODE_RIGHTS)
+                    .map((log) => contract.interface.parseLog(log))
+                    .filter((event) => event?.name === 'RewardsDistributed');
+                const total = distributed.reduce((sum, event) => sum + event!.args.rewardAmount, BigInt(0));
+                const bonus = distributed.reduce((sum, event) => sum + event!.args.performanceBonus, BigInt(0));
+                showNotification('success', `Claimed ${parseFloat(formatEther(total)).toFixed(4)} DPN ` +
+                    `(${parseFloat(formatEther(bonus)).toFixed(4)} performance bonus)`);
+                fetchUserNodeRights();
+                fetchUserDpnBalance();
+            } else {
+                updateTransaction(tx.hash, 'failed');
+                showNotification('error', 'Transaction failed');
+            }
+        } catch (error: any) {
+            console.error('Node reward claim error:', error);
+            showNotification('error', `Claim failed: ${error.message || 'Unknown error'}`);
+        }
+    };
+
+    const withdrawNodeStake = async (tokenId: string) => {
+        if (!wallet.isConnected) {
+            showNotification('error', 'Please connect your wallet first');
+            return;
+        }
+
+        try {
+            const contract = NodeRightsNFT__factory.connect(CONTRACT_ADDRESSES.NODE_RIGHTS, await getSigner());
+            const tx = await contract.withdrawStake(tokenId);
+            addTransaction(tx.hash, 'withdraw', tokenId);
+
+            showNotification('success', `Withdrawal submitted! Hash: ${tx.hash.slice(0, 10)}...`);
+
+            const receipt = await tx.wait();
+            if (receipt?.status === 1) {
+                updateTransaction(tx.hash, 'confirmed');
+                const exited = receipt.logs
+                    .filter((log) => log.address === CONTRACT_ADDRESSES.NODE_RIGHTS)
+                    .map((log) => contract.interface.parseLog(log))
+                    .find((event) => event?.name === 'NodeExited');
+                const returned = exited
+                    ? `${formatEther(exited.args.ethReturned)} ETH and ${formatEther(exited.args.dpnReturned)} DPN`
+                    : 'stake';
+                showNotification('success', `Withdrew ${returned} from Node Rights #${tokenId}`);
+                fetchUserNodeRights();
+                fetchUserDpnBalance();
+            } else {
+                updateTransaction(tx.hash, 'failed');
+                showNotification('error', 'Transaction failed');
+            }
+        } catch (error: any) {
+            console.error('Withdrawal error:', error);
+            showNotification('error', `Withdrawal failed: ${error.message || 'Unknown error'}`);
+        }
+    };
+
+    // Runs one delegation action and refreshes the delegation view once it confirms
+    const sendDelegationTx = async (
+        nodeId: string,
+        type: TransactionType,
+        send: (contract: ReturnType<typeof Participation__factory.connect>) => Promise<any>,
+        successMessage: string
+    ) => {
+        if (!wallet.isConnected) {
+            showNotification('error', 'Please connect your wallet first');
+            return;
+        }
+
+        try {
+            const contract = Participation__factory.connect(CONTRACT_ADDRESSES.PARTICIPATION, await getSigner());
+            const tx = await send(contract);
+            addTransaction(tx.hash, type, nodeId);
+
+            showNotification('success', `Transaction submitted! Hash: ${tx.hash.slice(0, 10)}...`);
+
+            const receipt = await tx.wait();
+            if (receipt?.status === 1) {
+                updateTransaction(tx.hash, 'confirmed');
+                showNotification('success', successMessage);
+                fetchUserDelegations();
+                fetchUserDpnBalance();
+            } else {
+                updateTransaction(tx.hash, 'failed');
+                showNotification('error', 'Transaction failed');
+            }
+        } catch (error: any) {
+            console.error('Delegation error:', error);
+            showNotification('error', `Transaction failed: ${error.message || 'Unknown error'}`);
+        }
+    };
+
+    const fetchUserDelegations = async () => {
+        if (!wallet.account) return;
+
+        try {
+            const query = `
+        query StakerDelegations($staker: Bytes!) {
+          nodeStakers(where: { staker: $staker }) {
+            id
+            node {
+              nodeId
+              owner
+              commission
+            }
+            amount
+            unstaking
+            unstakeAvailableAt
+            totalRewardsClaimed
+          }
+        }
+      `;
+
+            const response = await fetch(GRAPHQL_ENDPOINT, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ query, variables: { staker: wallet.account.toLowerCase() } }),
+            });
+
+            const result = await response.json();
+            const delegations: Omit<DelegationPosition, 'pendingReward'>[] = (result.data?.nodeStakers ?? [])
+                .filter((delegation: any) => delegation.amount !== '0' || delegation.unstaking !== '0');
+
+            // Pending rewards accrue per uptime report, so read them from the contract
+            const contract = Participation__factory.connect(CONTRACT_ADDRESSES.PARTICIPATION, await getSigner());
+            const pending = await Promise.all(
+                delegations.map(delegation => contract.pendingDelegatorReward(delegation.node.nodeId, wallet.account!))
+            );
+            setUserDelegations(delegations.map((delegation, i) => ({ ...delegation, pendingReward: pending[i].toString() })));
+        } catch (error) {
+            console.error('Error fetching delegations:', error);
+        }
+    };
+
+    const fetchUserNodeRights = async () => {
+        if (!wallet.account) return;
+
+        try {
+            const query = `
+        query OwnerNodeRights($owner: Bytes!) {
+          nodeRights(where: { owner: $owner, exitedAt: null }, orderBy: tokenId) {
+            id
+            tokenId
+            nodeType
+            status
+            stakedETH
+            stakedDPN
+            exitRequestedAt
+            withdrawableAt
+          }
+        }
+      `;
+
+            const response = await fetch(GRAPHQL_ENDPOINT, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ query, variables: { owner: wallet.account.toLowerCase() } }),
+            });
+
+            const result = await response.json();
+            const nodeRights: Omit<NodeRightPosition, 'pendingRewards'>[] = result.data?.nodeRights ?? [];
+
+            // Rewards accrue every second, so estimate them from the contract
+            const contract = NodeRightsNFT__factory.connect(CONTRACT_ADDRESSES.NODE_RIGHTS, await getSigner());
+            const details = await Promise.all(nodeRights.map(node => contract.getNodeDetails(node.tokenId)));
+            setUserNodeRights(nodeRights.map((node, i) => ({ ...node, pendingRewards: details[i].estimatedRewards.toString() })));
+        } catch (error) {
+            console.error('Error fetching node rights:', error);
+        }
+    };
+
     const fetchUserDpnBalance = async () => {
         if (!wallet.account) return;
 
         try {
-            const contract = getContract(CONTRACT_ADDRESSES.DPN_TOKEN, DPN_TOKEN_ABI);
-            const balance = await contract.balanceOf(wallet.account);
-            setUserDpnBalance((window as any).ethers.utils.formatEther(balance));
+            const query = `
+        query AccountBalance($id: ID!) {
+          account(id: $id) {
+            balance
+            balanceHistory(first: 50, orderBy: timestamp, orderDirection: desc) {
+              balance
+              delta
+              timestamp
+            }
+          }
+        }
+      `;
+
+            const response = await fetch(GRAPHQL_ENDPOINT, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ query, variables: { id: wallet.account.toLowerCase() } }),
+            });
+
+            const result = await response.json();
+            const account = result.data?.account;
+            setUserDpnBalance(account ? formatEther(account.balance) : '0');
+            setUserBalanceHistory(account ? account.balanceHistory : []);
         } catch (error) {
             console.error('Error fetching DPN balance:', error);
         }
@@ -356,6 +632,20 @@ const DePINDashboard: React.FC = () => {
         }
     };
 
+    // Capacity is read from the contract: the subgraph has no NodeType maxCapacity
+    const fetchCapacityUtilization = async (): Promise<void> => {
+        try {
+            const contract = NodeRightsNFT__factory.connect(CONTRACT_ADDRESSES.NODE_RIGHTS, new JsonRpcProvider(RPC_ENDPOINT));
+            const utilization = await Promise.all(['STORAGE', 'COMPUTE', 'BANDWIDTH'].map(async (nodeType, index) => {
+                const [capacityUsed, totalCapacity] = await contract.getNodeTypeUtilization(index);
+                return { nodeType, capacityUsed: Number(capacityUsed), totalCapacity: Number(totalCapacity) };
+            }));
+            setCapacityUtilization(utilization);
+        } catch (error) {
+            console.error('Error fetching capacity utilization:', error);
+        }
+    };
+
     const fetchSubgraphData = async (): Promise<void> => {
         try {
             const query = `
@@ -365,26 +655,25 @@ const DePINDashboard: React.FC = () => {
             nodeId
             owner
             timestamp
+            totalStaked
+            totalUptimeMinutes
+            totalClaimed
+            pendingEarned
+            stakerCount
           }
-          stakes(orderBy: timestamp) {
-            id
-            nodeId
-            staker
-            amount
-            timestamp
+          networkDayDatas(first: 30, orderBy: date, orderDirection: desc) {
+            date
+            claimedRewards
+            cumulativeClaimed
           }
-          rewards(orderBy: timestamp) {
-            id
-            nodeId
-            owner
-            amount
-            timestamp
+          tokens(first: 1) {
+            totalSupply
+            holderCount
+            transferCount
           }
-          uptimes(orderBy: timestamp) {
+          accounts(first: 10, orderBy: balance, orderDirection: desc, where: { balance_gt: "0" }) {
             id
-            nodeId
-            minutesUp
-            timestamp
+            balance
           }
         }
       `;
@@ -406,16 +695,8 @@ const DePINDashboard: React.FC = () => {
         }
     };
 
-    // Handle MetaMask events and load ethers
+    // Handle MetaMask events
     useEffect(() => {
-        // Load ethers.js
-        if (!window.ethers) {
-            const script = document.createElement('script');
-            script.src = 'https://cdnjs.cloudflare.com/ajax/libs/ethers/5.7.2/ethers.umd.min.js';
-            script.async = true;
-            document.head.appendChild(script);
-        }
-
         if (window.ethereum) {
             const handleAccountsChanged = (accounts: string[]) => {
                 if (accounts.length === 0) {
@@ -439,19 +720,33 @@ const DePINDashboard: React.FC = () => {
         }
     }, [wallet.account]);
 
-    // Fetch DPN balance when wallet connects
+    // Fetch DPN balance and node rights when wallet connects
     useEffect(() => {
         if (wallet.isConnected) {
             fetchUserDpnBalance();
+            fetchUserNodeRights();
+            fetchUserDelegations();
         }
     }, [wallet.isConnected, wallet.account]);
 
+    // Tick once a second while an exit cooldown or unstake delay is counting down
+    useEffect(() => {
+        const counting = userNodeRights.some(node => node.withdrawableAt !== null) ||
+            userDelegations.some(delegation => delegation.unstakeAvailableAt !== null);
+        if (!counting) return;
+
+        const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+        return () => clearInterval(interval);
+    }, [userNodeRights, userDelegations]);
+
     useEffect(() => {
         fetchBlockNumber();
         fetchSubgraphData();
+        fetchCapacityUtilization();
         const interval = setInterval(() => {
             fetchBlockNumber();
             fetchSubgraphData();
+            fetchCapacityUtilization();
         }, 10000);
 
         return () => clearInterval(interval);
@@ -459,42 +754,53 @@ const DePINDashboard: React.FC = () => {
 
     // Process data for charts
     const processChartData = () => {
-        // Cumulative rewards over time
-        const rewardTimeline = data.rewards
-            .map(reward => ({
-                time: new Date(parseInt(reward.timestamp) * 1000).toLocaleDateString(),
-                amount: parseFloat(reward.amount),
-                timestamp: parseInt(reward.timestamp)
-            }))
-            .sort((a, b) => a.timestamp - b.timestamp);
-
-        let cumulative = 0;
-        const cumulativeRewardData = rewardTimeline.map(item => {
-            cumulative += item.amount;
-            return { ...item, cumulative };
-        });
+        // Cumulative rewards over the last 30 days (daily snapshots, newest first)
+        const cumulativeRewardData = [...data.networkDayDatas]
+            .reverse()
+            .map(day => ({
+                time: new Date(day.date * 1000).toLocaleDateString(),
+                amount: parseFloat(day.claimedRewards),
+                cumulative: parseFloat(day.cumulativeClaimed)
+            }));
 
         // Staking by node
-        const stakingByNode = data.nodes.map(node => {
-            const nodeStakes = data.stakes.filter(s => s.nodeId === node.nodeId);
-            const totalStaked = nodeStakes.reduce((sum, stake) => sum + parseFloat(stake.amount), 0);
-            return {
-                nodeId: `Node ${node.nodeId}`,
-                staked: parseFloat(formatEth(totalStaked))
-            };
-        });
-
-        return { cumulativeRewardData, stakingByNode };
+        const stakingByNode = data.nodes.map(node => ({
+            nodeId: `Node ${node.nodeId}`,
+            staked: parseFloat(formatEth(node.totalStaked))
+        }));
+
+        // DPN distribution across the top holders
+        const topHolders = data.accounts.map(account => ({
+            holder: formatAddress(account.id),
+            balance: parseFloat(formatEth(account.balance))
+        }));
+
+        // Connected wallet's DPN balance after each transfer (snapshots, newest first)
+        const balanceHistoryData = [...userBalanceHistory]
+            .reverse()
+            .map(snapshot => ({
+                time: formatTime(snapshot.timestamp),
+                balance: parseFloat(formatEth(snapshot.balance))
+            }));
+
+        // Reserved share of each NodeType's capacity, in percent
+        const utilizationByType = capacityUtilization.map(entry => ({
+            nodeType: entry.nodeType,
+            utilization: entry.totalCapacity > 0 ? Math.round((entry.capacityUsed / entry.totalCapacity) * 1000) / 10 : 0
+        }));
+
+        return { cumulativeRewardData, stakingByNode, topHolders, balanceHistoryData, utilizationByType };
     };
 
-    const { cumulativeRewardData, stakingByNode } = processChartData();
+    const { cumulativeRewardData, stakingByNode, topHolders, balanceHistoryData, utilizationByType } = processChartData();
+    const tokenStats = data.tokens[0];
 
     // Calculate totals
     const totals = {
         nodes: data.nodes.length,
-        staked: formatEth(data.stakes.reduce((sum, stake) => sum + parseFloat(stake.amount), 0)),
-        rewards: data.rewards.reduce((sum, reward) => sum + parseFloat(reward.amount), 0),
-        uptime: data.uptimes.reduce((sum, uptime) => sum + parseFloat(uptime.minutesUp), 0)
+        staked: formatEth(data.nodes.reduce((sum, node) => sum + parseFloat(node.totalStaked), 0)),
+        rewards: data.nodes.reduce((sum, node) => sum + parseFloat(node.totalClaimed), 0),
+        uptime: data.nodes.reduce((sum, node) => sum + parseFloat(node.totalUptimeMinutes), 0)
     };
 
     // Filter nodes for table
@@ -512,14 +818,9 @@ const DePINDashboard: React.FC = () => {
         node.owner.toLowerCase() === wallet.account!.toLowerCase()
     ) : [];
 
-    const userTotalStake = userNodes.reduce((sum, node) => {
-        const nodeStakes = data.stakes.filter(s => s.nodeId === node.nodeId);
-        return sum + nodeStakes.reduce((stakeSum, stake) => stakeSum + parseFloat(stake.amount), 0);
-    }, 0);
+    const userTotalStake = userNodes.reduce((sum, node) => sum + parseFloat(node.totalStaked), 0);
 
-    const userTotalRewards = data.rewards
-        .filter(reward => wallet.account && reward.owner.toLowerCase() === wallet.account.toLowerCase())
-        .reduce((sum, reward) => sum + parseFloat(reward.amount), 0);
+    const userTotalRewards = userNodes.reduce((sum, node) => sum + parseFloat(node.totalClaimed), 0);
 
     if (loading) {
         return (
@@ -726,6 +1027,245 @@ const DePINDashboard: React.FC = () => {
                     </div>
                 )}
 
+                {/* Node Rights and exits (when connected) */}
+                {wallet.isConnected && userNodeRights.length > 0 && (
+                    <div style={{
+                        backgroundColor: 'white',
+                        borderRadius: '10px',
+                        padding: '20px',
+                        marginBottom: '20px',
+                        boxShadow: '0 2px 10px rgba(0,0,0,0.1)'
+                    }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+                            <h3 style={{ margin: 0, color: '#333' }}>🔐 Your Node Rights</h3>
+                            {userNodeRights.length > 1 && (
+                                <button
+                                    onClick={() => claimNodeRewards()}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: '#6f42c1',
+                                        color: 'white',
+                                        border: 'none',
+                                        borderRadius: '4px',
+                                        fontSize: '14px',
+                                        cursor: 'pointer'
+                                    }}
+                                >
+                                    💰 Claim All
+                                </button>
+                            )}
+                        </div>
+                        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                            <thead>
+                            <tr style={{ backgroundColor: '#f8f9fa' }}>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Token</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Type</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Status</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Staked</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Rewards</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Exit</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {userNodeRights.map((node) => {
+                                // Slashing still applies until the stake is withdrawn
+                                const remaining = node.withdrawableAt === null ? null : parseInt(node.withdrawableAt) - now;
+                                return (
+                                    <tr key={node.id}>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>#{node.tokenId}</td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>{node.nodeType}</td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>{node.status}</td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>
+                                            {formatEth(node.stakedETH)} ETH / {formatEth(node.stakedDPN)} DPN
+                                        </td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>
+                                            {parseFloat(formatEther(node.pendingRewards)).toFixed(4)} DPN{' '}
+                                            <button
+                                                onClick={() => claimNodeRewards(node.tokenId)}
+                                                disabled={node.pendingRewards === '0'}
+                                                style={{
+                                                    padding: '6px 12px',
+                                                    backgroundColor: node.pendingRewards === '0' ? '#6c757d' : '#6f42c1',
+                                                    color: 'white',
+                                                    border: 'none',
+                                                    borderRadius: '4px',
+                                                    fontSize: '12px',
+                                                    cursor: node.pendingRewards === '0' ? 'not-allowed' : 'pointer'
+                                                }}
+                                            >
+                                                💰 Claim
+                                            </button>
+                                        </td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>
+                                            {remaining === null && (
+                                                <button
+                                                    onClick={() => requestNodeExit(node.tokenId)}
+                                                    style={{
+                                                        padding: '6px 12px',
+                                                        backgroundColor: '#dc3545',
+                                                        color: 'white',
+                                                        border: 'none',
+                                                        borderRadius: '4px',
+                                                        fontSize: '12px',
+                                                        cursor: 'pointer'
+                                                    }}
+                                                >
+                                                    🚪 Request Exit
+                                                </button>
+                                            )}
+                                            {remaining !== null && remaining > 0 && (
+                                                <span style={{ color: '#856404' }}>
+                                                    ⏳ Withdrawable in {formatCountdown(remaining)}
+                                                </span>
+                                            )}
+                                            {remaining !== null && remaining <= 0 && (
+                                                <button
+                                                    onClick={() => withdrawNodeStake(node.tokenId)}
+                                                    style={{
+                                                        padding: '6px 12px',
+                                                        backgroundColor: '#28a745',
+                                                        color: 'white',
+                                                        border: 'none',
+                                                        borderRadius: '4px',
+                                                        fontSize: '12px',
+                                                        cursor: 'pointer'
+                                                    }}
+                                                >
+                                                    💸 Withdraw Stake
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {/* My Delegations (when connected) */}
+                {wallet.isConnected && userDelegations.length > 0 && (
+                    <div style={{
+                        backgroundColor: 'white',
+                        borderRadius: '10px',
+                        padding: '20px',
+                        marginBottom: '20px',
+                        boxShadow: '0 2px 10px rgba(0,0,0,0.1)'
+                    }}>
+                        <h3 style={{ margin: '0 0 15px 0', color: '#333' }}>🤝 My Delegations</h3>
+                        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                            <thead>
+                            <tr style={{ backgroundColor: '#f8f9fa' }}>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Node</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Commission</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Staked</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Rewards</th>
+                                <th style={{ padding: '10px', textAlign: 'left', borderBottom: '2px solid #dee2e6' }}>Unstaking</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {userDelegations.map((delegation) => {
+                                const { nodeId } = delegation.node;
+                                const isOperator = delegation.node.owner.toLowerCase() === wallet.account!.toLowerCase();
+                                const remaining = delegation.unstakeAvailableAt === null
+                                    ? null
+                                    : parseInt(delegation.unstakeAvailableAt) - now;
+                                return (
+                                    <tr key={delegation.id}>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>
+                                            Node {nodeId} {isOperator && '(yours)'}
+                                        </td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>
+                                            {(parseInt(delegation.node.commission) / 100).toFixed(2)}%
+                                        </td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>
+                                            {formatEth(delegation.amount)} ETH
+                                            {delegation.amount !== '0' && (
+                                                <button
+                                                    onClick={() => sendDelegationTx(
+                                                        nodeId,
+                                                        'unstake',
+                                                        contract => contract.requestUnstake(nodeId, delegation.amount),
+                                                        `Unstake requested for Node ${nodeId}`
+                                                    )}
+                                                    style={{
+                                                        marginLeft: '8px',
+                                                        padding: '4px 10px',
+                                                        backgroundColor: '#dc3545',
+                                                        color: 'white',
+                                                        border: 'none',
+                                                        borderRadius: '4px',
+                                                        fontSize: '12px',
+                                                        cursor: 'pointer'
+                                                    }}
+                                                >
+                                                    Unstake
+                                                </button>
+                                            )}
+                                        </td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>
+                                            {/* The operator's share is claimed with the node's Claim button */}
+                                            {isOperator ? '—' : `${formatEth(delegation.pendingReward)} DPN`}
+                                            {!isOperator && delegation.pendingReward !== '0' && (
+                                                <button
+                                                    onClick={() => sendDelegationTx(
+                                                        nodeId,
+                                                        'claim',
+                                                        contract => contract.claimDelegatorReward(nodeId),
+                                                        `Claimed ${formatEth(delegation.pendingReward)} DPN from Node ${nodeId}`
+                                                    )}
+                                                    style={{
+                                                        marginLeft: '8px',
+                                                        padding: '4px 10px',
+                                                        backgroundColor: '#28a745',
+                                                        color: 'white',
+                                                        border: 'none',
+                                                        borderRadius: '4px',
+                                                        fontSize: '12px',
+                                                        cursor: 'pointer'
+                                                    }}
+                                                >
+                                                    🎁 Claim
+                                                </button>
+                                            )}
+                                        </td>
+                                        <td style={{ padding: '10px', borderBottom: '1px solid #dee2e6' }}>
+                                            {remaining === null && '—'}
+                                            {remaining !== null && remaining > 0 && (
+                                                <span style={{ color: '#856404' }}>
+                                                    ⏳ {formatEth(delegation.unstaking)} ETH in {formatCountdown(remaining)}
+                                                </span>
+                                            )}
+                                            {remaining !== null && remaining <= 0 && (
+                                                <button
+                                                    onClick={() => sendDelegationTx(
+                                                        nodeId,
+                                                        'withdraw',
+                                                        contract => contract.withdrawUnstaked(nodeId),
+                                                        `Withdrew ${formatEth(delegation.unstaking)} ETH from Node ${nodeId}`
+                                                    )}
+                                                    style={{
+                                                        padding: '4px 10px',
+                                                        backgroundColor: '#28a745',
+                                                        color: 'white',
+                                                        border: 'none',
+                                                        borderRadius: '4px',
+                                                        fontSize: '12px',
+                                                        cursor: 'pointer'
+                                                    }}
+                                                >
+                                                    💸 Withdraw {formatEth(delegation.unstaking)} ETH
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
                 {/* Transaction Status (when connected) */}
                 {wallet.isConnected && transactions.length > 0 && (
                     <div style={{
@@ -970,6 +1510,87 @@ const DePINDashboard: React.FC = () => {
                             </ResponsiveContainer>
                         </div>
                     </div>
+
+                    <div style={{
+                        backgroundColor: 'white',
+                        borderRadius: '10px',
+                        padding: '25px',
+                        boxShadow: '0 2px 10px rgba(0,0,0,0.1)'
+                    }}>
+                        <h3 style={{ marginBottom: '10px', color: '#333' }}>Capacity Utilization by Node Type</h3>
+                        <div style={{ color: '#666', fontSize: '14px', marginBottom: '20px' }}>
+                            {capacityUtilization.map(entry => `${entry.nodeType} ${entry.capacityUsed}/${entry.totalCapacity}`).join(' · ') || 'Capacity not loaded yet'}
+                        </div>
+                        <div style={{ width: '100%', height: '300px' }}>
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={utilizationByType}>
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <XAxis dataKey="nodeType" />
+                                    <YAxis domain={[0, 100]} unit="%" />
+                                    <Tooltip />
+                                    <Bar dataKey="utilization" fill="#fd7e14" />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+                </div>
+
+                {/* DPN Token Distribution */}
+                <div style={{
+                    display: 'grid',
+                    gridTemplateColumns: 'repeat(auto-fit, minmax(500px, 1fr))',
+                    gap: '20px',
+                    marginBottom: '30px'
+                }}>
+                    <div style={{
+                        backgroundColor: 'white',
+                        borderRadius: '10px',
+                        padding: '25px',
+                        boxShadow: '0 2px 10px rgba(0,0,0,0.1)'
+                    }}>
+                        <h3 style={{ marginBottom: '10px', color: '#333' }}>DPN Top Holders</h3>
+                        <div style={{ color: '#666', fontSize: '14px', marginBottom: '20px' }}>
+                            {tokenStats
+                                ? `Supply ${formatEth(tokenStats.totalSupply)} DPN · ${tokenStats.holderCount} holders · ${tokenStats.transferCount} transfers`
+                                : `Token ${formatAddress(CONTRACT_ADDRESSES.DPN_TOKEN)} not indexed yet`}
+                        </div>
+                        <div style={{ width: '100%', height: '300px' }}>
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={topHolders}>
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <XAxis dataKey="holder" />
+                                    <YAxis />
+                                    <Tooltip />
+                                    <Bar dataKey="balance" fill="#6f42c1" />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+
+                    {wallet.isConnected && (
+                        <div style={{
+                            backgroundColor: 'white',
+                            borderRadius: '10px',
+                            padding: '25px',
+                            boxShadow: '0 2px 10px rgba(0,0,0,0.1)'
+                        }}>
+                            <h3 style={{ marginBottom: '10px', color: '#333' }}>Your DPN Balance History</h3>
+                            <div style={{ color: '#666', fontSize: '14px', marginBottom: '20px' }}>
+                                Current balance: {parseFloat(userDpnBalance).toFixed(2)} DPN
+                            </div>
+                            <div style={{ width: '100%', height: '300px' }}>
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={balanceHistoryData}>
+                                        <CartesianGrid strokeDasharray="3 3" />
+                                        <XAxis dataKey="time" />
+                                        <YAxis />
+                                        <Tooltip />
+                                        <Line type="stepAfter" dataKey="balance" stroke="#6f42c1" strokeWidth={3} />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Node Table */}
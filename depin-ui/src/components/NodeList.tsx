@@ -9,6 +9,9 @@ const NodeList = () => {
             try {
                 const response = await fetch('http://localhost:4000/nodes');
                 const data = await response.json();
+                if (!response.ok) {
+                    throw new Error(data.message || `Request failed with status ${response.status}`);
+                }
                 setNodes(data);
             } catch (err: any) {
                 setError(err.message || 'Unknown error');
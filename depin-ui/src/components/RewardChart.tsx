@@ -10,6 +10,9 @@ const RewardChart = () => {
             try {
                 const res = await fetch('http://localhost:4000/rewards');
                 const data = await res.json();
+                if (!res.ok) {
+                    throw new Error(data.message || `Request failed with status ${res.status}`);
+                }
                 setRewards(data);
             } catch (err: any) {
                 setError(err.message || 'Unknown error');
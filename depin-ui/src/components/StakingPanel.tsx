@@ -1,23 +1,27 @@
 import React, { useState } from 'react';
+import { BrowserProvider, parseEther } from 'ethers';
+import { Participation__factory } from '@depin/contracts-client';
+import deployment from '../deployment.json';
 
 const StakingPanel = () => {
     const [nodeId, setNodeId] = useState('');
     const [amount, setAmount] = useState('');
     const [status, setStatus] = useState<string | null>(null);
 
+    // Stakes from the connected wallet; the API's POST /stake is for server-side callers
     const handleStake = async () => {
         try {
-            const response = await fetch('http://localhost:4000/stake', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ nodeId, amount }),
-            });
+            if (!window.ethereum) throw new Error('MetaMask not available');
+            const signer = await new BrowserProvider(window.ethereum).getSigner();
+            const participation = Participation__factory.connect(deployment.contracts.Participation.address, signer);
 
-            const data = await response.json();
-            if (data.success) {
-                setStatus(`✅ ${data.message}`);
+            const tx = await participation.stakeToNode(nodeId, { value: parseEther(amount) });
+            setStatus(`⏳ Staking transaction submitted: ${tx.hash}`);
+            const receipt = await tx.wait();
+            if (receipt?.status === 1) {
+                setStatus(`✅ Staked ${amount} on node ${nodeId}`);
             } else {
-                setStatus(`❌ Error: ${data.message}`);
+                setStatus('❌ Error: transaction failed');
             }
         } catch (err: any) {
             setStatus(`❌ Failed to stake: ${err.message}`);
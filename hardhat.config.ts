@@ -5,15 +5,29 @@ import "@nomicfoundation/hardhat-ethers"; // ✅ KEEP THIS
 
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    version: "0.8.28",
+    // NodeRightsNFT exceeds the 24KB contract size limit unoptimized
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+    },
+  },
   networks: {
+    hardhat: {
+      // `HARDHAT_CHAIN_ID=31338 npx hardhat node --port 8546` starts the bridge's second chain
+      chainId: Number(process.env.HARDHAT_CHAIN_ID ?? 31337),
+    },
     localhost: {
       url: "http://127.0.0.1:8545", // Hardhat node default
       chainId: 31337,
     },
+    localhostB: {
+      url: "http://127.0.0.1:8546", // Destination chain for the bridge relayer
+      chainId: 31338,
+    },
   },
   typechain: {
-    outDir: "typechain-types",
+    outDir: "contracts-client/src/typechain",
     target: "ethers-v6",
   },
 };
@@ -0,0 +1,16 @@
+// Hardhat Ignition module for the DPN ERC20 token.
+// Learn more about Ignition at https://hardhat.org/ignition
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const INITIAL_SUPPLY = 1_000_000n * 10n ** 18n; // 1,000,000 DPN
+
+const DPNTokenModule = buildModule("DPNTokenModule", (m) => {
+  const initialSupply = m.getParameter("initialSupply", INITIAL_SUPPLY);
+
+  const dpnToken = m.contract("DPNToken", [initialSupply]);
+
+  return { dpnToken };
+});
+
+export default DPNTokenModule;
@@ -0,0 +1,38 @@
+// Full DePIN stack: DPNToken, RewardPool, Participation and NodeRightsNFT, wired together.
+//
+//   npx hardhat ignition deploy ignition/modules/DePIN.ts --network localhost \
+//     --parameters ignition/parameters/localhost.json
+//
+// Ignition journals every step, so an interrupted deployment resumes from the
+// last confirmed transaction when the same command is re-run.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import DPNTokenModule from "./DPNToken";
+import NodeRightsNFTModule from "./NodeRightsNFT";
+import ParticipationModule from "./Participation";
+import RewardPoolModule from "./RewardPool";
+
+const DePINModule = buildModule("DePINModule", (m) => {
+  const { dpnToken } = m.useModule(DPNTokenModule);
+  const { participation } = m.useModule(ParticipationModule);
+  const { nodeRights } = m.useModule(NodeRightsNFTModule);
+  const { rewardPool } = m.useModule(RewardPoolModule);
+
+  // Participation and NodeRightsNFT pay claimed rewards out of the pool
+  const distributorRole = m.staticCall(rewardPool, "DISTRIBUTOR_ROLE");
+  m.call(rewardPool, "grantRole", [distributorRole, participation], { id: "grantParticipationDistributor" });
+  m.call(participation, "setRewardPool", [rewardPool]);
+  m.call(rewardPool, "grantRole", [distributorRole, nodeRights], { id: "grantNodeRightsDistributor" });
+  m.call(nodeRights, "setRewardPool", [rewardPool]);
+
+  m.call(nodeRights, "setParticipationContract", [participation]);
+  m.call(nodeRights, "setDPNTokenContract", [dpnToken]);
+  // The deployer relays bridged nodes until another relayer is set, to the
+  // chain `npm run bridge` serves by default
+  m.call(nodeRights, "setBridgeRelayer", [m.getAccount(0)]);
+  m.call(nodeRights, "setSupportedChain", [m.getParameter("bridgeChain", "localhost-b"), true]);
+
+  return { dpnToken, rewardPool, participation, nodeRights };
+});
+
+export default DePINModule;
@@ -0,0 +1,27 @@
+// Hardhat Ignition module that swaps the reward curve of an already deployed
+// NodeRightsNFT: it deploys a HalvingRewardCalculator and plugs it in with
+// setRewardCalculatorContract (run it from the NodeRightsNFT owner account).
+//
+//   npx hardhat ignition deploy ignition/modules/HalvingRewardCalculator.ts --network localhost \
+//     --parameters ignition/parameters/halving-localhost.json
+//
+// `genesis` 0 starts the first era at deployment. Calling
+// setRewardCalculatorContract(address(0)) restores the built-in linear formula.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const HALVING_INTERVAL = 365n * 24n * 60n * 60n; // 1 year
+
+const HalvingRewardCalculatorModule = buildModule("HalvingRewardCalculatorModule", (m) => {
+  const nodeRights = m.contractAt("NodeRightsNFT", m.getParameter<string>("nodeRights"));
+
+  const rewardCalculator = m.contract("HalvingRewardCalculator", [
+    m.getParameter("genesis", 0n),
+    m.getParameter("halvingInterval", HALVING_INTERVAL),
+  ]);
+  m.call(nodeRights, "setRewardCalculatorContract", [rewardCalculator]);
+
+  return { rewardCalculator };
+});
+
+export default HalvingRewardCalculatorModule;
@@ -0,0 +1,62 @@
+// Hardhat Ignition module for NodeRightsNFT.
+// Each NodeType's config is applied through updateNodeTypeConfig after
+// deployment; the defaults mirror _setupNodeTypes in the contract, so only
+// the values you override in a parameters file change on-chain state.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const ETHER = 10n ** 18n;
+
+// Mirrors NodeRightsNFT.NodeType
+const NODE_TYPES = {
+  STORAGE: 0,
+  COMPUTE: 1,
+  BANDWIDTH: 2,
+} as const;
+
+const DEFAULT_NODE_TYPE_CONFIGS = {
+  STORAGE: {
+    minETHStake: 1n * ETHER,
+    minDPNStake: 1000n * ETHER,
+    baseRewardRate: 11574074074074n, // 1 DPN per day
+    isActive: true,
+  },
+  COMPUTE: {
+    minETHStake: 2n * ETHER,
+    minDPNStake: 2000n * ETHER,
+    baseRewardRate: 34722222222222n, // 3 DPN per day
+    isActive: true,
+  },
+  BANDWIDTH: {
+    minETHStake: ETHER / 2n,
+    minDPNStake: 500n * ETHER,
+    baseRewardRate: 17361111111111n, // 1.5 DPN per day
+    isActive: true,
+  },
+};
+
+const NodeRightsNFTModule = buildModule("NodeRightsNFTModule", (m) => {
+  const nodeRights = m.contract("NodeRightsNFT");
+
+  for (const [name, nodeType] of Object.entries(NODE_TYPES)) {
+    const defaults = DEFAULT_NODE_TYPE_CONFIGS[name as keyof typeof NODE_TYPES];
+    const prefix = name.toLowerCase();
+
+    m.call(
+      nodeRights,
+      "updateNodeTypeConfig",
+      [
+        nodeType,
+        m.getParameter(`${prefix}MinETHStake`, defaults.minETHStake),
+        m.getParameter(`${prefix}MinDPNStake`, defaults.minDPNStake),
+        m.getParameter(`${prefix}BaseRewardRate`, defaults.baseRewardRate),
+        m.getParameter(`${prefix}IsActive`, defaults.isActive),
+      ],
+      { id: `configure_${name}` }
+    );
+  }
+
+  return { nodeRights };
+});
+
+export default NodeRightsNFTModule;
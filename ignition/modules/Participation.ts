@@ -0,0 +1,11 @@
+// Hardhat Ignition module for Participation (which inherits NodeRegistry).
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const ParticipationModule = buildModule("ParticipationModule", (m) => {
+  const participation = m.contract("Participation");
+
+  return { participation };
+});
+
+export default ParticipationModule;
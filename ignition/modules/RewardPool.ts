@@ -0,0 +1,20 @@
+// Hardhat Ignition module for the RewardPool that pays DPN rewards.
+// The pool becomes DPNToken's only minter and is funded by its mint allowance;
+// top it up further by transferring DPN to it.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import DPNTokenModule from "./DPNToken";
+
+const MINT_ALLOWANCE = 1_000_000n * 10n ** 18n; // 1,000,000 DPN
+
+const RewardPoolModule = buildModule("RewardPoolModule", (m) => {
+  const { dpnToken } = m.useModule(DPNTokenModule);
+  const mintAllowance = m.getParameter("mintAllowance", MINT_ALLOWANCE);
+
+  const rewardPool = m.contract("RewardPool", [dpnToken, mintAllowance]);
+  m.call(dpnToken, "setMinter", [rewardPool]);
+
+  return { rewardPool };
+});
+
+export default RewardPoolModule;
@@ -0,0 +1,23 @@
+// Hardhat Ignition module for the bridge's destination chain: deploys the
+// WrappedNodeRights copy of an origin-chain NodeRightsNFT. Run it against the
+// second local chain (see the README's "Cross-Chain Bridge" section):
+//
+//   npx hardhat ignition deploy ignition/modules/WrappedNodeRights.ts --network localhostB \
+//     --parameters ignition/parameters/bridge-localhostB.json
+//
+// `relayer` defaults to the deployer, which is also the bridgeRelayer that
+// scripts/deploy.ts sets on the origin NodeRightsNFT.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const WrappedNodeRightsModule = buildModule("WrappedNodeRightsModule", (m) => {
+  const wrappedNodeRights = m.contract("WrappedNodeRights", [
+    m.getParameter("originChainId", 31337n),
+    m.getParameter<string>("originContract"),
+    m.getParameter("relayer", m.getAccount(0)),
+  ]);
+
+  return { wrappedNodeRights };
+});
+
+export default WrappedNodeRightsModule;
@@ -0,0 +1,65 @@
+// Walks one node across the bridge and back between the two local chains,
+// relaying in-process (stop `npm run bridge` first). Needs both Hardhat nodes,
+// scripts/deploy.ts on the origin and the WrappedNodeRights Ignition module
+// on the destination; see the README's "Cross-Chain Bridge" section.
+//
+//   npm run bridge:demo
+
+import { ethers } from "hardhat";
+import { JsonRpcProvider } from "ethers";
+import { DPNToken__factory, NodeRightsNFT__factory, WrappedNodeRights__factory } from "@depin/contracts-client";
+import { BridgeRelayer, loadBridgeConfig, logResult } from "../src/bridge";
+
+async function main() {
+    const config = loadBridgeConfig();
+    const signers = await ethers.getSigners();
+    const [relayerSigner, operator] = [signers[config.signerIndex], signers[1]];
+
+    // Syncs follow each other within ethers' 250ms block number cache
+    const destination = new JsonRpcProvider(config.destinationRpcUrl, undefined, { cacheTimeout: -1 });
+    const nodeRights = NodeRightsNFT__factory.connect(config.nodeRightsAddress, relayerSigner);
+    const wrapped = WrappedNodeRights__factory.connect(
+        config.wrappedNodeRightsAddress,
+        await destination.getSigner(config.signerIndex)
+    );
+    // Hardhat nodes unlock the same accounts, so the operator signs on both chains
+    const operatorOnDestination = await destination.getSigner(operator.address);
+
+    const relayer = new BridgeRelayer(nodeRights, wrapped, {
+        destinationChain: config.destinationChain,
+        originFromBlock: (await ethers.provider.getBlockNumber()) + 1,
+        destinationFromBlock: (await destination.getBlockNumber()) + 1,
+    });
+
+    // Mint a STORAGE node for the operator at the minimum stakes
+    const storage = await nodeRights.nodeTypeConfigs(0);
+    const dpn = DPNToken__factory.connect(await nodeRights.dpnTokenContract(), relayerSigner);
+    await (await dpn.transfer(operator.address, storage.minDPNStake)).wait();
+    await (await dpn.connect(operator).approve(config.nodeRightsAddress, storage.minDPNStake)).wait();
+    const minted = await (
+        await nodeRights
+            .connect(operator)
+            .mintNodeRights(0, storage.minDPNStake, "ipfs://QmBridgedNode", { value: storage.minETHStake })
+    ).wait();
+    const tokenId = minted!.logs
+        .filter((log) => log.address === config.nodeRightsAddress)
+        .map((log) => nodeRights.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "NodeRightsMinted")!.args.tokenId;
+    console.log(`🗄️  Node #${tokenId} minted for ${operator.address}`);
+
+    await (await nodeRights.connect(operator).bridgeToChain(tokenId, config.destinationChain)).wait();
+    console.log(`🔒 Node #${tokenId} locked, owner on origin: ${await nodeRights.ownerOf(tokenId)}`);
+    (await relayer.sync()).forEach(logResult);
+    const copy = await wrapped.wrappedNodes(tokenId);
+    console.log(`   Destination owner: ${await wrapped.ownerOf(tokenId)}, metadata: ${copy.metadata}`);
+
+    await (await wrapped.connect(operatorOnDestination).bridgeBack(tokenId)).wait();
+    console.log(`🔥 Wrapped node #${tokenId} burned on the destination chain`);
+    (await relayer.sync()).forEach(logResult);
+    console.log(`   Origin owner: ${await nodeRights.ownerOf(tokenId)}`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
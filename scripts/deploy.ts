@@ -1,4 +1,24 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { BaseContract } from "ethers";
+import {
+    DEPLOYMENT_MANIFEST_VERSION,
+    DeployedContract,
+    DeployedContractName,
+    DeploymentManifest,
+} from "@depin/contracts-client";
+import { abiHashOf, combinedAbiHash, syncDeployment, writeManifest } from "./manifest";
+
+const BRIDGE_CHAIN = process.env.BRIDGE_DESTINATION_CHAIN ?? "localhost-b";
+
+async function describeDeployment(name: DeployedContractName, contract: BaseContract): Promise<DeployedContract> {
+    const receipt = await contract.deploymentTransaction()!.wait();
+    return {
+        address: await contract.getAddress(),
+        startBlock: receipt!.blockNumber,
+        transactionHash: receipt!.hash,
+        abiHash: await abiHashOf(name),
+    };
+}
 
 async function main() {
     const [deployer] = await ethers.getSigners();
@@ -12,6 +32,13 @@ async function main() {
     await dpn.waitForDeployment();
     console.log("✅ DPN Token deployed to:", await dpn.getAddress());
 
+    // Deploy RewardPool and make it the only DPN minter
+    const RewardPool = await ethers.getContractFactory("RewardPool");
+    const rewardPool = await RewardPool.deploy(await dpn.getAddress(), ethers.parseEther("1000000"));
+    await rewardPool.waitForDeployment();
+    await (await dpn.setMinter(await rewardPool.getAddress())).wait();
+    console.log("✅ RewardPool deployed to:", await rewardPool.getAddress());
+
     // Deploy NodeRegistry
     const NodeRegistry = await ethers.getContractFactory("NodeRegistry");
     const nodeRegistry = await NodeRegistry.deploy();
@@ -23,10 +50,56 @@ async function main() {
     const participation = await Participation.deploy();
     await participation.waitForDeployment();
     console.log("✅ Participation contract deployed to:", await participation.getAddress());
+
+    // Deploy NodeRightsNFT
+    const NodeRightsNFT = await ethers.getContractFactory("NodeRightsNFT");
+    const nodeRights = await NodeRightsNFT.deploy();
+    await nodeRights.waitForDeployment();
+    console.log("✅ NodeRightsNFT deployed to:", await nodeRights.getAddress());
+
+    // Wire NodeRightsNFT to the rest of the stack
+    await (await nodeRights.setParticipationContract(await participation.getAddress())).wait();
+    await (await nodeRights.setDPNTokenContract(await dpn.getAddress())).wait();
+    // The deployer relays bridged nodes until another relayer is set, to the
+    // chain `npm run bridge` serves by default
+    await (await nodeRights.setBridgeRelayer(deployer.address)).wait();
+    await (await nodeRights.setSupportedChain(BRIDGE_CHAIN, true)).wait();
+    console.log("🔗 NodeRightsNFT wired to Participation and DPNToken");
+    console.log(`🌉 Bridge relayer ${deployer.address} serving "${BRIDGE_CHAIN}"`);
+
+    // Participation and NodeRightsNFT pay claimed rewards out of the pool
+    const distributorRole = await rewardPool.DISTRIBUTOR_ROLE();
+    await (await rewardPool.grantRole(distributorRole, await participation.getAddress())).wait();
+    await (await participation.setRewardPool(await rewardPool.getAddress())).wait();
+    await (await rewardPool.grantRole(distributorRole, await nodeRights.getAddress())).wait();
+    await (await nodeRights.setRewardPool(await rewardPool.getAddress())).wait();
+    console.log("🔗 Participation and NodeRightsNFT wired to RewardPool");
+
+    const contracts: DeploymentManifest["contracts"] = {
+        DPNToken: await describeDeployment("DPNToken", dpn),
+        RewardPool: await describeDeployment("RewardPool", rewardPool),
+        NodeRegistry: await describeDeployment("NodeRegistry", nodeRegistry),
+        Participation: await describeDeployment("Participation", participation),
+        NodeRightsNFT: await describeDeployment("NodeRightsNFT", nodeRights),
+    };
+
+    const manifest: DeploymentManifest = {
+        version: DEPLOYMENT_MANIFEST_VERSION,
+        network: network.name,
+        chainId: Number((await ethers.provider.getNetwork()).chainId),
+        deployer: deployer.address,
+        deployedAt: new Date().toISOString(),
+        abiHash: combinedAbiHash(contracts),
+        contracts,
+    };
+
+    console.log("\n📝 Manifest written to:", writeManifest(manifest));
+    for (const file of await syncDeployment(manifest)) {
+        console.log("   ↳ generated", file);
+    }
 }
 
 main().catch((error) => {
     console.error(error);
     process.exitCode = 1;
 });
-
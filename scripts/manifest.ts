@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import { artifacts } from "hardhat";
+import { keccak256, toUtf8Bytes } from "ethers";
+import type { DeployedContractName, DeploymentManifest } from "@depin/contracts-client";
+
+const ROOT_DIR = path.join(__dirname, "..");
+const DEPLOYMENTS_DIR = path.join(ROOT_DIR, "deployments");
+const UI_DEPLOYMENT_FILE = path.join(ROOT_DIR, "depin-ui", "src", "deployment.json");
+const SUBGRAPH_DIR = path.join(ROOT_DIR, "subgraph");
+
+const GENERATED_HEADER = "# Generated from subgraph.template.yaml by scripts/deploy.ts. Do not edit.\n";
+
+// Contracts with a data source in subgraph/subgraph.template.yaml
+const SUBGRAPH_CONTRACTS: DeployedContractName[] = ["Participation", "NodeRightsNFT", "DPNToken"];
+
+export function manifestPath(network: string): string {
+    return path.join(DEPLOYMENTS_DIR, `${network}.json`);
+}
+
+export async function abiHashOf(name: DeployedContractName): Promise<string> {
+    const artifact = await artifacts.readArtifact(name);
+    return keccak256(toUtf8Bytes(JSON.stringify(artifact.abi)));
+}
+
+export function combinedAbiHash(contracts: DeploymentManifest["contracts"]): string {
+    const hashes = Object.keys(contracts)
+        .sort()
+        .map((name) => contracts[name as DeployedContractName].abiHash);
+    return keccak256(toUtf8Bytes(hashes.join("")));
+}
+
+export function writeManifest(manifest: DeploymentManifest): string {
+    const file = manifestPath(manifest.network);
+    fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+    return file;
+}
+
+export function readManifest(network: string): DeploymentManifest {
+    const file = manifestPath(network);
+    if (!fs.existsSync(file)) {
+        throw new Error(`No deployment manifest at ${file}. Run scripts/deploy.ts first.`);
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Regenerate everything that embeds contract addresses from a manifest:
+ * the dashboard's deployment.json, the subgraph ABIs and subgraph.yaml.
+ */
+export async function syncDeployment(manifest: DeploymentManifest): Promise<string[]> {
+    const written: string[] = [];
+
+    fs.writeFileSync(UI_DEPLOYMENT_FILE, JSON.stringify(manifest, null, 2) + "\n");
+    written.push(UI_DEPLOYMENT_FILE);
+
+    for (const name of SUBGRAPH_CONTRACTS) {
+        const artifact = await artifacts.readArtifact(name);
+        const abiFile = path.join(SUBGRAPH_DIR, "abis", `${name}.json`);
+        fs.writeFileSync(abiFile, JSON.stringify(artifact.abi, null, 2) + "\n");
+        written.push(abiFile);
+    }
+
+    const template = fs.readFileSync(path.join(SUBGRAPH_DIR, "subgraph.template.yaml"), "utf8");
+    const subgraphFile = path.join(SUBGRAPH_DIR, "subgraph.yaml");
+    fs.writeFileSync(subgraphFile, GENERATED_HEADER + renderTemplate(template, manifest));
+    written.push(subgraphFile);
+
+    return written;
+}
+
+// Replaces {{network}} and {{<ContractName>.<field>}} placeholders
+function renderTemplate(template: string, manifest: DeploymentManifest): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, key: string) => {
+        if (key === "network") return manifest.network;
+
+        const [name, field] = key.split(".");
+        const contract = manifest.contracts[name as DeployedContractName];
+        const value = contract?.[field as keyof typeof contract];
+        if (value === undefined) {
+            throw new Error(`Unknown subgraph template placeholder ${placeholder}`);
+        }
+        return String(value);
+    });
+}
@@ -0,0 +1,57 @@
+// Mock node software for the performance oracle: posts heartbeats for a set
+// of NodeRightsNFT tokens, each with its own reliability.
+//
+//   MOCK_NODES=0:0.99,1:0.9,2:0.5 npm run oracle:mock
+//
+// MOCK_NODES lists tokenId:reliability pairs (reliability defaults to 1),
+// HEARTBEAT_INTERVAL_SECONDS should match the oracle's, MOCK_SEED fixes the
+// sequence of missed heartbeats. Heartbeats are signed by each node's operator
+// through the JSON-RPC node (RPC_URL), which must have that account unlocked
+// like Hardhat's do; the NodeRightsNFT address is resolved like the oracle's.
+
+import { JsonRpcProvider } from "ethers";
+import { NodeRightsNFT__factory, oracleHeartbeatDomain } from "@depin/contracts-client";
+import { MockHeartbeatGenerator, loadOracleConfig, nodeOperator } from "../src/oracle";
+import { Random } from "../src/simulation/random";
+
+function parseNodes(spec: string): { tokenId: number; reliability: number }[] {
+    return spec.split(",").map((entry) => {
+        const [tokenId, reliability = "1"] = entry.trim().split(":");
+        const node = { tokenId: Number(tokenId), reliability: Number(reliability) };
+        if (!Number.isSafeInteger(node.tokenId) || node.tokenId < 0 || !(node.reliability >= 0 && node.reliability <= 1)) {
+            throw new Error(`Invalid MOCK_NODES entry "${entry}": expected tokenId:reliability`);
+        }
+        return node;
+    });
+}
+
+async function main() {
+    const oracleUrl = process.env.ORACLE_URL ?? "http://localhost:4100";
+    const intervalSeconds = parseInt(process.env.HEARTBEAT_INTERVAL_SECONDS ?? "60", 10);
+    const seed = parseInt(process.env.MOCK_SEED ?? "1", 10);
+
+    const config = loadOracleConfig();
+    const provider = new JsonRpcProvider(config.rpcUrl);
+    const nodeRights = NodeRightsNFT__factory.connect(config.nodeRightsAddress, provider);
+    const domain = oracleHeartbeatDomain((await provider.getNetwork()).chainId);
+    const nodes = await Promise.all(
+        parseNodes(process.env.MOCK_NODES ?? "0").map(async (node) => ({
+            ...node,
+            signer: await provider.getSigner(await nodeOperator(nodeRights, node.tokenId)),
+        }))
+    );
+
+    const generator = new MockHeartbeatGenerator(oracleUrl, domain, nodes, intervalSeconds, new Random(seed));
+    console.log(`💓 Sending heartbeats to ${oracleUrl} every ${intervalSeconds}s for:`);
+    for (const node of nodes) console.log(`   node ${node.tokenId} (reliability ${node.reliability})`);
+    generator.start();
+    process.on("SIGINT", () => {
+        generator.stop();
+        process.exit(0);
+    });
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
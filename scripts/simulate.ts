@@ -0,0 +1,33 @@
+import { ethers, network } from "hardhat";
+import { SimulationEngine, planFromConfig, simulationConfigFromEnv } from "../src/simulation";
+import { connectSimulationContracts, printSlashingReport, printUtilizationReport, writeRunLog } from "./simulation";
+
+// Run the agent-based simulator against a fresh in-process stack (hardhat) or
+// the contracts recorded in deployments/<network>.json (e.g. localhost):
+//
+//   SIM_STEPS=48 SIM_OPERATORS_PER_TYPE=3 npx hardhat run scripts/simulate.ts --network localhost
+//
+// SIM_FAULTS=<file> injects a JSON array of faults (see src/simulation/faults.ts).
+//
+// The run log is written to simulations/ as JSON and as one CSV row per node per step.
+
+async function main() {
+    const [tracker, ...operators] = await ethers.getSigners();
+    const config = simulationConfigFromEnv();
+    const contracts = await connectSimulationContracts(tracker);
+
+    console.log(`🤖 Simulating ${config.steps} steps of ${config.stepSeconds}s on ${network.name}`);
+    const engine = new SimulationEngine(contracts, tracker, ethers.provider, planFromConfig(config, operators));
+    const log = await engine.run();
+
+    const last = log.steps[log.steps.length - 1];
+    console.log(`✅ ${log.operators.length} operators, ${last.activeNodes} still ACTIVE after ${log.steps.length} steps`);
+    printSlashingReport(log);
+    printUtilizationReport(log);
+    console.log("📝 Run log written to:", writeRunLog(log, { config }));
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
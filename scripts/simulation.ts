@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+import { Signer } from "ethers";
+import { ignition, network } from "hardhat";
+import { NodeRightsNFT__factory, Participation__factory } from "@depin/contracts-client";
+import DePINModule from "../ignition/modules/DePIN";
+import { formatEther } from "ethers";
+import { SimulationContracts, SimulationRunLog, runLogToCsv, slashingReport, utilizationReport } from "../src/simulation";
+import { readManifest } from "./manifest";
+
+// Shared by scripts/simulate.ts and scripts/run-scenario.ts.
+
+const OUTPUT_DIR = path.join(__dirname, "..", "simulations");
+
+/**
+ * A fresh Ignition-deployed stack on the in-process hardhat network, otherwise
+ * the contracts recorded in deployments/<network>.json.
+ */
+export async function connectSimulationContracts(tracker: Signer): Promise<SimulationContracts> {
+    if (network.name === "hardhat") {
+        const deployed = await ignition.deploy(DePINModule);
+        return {
+            participation: Participation__factory.connect(await deployed.participation.getAddress(), tracker),
+            nodeRights: NodeRightsNFT__factory.connect(await deployed.nodeRights.getAddress(), tracker),
+        };
+    }
+
+    const manifest = readManifest(network.name);
+    return {
+        participation: Participation__factory.connect(manifest.contracts.Participation.address, tracker),
+        nodeRights: NodeRightsNFT__factory.connect(manifest.contracts.NodeRightsNFT.address, tracker),
+    };
+}
+
+export function printSlashingReport(log: SimulationRunLog): void {
+    const report = slashingReport(log);
+    const { finalStatus, everReached } = report;
+    console.log(`\n⚖️  Slashing across ${report.nodes} nodes`);
+    console.log(`   final: ${finalStatus.ACTIVE} ACTIVE, ${finalStatus.SLASHED_MINOR} SLASHED_MINOR, ${finalStatus.SLASHED_MAJOR} SLASHED_MAJOR, ${finalStatus.TERMINATED} TERMINATED`);
+    console.log(`   ever:  ${everReached.SLASHED_MINOR} SLASHED_MINOR, ${everReached.SLASHED_MAJOR} SLASHED_MAJOR, ${everReached.TERMINATED} TERMINATED`);
+    console.log(`   penalized: ${formatEther(report.totalPenalized)} DPN ` +
+        `(minor ${formatEther(report.penalizedByStatus.SLASHED_MINOR)}, ` +
+        `major ${formatEther(report.penalizedByStatus.SLASHED_MAJOR)}, ` +
+        `terminated ${formatEther(report.penalizedByStatus.TERMINATED)})`);
+    for (const [fault, nodes] of Object.entries(report.slashedUnderFault)) {
+        console.log(`   ${fault}: ${nodes} node(s) slashed while active`);
+    }
+    if (report.fakeUptimeMinutes > 0) {
+        console.log(`   fake uptime recorded in Participation: ${report.fakeUptimeMinutes} minutes`);
+    }
+}
+
+export function printUtilizationReport(log: SimulationRunLog): void {
+    console.log("\n📦 Capacity utilization by NodeType");
+    for (const [name, summary] of Object.entries(utilizationReport(log))) {
+        const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+        console.log(`   ${name}: ${summary.capacityUsed}/${summary.totalCapacity} units (${percent(summary.utilization)}), ` +
+            `average ${percent(summary.averageUtilization)}, peak ${percent(summary.peakUtilization)}`);
+    }
+}
+
+// Writes the log as JSON (with `input`, the config or scenario it ran, and the
+// slashing and utilization reports) and as CSV
+export function writeRunLog(log: SimulationRunLog, input: Record<string, unknown>): string {
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    const base = path.join(OUTPUT_DIR, `${log.name}-${network.name}-${log.startTimestamp}`);
+    const output = { ...input, slashing: slashingReport(log), utilization: utilizationReport(log), ...log };
+    fs.writeFileSync(`${base}.json`, JSON.stringify(output, null, 2) + "\n");
+    fs.writeFileSync(`${base}.csv`, runLogToCsv(log));
+    return `${base}.json`;
+}
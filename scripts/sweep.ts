@@ -0,0 +1,53 @@
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { loadSweepSpec, readNodeTypeParams, runSweep, sweepResultsToCsv } from "../src/tokenomics";
+import { connectSimulationContracts } from "./simulation";
+
+// Sweep NodeTypeConfig values and slashing thresholds over a grid (see sweeps/)
+// and compare network health at each point. Unswept parameters come from the
+// deployed contract:
+//
+//   SWEEP=sweeps/compute-tuning.json npx hardhat run scripts/sweep.ts --network localhost
+//
+// Prints the grid ranked by active node ratio and writes the full table as CSV to simulations/.
+
+const OUTPUT_DIR = path.join(__dirname, "..", "simulations");
+
+async function main() {
+    const file = process.env.SWEEP;
+    if (!file) {
+        throw new Error("Set SWEEP to the sweep spec to run, e.g. SWEEP=sweeps/compute-tuning.json");
+    }
+
+    const spec = loadSweepSpec(file);
+    const [tracker] = await ethers.getSigners();
+    const { nodeRights } = await connectSimulationContracts(tracker);
+    const baseParams = await readNodeTypeParams(nodeRights);
+
+    console.log(`🧮 Sweeping "${spec.name}" against ${network.name} parameters...`);
+    const results = runSweep(spec, baseParams);
+
+    const ranked = [...results].sort(
+        (a, b) => b.activeNodeRatio - a.activeNodeRatio || b.emissionPerStakedEth - a.emissionPerStakedEth
+    );
+    console.table(
+        ranked.map((result) => ({
+            ...result.parameters,
+            active: `${(result.activeNodeRatio * 100).toFixed(1)}%`,
+            terminated: `${(result.terminationRate * 100).toFixed(1)}%`,
+            "DPN/ETH": result.emissionPerStakedEth.toFixed(2),
+            netAPR: `${(result.netApr * 100).toFixed(1)}%`,
+        }))
+    );
+
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    const csv = path.join(OUTPUT_DIR, `sweep-${spec.name}.csv`);
+    fs.writeFileSync(csv, sweepResultsToCsv(results));
+    console.log(`📝 ${results.length} grid points written to:`, csv);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
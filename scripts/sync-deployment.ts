@@ -0,0 +1,19 @@
+import { network } from "hardhat";
+import { readManifest, syncDeployment } from "./manifest";
+
+// Regenerate the dashboard config and subgraph manifest from an existing
+// deployments/<network>.json without redeploying:
+//   npx hardhat run scripts/sync-deployment.ts --network localhost
+async function main() {
+    const manifest = readManifest(network.name);
+    console.log(`Syncing ${network.name} deployment from ${manifest.deployedAt}`);
+
+    for (const file of await syncDeployment(manifest)) {
+        console.log("   ↳ generated", file);
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,77 @@
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { parseEther } from "ethers";
+import { NODE_TYPE_NAMES } from "../src/simulation";
+import { defaultMonteCarloConfig, readNodeTypeParams, runMonteCarlo } from "../src/tokenomics";
+import { connectSimulationContracts } from "./simulation";
+
+// Monte Carlo projection of NodeRightsNFT emissions, APR and slashing losses,
+// using the NodeType parameters of the deployed contract:
+//
+//   MC_TRAJECTORIES=5000 MC_DAYS=365 npx hardhat run scripts/tokenomics.ts --network localhost
+//
+// MC_SEED, MC_DPN_PER_ETH, MC_CLAIM_EVERY_DAYS and MC_STAKE_MULTIPLIER (stake as
+// a multiple of the type minimum) tune the run. Writes a JSON report and an emissions CSV to simulations/.
+
+const OUTPUT_DIR = path.join(__dirname, "..", "simulations");
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+async function main() {
+    const [tracker] = await ethers.getSigners();
+    const { nodeRights } = await connectSimulationContracts(tracker);
+    const params = await readNodeTypeParams(nodeRights);
+
+    const config = defaultMonteCarloConfig({
+        trajectories: parseInt(process.env.MC_TRAJECTORIES ?? "1000", 10),
+        days: parseInt(process.env.MC_DAYS ?? "180", 10),
+        seed: parseInt(process.env.MC_SEED ?? "1", 10),
+        dpnPerEth: parseFloat(process.env.MC_DPN_PER_ETH ?? "1000"),
+        claimEveryDays: parseInt(process.env.MC_CLAIM_EVERY_DAYS ?? "1", 10),
+    });
+    // Stakes scale the minimums by a 3-decimal multiplier to stay in integer math
+    const multiplier = parseEther(process.env.MC_STAKE_MULTIPLIER ?? "1") / 10n ** 15n;
+    for (const name of NODE_TYPE_NAMES) {
+        config.nodeTypes[name].params = params[name];
+        config.nodeTypes[name].stakeETH = (params[name].minETHStake * multiplier) / 1000n;
+        config.nodeTypes[name].stakeDPN = (params[name].minDPNStake * multiplier) / 1000n;
+    }
+
+    console.log(`🎲 ${config.trajectories} trajectories over ${config.days} days (seed ${config.seed}, ${network.name} parameters)`);
+    const report = runMonteCarlo(config);
+
+    for (const name of NODE_TYPE_NAMES) {
+        const result = report.nodeTypes[name];
+        const emitted = result.emissions[result.emissions.length - 1];
+        console.log(`\n${name}`);
+        console.log(`   emitted per node   mean ${emitted.mean.toFixed(2)} DPN (p10 ${emitted.p10.toFixed(2)}, p90 ${emitted.p90.toFixed(2)})`);
+        console.log(`   APR (net)          mean ${percent(result.apr.mean)} (p10 ${percent(result.apr.p10)}, p90 ${percent(result.apr.p90)})`);
+        console.log(`   APR (gross)        mean ${percent(result.grossApr.mean)}`);
+        console.log(`   slashing loss      mean ${result.slashingLoss.mean.toFixed(2)} DPN (p90 ${result.slashingLoss.p90.toFixed(2)})`);
+        console.log(`   P(slashed) ${percent(result.slashProbability)}, P(terminated) ${percent(result.terminationProbability)}`);
+    }
+
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    const base = path.join(OUTPUT_DIR, `tokenomics-${network.name}-${config.seed}`);
+    fs.writeFileSync(`${base}.json`, JSON.stringify(report, null, 2) + "\n");
+
+    const header = ["day", ...NODE_TYPE_NAMES.flatMap((name) => [`${name}_mean`, `${name}_p10`, `${name}_p90`]), "total_mean"];
+    const rows = report.totalEmissions.map((total, day) =>
+        [
+            day + 1,
+            ...NODE_TYPE_NAMES.flatMap((name) => {
+                const point = report.nodeTypes[name].emissions[day];
+                return [point.mean, point.p10, point.p90].map((value) => value.toFixed(4));
+            }),
+            total.mean.toFixed(4),
+        ].join(",")
+    );
+    fs.writeFileSync(`${base}-emissions.csv`, [header.join(","), ...rows].join("\n") + "\n");
+    console.log("\n📝 Report written to:", `${base}.json`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
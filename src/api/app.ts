@@ -0,0 +1,79 @@
+import { timingSafeEqual } from "crypto";
+import express, { Express, RequestHandler } from "express";
+import cors from "cors";
+import axios from "axios";
+import { ApiError, errorHandler } from "./errors";
+import { NodeResponse, parseRpcRequest, parseStakeRequest, RewardPoint, StakeResponse } from "./schemas";
+import { ParticipationService } from "../services/participation";
+import { SubgraphClient } from "../services/subgraph";
+
+export interface AppDependencies {
+    participation: ParticipationService;
+    subgraph: Pick<SubgraphClient, "listRewards">;
+    rpcUrl: string;
+    // Bearer token for POST /stake, which spends from the API's signer; the
+    // route is disabled without one
+    apiKey?: string;
+}
+
+function requireApiKey(apiKey: string | undefined): RequestHandler {
+    return (req, _res, next) => {
+        if (!apiKey) {
+            throw ApiError.forbidden(`${req.method} ${req.path} is disabled: set API_KEY to enable it`);
+        }
+        const expected = Buffer.from(`Bearer ${apiKey}`);
+        const given = Buffer.from(req.get("Authorization") ?? "");
+        if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+            throw ApiError.unauthorized("Missing or invalid API key");
+        }
+        next();
+    };
+}
+
+export function createApp({ participation, subgraph, rpcUrl, apiKey }: AppDependencies): Express {
+    const app = express();
+
+    app.use(cors());
+    app.use(express.json());
+
+    app.get("/nodes", async (_req, res) => {
+        const nodes: NodeResponse[] = await participation.listNodes();
+        res.json(nodes);
+    });
+
+    app.get("/rewards", async (_req, res) => {
+        const rewards: RewardPoint[] = await subgraph.listRewards();
+        res.json(rewards);
+    });
+
+    app.post("/stake", requireApiKey(apiKey), async (req, res) => {
+        const { nodeId, amount } = parseStakeRequest(req.body);
+        const txHash = await participation.stake(nodeId, amount);
+
+        console.log(`🔗 Staked ${amount} ETH to node ${nodeId}, TX: ${txHash}`);
+        const body: StakeResponse = {
+            success: true,
+            message: `Staked ${amount} ETH to node ${nodeId}`,
+            txHash,
+        };
+        res.json(body);
+    });
+
+    // Read-only JSON-RPC passthrough so the dashboard can reach the chain without CORS issues
+    app.post("/rpc", async (req, res) => {
+        const request = parseRpcRequest(req.body);
+        try {
+            const response = await axios.post(rpcUrl, request);
+            res.json(response.data);
+        } catch (error: any) {
+            throw new ApiError(502, "RPC_ERROR", `RPC relay failed: ${error.message}`);
+        }
+    });
+
+    app.use((req, _res) => {
+        throw ApiError.notFound(`No route for ${req.method} ${req.path}`);
+    });
+    app.use(errorHandler);
+
+    return app;
+}
@@ -0,0 +1,60 @@
+import { ErrorRequestHandler } from "express";
+import { ErrorResponse } from "./schemas";
+
+export type ApiErrorCode =
+    | "BAD_REQUEST"
+    | "UNAUTHORIZED"
+    | "FORBIDDEN"
+    | "NOT_FOUND"
+    | "CHAIN_ERROR"
+    | "SUBGRAPH_ERROR"
+    | "RPC_ERROR"
+    | "INTERNAL_ERROR";
+
+export class ApiError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: ApiErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = "ApiError";
+    }
+
+    static badRequest(message: string): ApiError {
+        return new ApiError(400, "BAD_REQUEST", message);
+    }
+
+    static unauthorized(message: string): ApiError {
+        return new ApiError(401, "UNAUTHORIZED", message);
+    }
+
+    static forbidden(message: string): ApiError {
+        return new ApiError(403, "FORBIDDEN", message);
+    }
+
+    static notFound(message: string): ApiError {
+        return new ApiError(404, "NOT_FOUND", message);
+    }
+}
+
+// Express error middleware: every failure leaves the API as an ErrorResponse
+// so the dashboard components can render `message` directly.
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+    const apiError = err instanceof ApiError
+        ? err
+        : err?.type === "entity.parse.failed"
+            ? ApiError.badRequest("Request body is not valid JSON")
+            : new ApiError(500, "INTERNAL_ERROR", err?.message ?? "Unknown error");
+
+    if (apiError.status >= 500) {
+        console.error(`❌ ${apiError.code}: ${apiError.message}`);
+    }
+
+    const body: ErrorResponse = {
+        success: false,
+        code: apiError.code,
+        message: apiError.message,
+    };
+    res.status(apiError.status).json(body);
+};
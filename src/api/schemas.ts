@@ -0,0 +1,121 @@
+import { ApiError, ApiErrorCode } from "./errors";
+
+// ============ RESPONSES ============
+
+export type NodeStatus = "active" | "inactive";
+
+// GET /nodes
+export interface NodeResponse {
+    id: number;
+    owner: string;
+    metadata: string;
+    registeredAt: number;
+    status: NodeStatus;
+    uptimeMinutes: number;
+    earned: string;      // uint256 as decimal string
+    totalStaked: string; // wei as decimal string
+}
+
+// GET /rewards
+export interface RewardPoint {
+    nodeId: number;
+    timestamp: number;
+    reward: number;
+}
+
+// POST /stake
+export interface StakeResponse {
+    success: true;
+    message: string;
+    txHash: string;
+}
+
+// Body of every non-2xx response
+export interface ErrorResponse {
+    success: false;
+    code: ApiErrorCode;
+    message: string;
+}
+
+// ============ REQUESTS ============
+
+export interface StakeRequest {
+    nodeId: number;
+    amount: string; // ETH, decimal string e.g. "1.5"
+}
+
+const DECIMAL_PATTERN = /^\d+(\.\d{1,18})?$/;
+
+/**
+ * Validate a POST /stake body. The dashboard sends both fields as strings
+ * straight from its inputs, so numeric strings are accepted for nodeId.
+ */
+export function parseStakeRequest(body: unknown): StakeRequest {
+    if (typeof body !== "object" || body === null) {
+        throw ApiError.badRequest("Request body must be a JSON object");
+    }
+    const { nodeId, amount } = body as Record<string, unknown>;
+
+    const parsedNodeId = typeof nodeId === "string" && nodeId.trim() !== "" ? Number(nodeId) : nodeId;
+    if (typeof parsedNodeId !== "number" || !Number.isSafeInteger(parsedNodeId) || parsedNodeId < 0) {
+        throw ApiError.badRequest("nodeId must be a non-negative integer");
+    }
+
+    const parsedAmount = typeof amount === "number" ? amount.toString() : amount;
+    if (typeof parsedAmount !== "string" || !DECIMAL_PATTERN.test(parsedAmount.trim())) {
+        throw ApiError.badRequest("amount must be a positive decimal ETH value");
+    }
+    if (/^[0.]+$/.test(parsedAmount.trim())) {
+        throw ApiError.badRequest("amount must be greater than zero");
+    }
+
+    return { nodeId: parsedNodeId, amount: parsedAmount.trim() };
+}
+
+// Methods POST /rpc relays: reads and gas estimates only, so the relay can
+// never sign or send from an account unlocked on the node
+const READ_ONLY_RPC_METHODS = new Set([
+    "web3_clientVersion",
+    "net_version",
+    "eth_chainId",
+    "eth_blockNumber",
+    "eth_getBlockByNumber",
+    "eth_getBlockByHash",
+    "eth_getBalance",
+    "eth_getCode",
+    "eth_getStorageAt",
+    "eth_getTransactionCount",
+    "eth_getTransactionByHash",
+    "eth_getTransactionReceipt",
+    "eth_getLogs",
+    "eth_call",
+    "eth_estimateGas",
+    "eth_gasPrice",
+    "eth_feeHistory",
+    "eth_maxPriorityFeePerGas",
+]);
+
+export interface RpcRequest {
+    jsonrpc: string;
+    method: string;
+    params?: unknown[];
+    id?: number | string | null;
+}
+
+/** Validate a POST /rpc body, a single JSON-RPC request or a batch of them. */
+export function parseRpcRequest(body: unknown): RpcRequest | RpcRequest[] {
+    const requests = Array.isArray(body) ? body : [body];
+    if (requests.length === 0) {
+        throw ApiError.badRequest("JSON-RPC batch must not be empty");
+    }
+    for (const request of requests) {
+        const { method } = (typeof request === "object" && request !== null ? request : {}) as Record<string, unknown>;
+        if (typeof method !== "string") {
+            throw ApiError.badRequest("Every JSON-RPC request needs a method");
+        }
+        if (!READ_ONLY_RPC_METHODS.has(method)) {
+            throw ApiError.forbidden(`RPC method ${method} is not allowed`);
+        }
+    }
+    return body as RpcRequest | RpcRequest[];
+}
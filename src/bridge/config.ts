@@ -0,0 +1,64 @@
+import fs from "fs";
+import path from "path";
+import { readDeployment } from "../config";
+
+// Runtime configuration for the bridge relayer between the origin chain
+// (NodeRightsNFT) and the destination chain (WrappedNodeRights). Like the
+// oracle, every value can be overridden through the environment. NodeRightsNFT
+// defaults to deployments/<DEPLOYMENT_NETWORK>.json and WrappedNodeRights to
+// the Ignition deployment of ignition/modules/WrappedNodeRights.ts on the
+// destination chain.
+
+export interface BridgeConfig {
+    originRpcUrl: string;
+    destinationRpcUrl: string;
+    nodeRightsAddress: string;
+    wrappedNodeRightsAddress: string;
+    // The name bridgeToChain must be called with for this relayer to act
+    destinationChain: string;
+    // Index of the unlocked JSON-RPC account on both chains; it must be the
+    // NodeRightsNFT bridgeRelayer and the WrappedNodeRights relayer
+    signerIndex: number;
+    // First blocks scanned on each chain
+    originFromBlock: number;
+    destinationFromBlock: number;
+    pollIntervalMs: number;
+}
+
+const IGNITION_DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "ignition", "deployments");
+
+function readIgnitionAddress(chainId: number, futureId: string): string | undefined {
+    const file = path.join(IGNITION_DEPLOYMENTS_DIR, `chain-${chainId}`, "deployed_addresses.json");
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8"))[futureId] : undefined;
+}
+
+export function loadBridgeConfig(env: NodeJS.ProcessEnv = process.env): BridgeConfig {
+    const network = env.DEPLOYMENT_NETWORK ?? "localhost";
+    const nodeRightsAddress = env.NODE_RIGHTS_ADDRESS ?? readDeployment(network)?.contracts.NodeRightsNFT.address;
+    if (!nodeRightsAddress) {
+        throw new Error(`No NodeRightsNFT address: set NODE_RIGHTS_ADDRESS or deploy to ${network} first`);
+    }
+
+    const destinationChainId = parseInt(env.BRIDGE_DESTINATION_CHAIN_ID ?? "31338", 10);
+    const wrappedNodeRightsAddress =
+        env.WRAPPED_NODE_RIGHTS_ADDRESS ??
+        readIgnitionAddress(destinationChainId, "WrappedNodeRightsModule#WrappedNodeRights");
+    if (!wrappedNodeRightsAddress) {
+        throw new Error(
+            `No WrappedNodeRights address: set WRAPPED_NODE_RIGHTS_ADDRESS or deploy ` +
+                `ignition/modules/WrappedNodeRights.ts to chain ${destinationChainId} first`
+        );
+    }
+
+    return {
+        originRpcUrl: env.RPC_URL ?? "http://127.0.0.1:8545",
+        destinationRpcUrl: env.BRIDGE_DESTINATION_RPC_URL ?? "http://127.0.0.1:8546",
+        nodeRightsAddress,
+        wrappedNodeRightsAddress,
+        destinationChain: env.BRIDGE_DESTINATION_CHAIN ?? "localhost-b",
+        signerIndex: parseInt(env.BRIDGE_SIGNER_INDEX ?? "0", 10),
+        originFromBlock: parseInt(env.BRIDGE_ORIGIN_FROM_BLOCK ?? "0", 10),
+        destinationFromBlock: parseInt(env.BRIDGE_DESTINATION_FROM_BLOCK ?? "0", 10),
+        pollIntervalMs: parseInt(env.BRIDGE_POLL_INTERVAL_MS ?? "2000", 10),
+    };
+}
@@ -0,0 +1,45 @@
+import { JsonRpcProvider } from "ethers";
+import { NodeRightsNFT__factory, WrappedNodeRights__factory } from "@depin/contracts-client";
+import { loadBridgeConfig } from "./config";
+import { BridgeRelayer } from "./relayer";
+
+async function main() {
+    const config = loadBridgeConfig();
+
+    const origin = new JsonRpcProvider(config.originRpcUrl);
+    const destination = new JsonRpcProvider(config.destinationRpcUrl);
+    const originSigner = await origin.getSigner(config.signerIndex);
+    const destinationSigner = await destination.getSigner(config.signerIndex);
+    const nodeRights = NodeRightsNFT__factory.connect(config.nodeRightsAddress, originSigner);
+    const wrapped = WrappedNodeRights__factory.connect(config.wrappedNodeRightsAddress, destinationSigner);
+
+    const [originChain, destinationChain] = await Promise.all([origin.getNetwork(), destination.getNetwork()]);
+    if (originChain.chainId === destinationChain.chainId) {
+        throw new Error(`Origin and destination RPCs are both chain ${originChain.chainId}`);
+    }
+    if ((await wrapped.originChainId()) !== originChain.chainId) {
+        throw new Error(`WrappedNodeRights mirrors chain ${await wrapped.originChainId()}, not ${originChain.chainId}`);
+    }
+
+    const relayer = new BridgeRelayer(nodeRights, wrapped, {
+        destinationChain: config.destinationChain,
+        originFromBlock: config.originFromBlock,
+        destinationFromBlock: config.destinationFromBlock,
+    });
+    relayer.start(config.pollIntervalMs);
+
+    console.log(`🌉 Bridge relayer running: "${config.destinationChain}"`);
+    console.log(`   Origin (chain ${originChain.chainId}) NodeRightsNFT:`, config.nodeRightsAddress);
+    console.log(`   Destination (chain ${destinationChain.chainId}) WrappedNodeRights:`, config.wrappedNodeRightsAddress);
+    console.log("   Relayer:", originSigner.address);
+
+    process.on("SIGINT", async () => {
+        await relayer.stop();
+        process.exit(0);
+    });
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
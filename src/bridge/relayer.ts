@@ -0,0 +1,148 @@
+import { BaseContract } from "ethers";
+import { NodeRightsNFT, WrappedNodeRights } from "@depin/contracts-client";
+
+export interface RelayerOptions {
+    // Only bridgeToChain calls naming this chain are relayed
+    destinationChain: string;
+    // First blocks scanned on each chain
+    originFromBlock?: number;
+    destinationFromBlock?: number;
+}
+
+export type RelayDirection = "lock" | "return";
+
+export interface RelayResult {
+    direction: RelayDirection;
+    tokenId: number;
+    // Wrapped token owner for a lock, released node owner for a return
+    recipient: string;
+    status: "relayed" | "skipped";
+    txHash?: string;
+    reason?: string;
+}
+
+async function latestBlock(contract: BaseContract): Promise<number> {
+    const provider = contract.runner?.provider;
+    if (!provider) throw new Error("Bridge contracts need a runner connected to a provider");
+    return provider.getBlockNumber();
+}
+
+/**
+ * Relays NodeRightsNFT bridges between two chains. CrossChainBridge events on
+ * the origin chain mint the locked node's WrappedNodeRights copy on the
+ * destination chain; BridgeBackRequested events there release the node to the
+ * wrapped token's last holder. Both directions carry the origin bridge nonce
+ * and are checked against the chains before sending, so events replayed after
+ * a restart or a failed relay are skipped rather than relayed twice.
+ */
+export class BridgeRelayer {
+    private originBlock: number;
+    private destinationBlock: number;
+    private timer?: NodeJS.Timeout;
+    private syncing?: Promise<void>;
+
+    constructor(
+        private readonly nodeRights: NodeRightsNFT,
+        private readonly wrapped: WrappedNodeRights,
+        private readonly options: RelayerOptions
+    ) {
+        this.originBlock = options.originFromBlock ?? 0;
+        this.destinationBlock = options.destinationFromBlock ?? 0;
+    }
+
+    async sync(): Promise<RelayResult[]> {
+        return [...(await this.relayLocks()), ...(await this.relayReturns())];
+    }
+
+    start(pollMs = 2000): void {
+        this.timer = setInterval(() => {
+            if (this.syncing) return;
+            this.syncing = this.sync()
+                .then((results) => results.forEach(logResult))
+                .catch((error) => console.error("❌ Bridge sync failed:", error))
+                .finally(() => (this.syncing = undefined));
+        }, pollMs);
+    }
+
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+        await this.syncing;
+    }
+
+    private async relayLocks(): Promise<RelayResult[]> {
+        const latest = await latestBlock(this.nodeRights);
+        if (latest < this.originBlock) return [];
+        const events = await this.nodeRights.queryFilter(
+            this.nodeRights.filters.CrossChainBridge,
+            this.originBlock,
+            latest
+        );
+
+        const results: RelayResult[] = [];
+        for (const event of events) {
+            // If this relay throws, the next sync rescans from its block; events
+            // before it in the block are then skipped as already relayed
+            this.originBlock = event.blockNumber;
+            const { tokenId, destinationChain, operator, bridgeNonce } = event.args;
+            if (destinationChain !== this.options.destinationChain) continue;
+
+            const result = { direction: "lock" as const, tokenId: Number(tokenId), recipient: operator };
+            if ((await this.wrapped.relayedNonces(tokenId)) >= bridgeNonce) {
+                results.push({ ...result, status: "skipped", reason: "Already relayed" });
+            } else {
+                const node = await this.nodeRights.nodeRights(tokenId);
+                const tx = await this.wrapped.mintWrapped(
+                    operator,
+                    tokenId,
+                    bridgeNonce,
+                    node.nodeType,
+                    node.stakedETH,
+                    node.performanceScore,
+                    node.metadata
+                );
+                results.push({ ...result, status: "relayed", txHash: (await tx.wait())!.hash });
+            }
+        }
+        this.originBlock = latest + 1;
+        return results;
+    }
+
+    private async relayReturns(): Promise<RelayResult[]> {
+        const latest = await latestBlock(this.wrapped);
+        if (latest < this.destinationBlock) return [];
+        const events = await this.wrapped.queryFilter(
+            this.wrapped.filters.BridgeBackRequested,
+            this.destinationBlock,
+            latest
+        );
+
+        const nodeRightsAddress = await this.nodeRights.getAddress();
+        const results: RelayResult[] = [];
+        for (const event of events) {
+            this.destinationBlock = event.blockNumber;
+            const { tokenId, owner, bridgeNonce } = event.args;
+            const result = { direction: "return" as const, tokenId: Number(tokenId), recipient: owner };
+            // Released already, or bridged out again since this request
+            if (
+                (await this.nodeRights.ownerOf(tokenId)) !== nodeRightsAddress ||
+                (await this.nodeRights.bridgeNonces(tokenId)) !== bridgeNonce
+            ) {
+                results.push({ ...result, status: "skipped", reason: "Already released" });
+            } else {
+                const tx = await this.nodeRights.releaseBridgedNode(tokenId, owner, bridgeNonce);
+                results.push({ ...result, status: "relayed", txHash: (await tx.wait())!.hash });
+            }
+        }
+        this.destinationBlock = latest + 1;
+        return results;
+    }
+}
+
+export function logResult(result: RelayResult): void {
+    const arrow = result.direction === "lock" ? "🌉 Wrapped" : "↩️  Returned";
+    if (result.status === "relayed") {
+        console.log(`${arrow} node #${result.tokenId} for ${result.recipient}, TX: ${result.txHash}`);
+    } else {
+        console.log(`⏭️  Skipped ${result.direction} of node #${result.tokenId}: ${result.reason}`);
+    }
+}
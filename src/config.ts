@@ -0,0 +1,47 @@
+import fs from "fs";
+import path from "path";
+import type { DeploymentManifest } from "@depin/contracts-client";
+
+// Runtime configuration for the DePIN API service.
+// Every value can be overridden through the environment; the defaults match a
+// local `npx hardhat node` + `docker-compose up` setup, with contract addresses
+// taken from deployments/<DEPLOYMENT_NETWORK>.json.
+
+export interface ApiConfig {
+    port: number;
+    rpcUrl: string;
+    subgraphUrl: string;
+    participationAddress: string;
+    // Index of the unlocked JSON-RPC account used to send stake transactions
+    signerIndex: number;
+    // Bearer token POST /stake requires; staking through the API is off without it
+    apiKey?: string;
+    // A node counts as "active" if it reported uptime within this many seconds
+    activeWindowSeconds: number;
+}
+
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export function readDeployment(network: string): DeploymentManifest | undefined {
+    const file = path.join(DEPLOYMENTS_DIR, `${network}.json`);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : undefined;
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ApiConfig {
+    const network = env.DEPLOYMENT_NETWORK ?? "localhost";
+    const deployment = readDeployment(network);
+    const participationAddress = env.PARTICIPATION_ADDRESS ?? deployment?.contracts.Participation.address;
+    if (!participationAddress) {
+        throw new Error(`No Participation address: set PARTICIPATION_ADDRESS or deploy to ${network} first`);
+    }
+
+    return {
+        port: parseInt(env.PORT ?? "4000", 10),
+        rpcUrl: env.RPC_URL ?? "http://127.0.0.1:8545",
+        subgraphUrl: env.SUBGRAPH_URL ?? "http://localhost:8000/subgraphs/name/participation-subgraph",
+        participationAddress,
+        signerIndex: parseInt(env.SIGNER_INDEX ?? "0", 10),
+        apiKey: env.API_KEY || undefined,
+        activeWindowSeconds: parseInt(env.ACTIVE_WINDOW_SECONDS ?? "86400", 10),
+    };
+}
@@ -1 +1,33 @@
-console.log('Happy developing ✨')
+import { JsonRpcProvider } from "ethers";
+import { Participation__factory } from "@depin/contracts-client";
+import { createApp } from "./api/app";
+import { loadConfig } from "./config";
+import { ParticipationService } from "./services/participation";
+import { SubgraphClient } from "./services/subgraph";
+
+async function main() {
+    const config = loadConfig();
+
+    const provider = new JsonRpcProvider(config.rpcUrl);
+    const signer = await provider.getSigner(config.signerIndex);
+    const participation = Participation__factory.connect(config.participationAddress, signer);
+
+    const app = createApp({
+        participation: new ParticipationService(participation, config.activeWindowSeconds),
+        subgraph: new SubgraphClient(config.subgraphUrl),
+        rpcUrl: config.rpcUrl,
+        apiKey: config.apiKey,
+    });
+
+    app.listen(config.port, () => {
+        console.log(`🚀 DePIN API running at http://localhost:${config.port}`);
+        console.log("   Participation:", config.participationAddress);
+        console.log("   Signer:", signer.address);
+        console.log("   POST /stake:", config.apiKey ? "enabled (API_KEY)" : "disabled, set API_KEY");
+    });
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,31 @@
+import express, { Express } from "express";
+import { ApiError, errorHandler } from "../api/errors";
+import { PerformanceOracle } from "./oracle";
+import { HeartbeatResponse, OracleStatusResponse, parseHeartbeatRequest } from "./schemas";
+
+export function createOracleApp(oracle: PerformanceOracle): Express {
+    const app = express();
+
+    app.use(express.json());
+
+    app.post("/heartbeat", async (req, res) => {
+        const request = parseHeartbeatRequest(req.body);
+        const timestamp = await oracle.recordHeartbeat(request);
+        const tokenId = Number(request.heartbeat.nodeId);
+
+        const body: HeartbeatResponse = { success: true, tokenId, timestamp, windowEnd: oracle.currentWindow.end };
+        res.status(202).json(body);
+    });
+
+    app.get("/status", (_req, res) => {
+        const body: OracleStatusResponse = oracle.status();
+        res.json(body);
+    });
+
+    app.use((req, _res) => {
+        throw ApiError.notFound(`No route for ${req.method} ${req.path}`);
+    });
+    app.use(errorHandler);
+
+    return app;
+}
@@ -0,0 +1,46 @@
+import { readDeployment } from "../config";
+
+// Runtime configuration for the performance oracle. Like the API, every value
+// can be overridden through the environment and the NodeRightsNFT address
+// defaults to deployments/<DEPLOYMENT_NETWORK>.json.
+
+export interface OracleConfig {
+    port: number;
+    rpcUrl: string;
+    nodeRightsAddress: string;
+    // Index of the unlocked JSON-RPC account that sends updatePerformance; it
+    // must be the NodeRightsNFT owner (the deployer) or its participationContract
+    signerIndex: number;
+    // Length of a reporting window; one updatePerformance per node per window
+    windowSeconds: number;
+    // Seconds of uptime each heartbeat vouches for
+    heartbeatIntervalSeconds: number;
+    // How far a heartbeat's signed timestamp may be from the oracle's clock
+    maxClockSkewSeconds: number;
+    maxRetries: number;
+    retryDelayMs: number;
+}
+
+export function loadOracleConfig(env: NodeJS.ProcessEnv = process.env): OracleConfig {
+    const network = env.DEPLOYMENT_NETWORK ?? "localhost";
+    const nodeRightsAddress = env.NODE_RIGHTS_ADDRESS ?? readDeployment(network)?.contracts.NodeRightsNFT.address;
+    if (!nodeRightsAddress) {
+        throw new Error(`No NodeRightsNFT address: set NODE_RIGHTS_ADDRESS or deploy to ${network} first`);
+    }
+
+    const config: OracleConfig = {
+        port: parseInt(env.ORACLE_PORT ?? "4100", 10),
+        rpcUrl: env.RPC_URL ?? "http://127.0.0.1:8545",
+        nodeRightsAddress,
+        signerIndex: parseInt(env.ORACLE_SIGNER_INDEX ?? "0", 10),
+        windowSeconds: parseInt(env.ORACLE_WINDOW_SECONDS ?? "3600", 10),
+        heartbeatIntervalSeconds: parseInt(env.HEARTBEAT_INTERVAL_SECONDS ?? "60", 10),
+        maxClockSkewSeconds: parseInt(env.HEARTBEAT_MAX_SKEW_SECONDS ?? "30", 10),
+        maxRetries: parseInt(env.ORACLE_MAX_RETRIES ?? "3", 10),
+        retryDelayMs: parseInt(env.ORACLE_RETRY_DELAY_MS ?? "2000", 10),
+    };
+    if (!(config.windowSeconds > 0) || !(config.heartbeatIntervalSeconds > 0)) {
+        throw new Error("ORACLE_WINDOW_SECONDS and HEARTBEAT_INTERVAL_SECONDS must be positive integers");
+    }
+    return config;
+}
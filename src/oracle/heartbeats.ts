@@ -0,0 +1,64 @@
+// NodeRightsNFT.PERFORMANCE_DECIMALS
+const PERFORMANCE_DECIMALS = 10000;
+
+export interface WindowScore {
+    tokenId: number;
+    heartbeats: number;
+    uptimeSeconds: number;
+    // 0-10000, the share of the window covered by heartbeats
+    performanceScore: number;
+}
+
+/**
+ * Heartbeat timestamps per NodeRightsNFT token. Each heartbeat vouches for the
+ * node being up for `intervalSeconds` after it arrived; overlapping coverage is
+ * counted once, so sending faster than the interval does not inflate uptime.
+ */
+export class HeartbeatStore {
+    private readonly heartbeats = new Map<number, number[]>();
+
+    constructor(private readonly intervalSeconds: number) {}
+
+    record(tokenId: number, timestamp: number): void {
+        const beats = this.heartbeats.get(tokenId) ?? [];
+        // Keep timestamps sorted; they almost always arrive in order
+        let i = beats.length;
+        while (i > 0 && beats[i - 1] > timestamp) i--;
+        beats.splice(i, 0, timestamp);
+        this.heartbeats.set(tokenId, beats);
+    }
+
+    // Every node that has sent a heartbeat; nodes stay tracked (and score 0)
+    // after they go silent
+    get tokenIds(): number[] {
+        return [...this.heartbeats.keys()].sort((a, b) => a - b);
+    }
+
+    /** Uptime and score of every tracked node over [start, end). */
+    scoreWindow(start: number, end: number): WindowScore[] {
+        return this.tokenIds.map((tokenId) => {
+            let uptimeSeconds = 0;
+            let covered = start;
+            let heartbeats = 0;
+            for (const timestamp of this.heartbeats.get(tokenId)!) {
+                if (timestamp >= end) break;
+                if (timestamp >= start) heartbeats++;
+                const from = Math.max(timestamp, covered);
+                const to = Math.min(timestamp + this.intervalSeconds, end);
+                if (to > from) {
+                    uptimeSeconds += to - from;
+                    covered = to;
+                }
+            }
+            const performanceScore = Math.floor((uptimeSeconds * PERFORMANCE_DECIMALS) / (end - start));
+            return { tokenId, heartbeats, uptimeSeconds, performanceScore };
+        });
+    }
+
+    // Drop heartbeats whose coverage ends before `start`
+    prune(start: number): void {
+        for (const [tokenId, beats] of this.heartbeats) {
+            this.heartbeats.set(tokenId, beats.filter((timestamp) => timestamp + this.intervalSeconds > start));
+        }
+    }
+}
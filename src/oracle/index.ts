@@ -0,0 +1,8 @@
+export * from "./config";
+export * from "./heartbeats";
+export * from "./operator";
+export * from "./submitter";
+export * from "./oracle";
+export * from "./schemas";
+export * from "./app";
+export * from "./mock";
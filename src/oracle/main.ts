@@ -0,0 +1,41 @@
+import { JsonRpcProvider } from "ethers";
+import { NodeRightsNFT__factory } from "@depin/contracts-client";
+import { createOracleApp } from "./app";
+import { loadOracleConfig } from "./config";
+import { HeartbeatStore } from "./heartbeats";
+import { PerformanceOracle } from "./oracle";
+import { PerformanceSubmitter } from "./submitter";
+
+async function main() {
+    const config = loadOracleConfig();
+
+    const provider = new JsonRpcProvider(config.rpcUrl);
+    const signer = await provider.getSigner(config.signerIndex);
+    const nodeRights = NodeRightsNFT__factory.connect(config.nodeRightsAddress, signer);
+
+    const oracle = new PerformanceOracle(
+        nodeRights,
+        new HeartbeatStore(config.heartbeatIntervalSeconds),
+        new PerformanceSubmitter(nodeRights, signer, config),
+        { windowSeconds: config.windowSeconds, maxClockSkewSeconds: config.maxClockSkewSeconds }
+    );
+
+    const server = createOracleApp(oracle).listen(config.port, () => {
+        console.log(`🔮 Performance oracle running at http://localhost:${config.port}`);
+        console.log("   NodeRightsNFT:", config.nodeRightsAddress);
+        console.log("   Signer:", signer.address);
+        console.log(`   Window: ${config.windowSeconds}s, heartbeat interval: ${config.heartbeatIntervalSeconds}s`);
+    });
+    oracle.start();
+
+    process.on("SIGINT", async () => {
+        server.close();
+        await oracle.stop();
+        process.exit(0);
+    });
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
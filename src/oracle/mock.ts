@@ -0,0 +1,72 @@
+import { Signer, TypedDataDomain } from "ethers";
+import { aggregateHeartbeats, signHeartbeat } from "@depin/contracts-client";
+import { Random } from "../simulation/random";
+
+export interface MockNode {
+    tokenId: number;
+    // Probability that the node sends each heartbeat
+    reliability: number;
+    // The node's operator (nodeOperator), which signs its heartbeats
+    signer: Signer;
+}
+
+/**
+ * Stands in for real node software: every `intervalSeconds` each node posts a
+ * signed heartbeat to the oracle with probability `reliability`.
+ */
+export class MockHeartbeatGenerator {
+    private timer?: NodeJS.Timeout;
+    // Each heartbeat covers the time since the node's previous one, so windows
+    // never overlap even when a round runs late
+    private readonly lastSent = new Map<number, { windowEnd: number; nonce: bigint }>();
+
+    constructor(
+        private readonly oracleUrl: string,
+        private readonly domain: TypedDataDomain,
+        private readonly nodes: MockNode[],
+        private readonly intervalSeconds: number,
+        private readonly random: Random
+    ) {}
+
+    // Returns the token ids that sent a heartbeat this round
+    async beat(): Promise<number[]> {
+        const up = this.nodes.filter((node) => this.random.chance(node.reliability));
+        await Promise.all(
+            up.map(async ({ tokenId, signer }) => {
+                const windowEnd = Math.floor(Date.now() / 1000);
+                const last = this.lastSent.get(tokenId);
+                const windowStart = Math.min(last?.windowEnd ?? windowEnd - this.intervalSeconds, windowEnd - 1);
+                const nonce = last ? last.nonce + 1n : 0n;
+                this.lastSent.set(tokenId, { windowEnd, nonce });
+
+                const heartbeat = aggregateHeartbeats(BigInt(tokenId), windowStart, windowEnd, 1, this.intervalSeconds, nonce);
+                const signature = await signHeartbeat(signer, this.domain, heartbeat);
+                const res = await fetch(`${this.oracleUrl}/heartbeat`, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        ...heartbeat,
+                        nodeId: heartbeat.nodeId.toString(),
+                        nonce: heartbeat.nonce.toString(),
+                        signature,
+                    }),
+                });
+                if (!res.ok) {
+                    const body = await res.json().catch(() => ({}));
+                    console.error(`❌ Heartbeat for node ${tokenId} rejected: ${body.message ?? res.status}`);
+                }
+            })
+        );
+        return up.map((node) => node.tokenId);
+    }
+
+    start(): void {
+        const round = () => this.beat().catch((error) => console.error("❌ Heartbeat round failed:", error.message));
+        round();
+        this.timer = setInterval(round, this.intervalSeconds * 1000);
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+    }
+}
@@ -0,0 +1,13 @@
+import { NodeRightsNFT } from "@depin/contracts-client";
+
+/**
+ * Account that runs a node: its NodeRightsNFT owner or, while the node is
+ * bridged and the contract itself holds the token, the account that bridged it.
+ */
+export async function nodeOperator(nodeRights: NodeRightsNFT, tokenId: number): Promise<string> {
+    const owner = await nodeRights.ownerOf(tokenId);
+    if (owner !== (await nodeRights.getAddress())) return owner;
+
+    const bridges = await nodeRights.queryFilter(nodeRights.filters.CrossChainBridge(tokenId));
+    return bridges[bridges.length - 1].args.operator;
+}
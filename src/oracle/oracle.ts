@@ -0,0 +1,178 @@
+import { TypedDataDomain } from "ethers";
+import { Heartbeat, NodeRightsNFT, oracleHeartbeatDomain, verifyHeartbeat } from "@depin/contracts-client";
+import { ApiError } from "../api/errors";
+import { HeartbeatStore } from "./heartbeats";
+import { nodeOperator } from "./operator";
+import { PerformanceSubmitter, SubmissionResult } from "./submitter";
+import { HeartbeatRequest, OracleStatusResponse } from "./schemas";
+
+export interface OracleOptions {
+    windowSeconds: number;
+    // How far a heartbeat's signed timestamp may be from the oracle's clock
+    maxClockSkewSeconds: number;
+    // Unix seconds; injectable so tests can drive the window clock
+    now?: () => number;
+}
+
+export interface WindowReport {
+    start: number;
+    end: number;
+    results: SubmissionResult[];
+}
+
+/**
+ * Collects heartbeats into fixed windows aligned to multiples of
+ * `windowSeconds` and, once a window has ended, scores every tracked node over
+ * it and submits the scores on-chain.
+ */
+export class PerformanceOracle {
+    lastWindow?: WindowReport;
+    private windowStart: number;
+    private readonly minted = new Set<number>();
+    // End of the last heartbeat window accepted per node; a heartbeat starting
+    // before it overlaps (or replays) one already recorded
+    private readonly lastWindowEnd = new Map<number, number>();
+    // Heartbeats are checked one at a time per node, so two copies of one
+    // cannot both pass the replay check while the other awaits the chain
+    private readonly checking = new Map<number, Promise<unknown>>();
+    private domain?: Promise<TypedDataDomain>;
+    private timer?: NodeJS.Timeout;
+    private closing?: Promise<void>;
+
+    constructor(
+        private readonly nodeRights: NodeRightsNFT,
+        private readonly heartbeats: HeartbeatStore,
+        private readonly submitter: PerformanceSubmitter,
+        private readonly options: OracleOptions
+    ) {
+        this.windowStart = this.align(this.now());
+    }
+
+    get currentWindow(): { start: number; end: number } {
+        return { start: this.windowStart, end: this.windowStart + this.options.windowSeconds };
+    }
+
+    /**
+     * Record a heartbeat signed by the node's operator. Returns the
+     * timestamp it was recorded at, which is the oracle's own clock.
+     */
+    async recordHeartbeat({ heartbeat, signature }: HeartbeatRequest): Promise<number> {
+        const tokenId = Number(heartbeat.nodeId);
+        const previous = this.checking.get(tokenId) ?? Promise.resolve();
+        const recorded = previous.catch(() => undefined).then(() => this.acceptHeartbeat(tokenId, heartbeat, signature));
+        this.checking.set(tokenId, recorded);
+        try {
+            return await recorded;
+        } finally {
+            if (this.checking.get(tokenId) === recorded) this.checking.delete(tokenId);
+        }
+    }
+
+    /**
+     * Close the window if it has ended. If the oracle itself was down for whole
+     * windows those are skipped rather than scored as downtime, and only the
+     * latest ended window is submitted.
+     */
+    async tick(): Promise<WindowReport | undefined> {
+        const { windowSeconds } = this.options;
+        const latestStart = this.align(this.now()) - windowSeconds;
+        if (latestStart < this.windowStart) return undefined;
+
+        if (latestStart > this.windowStart) {
+            console.log(`⏭️  Skipping ${(latestStart - this.windowStart) / windowSeconds} window(s) the oracle missed`);
+        }
+        const start = latestStart;
+        const end = start + windowSeconds;
+        const results = await this.submitter.submit(this.heartbeats.scoreWindow(start, end));
+        this.heartbeats.prune(end);
+        this.windowStart = end;
+        this.lastWindow = { start, end, results };
+
+        const count = (status: string) => results.filter((result) => result.status === status).length;
+        console.log(
+            `📡 Window ${new Date(start * 1000).toISOString()}: ${count("confirmed")} confirmed, ` +
+                `${count("skipped")} skipped, ${count("failed")} failed`
+        );
+        for (const result of results.filter((r) => r.status === "failed")) {
+            console.error(`❌ Node ${result.tokenId} after ${result.attempts} attempt(s): ${result.error}`);
+        }
+        return this.lastWindow;
+    }
+
+    start(tickMs = 1000): void {
+        this.timer = setInterval(() => {
+            if (this.closing) return;
+            this.closing = this.tick()
+                .then(() => undefined)
+                .catch((error) => console.error("❌ Window submission failed:", error))
+                .finally(() => (this.closing = undefined));
+        }, tickMs);
+    }
+
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+        await this.closing;
+    }
+
+    status(): OracleStatusResponse {
+        return {
+            currentWindow: this.currentWindow,
+            trackedNodes: this.heartbeats.tokenIds,
+            lastWindow: this.lastWindow ?? null,
+        };
+    }
+
+    private async acceptHeartbeat(tokenId: number, heartbeat: Heartbeat, signature: string): Promise<number> {
+        if (!this.minted.has(tokenId)) {
+            const node = await this.call(() => this.nodeRights.nodeRights(tokenId));
+            if (node.mintedAt === 0n) {
+                throw ApiError.notFound(`Node ${tokenId} has no NodeRightsNFT`);
+            }
+            this.minted.add(tokenId);
+        }
+
+        const timestamp = this.now();
+        if (Math.abs(timestamp - heartbeat.windowEnd) > this.options.maxClockSkewSeconds) {
+            throw ApiError.unauthorized("Heartbeat windowEnd is too far from the oracle's clock");
+        }
+        if (heartbeat.windowStart < (this.lastWindowEnd.get(tokenId) ?? 0)) {
+            throw ApiError.unauthorized("Heartbeat overlaps one already recorded");
+        }
+        // A bridged node keeps running, and earning, under the account that bridged it
+        const operator = await this.call(() => nodeOperator(this.nodeRights, tokenId));
+        if (!verifyHeartbeat(await this.heartbeatDomain(), heartbeat, signature, operator)) {
+            throw ApiError.unauthorized(`Heartbeat is not signed by the operator of node ${tokenId}`);
+        }
+
+        this.lastWindowEnd.set(tokenId, heartbeat.windowEnd);
+        this.heartbeats.record(tokenId, timestamp);
+        return timestamp;
+    }
+
+    private now(): number {
+        return this.options.now ? this.options.now() : Math.floor(Date.now() / 1000);
+    }
+
+    private heartbeatDomain(): Promise<TypedDataDomain> {
+        this.domain ??= this.call(async () => {
+            const { chainId } = await this.nodeRights.runner!.provider!.getNetwork();
+            return oracleHeartbeatDomain(chainId);
+        }).catch((error) => {
+            this.domain = undefined;
+            throw error;
+        });
+        return this.domain;
+    }
+
+    private align(timestamp: number): number {
+        return timestamp - (timestamp % this.options.windowSeconds);
+    }
+
+    private async call<T>(fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn();
+        } catch (error: any) {
+            throw new ApiError(502, "CHAIN_ERROR", error.shortMessage ?? error.message ?? "Contract call failed");
+        }
+    }
+}
@@ -0,0 +1,78 @@
+import { isHexString } from "ethers";
+import { Heartbeat } from "@depin/contracts-client";
+import { ApiError } from "../api/errors";
+import type { WindowReport } from "./oracle";
+
+// ============ RESPONSES ============
+
+// POST /heartbeat
+export interface HeartbeatResponse {
+    success: true;
+    tokenId: number;
+    timestamp: number;
+    windowEnd: number;
+}
+
+// GET /status
+export interface OracleStatusResponse {
+    currentWindow: { start: number; end: number };
+    trackedNodes: number[];
+    lastWindow: WindowReport | null;
+}
+
+// ============ REQUESTS ============
+
+export interface HeartbeatRequest {
+    // nodeId is the NodeRightsNFT token id; windowEnd is when the node sent it
+    heartbeat: Heartbeat;
+    // signHeartbeat under oracleHeartbeatDomain by the node's owner
+    signature: string;
+}
+
+// Accepts a JSON number or a decimal string, as bigints are sent as strings
+function parseInteger(value: unknown, name: string): bigint {
+    const valid =
+        (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) ||
+        (typeof value === "string" && /^\d+$/.test(value));
+    if (!valid) {
+        throw ApiError.badRequest(`${name} must be a non-negative integer`);
+    }
+    return BigInt(value as number | string);
+}
+
+/**
+ * Validate a POST /heartbeat body: a flat Heartbeat plus its signature. The
+ * oracle still timestamps heartbeats itself; windowEnd only has to be close to
+ * its clock.
+ */
+export function parseHeartbeatRequest(body: unknown): HeartbeatRequest {
+    if (typeof body !== "object" || body === null) {
+        throw ApiError.badRequest("Request body must be a JSON object");
+    }
+    const { nodeId, windowStart, windowEnd, heartbeats, uptimeMinutes, nonce, signature } = body as Record<
+        string,
+        unknown
+    >;
+
+    const heartbeat: Heartbeat = {
+        nodeId: parseInteger(nodeId, "nodeId"),
+        windowStart: Number(parseInteger(windowStart, "windowStart")),
+        windowEnd: Number(parseInteger(windowEnd, "windowEnd")),
+        heartbeats: Number(parseInteger(heartbeats, "heartbeats")),
+        uptimeMinutes: Number(parseInteger(uptimeMinutes, "uptimeMinutes")),
+        nonce: parseInteger(nonce, "nonce"),
+    };
+    if (heartbeat.nodeId > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw ApiError.badRequest("nodeId is too large");
+    }
+    if (heartbeat.windowStart >= heartbeat.windowEnd) {
+        throw ApiError.badRequest("windowStart must be before windowEnd");
+    }
+    if (heartbeat.uptimeMinutes * 60 > heartbeat.windowEnd - heartbeat.windowStart) {
+        throw ApiError.badRequest("uptimeMinutes exceeds the window");
+    }
+    if (typeof signature !== "string" || !isHexString(signature, 65)) {
+        throw ApiError.badRequest("signature must be a 65-byte hex string");
+    }
+    return { heartbeat, signature };
+}
@@ -0,0 +1,144 @@
+import { ContractTransactionResponse, Signer } from "ethers";
+import { NodeRightsNFT, NodeStatus } from "@depin/contracts-client";
+import { WindowScore } from "./heartbeats";
+
+export interface SubmitterOptions {
+    // Resend attempts after the first, for failures other than reverts
+    maxRetries: number;
+    // Delay before retry n is n * retryDelayMs
+    retryDelayMs: number;
+}
+
+export type SubmissionStatus = "confirmed" | "skipped" | "failed";
+
+export interface SubmissionResult extends WindowScore {
+    status: SubmissionStatus;
+    attempts: number;
+    txHash?: string;
+    error?: string;
+}
+
+interface Retry {
+    score: WindowScore;
+    error: string;
+}
+
+// A revert fails the same way every time, so it is never retried
+function isRevert(error: any): boolean {
+    return error?.code === "CALL_EXCEPTION" || /revert/i.test(error?.message ?? "");
+}
+
+function describeError(error: any): string {
+    return error?.shortMessage ?? error?.message ?? String(error);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Posts a window's scores through NodeRightsNFT.updatePerformance. A batch is
+ * sent back to back with consecutive nonces taken from the signer's pending
+ * nonce, then awaited together; transactions that fail to send or to confirm
+ * are resent with fresh nonces.
+ */
+export class PerformanceSubmitter {
+    constructor(
+        private readonly nodeRights: NodeRightsNFT,
+        private readonly signer: Signer,
+        private readonly options: SubmitterOptions
+    ) {}
+
+    async submit(scores: WindowScore[]): Promise<SubmissionResult[]> {
+        const results = new Map<number, SubmissionResult>();
+        const attempts = new Map<number, number>();
+        let pending: WindowScore[] = [];
+
+        for (const score of scores) {
+            const node = await this.nodeRights.nodeRights(score.tokenId);
+            if (node.mintedAt === 0n) {
+                results.set(score.tokenId, { ...score, status: "skipped", attempts: 0, error: "Node does not exist" });
+            } else if (Number(node.status) === NodeStatus.TERMINATED) {
+                results.set(score.tokenId, { ...score, status: "skipped", attempts: 0, error: "Node terminated" });
+            } else {
+                pending.push(score);
+            }
+        }
+
+        for (let attempt = 1; pending.length > 0; attempt++) {
+            for (const score of pending) attempts.set(score.tokenId, attempt);
+            const retries = await this.sendBatch(pending, attempts, results);
+            if (retries.length === 0) break;
+
+            if (attempt > this.options.maxRetries) {
+                for (const { score, error } of retries) {
+                    results.set(score.tokenId, { ...score, status: "failed", attempts: attempt, error });
+                }
+                break;
+            }
+            await sleep(this.options.retryDelayMs * attempt);
+            pending = retries.map((retry) => retry.score);
+        }
+
+        return scores.map((score) => results.get(score.tokenId)!);
+    }
+
+    private async sendBatch(
+        batch: WindowScore[],
+        attempts: Map<number, number>,
+        results: Map<number, SubmissionResult>
+    ): Promise<Retry[]> {
+        const retries: Retry[] = [];
+        const sent: { score: WindowScore; tx: ContractTransactionResponse }[] = [];
+        const fail = (score: WindowScore, error: any) =>
+            results.set(score.tokenId, {
+                ...score,
+                status: "failed",
+                attempts: attempts.get(score.tokenId)!,
+                error: describeError(error),
+            });
+
+        let nonce: number;
+        try {
+            nonce = await this.signer.getNonce("pending");
+        } catch (error) {
+            return batch.map((score) => ({ score, error: describeError(error) }));
+        }
+
+        const nodeRights = this.nodeRights.connect(this.signer);
+        for (let i = 0; i < batch.length; i++) {
+            const score = batch[i];
+            try {
+                const tx = await nodeRights.updatePerformance(score.tokenId, score.uptimeSeconds, score.performanceScore, {
+                    nonce,
+                });
+                sent.push({ score, tx });
+                nonce++;
+            } catch (error) {
+                // A revert is caught by gas estimation, before the nonce is used
+                if (isRevert(error)) {
+                    fail(score, error);
+                    continue;
+                }
+                // Anything sent after a failed send could be stuck behind a nonce
+                // gap, so the rest of the batch waits for the retry
+                retries.push(...batch.slice(i).map((rest) => ({ score: rest, error: describeError(error) })));
+                break;
+            }
+        }
+
+        for (const { score, tx } of sent) {
+            try {
+                await tx.wait();
+                results.set(score.tokenId, {
+                    ...score,
+                    status: "confirmed",
+                    attempts: attempts.get(score.tokenId)!,
+                    txHash: tx.hash,
+                });
+            } catch (error) {
+                if (isRevert(error)) fail(score, error);
+                else retries.push({ score, error: describeError(error) });
+            }
+        }
+        return retries;
+    }
+}
@@ -0,0 +1,71 @@
+import { parseEther } from "ethers";
+import { Participation } from "@depin/contracts-client";
+import { ApiError } from "../api/errors";
+import { NodeResponse } from "../api/schemas";
+
+/**
+ * Reads node state from the deployed Participation contract (which inherits
+ * NodeRegistry) and submits stakes on behalf of the API's signer.
+ */
+export class ParticipationService {
+    constructor(
+        private readonly participation: Participation,
+        private readonly activeWindowSeconds: number
+    ) {}
+
+    async listNodes(): Promise<NodeResponse[]> {
+        const [nextId, latestBlock] = await Promise.all([
+            this.call(() => this.participation.nextId()),
+            this.call(() => this.participation.runner!.provider!.getBlock("latest")),
+        ]);
+        const now = latestBlock?.timestamp ?? Math.floor(Date.now() / 1000);
+
+        const ids = Array.from({ length: Number(nextId) }, (_, i) => i);
+        return Promise.all(ids.map((id) => this.readNode(id, now)));
+    }
+
+    async stake(nodeId: number, amountEth: string): Promise<string> {
+        const nextId = await this.call(() => this.participation.nextId());
+        if (BigInt(nodeId) >= nextId) {
+            throw ApiError.notFound(`Node ${nodeId} is not registered`);
+        }
+
+        const tx = await this.call(() =>
+            this.participation.stakeToNode(nodeId, { value: parseEther(amountEth) })
+        );
+        await this.call(() => tx.wait());
+        return tx.hash;
+    }
+
+    private async readNode(id: number, now: number): Promise<NodeResponse> {
+        const [node, stats, totalStaked] = await Promise.all([
+            this.call(() => this.participation.nodes(id)),
+            this.call(() => this.participation.stats(id)),
+            this.call(() => this.participation.nodeStakes(id)),
+        ]);
+
+        const lastUpdate = Number(stats.lastUpdate);
+        const isActive = lastUpdate > 0 && now - lastUpdate <= this.activeWindowSeconds;
+
+        return {
+            id,
+            owner: node.owner,
+            metadata: node.metadata,
+            registeredAt: Number(node.registeredAt),
+            status: isActive ? "active" : "inactive",
+            uptimeMinutes: Number(stats.uptime),
+            earned: stats.earned.toString(),
+            totalStaked: totalStaked.toString(),
+        };
+    }
+
+    // Wrap contract calls so RPC failures surface as a CHAIN_ERROR body
+    private async call<T>(fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn();
+        } catch (error: any) {
+            if (error instanceof ApiError) throw error;
+            throw new ApiError(502, "CHAIN_ERROR", error.shortMessage ?? error.message ?? "Contract call failed");
+        }
+    }
+}
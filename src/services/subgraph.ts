@@ -0,0 +1,48 @@
+import axios from "axios";
+import { ApiError } from "../api/errors";
+import { RewardPoint } from "../api/schemas";
+
+interface RewardEntity {
+    nodeId: string;
+    amount: string;
+    timestamp: string;
+}
+
+/**
+ * Thin GraphQL client for the participation subgraph.
+ */
+export class SubgraphClient {
+    constructor(private readonly url: string) {}
+
+    async listRewards(): Promise<RewardPoint[]> {
+        const data = await this.query<{ rewards: RewardEntity[] }>(`
+            {
+              rewards(orderBy: timestamp, first: 1000) {
+                nodeId
+                amount
+                timestamp
+              }
+            }
+        `);
+
+        return data.rewards.map((reward) => ({
+            nodeId: Number(reward.nodeId),
+            timestamp: Number(reward.timestamp),
+            reward: Number(reward.amount),
+        }));
+    }
+
+    async query<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+        let response;
+        try {
+            response = await axios.post(this.url, { query, variables });
+        } catch (error: any) {
+            throw new ApiError(502, "SUBGRAPH_ERROR", `Subgraph unreachable: ${error.message}`);
+        }
+
+        if (response.data.errors?.length) {
+            throw new ApiError(502, "SUBGRAPH_ERROR", response.data.errors[0].message);
+        }
+        return response.data.data as T;
+    }
+}
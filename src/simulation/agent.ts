@@ -0,0 +1,134 @@
+import { ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { DPNToken__factory, NodeRightsNFT, NodeType, Participation } from "@depin/contracts-client";
+import { Random } from "./random";
+import { ReliabilityModel } from "./reliability";
+
+export interface SimulationContracts {
+    participation: Participation;
+    nodeRights: NodeRightsNFT;
+}
+
+export interface JoinOptions {
+    stakeETH?: bigint;
+    stakeDPN?: bigint;
+    metadata?: string;
+}
+
+/**
+ * One node operator: registers a Participation node, mints the matching
+ * NodeRightsNFT and then claims, stakes, upgrades and bridges from its
+ * own signer.
+ */
+export class OperatorAgent {
+    nodeId = -1n;
+    tokenId = -1n;
+    address = "";
+
+    constructor(
+        readonly id: number,
+        readonly label: string,
+        readonly nodeType: NodeType,
+        private readonly reliability: ReliabilityModel,
+        private readonly random: Random,
+        private readonly signer: Signer,
+        private readonly contracts: SimulationContracts
+    ) {}
+
+    get joined(): boolean {
+        return this.tokenId >= 0n;
+    }
+
+    async join(options: JoinOptions = {}): Promise<void> {
+        const { participation, nodeRights } = this.contracts;
+        this.address = await this.signer.getAddress();
+        const metadata = options.metadata ?? `sim://operator/${this.label}`;
+
+        const registered = await this.send(participation.connect(this.signer).registerNode(metadata));
+        this.nodeId = (await this.eventArgs(registered, participation, "NodeRegistered")).nodeId;
+
+        const config = await nodeRights.nodeTypeConfigs(this.nodeType);
+        if (!config.isActive) {
+            throw new Error(`Node type ${NodeType[this.nodeType]} is not active`);
+        }
+        const stakeDPN = options.stakeDPN ?? config.minDPNStake;
+        await this.approveDPN(stakeDPN);
+        const minted = await this.send(
+            nodeRights
+                .connect(this.signer)
+                .mintNodeRights(this.nodeType, stakeDPN, metadata, { value: options.stakeETH ?? config.minETHStake })
+        );
+        this.tokenId = (await this.eventArgs(minted, nodeRights, "NodeRightsMinted")).tokenId;
+    }
+
+    // Fraction of the step this node was up
+    sampleReliability(step: number): number {
+        return this.reliability.sample(this.random, step);
+    }
+
+    // Returns the amount paid out by claimReward
+    async claim(): Promise<{ amount: bigint; transactionHash: string }> {
+        const { participation } = this.contracts;
+        const receipt = await this.send(participation.connect(this.signer).claimReward(this.nodeId));
+        const { amount } = await this.eventArgs(receipt, participation, "RewardClaimed");
+        return { amount, transactionHash: receipt.hash };
+    }
+
+    // Returns the DPN paid out by NodeRightsNFT.claimNodeRewards
+    async claimNodeRewards(): Promise<{ amount: bigint; transactionHash: string }> {
+        const { nodeRights } = this.contracts;
+        const receipt = await this.send(nodeRights.connect(this.signer).claimNodeRewards(this.tokenId));
+        const { rewardAmount } = await this.eventArgs(receipt, nodeRights, "RewardsDistributed");
+        return { amount: rewardAmount, transactionHash: receipt.hash };
+    }
+
+    async stake(amount: bigint): Promise<string> {
+        const receipt = await this.send(
+            this.contracts.participation.connect(this.signer).stakeToNode(this.nodeId, { value: amount })
+        );
+        return receipt.hash;
+    }
+
+    async upgrade(addETH: bigint, addDPN: bigint): Promise<string> {
+        await this.approveDPN(addDPN);
+        const receipt = await this.send(
+            this.contracts.nodeRights.connect(this.signer).upgradeNode(this.tokenId, addDPN, { value: addETH })
+        );
+        return receipt.hash;
+    }
+
+    async bridge(destinationChain: string): Promise<string> {
+        const receipt = await this.send(
+            this.contracts.nodeRights.connect(this.signer).bridgeToChain(this.tokenId, destinationChain)
+        );
+        return receipt.hash;
+    }
+
+    // NodeRightsNFT takes custody of DPN stakes with transferFrom
+    private async approveDPN(amount: bigint): Promise<void> {
+        if (amount === 0n) return;
+        const { nodeRights } = this.contracts;
+        const dpn = DPNToken__factory.connect(await nodeRights.dpnTokenContract(), this.signer);
+        await this.send(dpn.approve(await nodeRights.getAddress(), amount));
+    }
+
+    private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+        const receipt = await (await pending).wait();
+        return receipt!;
+    }
+
+    // Only the contract's own logs are parsed: DPN's ERC20 Transfer shares a
+    // topic with NodeRightsNFT's ERC721 Transfer but not its encoding
+    private async eventArgs(
+        receipt: ContractTransactionReceipt,
+        contract: Participation | NodeRightsNFT,
+        name: string
+    ): Promise<any> {
+        const address = await contract.getAddress();
+        const event = receipt.logs
+            .filter((log) => log.address === address)
+            .map((log) => contract.interface.parseLog(log))
+            .find((parsed) => parsed?.name === name);
+        if (!event) throw new Error(`${name} not emitted by ${receipt.hash}`);
+        return event.args;
+    }
+}
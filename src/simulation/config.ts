@@ -0,0 +1,96 @@
+import fs from "fs";
+import { NodeType } from "@depin/contracts-client";
+import type { Fault } from "./faults";
+
+// Configuration for a simulation run. Defaults give a small mixed network
+// reporting hourly for a simulated day; scripts/simulate.ts reads overrides
+// from the environment.
+
+export type NodeTypeName = keyof typeof NodeType;
+
+export const NODE_TYPE_NAMES: NodeTypeName[] = ["STORAGE", "COMPUTE", "BANDWIDTH"];
+
+/**
+ * How reliably an operator's node stays up during one step: a normal
+ * distribution of the uptime fraction, clamped to [0, 1], plus a chance of a
+ * full outage.
+ */
+export interface ReliabilityProfile {
+    mean: number;
+    stdDev: number;
+    outageProbability: number;
+}
+
+export interface SimulationConfig {
+    operatorsPerType: Record<NodeTypeName, number>;
+    reliability: Record<NodeTypeName, ReliabilityProfile>;
+    steps: number;
+    // Simulated time between steps, applied with evm_increaseTime
+    stepSeconds: number;
+    // Operators claim their Participation rewards every this many steps
+    claimEverySteps: number;
+    seed: number;
+    // Operators are assigned to these regions round-robin
+    regions: string[];
+    // Injected outages; see faults.ts
+    faults: Fault[];
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+    operatorsPerType: { STORAGE: 2, COMPUTE: 2, BANDWIDTH: 2 },
+    reliability: {
+        STORAGE: { mean: 0.97, stdDev: 0.02, outageProbability: 0.01 },
+        COMPUTE: { mean: 0.93, stdDev: 0.05, outageProbability: 0.03 },
+        BANDWIDTH: { mean: 0.95, stdDev: 0.04, outageProbability: 0.02 },
+    },
+    steps: 24,
+    stepSeconds: 3600,
+    claimEverySteps: 6,
+    seed: 1,
+    regions: ["us-east", "eu-west", "ap-south"],
+    faults: [],
+};
+
+export function resolveSimulationConfig(overrides: Partial<SimulationConfig> = {}): SimulationConfig {
+    const config: SimulationConfig = {
+        ...DEFAULT_SIMULATION_CONFIG,
+        ...overrides,
+        operatorsPerType: { ...DEFAULT_SIMULATION_CONFIG.operatorsPerType, ...overrides.operatorsPerType },
+        reliability: { ...DEFAULT_SIMULATION_CONFIG.reliability, ...overrides.reliability },
+    };
+
+    if (config.steps < 1) throw new Error("steps must be at least 1");
+    if (config.stepSeconds < 60) throw new Error("stepSeconds must be at least 60");
+    if (config.claimEverySteps < 1) throw new Error("claimEverySteps must be at least 1");
+    for (const name of NODE_TYPE_NAMES) {
+        const { mean, stdDev, outageProbability } = config.reliability[name];
+        if (mean < 0 || mean > 1 || stdDev < 0 || outageProbability < 0 || outageProbability > 1) {
+            throw new Error(`Invalid reliability profile for ${name}`);
+        }
+    }
+    if (config.regions.length === 0) throw new Error("regions must not be empty");
+    return config;
+}
+
+/**
+ * Build a config from SIM_* environment variables. SIM_CONFIG points at a JSON
+ * file of overrides and SIM_FAULTS at a JSON array of faults; the other
+ * variables take precedence over SIM_CONFIG.
+ */
+export function simulationConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SimulationConfig {
+    const overrides: Partial<SimulationConfig> = env.SIM_CONFIG
+        ? JSON.parse(fs.readFileSync(env.SIM_CONFIG, "utf8"))
+        : {};
+
+    if (env.SIM_OPERATORS_PER_TYPE) {
+        const count = parseInt(env.SIM_OPERATORS_PER_TYPE, 10);
+        overrides.operatorsPerType = { STORAGE: count, COMPUTE: count, BANDWIDTH: count };
+    }
+    if (env.SIM_STEPS) overrides.steps = parseInt(env.SIM_STEPS, 10);
+    if (env.SIM_STEP_SECONDS) overrides.stepSeconds = parseInt(env.SIM_STEP_SECONDS, 10);
+    if (env.SIM_CLAIM_EVERY) overrides.claimEverySteps = parseInt(env.SIM_CLAIM_EVERY, 10);
+    if (env.SIM_SEED) overrides.seed = parseInt(env.SIM_SEED, 10);
+    if (env.SIM_FAULTS) overrides.faults = JSON.parse(fs.readFileSync(env.SIM_FAULTS, "utf8"));
+
+    return resolveSimulationConfig(overrides);
+}
@@ -0,0 +1,275 @@
+import { Signer } from "ethers";
+import { DPNToken__factory, NodeStatus, NodeType } from "@depin/contracts-client";
+import { OperatorAgent, SimulationContracts } from "./agent";
+import { NODE_TYPE_NAMES, NodeTypeName } from "./config";
+import { applyFaults } from "./faults";
+import { ActionRecord, NodeStepRecord, NodeTypeUtilization, SimulationRunLog, StepRecord } from "./log";
+import { ScheduledAction, SimulationPlan } from "./plan";
+import { Random } from "./random";
+
+// NodeRightsNFT.PERFORMANCE_DECIMALS
+const PERFORMANCE_DECIMALS = 10000;
+
+// The subset of a Hardhat/JSON-RPC provider the engine needs to move time
+export interface SimulationProvider {
+    send(method: string, params: any[]): Promise<any>;
+    getBlock(blockTag: "latest"): Promise<{ number: number; timestamp: number } | null>;
+}
+
+interface StepActivity {
+    reliability: number;
+    uptimeMinutes: number;
+    actualUptimeMinutes: number;
+    score: number;
+    claimed: bigint;
+    penalty: bigint;
+    faults: string[];
+}
+
+/**
+ * Drives the deployed contracts over simulated time. At the start of each step
+ * operators scheduled to join register and mint (the tracker, which holds the
+ * initial DPN supply, tops up their DPN stakes), scheduled actions run, then
+ * every live operator draws its uptime from its reliability model, injected
+ * faults adjust it, the performance tracker (`tracker`, the NodeRightsNFT owner
+ * and a Participation REPORTER_ROLE holder) records the uptime the operator
+ * reports and pushes a score for the uptime actually delivered, operators
+ * claim on schedule, and the chain is advanced by `stepSeconds` with
+ * evm_increaseTime/evm_mine.
+ *
+ * Requires a chain that accepts the Hardhat evm_* methods (hardhat or localhost).
+ */
+export class SimulationEngine {
+    private readonly agents: OperatorAgent[];
+    private readonly actionLog: ActionRecord[] = [];
+
+    constructor(
+        private readonly contracts: SimulationContracts,
+        private readonly tracker: Signer,
+        private readonly provider: SimulationProvider,
+        readonly plan: SimulationPlan
+    ) {
+        this.agents = plan.operators.map(
+            (operator, id) =>
+                new OperatorAgent(
+                    id,
+                    operator.label,
+                    operator.nodeType,
+                    operator.reliability,
+                    new Random(plan.seed + id),
+                    operator.signer,
+                    contracts
+                )
+        );
+    }
+
+    async run(): Promise<SimulationRunLog> {
+        const startedAt = new Date().toISOString();
+        const { participation } = this.contracts;
+        // One report per window: a longer step would exceed the per-window uptime cap,
+        // and a shorter one that does not divide the window would stack reports in it
+        if (BigInt(this.plan.stepSeconds) !== (await participation.reportingWindow())) {
+            await (await participation.connect(this.tracker).setReportingWindow(this.plan.stepSeconds)).wait();
+        }
+        const start = await this.latestBlock();
+
+        const steps: StepRecord[] = [];
+        for (let step = 1; step <= this.plan.steps; step++) {
+            steps.push(await this.step(step));
+        }
+
+        return {
+            name: this.plan.name,
+            seed: this.plan.seed,
+            stepSeconds: this.plan.stepSeconds,
+            startedAt,
+            startTimestamp: start.timestamp,
+            endTimestamp: steps[steps.length - 1].timestamp,
+            operators: this.agents
+                .filter((agent) => agent.joined)
+                .map((agent) => ({
+                    agentId: agent.id,
+                    label: agent.label,
+                    nodeType: NodeType[agent.nodeType] as NodeTypeName,
+                    address: agent.address,
+                    nodeId: agent.nodeId.toString(),
+                    tokenId: agent.tokenId.toString(),
+                    joinedAtStep: this.plan.operators[agent.id].joinAtStep,
+                })),
+            actions: this.actionLog,
+            steps,
+        };
+    }
+
+    private async step(step: number): Promise<StepRecord> {
+        const { participation, nodeRights } = this.contracts;
+        const nodeRightsAddress = await nodeRights.getAddress();
+        const stepMinutes = Math.floor(this.plan.stepSeconds / 60);
+        const claimDue = this.plan.claimEverySteps > 0 && step % this.plan.claimEverySteps === 0;
+
+        for (const agent of this.agents) {
+            const operator = this.plan.operators[agent.id];
+            if (operator.joinAtStep === step) {
+                const stakeDPN = operator.stakeDPN ?? (await nodeRights.nodeTypeConfigs(operator.nodeType)).minDPNStake;
+                await this.fundDPN(await operator.signer.getAddress(), stakeDPN);
+                await agent.join({ stakeETH: operator.stakeETH, stakeDPN, metadata: operator.metadata });
+            }
+        }
+
+        const claimedByActions = new Map<number, bigint>();
+        for (const action of this.plan.actions.filter((scheduled) => scheduled.step === step)) {
+            await this.perform(action, claimedByActions);
+        }
+
+        const activity = new Map<number, StepActivity>();
+        for (const agent of this.agents.filter((candidate) => candidate.joined)) {
+            let claimed = claimedByActions.get(agent.id) ?? 0n;
+            const before = await nodeRights.nodeRights(agent.tokenId);
+            if (Number(before.status) === NodeStatus.TERMINATED) {
+                activity.set(agent.id, {
+                    reliability: 0,
+                    uptimeMinutes: 0,
+                    actualUptimeMinutes: 0,
+                    score: 0,
+                    claimed,
+                    penalty: 0n,
+                    faults: [],
+                });
+                continue;
+            }
+
+            const operator = this.plan.operators[agent.id];
+            const effect = applyFaults(
+                this.plan.faults,
+                { label: agent.label, nodeType: NodeType[agent.nodeType] as NodeTypeName, region: operator.region },
+                step,
+                agent.sampleReliability(step)
+            );
+            const uptimeMinutes = Math.round(effect.reported * stepMinutes);
+            const actualUptimeMinutes = Math.round(effect.actual * stepMinutes);
+            const score = Math.round(effect.actual * PERFORMANCE_DECIMALS);
+
+            if (uptimeMinutes > 0) {
+                await (await participation.connect(this.tracker).recordUptime(agent.nodeId, uptimeMinutes)).wait();
+            }
+            const receipt = await (
+                await nodeRights.connect(this.tracker).updatePerformance(agent.tokenId, actualUptimeMinutes * 60, score)
+            ).wait();
+            const slashed = receipt!.logs
+                .filter((log) => log.address === nodeRightsAddress)
+                .map((log) => nodeRights.interface.parseLog(log))
+                .find((event) => event?.name === "NodeSlashed");
+            if (claimDue) claimed += (await agent.claim()).amount;
+
+            activity.set(agent.id, {
+                reliability: effect.actual,
+                uptimeMinutes,
+                actualUptimeMinutes,
+                score,
+                claimed,
+                penalty: slashed ? slashed.args.penaltyAmount : 0n,
+                faults: effect.active,
+            });
+        }
+
+        await this.provider.send("evm_increaseTime", [this.plan.stepSeconds]);
+        await this.provider.send("evm_mine", []);
+        const block = await this.latestBlock();
+
+        const nodes: NodeStepRecord[] = [];
+        for (const agent of this.agents.filter((candidate) => candidate.joined)) {
+            const { reliability, uptimeMinutes, actualUptimeMinutes, score, claimed, penalty, faults } =
+                activity.get(agent.id)!;
+            const details = await nodeRights.getNodeDetails(agent.tokenId);
+            nodes.push({
+                agentId: agent.id,
+                label: agent.label,
+                nodeType: NodeType[agent.nodeType] as NodeTypeName,
+                reliability,
+                uptimeMinutes,
+                actualUptimeMinutes,
+                performanceScore: score,
+                status: NodeStatus[Number(details.node.status)] as keyof typeof NodeStatus,
+                claimed: claimed.toString(),
+                penalty: penalty.toString(),
+                stakedDPN: details.node.stakedDPN.toString(),
+                estimatedRewards: details.estimatedRewards.toString(),
+                capacityUsed: Number(await nodeRights.nodeCapacityUsed(agent.tokenId)),
+                faults,
+            });
+        }
+
+        const utilization = {} as Record<NodeTypeName, NodeTypeUtilization>;
+        for (const name of NODE_TYPE_NAMES) {
+            const [capacityUsed, totalCapacity] = await nodeRights.getNodeTypeUtilization(NodeType[name]);
+            utilization[name] = { capacityUsed: Number(capacityUsed), totalCapacity: Number(totalCapacity) };
+        }
+
+        return {
+            step,
+            timestamp: block.timestamp,
+            blockNumber: block.number,
+            activeNodes: nodes.filter((node) => node.status === "ACTIVE").length,
+            uptimeMinutes: nodes.reduce((sum, node) => sum + node.uptimeMinutes, 0),
+            claimed: nodes.reduce((sum, node) => sum + BigInt(node.claimed), 0n).toString(),
+            utilization,
+            nodes,
+        };
+    }
+
+    private async perform(action: ScheduledAction, claimedByActions: Map<number, bigint>): Promise<void> {
+        const agent = this.agents.find((candidate) => candidate.label === action.operator);
+        if (!agent?.joined) {
+            throw new Error(`Step ${action.step}: operator "${action.operator}" has not joined yet`);
+        }
+
+        let transactionHash: string;
+        switch (action.kind) {
+            case "upgrade":
+                await this.fundDPN(agent.address, action.addDPN);
+                transactionHash = await agent.upgrade(action.addETH, action.addDPN);
+                break;
+            case "bridge":
+                transactionHash = await agent.bridge(action.destinationChain);
+                break;
+            case "stake":
+                transactionHash = await agent.stake(action.amount);
+                break;
+            case "reserve": {
+                const tx = await this.contracts.nodeRights.connect(this.tracker).reserveCapacity(agent.tokenId, action.units);
+                transactionHash = (await tx.wait())!.hash;
+                break;
+            }
+            case "release": {
+                const tx = await this.contracts.nodeRights.connect(this.tracker).releaseCapacity(agent.tokenId, action.units);
+                transactionHash = (await tx.wait())!.hash;
+                break;
+            }
+            case "claim": {
+                const claim = await agent.claim();
+                claimedByActions.set(agent.id, (claimedByActions.get(agent.id) ?? 0n) + claim.amount);
+                transactionHash = claim.transactionHash;
+                break;
+            }
+            case "claimNode":
+                transactionHash = (await agent.claimNodeRewards()).transactionHash;
+                break;
+        }
+        this.actionLog.push({ step: action.step, operator: action.operator, kind: action.kind, transactionHash });
+    }
+
+    // Transfer whatever `recipient` lacks of `amount` DPN from the tracker
+    private async fundDPN(recipient: string, amount: bigint): Promise<void> {
+        const dpn = DPNToken__factory.connect(await this.contracts.nodeRights.dpnTokenContract(), this.tracker);
+        const balance = await dpn.balanceOf(recipient);
+        if (balance < amount) {
+            await (await dpn.transfer(recipient, amount - balance)).wait();
+        }
+    }
+
+    private async latestBlock(): Promise<{ number: number; timestamp: number }> {
+        const block = await this.provider.getBlock("latest");
+        if (!block) throw new Error("Could not read the latest block");
+        return block;
+    }
+}
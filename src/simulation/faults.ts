@@ -0,0 +1,206 @@
+import { NodeStatus } from "@depin/contracts-client";
+import { NODE_TYPE_NAMES, NodeTypeName } from "./config";
+import { SimulationRunLog } from "./log";
+import { check, checkArray, checkFraction, checkInteger, isOneOf, isRecord } from "./validation";
+
+// Fault injection for stress-testing slashing. Faults are correlated across
+// operators (a region, a NodeType) or target named operators, and apply over
+// an inclusive step window (`to` defaults to the last step). They change the
+// node's actual reliability, which the tracker scores through
+// NodeRightsNFT.updatePerformance, and/or the uptime the operator reports to
+// Participation.recordUptime.
+
+interface FaultWindow {
+    from: number;
+    to?: number;
+}
+
+export type Fault =
+    // Every operator in the region loses `severity` (default 1 = fully down) of its uptime
+    | (FaultWindow & { kind: "regionOutage"; region: string; severity?: number })
+    // Every operator of the NodeType loses `severity` of its uptime
+    | (FaultWindow & { kind: "nodeTypeDegradation"; nodeType: NodeTypeName; severity: number })
+    // Operators alternate `period` steps degraded by `severity` (default 1), `period` steps normal, starting degraded
+    | (FaultWindow & { kind: "flapping"; operators: string[]; period?: number; severity?: number })
+    // The operator reports `reported` (default 1 = full uptime) whatever its node actually did
+    | (FaultWindow & { kind: "fakeUptime"; operator: string; reported?: number });
+
+const FAULT_KINDS: Fault["kind"][] = ["regionOutage", "nodeTypeDegradation", "flapping", "fakeUptime"];
+
+export interface FaultTarget {
+    label: string;
+    nodeType: NodeTypeName;
+    region: string;
+}
+
+export interface FaultEffect {
+    // Fraction of the step the node was really up; scored by the tracker
+    actual: number;
+    // Fraction the operator reports to Participation
+    reported: number;
+    // Faults active on this node during the step, e.g. "regionOutage:eu-west"
+    active: string[];
+}
+
+function describeFault(fault: Fault): string {
+    switch (fault.kind) {
+        case "regionOutage":
+            return `regionOutage:${fault.region}`;
+        case "nodeTypeDegradation":
+            return `nodeTypeDegradation:${fault.nodeType}`;
+        case "flapping":
+            return "flapping";
+        case "fakeUptime":
+            return "fakeUptime";
+    }
+}
+
+export function applyFaults(faults: Fault[], target: FaultTarget, step: number, reliability: number): FaultEffect {
+    let actual = reliability;
+    let reported: number | undefined;
+    const active: string[] = [];
+
+    for (const fault of faults) {
+        if (step < fault.from || (fault.to !== undefined && step > fault.to)) continue;
+
+        switch (fault.kind) {
+            case "regionOutage":
+                if (target.region !== fault.region) continue;
+                actual *= 1 - (fault.severity ?? 1);
+                break;
+            case "nodeTypeDegradation":
+                if (target.nodeType !== fault.nodeType) continue;
+                actual *= 1 - fault.severity;
+                break;
+            case "flapping": {
+                if (!fault.operators.includes(target.label)) continue;
+                const down = Math.floor((step - fault.from) / (fault.period ?? 1)) % 2 === 0;
+                if (!down) continue;
+                actual *= 1 - (fault.severity ?? 1);
+                break;
+            }
+            case "fakeUptime":
+                if (target.label !== fault.operator) continue;
+                reported = fault.reported ?? 1;
+                break;
+        }
+        active.push(describeFault(fault));
+    }
+
+    return { actual, reported: reported ?? actual, active };
+}
+
+/** Check an untyped fault list (parsed JSON); `operators` are the known labels. */
+export function parseFaults(raw: unknown, path: string, operators?: string[]): Fault[] {
+    checkArray(raw, path);
+    raw.forEach((fault, i) => {
+        const at = `${path}[${i}]`;
+        check(isRecord(fault) && isOneOf(FAULT_KINDS, fault.kind), `${at}.kind`, `must be one of ${FAULT_KINDS.join(", ")}`);
+        checkInteger(fault.from, `${at}.from`, 1);
+        if (fault.to !== undefined) checkInteger(fault.to, `${at}.to`, fault.from);
+
+        const checkOperator = (label: unknown, field: string) => {
+            check(typeof label === "string", field, "must be an operator label");
+            if (operators) check(operators.includes(label), field, `unknown operator "${label}"`);
+        };
+
+        switch (fault.kind) {
+            case "regionOutage":
+                check(typeof fault.region === "string" && fault.region.length > 0, `${at}.region`, "is required");
+                if (fault.severity !== undefined) checkFraction(fault.severity, `${at}.severity`);
+                break;
+            case "nodeTypeDegradation":
+                check(isOneOf(NODE_TYPE_NAMES, fault.nodeType), `${at}.nodeType`, `must be one of ${NODE_TYPE_NAMES.join(", ")}`);
+                checkFraction(fault.severity, `${at}.severity`);
+                break;
+            case "flapping": {
+                const labels = fault.operators;
+                checkArray(labels, `${at}.operators`, true);
+                labels.forEach((label, j) => checkOperator(label, `${at}.operators[${j}]`));
+                if (fault.period !== undefined) checkInteger(fault.period, `${at}.period`, 1);
+                if (fault.severity !== undefined) checkFraction(fault.severity, `${at}.severity`);
+                break;
+            }
+            case "fakeUptime":
+                checkOperator(fault.operator, `${at}.operator`);
+                if (fault.reported !== undefined) checkFraction(fault.reported, `${at}.reported`);
+                break;
+        }
+    });
+    return raw as Fault[];
+}
+
+type SlashedStatus = "SLASHED_MINOR" | "SLASHED_MAJOR" | "TERMINATED";
+const SLASHED_STATUSES: SlashedStatus[] = ["SLASHED_MINOR", "SLASHED_MAJOR", "TERMINATED"];
+
+export interface SlashingReport {
+    nodes: number;
+    // Status of every node after the last step
+    finalStatus: Record<keyof typeof NodeStatus, number>;
+    // Nodes that entered each slashed status at least once
+    everReached: Record<SlashedStatus, number>;
+    // DPN wei slashed to the treasury, in total and by the status that triggered the penalty
+    totalPenalized: string;
+    penalizedByStatus: Record<SlashedStatus, string>;
+    penalizedByNodeType: Record<NodeTypeName, string>;
+    // Nodes that were slashed while a given fault was active on them
+    slashedUnderFault: Record<string, number>;
+    // Minutes recorded in Participation beyond what nodes actually delivered
+    fakeUptimeMinutes: number;
+}
+
+/** How hard a run's faults (or plain unreliability) hit operators. */
+export function slashingReport(log: SimulationRunLog): SlashingReport {
+    const finalStatus = { ACTIVE: 0, SLASHED_MINOR: 0, SLASHED_MAJOR: 0, TERMINATED: 0 };
+    const everReached = { SLASHED_MINOR: 0, SLASHED_MAJOR: 0, TERMINATED: 0 };
+    const penalizedByStatus = { SLASHED_MINOR: 0n, SLASHED_MAJOR: 0n, TERMINATED: 0n };
+    const penalizedByNodeType = { STORAGE: 0n, COMPUTE: 0n, BANDWIDTH: 0n };
+    const slashedUnderFault: Record<string, Set<number>> = {};
+    let fakeUptimeMinutes = 0;
+
+    const last = log.steps[log.steps.length - 1];
+    for (const node of last.nodes) finalStatus[node.status]++;
+
+    for (const operator of log.operators) {
+        const history = log.steps.flatMap((step) => step.nodes.filter((node) => node.agentId === operator.agentId));
+        for (const status of SLASHED_STATUSES) {
+            if (history.some((node) => node.status === status)) everReached[status]++;
+        }
+
+        let previous: keyof typeof NodeStatus = "ACTIVE";
+        for (const node of history) {
+            const penalty = BigInt(node.penalty);
+            if (node.status !== previous && node.status !== "ACTIVE") {
+                penalizedByStatus[node.status as SlashedStatus] += penalty;
+                for (const fault of node.faults) {
+                    (slashedUnderFault[fault] ??= new Set()).add(node.agentId);
+                }
+            }
+            penalizedByNodeType[node.nodeType] += penalty;
+            fakeUptimeMinutes += Math.max(0, node.uptimeMinutes - node.actualUptimeMinutes);
+            previous = node.status;
+        }
+    }
+
+    const total = SLASHED_STATUSES.reduce((sum, status) => sum + penalizedByStatus[status], 0n);
+    return {
+        nodes: last.nodes.length,
+        finalStatus,
+        everReached,
+        totalPenalized: total.toString(),
+        penalizedByStatus: {
+            SLASHED_MINOR: penalizedByStatus.SLASHED_MINOR.toString(),
+            SLASHED_MAJOR: penalizedByStatus.SLASHED_MAJOR.toString(),
+            TERMINATED: penalizedByStatus.TERMINATED.toString(),
+        },
+        penalizedByNodeType: {
+            STORAGE: penalizedByNodeType.STORAGE.toString(),
+            COMPUTE: penalizedByNodeType.COMPUTE.toString(),
+            BANDWIDTH: penalizedByNodeType.BANDWIDTH.toString(),
+        },
+        slashedUnderFault: Object.fromEntries(
+            Object.entries(slashedUnderFault).map(([fault, agents]) => [fault, agents.size])
+        ),
+        fakeUptimeMinutes,
+    };
+}
@@ -0,0 +1,13 @@
+// Agent-based network simulator; see scripts/simulate.ts and
+// scripts/run-scenario.ts for the CLI entry points.
+
+export * from "./agent";
+export * from "./config";
+export * from "./engine";
+export * from "./faults";
+export * from "./log";
+export * from "./plan";
+export * from "./random";
+export * from "./reliability";
+export * from "./scenario";
+export * from "./validation";
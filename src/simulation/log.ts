@@ -0,0 +1,146 @@
+import { NodeStatus } from "@depin/contracts-client";
+import { NODE_TYPE_NAMES, NodeTypeName } from "./config";
+import { ScheduledAction } from "./plan";
+
+// Run log written by SimulationEngine.run(). Token amounts are decimal wei
+// strings so the log survives JSON.stringify.
+
+export interface OperatorRecord {
+    agentId: number;
+    label: string;
+    nodeType: NodeTypeName;
+    address: string;
+    nodeId: string;
+    tokenId: string;
+    joinedAtStep: number;
+}
+
+export interface ActionRecord {
+    step: number;
+    operator: string;
+    kind: ScheduledAction["kind"];
+    transactionHash: string;
+}
+
+export interface NodeStepRecord {
+    agentId: number;
+    label: string;
+    nodeType: NodeTypeName;
+    // Actual uptime fraction, which the tracker scores
+    reliability: number;
+    // Minutes the operator recorded in Participation (inflated under a fakeUptime fault)
+    uptimeMinutes: number;
+    actualUptimeMinutes: number;
+    performanceScore: number;
+    status: keyof typeof NodeStatus;
+    // Participation rewards claimed during this step
+    claimed: string;
+    // DPN slashed to the treasury by this step's performance update
+    penalty: string;
+    stakedDPN: string;
+    // NodeRightsNFT.getNodeDetails estimate at the end of the step
+    estimatedRewards: string;
+    // NodeRightsNFT.nodeCapacityUsed at the end of the step
+    capacityUsed: number;
+    faults: string[];
+}
+
+// NodeRightsNFT.getNodeTypeUtilization: every live node of the type on chain, not only the simulated ones
+export interface NodeTypeUtilization {
+    capacityUsed: number;
+    totalCapacity: number;
+}
+
+export interface StepRecord {
+    step: number;
+    timestamp: number;
+    blockNumber: number;
+    activeNodes: number;
+    uptimeMinutes: number;
+    claimed: string;
+    utilization: Record<NodeTypeName, NodeTypeUtilization>;
+    nodes: NodeStepRecord[];
+}
+
+export interface SimulationRunLog {
+    name: string;
+    seed: number;
+    stepSeconds: number;
+    startedAt: string;
+    startTimestamp: number;
+    endTimestamp: number;
+    operators: OperatorRecord[];
+    actions: ActionRecord[];
+    steps: StepRecord[];
+}
+
+const CSV_COLUMNS = [
+    "step",
+    "timestamp",
+    "agentId",
+    "label",
+    "nodeType",
+    "reliability",
+    "uptimeMinutes",
+    "performanceScore",
+    "status",
+    "claimed",
+    "penalty",
+    "stakedDPN",
+    "estimatedRewards",
+    "capacityUsed",
+    "faults",
+];
+
+// One row per node per step, for spreadsheets and plotting tools
+export function runLogToCsv(log: Pick<SimulationRunLog, "steps">): string {
+    const rows = log.steps.flatMap((step) =>
+        step.nodes.map((node) =>
+            [
+                step.step,
+                step.timestamp,
+                node.agentId,
+                node.label,
+                node.nodeType,
+                node.reliability.toFixed(4),
+                node.uptimeMinutes,
+                node.performanceScore,
+                node.status,
+                node.claimed,
+                node.penalty,
+                node.stakedDPN,
+                node.estimatedRewards,
+                node.capacityUsed,
+                node.faults.join(" "),
+            ].join(",")
+        )
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export interface UtilizationSummary extends NodeTypeUtilization {
+    // Fractions of totalCapacity, 0 when the type has no live nodes
+    utilization: number;
+    averageUtilization: number;
+    peakUtilization: number;
+}
+
+function fraction({ capacityUsed, totalCapacity }: NodeTypeUtilization): number {
+    return totalCapacity > 0 ? capacityUsed / totalCapacity : 0;
+}
+
+// Per NodeType: capacity at the last step, and utilization averaged and peaked over the run
+export function utilizationReport(log: Pick<SimulationRunLog, "steps">): Record<NodeTypeName, UtilizationSummary> {
+    const report = {} as Record<NodeTypeName, UtilizationSummary>;
+    for (const name of NODE_TYPE_NAMES) {
+        const fractions = log.steps.map((step) => fraction(step.utilization[name]));
+        const last = log.steps[log.steps.length - 1].utilization[name];
+        report[name] = {
+            ...last,
+            utilization: fraction(last),
+            averageUtilization: fractions.reduce((sum, value) => sum + value, 0) / fractions.length,
+            peakUtilization: Math.max(...fractions),
+        };
+    }
+    return report;
+}
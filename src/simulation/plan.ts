@@ -0,0 +1,79 @@
+import { Signer } from "ethers";
+import { NodeType } from "@depin/contracts-client";
+import { NODE_TYPE_NAMES, SimulationConfig } from "./config";
+import { Fault, parseFaults } from "./faults";
+import { ReliabilityModel, profileReliability } from "./reliability";
+
+// What SimulationEngine executes. Random configs (config.ts) and scenario
+// files (scenario.ts) are both compiled down to a plan.
+
+export interface OperatorPlan {
+    label: string;
+    nodeType: NodeType;
+    // Operators sharing a region go down together under a regionOutage fault
+    region: string;
+    signer: Signer;
+    reliability: ReliabilityModel;
+    // Mint stakes; default to the NodeType minimums read from NodeRightsNFT
+    stakeETH?: bigint;
+    stakeDPN?: bigint;
+    metadata?: string;
+    // Step at whose start the operator registers and mints (1 = before the first report)
+    joinAtStep: number;
+}
+
+export type ScheduledAction =
+    | { step: number; operator: string; kind: "upgrade"; addETH: bigint; addDPN: bigint }
+    | { step: number; operator: string; kind: "bridge"; destinationChain: string }
+    | { step: number; operator: string; kind: "stake"; amount: bigint }
+    // The tracker reserves/releases capacity units on the operator's node as a consumer
+    | { step: number; operator: string; kind: "reserve"; units: number }
+    | { step: number; operator: string; kind: "release"; units: number }
+    | { step: number; operator: string; kind: "claim" }
+    // NodeRightsNFT rewards, paid in DPN like Participation claims
+    | { step: number; operator: string; kind: "claimNode" };
+
+export interface SimulationPlan {
+    name: string;
+    seed: number;
+    steps: number;
+    stepSeconds: number;
+    // Operators claim every this many steps; 0 leaves claims to scheduled actions
+    claimEverySteps: number;
+    operators: OperatorPlan[];
+    actions: ScheduledAction[];
+    faults: Fault[];
+}
+
+// Operators are spread round-robin over the signers (several may share one) and over the regions
+export function planFromConfig(config: SimulationConfig, operatorSigners: Signer[]): SimulationPlan {
+    if (operatorSigners.length === 0) {
+        throw new Error("A simulation needs at least one operator signer");
+    }
+    parseFaults(config.faults, "faults");
+
+    const operators: OperatorPlan[] = [];
+    for (const name of NODE_TYPE_NAMES) {
+        for (let i = 0; i < config.operatorsPerType[name]; i++) {
+            operators.push({
+                label: `${name.toLowerCase()}-${i}`,
+                nodeType: NodeType[name],
+                region: config.regions[operators.length % config.regions.length],
+                signer: operatorSigners[operators.length % operatorSigners.length],
+                reliability: profileReliability(config.reliability[name]),
+                joinAtStep: 1,
+            });
+        }
+    }
+
+    return {
+        name: "random",
+        seed: config.seed,
+        steps: config.steps,
+        stepSeconds: config.stepSeconds,
+        claimEverySteps: config.claimEverySteps,
+        operators,
+        actions: [],
+        faults: config.faults,
+    };
+}
@@ -0,0 +1,31 @@
+/**
+ * Seeded PRNG (mulberry32) so a simulation run can be replayed exactly from
+ * its config. Math.random() is never used by the simulation.
+ */
+export class Random {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    // Uniform in [0, 1)
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // Box-Muller transform
+    normal(mean: number, stdDev: number): number {
+        const u = 1 - this.next(); // (0, 1], keeps log() finite
+        const v = this.next();
+        return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+}
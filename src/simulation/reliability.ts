@@ -0,0 +1,24 @@
+import { ReliabilityProfile } from "./config";
+import { Random } from "./random";
+
+/**
+ * Fraction of a step (0..1) an operator's node was up. Models draw from the
+ * operator's own Random so each operator's stream is independent of the others.
+ */
+export interface ReliabilityModel {
+    sample(random: Random, step: number): number;
+}
+
+export function clampUnit(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
+
+// Normal around the profile mean, with an independent chance of a full outage
+export function profileReliability(profile: ReliabilityProfile): ReliabilityModel {
+    return {
+        sample(random) {
+            if (random.chance(profile.outageProbability)) return 0;
+            return clampUnit(random.normal(profile.mean, profile.stdDev));
+        },
+    };
+}
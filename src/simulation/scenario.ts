@@ -0,0 +1,287 @@
+import fs from "fs";
+import { Signer, parseEther } from "ethers";
+import { NodeType } from "@depin/contracts-client";
+import { NODE_TYPE_NAMES, NodeTypeName } from "./config";
+import { Fault, parseFaults } from "./faults";
+import { OperatorPlan, ScheduledAction, SimulationPlan } from "./plan";
+import { ReliabilityModel, clampUnit, profileReliability } from "./reliability";
+import {
+    ScenarioError,
+    check,
+    checkAmount,
+    checkArray,
+    checkFraction,
+    checkInteger,
+    isArray,
+    isOneOf,
+    isRecord,
+} from "./validation";
+
+// Declarative scenario files (scenarios/*.json). A scenario names its
+// operators, gives each a NodeType, stakes and a performance curve, and lists
+// timeline actions by step; planFromScenario() compiles it for SimulationEngine.
+// ETH and DPN amounts are decimal strings in ether units ("1.5").
+
+/** Uptime fraction per step, 0..1; the tracker pushes it as the performance score. */
+export type PerformanceCurve =
+    | { kind: "constant"; value: number }
+    // Straight line from `from` at step 1 to `to` at the last step
+    | { kind: "linear"; from: number; to: number }
+    // Piecewise linear through [step, value] points, flat outside them
+    | { kind: "points"; points: [number, number][] }
+    | { kind: "random"; mean: number; stdDev: number; outageProbability?: number };
+
+// Inclusive step range during which the node reports no uptime
+export interface OutageWindow {
+    from: number;
+    to: number;
+}
+
+export interface ScenarioOperator {
+    name: string;
+    // Index into the operator signers (every signer after the tracker)
+    account: number;
+    nodeType: NodeTypeName;
+    region?: string;
+    stakeETH?: string;
+    stakeDPN?: string;
+    metadata?: string;
+    joinAt?: number;
+    performance: PerformanceCurve;
+    outages?: OutageWindow[];
+}
+
+export type ScenarioAction =
+    | { at: number; operator: string; action: "upgrade"; addETH: string; addDPN: string }
+    | { at: number; operator: string; action: "bridge"; destinationChain: string }
+    | { at: number; operator: string; action: "stake"; amountETH: string }
+    | { at: number; operator: string; action: "reserve"; units: number }
+    | { at: number; operator: string; action: "release"; units: number }
+    | { at: number; operator: string; action: "claim" }
+    | { at: number; operator: string; action: "claimNode" };
+
+export interface Scenario {
+    name: string;
+    description?: string;
+    seed: number;
+    steps: number;
+    stepSeconds: number;
+    // Operators claim every this many steps; 0 (default) only claims on "claim" actions
+    claimEverySteps?: number;
+    operators: ScenarioOperator[];
+    timeline?: ScenarioAction[];
+    // Correlated outages and misbehaviour injected over the run; see faults.ts
+    faults?: Fault[];
+}
+
+const DEFAULT_REGION = "global";
+const CURVE_KINDS: PerformanceCurve["kind"][] = ["constant", "linear", "points", "random"];
+const ACTION_KINDS: ScenarioAction["action"][] = ["upgrade", "bridge", "stake", "reserve", "release", "claim", "claimNode"];
+// Actions only the NodeRightsNFT owner can take, which bridgeToChain's lock rules out
+const OWNER_ACTIONS: ScenarioAction["action"][] = ["upgrade", "bridge", "claimNode"];
+
+function validateCurve(curve: unknown, path: string): void {
+    check(isRecord(curve) && isOneOf(CURVE_KINDS, curve.kind), `${path}.kind`, `must be one of ${CURVE_KINDS.join(", ")}`);
+    switch (curve.kind) {
+        case "constant":
+            checkFraction(curve.value, `${path}.value`);
+            break;
+        case "linear":
+            checkFraction(curve.from, `${path}.from`);
+            checkFraction(curve.to, `${path}.to`);
+            break;
+        case "points": {
+            const points = curve.points;
+            checkArray(points, `${path}.points`, true);
+            let previousStep = 0;
+            points.forEach((point, i) => {
+                check(isArray(point) && point.length === 2, `${path}.points[${i}]`, "must be [step, value]");
+                const [step, value] = point;
+                checkInteger(step, `${path}.points[${i}][0]`, 1);
+                checkFraction(value, `${path}.points[${i}][1]`);
+                if (i > 0) check(step > previousStep, `${path}.points[${i}]`, "steps must increase");
+                previousStep = step;
+            });
+            break;
+        }
+        case "random":
+            checkFraction(curve.mean, `${path}.mean`);
+            check(typeof curve.stdDev === "number" && curve.stdDev >= 0, `${path}.stdDev`, "must be a number >= 0");
+            if (curve.outageProbability !== undefined) checkFraction(curve.outageProbability, `${path}.outageProbability`);
+            break;
+    }
+}
+
+/** Check an untyped value (parsed JSON) against the Scenario schema. */
+export function parseScenario(scenario: unknown): Scenario {
+    check(isRecord(scenario), "scenario", "must be an object");
+    check(typeof scenario.name === "string" && scenario.name.length > 0, "name", "is required");
+    checkInteger(scenario.seed, "seed", 0);
+    const steps = scenario.steps;
+    checkInteger(steps, "steps", 1);
+    checkInteger(scenario.stepSeconds, "stepSeconds", 60);
+    if (scenario.claimEverySteps !== undefined) checkInteger(scenario.claimEverySteps, "claimEverySteps", 0);
+
+    const operators = scenario.operators;
+    checkArray(operators, "operators", true);
+    // Step each operator joins at, by name
+    const joinSteps = new Map<string, number>();
+    operators.forEach((operator, i) => {
+        const path = `operators[${i}]`;
+        check(isRecord(operator), path, "must be an object");
+        const name = operator.name;
+        check(typeof name === "string" && name.length > 0, `${path}.name`, "is required");
+        check(!joinSteps.has(name), `${path}.name`, `duplicate operator "${name}"`);
+        checkInteger(operator.account, `${path}.account`, 0);
+        check(isOneOf(NODE_TYPE_NAMES, operator.nodeType), `${path}.nodeType`, `must be one of ${NODE_TYPE_NAMES.join(", ")}`);
+        if (operator.region !== undefined) check(typeof operator.region === "string", `${path}.region`, "must be a string");
+        if (operator.stakeETH !== undefined) checkAmount(operator.stakeETH, `${path}.stakeETH`);
+        if (operator.stakeDPN !== undefined) checkAmount(operator.stakeDPN, `${path}.stakeDPN`);
+        let joinAt = 1;
+        if (operator.joinAt !== undefined) {
+            checkInteger(operator.joinAt, `${path}.joinAt`, 1);
+            check(operator.joinAt <= steps, `${path}.joinAt`, "is after the last step");
+            joinAt = operator.joinAt;
+        }
+        joinSteps.set(name, joinAt);
+        validateCurve(operator.performance, `${path}.performance`);
+        const outages = operator.outages ?? [];
+        checkArray(outages, `${path}.outages`);
+        outages.forEach((window, j) => {
+            check(isRecord(window), `${path}.outages[${j}]`, "must be an object");
+            checkInteger(window.from, `${path}.outages[${j}].from`, 1);
+            checkInteger(window.to, `${path}.outages[${j}].to`, window.from);
+        });
+    });
+
+    const timeline = scenario.timeline ?? [];
+    checkArray(timeline, "timeline");
+    timeline.forEach((entry, i) => {
+        const path = `timeline[${i}]`;
+        check(isRecord(entry), path, "must be an object");
+        checkInteger(entry.at, `${path}.at`, 1);
+        check(entry.at <= steps, `${path}.at`, "is after the last step");
+        check(isOneOf(ACTION_KINDS, entry.action), `${path}.action`, `must be one of ${ACTION_KINDS.join(", ")}`);
+        const joinAt = typeof entry.operator === "string" ? joinSteps.get(entry.operator) : undefined;
+        check(joinAt !== undefined, `${path}.operator`, `unknown operator "${entry.operator}"`);
+        check(entry.at >= joinAt, `${path}.at`, `"${entry.operator}" has not joined yet`);
+        if (entry.action === "upgrade") {
+            checkAmount(entry.addETH, `${path}.addETH`);
+            checkAmount(entry.addDPN, `${path}.addDPN`);
+        } else if (entry.action === "bridge") {
+            check(typeof entry.destinationChain === "string" && entry.destinationChain.length > 0, `${path}.destinationChain`, "is required");
+        } else if (entry.action === "stake") {
+            checkAmount(entry.amountETH, `${path}.amountETH`);
+        } else if (entry.action === "reserve" || entry.action === "release") {
+            checkInteger(entry.units, `${path}.units`, 1);
+        }
+    });
+
+    // Actions run by step, then in timeline order
+    const bridgedAt = new Map<string, number>();
+    (timeline as ScenarioAction[])
+        .map((entry, i) => ({ entry, i }))
+        .sort((a, b) => a.entry.at - b.entry.at || a.i - b.i)
+        .forEach(({ entry, i }) => {
+            if (!OWNER_ACTIONS.includes(entry.action)) return;
+            const at = bridgedAt.get(entry.operator);
+            check(at === undefined, `timeline[${i}].action`, `"${entry.operator}" bridged its node away at step ${at}`);
+            if (entry.action === "bridge") bridgedAt.set(entry.operator, entry.at);
+        });
+
+    if (scenario.faults !== undefined) parseFaults(scenario.faults, "faults", [...joinSteps.keys()]);
+
+    return scenario as unknown as Scenario;
+}
+
+export function loadScenario(file: string): Scenario {
+    return parseScenario(JSON.parse(fs.readFileSync(file, "utf8")));
+}
+
+function curveReliability(curve: PerformanceCurve, steps: number): ReliabilityModel {
+    switch (curve.kind) {
+        case "constant":
+            return { sample: () => curve.value };
+        case "linear":
+            return {
+                sample: (_, step) =>
+                    steps === 1 ? curve.from : curve.from + ((curve.to - curve.from) * (step - 1)) / (steps - 1),
+            };
+        case "points":
+            return {
+                sample(_, step) {
+                    const { points } = curve;
+                    if (step <= points[0][0]) return points[0][1];
+                    for (let i = 1; i < points.length; i++) {
+                        const [x1, y1] = points[i];
+                        if (step <= x1) {
+                            const [x0, y0] = points[i - 1];
+                            return y0 + ((y1 - y0) * (step - x0)) / (x1 - x0);
+                        }
+                    }
+                    return points[points.length - 1][1];
+                },
+            };
+        case "random":
+            return profileReliability({ outageProbability: 0, ...curve });
+    }
+}
+
+function withOutages(model: ReliabilityModel, outages: OutageWindow[]): ReliabilityModel {
+    return {
+        sample(random, step) {
+            // Sample first so an outage does not shift the operator's random stream
+            const value = model.sample(random, step);
+            return outages.some((window) => step >= window.from && step <= window.to) ? 0 : clampUnit(value);
+        },
+    };
+}
+
+export function planFromScenario(scenario: Scenario, operatorSigners: Signer[]): SimulationPlan {
+    const operators: OperatorPlan[] = scenario.operators.map((operator) => {
+        const signer = operatorSigners[operator.account];
+        if (!signer) {
+            throw new ScenarioError(`operator "${operator.name}"`, `no signer at account index ${operator.account}`);
+        }
+        return {
+            label: operator.name,
+            nodeType: NodeType[operator.nodeType],
+            region: operator.region ?? DEFAULT_REGION,
+            signer,
+            reliability: withOutages(curveReliability(operator.performance, scenario.steps), operator.outages ?? []),
+            stakeETH: operator.stakeETH !== undefined ? parseEther(operator.stakeETH) : undefined,
+            stakeDPN: operator.stakeDPN !== undefined ? parseEther(operator.stakeDPN) : undefined,
+            metadata: operator.metadata,
+            joinAtStep: operator.joinAt ?? 1,
+        };
+    });
+
+    const actions: ScheduledAction[] = (scenario.timeline ?? []).map((entry) => {
+        const base = { step: entry.at, operator: entry.operator };
+        switch (entry.action) {
+            case "upgrade":
+                return { ...base, kind: "upgrade", addETH: parseEther(entry.addETH), addDPN: parseEther(entry.addDPN) };
+            case "bridge":
+                return { ...base, kind: "bridge", destinationChain: entry.destinationChain };
+            case "stake":
+                return { ...base, kind: "stake", amount: parseEther(entry.amountETH) };
+            case "reserve":
+            case "release":
+                return { ...base, kind: entry.action, units: entry.units };
+            case "claim":
+            case "claimNode":
+                return { ...base, kind: entry.action };
+        }
+    });
+
+    return {
+        name: scenario.name,
+        seed: scenario.seed,
+        steps: scenario.steps,
+        stepSeconds: scenario.stepSeconds,
+        claimEverySteps: scenario.claimEverySteps ?? 0,
+        operators,
+        actions,
+        faults: scenario.faults ?? [],
+    };
+}
@@ -0,0 +1,45 @@
+// Validation helpers for the JSON inputs of the simulator (scenarios, fault
+// lists). Errors carry the path of the offending field.
+
+export class ScenarioError extends Error {
+    constructor(readonly path: string, message: string) {
+        super(`${path}: ${message}`);
+        this.name = "ScenarioError";
+    }
+}
+
+export function check(condition: boolean, path: string, message: string): asserts condition {
+    if (!condition) throw new ScenarioError(path, message);
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isArray(value: unknown): value is unknown[] {
+    return Array.isArray(value);
+}
+
+export function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+    return (values as readonly unknown[]).includes(value);
+}
+
+export function checkArray(value: unknown, path: string, nonEmpty = false): asserts value is unknown[] {
+    check(
+        isArray(value) && (!nonEmpty || value.length > 0),
+        path,
+        nonEmpty ? "must be a non-empty array" : "must be an array"
+    );
+}
+
+export function checkInteger(value: unknown, path: string, min: number): asserts value is number {
+    check(typeof value === "number" && Number.isInteger(value) && value >= min, path, `must be an integer >= ${min}`);
+}
+
+export function checkFraction(value: unknown, path: string): asserts value is number {
+    check(typeof value === "number" && value >= 0 && value <= 1, path, "must be a number between 0 and 1");
+}
+
+export function checkAmount(value: unknown, path: string): asserts value is string {
+    check(typeof value === "string" && /^\d+(\.\d+)?$/.test(value), path, 'must be a decimal string like "1.5"');
+}
@@ -0,0 +1,187 @@
+import { NodeRightsNFT, NodeStatus, NodeType } from "@depin/contracts-client";
+import { NodeTypeName } from "../simulation";
+
+// Off-chain mirrors of NodeRightsNFT's reward and slashing math and of the
+// IRewardCalculator implementations. Every function uses the same integer
+// arithmetic (and rounding) as the Solidity it copies; test/tokenomics.test.ts
+// and test/rewardCalculator.test.ts check them against deployed contracts.
+
+export const PERFORMANCE_DECIMALS = 10000n;
+export const UTILIZATION_BONUS = 5000n;
+
+// The NodeTypeConfig fields the formulas read
+export interface NodeTypeParams {
+    minETHStake: bigint;
+    minDPNStake: bigint;
+    baseRewardRate: bigint; // DPN wei per second
+    maxCapacity: bigint;
+}
+
+// Mirrors NodeRightsNFT._setupNodeTypes
+export const DEFAULT_NODE_TYPE_PARAMS: Record<NodeTypeName, NodeTypeParams> = {
+    STORAGE: {
+        minETHStake: 10n ** 18n,
+        minDPNStake: 1000n * 10n ** 18n,
+        baseRewardRate: 11574074074074n,
+        maxCapacity: 1000n,
+    },
+    COMPUTE: {
+        minETHStake: 2n * 10n ** 18n,
+        minDPNStake: 2000n * 10n ** 18n,
+        baseRewardRate: 34722222222222n,
+        maxCapacity: 500n,
+    },
+    BANDWIDTH: {
+        minETHStake: 5n * 10n ** 17n,
+        minDPNStake: 500n * 10n ** 18n,
+        baseRewardRate: 17361111111111n,
+        maxCapacity: 2000n,
+    },
+};
+
+// Lower bounds (inclusive) of each status band in NodeRightsNFT._evaluateNodeStatus
+export interface SlashingThresholds {
+    active: bigint;
+    minor: bigint;
+    major: bigint;
+}
+
+export const DEFAULT_SLASHING_THRESHOLDS: SlashingThresholds = { active: 9000n, minor: 5000n, major: 2000n };
+
+export interface NodeState {
+    stakedETH: bigint;
+    stakedDPN: bigint;
+    performanceScore: bigint;
+    status: NodeStatus;
+    lastRewardClaim: bigint;
+    // nodeCapacityUsed: units consumers have reserved on the node
+    capacityUsed: bigint;
+}
+
+// Mirrors RewardMath.applyMultipliers
+export function applyRewardMultipliers(node: NodeState, params: NodeTypeParams, baseReward: bigint): bigint {
+    const adjustedReward = (baseReward * node.performanceScore) / PERFORMANCE_DECIMALS;
+    const stakingMultiplier =
+        PERFORMANCE_DECIMALS + ((node.stakedETH - params.minETHStake) * 1000n) / params.minETHStake;
+    const stakedReward = (adjustedReward * stakingMultiplier) / PERFORMANCE_DECIMALS;
+    const utilizationMultiplier =
+        PERFORMANCE_DECIMALS + (params.maxCapacity > 0n ? (node.capacityUsed * UTILIZATION_BONUS) / params.maxCapacity : 0n);
+
+    return (stakedReward * utilizationMultiplier) / PERFORMANCE_DECIMALS;
+}
+
+// Mirrors NodeRightsNFT._calculatePendingRewards with no reward calculator set (or LinearRewardCalculator)
+export function calculatePendingRewards(node: NodeState, params: NodeTypeParams, now: bigint): bigint {
+    if (node.status !== NodeStatus.ACTIVE) return 0n;
+
+    const baseReward = params.baseRewardRate * (now - node.lastRewardClaim);
+    return applyRewardMultipliers(node, params, baseReward);
+}
+
+// HalvingRewardCalculator's constructor arguments, in seconds
+export interface HalvingSchedule {
+    genesis: bigint;
+    halvingInterval: bigint;
+}
+
+// Mirrors HalvingRewardCalculator.MAX_HALVINGS
+export const MAX_HALVINGS = 64n;
+
+// Mirrors HalvingRewardCalculator.baseReward
+export function halvingBaseReward(rate: bigint, from: bigint, to: bigint, schedule: HalvingSchedule): bigint {
+    const { genesis, halvingInterval } = schedule;
+    let reward = 0n;
+    let t = from;
+    while (t < to) {
+        const era = t < genesis ? 0n : (t - genesis) / halvingInterval;
+        if (era >= MAX_HALVINGS) break;
+
+        const eraEnd = genesis + (era + 1n) * halvingInterval;
+        const end = eraEnd < to ? eraEnd : to;
+        reward += (rate >> era) * (end - t);
+        t = end;
+    }
+    return reward;
+}
+
+// Mirrors NodeRightsNFT._calculatePendingRewards with a HalvingRewardCalculator set
+export function calculateHalvingRewards(
+    node: NodeState,
+    params: NodeTypeParams,
+    now: bigint,
+    schedule: HalvingSchedule
+): bigint {
+    if (node.status !== NodeStatus.ACTIVE) return 0n;
+
+    const baseReward = halvingBaseReward(params.baseRewardRate, node.lastRewardClaim, now, schedule);
+    return applyRewardMultipliers(node, params, baseReward);
+}
+
+// Mirrors NodeRightsNFT._evaluateNodeStatus; other thresholds model a contract change
+export function evaluateNodeStatus(
+    performanceScore: bigint,
+    thresholds: SlashingThresholds = DEFAULT_SLASHING_THRESHOLDS
+): NodeStatus {
+    if (performanceScore >= thresholds.active) return NodeStatus.ACTIVE;
+    if (performanceScore >= thresholds.minor) return NodeStatus.SLASHED_MINOR;
+    if (performanceScore >= thresholds.major) return NodeStatus.SLASHED_MAJOR;
+    return NodeStatus.TERMINATED;
+}
+
+// Mirrors the penalty in NodeRightsNFT._applySlashing
+export function slashingPenalty(stakedDPN: bigint, newStatus: NodeStatus): bigint {
+    switch (newStatus) {
+        case NodeStatus.SLASHED_MINOR:
+            return (stakedDPN * 5n) / 100n;
+        case NodeStatus.SLASHED_MAJOR:
+            return (stakedDPN * 15n) / 100n;
+        case NodeStatus.TERMINATED:
+            return stakedDPN;
+        default:
+            return 0n;
+    }
+}
+
+/**
+ * Mirrors the state change of NodeRightsNFT.updatePerformance at time `now`: the
+ * score is replaced and, only when the status changes, the new status's penalty is
+ * moved from stakedDPN to the treasury and lastRewardClaim restarts, so pending
+ * rewards are forfeited and the slashed period never accrues. Returns the
+ * penalty. Throws on a terminated node, like the contract.
+ */
+export function applyPerformanceUpdate(
+    node: NodeState,
+    performanceScore: bigint,
+    now: bigint,
+    thresholds: SlashingThresholds = DEFAULT_SLASHING_THRESHOLDS
+): bigint {
+    if (node.status === NodeStatus.TERMINATED) throw new Error("Node terminated");
+
+    node.performanceScore = performanceScore;
+    const newStatus = evaluateNodeStatus(performanceScore, thresholds);
+    if (newStatus === node.status) return 0n;
+
+    node.lastRewardClaim = now;
+    const penalty = slashingPenalty(node.stakedDPN, newStatus);
+    node.status = newStatus;
+    node.stakedDPN -= penalty;
+    return penalty;
+}
+
+// Read the live parameters, e.g. after Ignition deployed with custom NodeType configs
+export async function readNodeTypeParams(nodeRights: NodeRightsNFT): Promise<Record<NodeTypeName, NodeTypeParams>> {
+    const read = async (nodeType: NodeType): Promise<NodeTypeParams> => {
+        const config = await nodeRights.nodeTypeConfigs(nodeType);
+        return {
+            minETHStake: config.minETHStake,
+            minDPNStake: config.minDPNStake,
+            baseRewardRate: config.baseRewardRate,
+            maxCapacity: config.maxCapacity,
+        };
+    };
+    return {
+        STORAGE: await read(NodeType.STORAGE),
+        COMPUTE: await read(NodeType.COMPUTE),
+        BANDWIDTH: await read(NodeType.BANDWIDTH),
+    };
+}
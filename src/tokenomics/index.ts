@@ -0,0 +1,7 @@
+// Off-chain model of NodeRightsNFT reward economics; see scripts/tokenomics.ts
+// and scripts/sweep.ts.
+
+export * from "./formulas";
+export * from "./montecarlo";
+export * from "./stats";
+export * from "./sweep";
@@ -0,0 +1,207 @@
+import { formatEther } from "ethers";
+import { NodeStatus } from "@depin/contracts-client";
+import { DEFAULT_SIMULATION_CONFIG, NODE_TYPE_NAMES, NodeTypeName, Random, ReliabilityProfile, profileReliability } from "../simulation";
+import {
+    DEFAULT_NODE_TYPE_PARAMS,
+    DEFAULT_SLASHING_THRESHOLDS,
+    NodeState,
+    NodeTypeParams,
+    PERFORMANCE_DECIMALS,
+    SlashingThresholds,
+    applyPerformanceUpdate,
+    calculatePendingRewards,
+} from "./formulas";
+import { Distribution, summarize } from "./stats";
+
+// Monte Carlo projection of NodeRightsNFT reward economics. Each trajectory
+// follows one node of every NodeType for `days` days. On claim days the operator
+// calls claimNodeRewards at the end of the day, which pays everything accrued
+// since lastRewardClaim under the node's current score and status (nothing
+// while slashed); then the tracker posts that day's score (drawn from the
+// type's reliability profile) and any slashing is applied. A slash forfeits
+// what accrued since the last claim, and the slashed days never accrue.
+// Emissions count claimed DPN only, so rewards still accrued at the horizon
+// are left out.
+
+const DAY_SECONDS = 86400n;
+
+export interface NodeTypeEconomics {
+    params: NodeTypeParams;
+    stakeETH: bigint;
+    stakeDPN: bigint;
+    reliability: ReliabilityProfile;
+}
+
+export interface MonteCarloConfig {
+    trajectories: number;
+    days: number;
+    seed: number;
+    // DPN per ETH, to value the ETH part of a stake when computing APR
+    dpnPerEth: number;
+    // Operators claim every this many days (1 = daily)
+    claimEveryDays: number;
+    nodeTypes: Record<NodeTypeName, NodeTypeEconomics>;
+    thresholds: SlashingThresholds;
+}
+
+export interface NodeTypeReport {
+    // ETH stake valued in DPN plus the DPN stake
+    stakeValueDPN: number;
+    // Annualized, net of slashing losses
+    apr: Distribution;
+    grossApr: Distribution;
+    // DPN slashed to the treasury over the horizon
+    slashingLoss: Distribution;
+    slashProbability: number;
+    terminationProbability: number;
+    // Share of trajectories still ACTIVE at the horizon
+    activeProbability: number;
+    // Cumulative DPN emitted to the node by the end of each day (index 0 = day 1)
+    emissions: Distribution[];
+}
+
+export interface TokenomicsReport {
+    trajectories: number;
+    days: number;
+    seed: number;
+    dpnPerEth: number;
+    nodeTypes: Record<NodeTypeName, NodeTypeReport>;
+    // Cumulative DPN emitted to one node of each type together
+    totalEmissions: Distribution[];
+}
+
+export function defaultMonteCarloConfig(overrides: Partial<MonteCarloConfig> = {}): MonteCarloConfig {
+    const nodeTypes = {} as Record<NodeTypeName, NodeTypeEconomics>;
+    for (const name of NODE_TYPE_NAMES) {
+        const params = DEFAULT_NODE_TYPE_PARAMS[name];
+        nodeTypes[name] = {
+            params,
+            stakeETH: params.minETHStake,
+            stakeDPN: params.minDPNStake,
+            reliability: DEFAULT_SIMULATION_CONFIG.reliability[name],
+        };
+    }
+    return {
+        trajectories: 1000,
+        days: 180,
+        seed: 1,
+        dpnPerEth: 1000,
+        claimEveryDays: 1,
+        nodeTypes,
+        thresholds: DEFAULT_SLASHING_THRESHOLDS,
+        ...overrides,
+    };
+}
+
+interface Trajectory {
+    cumulativeEmissions: number[];
+    emitted: number;
+    slashed: number;
+    everSlashed: boolean;
+    finalStatus: NodeStatus;
+}
+
+function simulateNode(
+    economics: NodeTypeEconomics,
+    thresholds: SlashingThresholds,
+    days: number,
+    claimEveryDays: number,
+    random: Random
+): Trajectory {
+    const reliability = profileReliability(economics.reliability);
+    const node: NodeState = {
+        stakedETH: economics.stakeETH,
+        stakedDPN: economics.stakeDPN,
+        performanceScore: PERFORMANCE_DECIMALS,
+        status: NodeStatus.ACTIVE,
+        lastRewardClaim: 0n,
+        capacityUsed: 0n,
+    };
+
+    let emitted = 0n;
+    let slashed = 0n;
+    let everSlashed = false;
+    const cumulativeEmissions: number[] = [];
+
+    for (let day = 1; day <= days; day++) {
+        if (node.status !== NodeStatus.TERMINATED) {
+            const now = BigInt(day) * DAY_SECONDS;
+            if (day % claimEveryDays === 0) {
+                emitted += calculatePendingRewards(node, economics.params, now);
+                node.lastRewardClaim = now;
+            }
+
+            const score = BigInt(Math.round(reliability.sample(random, day) * Number(PERFORMANCE_DECIMALS)));
+            const penalty = applyPerformanceUpdate(node, score, now, thresholds);
+            slashed += penalty;
+            if (penalty > 0n) everSlashed = true;
+        }
+        cumulativeEmissions.push(Number(formatEther(emitted)));
+    }
+
+    return {
+        cumulativeEmissions,
+        emitted: Number(formatEther(emitted)),
+        slashed: Number(formatEther(slashed)),
+        everSlashed,
+        finalStatus: node.status,
+    };
+}
+
+function summarizeColumns(rows: number[][], days: number): Distribution[] {
+    return Array.from({ length: days }, (_, day) => summarize(rows.map((row) => row[day])));
+}
+
+export function runMonteCarlo(config: MonteCarloConfig): TokenomicsReport {
+    if (config.trajectories < 1 || config.days < 1 || config.claimEveryDays < 1) {
+        throw new Error("trajectories, days and claimEveryDays must be at least 1");
+    }
+
+    const random = new Random(config.seed);
+    const runs = {} as Record<NodeTypeName, Trajectory[]>;
+    for (const name of NODE_TYPE_NAMES) runs[name] = [];
+
+    for (let i = 0; i < config.trajectories; i++) {
+        for (const name of NODE_TYPE_NAMES) {
+            runs[name].push(
+                simulateNode(config.nodeTypes[name], config.thresholds, config.days, config.claimEveryDays, random)
+            );
+        }
+    }
+
+    const annualize = 365 / config.days;
+    const nodeTypes = {} as Record<NodeTypeName, NodeTypeReport>;
+    for (const name of NODE_TYPE_NAMES) {
+        const economics = config.nodeTypes[name];
+        const trajectories = runs[name];
+        const stakeValueDPN =
+            Number(formatEther(economics.stakeDPN)) + Number(formatEther(economics.stakeETH)) * config.dpnPerEth;
+
+        nodeTypes[name] = {
+            stakeValueDPN,
+            apr: summarize(trajectories.map((t) => ((t.emitted - t.slashed) / stakeValueDPN) * annualize)),
+            grossApr: summarize(trajectories.map((t) => (t.emitted / stakeValueDPN) * annualize)),
+            slashingLoss: summarize(trajectories.map((t) => t.slashed)),
+            slashProbability: trajectories.filter((t) => t.everSlashed).length / trajectories.length,
+            terminationProbability:
+                trajectories.filter((t) => t.finalStatus === NodeStatus.TERMINATED).length / trajectories.length,
+            activeProbability: trajectories.filter((t) => t.finalStatus === NodeStatus.ACTIVE).length / trajectories.length,
+            emissions: summarizeColumns(trajectories.map((t) => t.cumulativeEmissions), config.days),
+        };
+    }
+
+    const totals = Array.from({ length: config.trajectories }, (_, i) =>
+        Array.from({ length: config.days }, (_, day) =>
+            NODE_TYPE_NAMES.reduce((sum, name) => sum + runs[name][i].cumulativeEmissions[day], 0)
+        )
+    );
+
+    return {
+        trajectories: config.trajectories,
+        days: config.days,
+        seed: config.seed,
+        dpnPerEth: config.dpnPerEth,
+        nodeTypes,
+        totalEmissions: summarizeColumns(totals, config.days),
+    };
+}
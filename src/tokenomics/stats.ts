@@ -0,0 +1,23 @@
+export interface Distribution {
+    mean: number;
+    p10: number;
+    p50: number;
+    p90: number;
+}
+
+// Nearest-rank percentile of an ascending-sorted sample
+function percentile(sorted: number[], p: number): number {
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+export function summarize(samples: number[]): Distribution {
+    if (samples.length === 0) return { mean: 0, p10: 0, p50: 0, p90: 0 };
+    const sorted = [...samples].sort((a, b) => a - b);
+    return {
+        mean: samples.reduce((sum, value) => sum + value, 0) / samples.length,
+        p10: percentile(sorted, 10),
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+    };
+}
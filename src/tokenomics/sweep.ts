@@ -0,0 +1,199 @@
+import fs from "fs";
+import { formatEther, parseEther } from "ethers";
+import { NODE_TYPE_NAMES, NodeTypeName } from "../simulation";
+import { NodeTypeParams, SlashingThresholds } from "./formulas";
+import { MonteCarloConfig, TokenomicsReport, defaultMonteCarloConfig, runMonteCarlo } from "./montecarlo";
+
+// Grid search over NodeTypeConfig values and the _evaluateNodeStatus
+// thresholds, scored on network health by the Monte Carlo model. Every
+// operator stakes the type minimum; `maxCapacity` caps how many of
+// `operatorsPerType` are admitted (the contract stores it but does not yet
+// enforce it).
+
+// Explicit values, or an inclusive arithmetic range
+export type SweepRange = number[] | { from: number; to: number; step: number };
+
+export interface NodeTypeSweep {
+    minETHStake?: SweepRange; // ETH
+    minDPNStake?: SweepRange; // DPN
+    baseRewardRate?: SweepRange; // DPN per day, converted like _setupNodeTypes
+    maxCapacity?: SweepRange;
+}
+
+export interface SweepSpec {
+    name: string;
+    trajectories?: number;
+    days?: number;
+    seed?: number;
+    dpnPerEth?: number;
+    // Operators wanting to join each NodeType
+    operatorsPerType: number;
+    nodeTypes?: Partial<Record<NodeTypeName, NodeTypeSweep>>;
+    thresholds?: Partial<Record<keyof SlashingThresholds, SweepRange>>;
+}
+
+export interface SweepResult {
+    // Swept parameter -> value at this grid point, e.g. "COMPUTE.minETHStake": 3
+    parameters: Record<string, number>;
+    admittedNodes: number;
+    // Admitted nodes still ACTIVE at the horizon
+    activeNodeRatio: number;
+    terminationRate: number;
+    // DPN emitted over the horizon per ETH staked, network-wide
+    emissionPerStakedEth: number;
+    // Stake-weighted mean of the per-type net APR
+    netApr: number;
+}
+
+const DAY_SECONDS = 86400n;
+
+export function expandRange(range: SweepRange): number[] {
+    if (Array.isArray(range)) return range;
+    if (range.step <= 0 || range.to < range.from) {
+        throw new Error(`Invalid range ${JSON.stringify(range)}`);
+    }
+    const values: number[] = [];
+    // Round to dodge float drift (0.1 + 0.2) in the generated values
+    for (let value = range.from; value <= range.to + range.step / 1e9; value += range.step) {
+        values.push(Number(value.toFixed(9)));
+    }
+    return values;
+}
+
+// Cartesian product of every swept axis; an empty spec yields the single base point
+function gridPoints(spec: SweepSpec): Record<string, number>[] {
+    const axes: [string, number[]][] = [];
+    for (const name of NODE_TYPE_NAMES) {
+        const sweep = spec.nodeTypes?.[name] ?? {};
+        for (const field of ["minETHStake", "minDPNStake", "baseRewardRate", "maxCapacity"] as const) {
+            if (sweep[field]) axes.push([`${name}.${field}`, expandRange(sweep[field]!)]);
+        }
+    }
+    for (const field of ["active", "minor", "major"] as const) {
+        const range = spec.thresholds?.[field];
+        if (range) axes.push([`thresholds.${field}`, expandRange(range)]);
+    }
+
+    return axes.reduce<Record<string, number>[]>(
+        (points, [key, values]) => points.flatMap((point) => values.map((value) => ({ ...point, [key]: value }))),
+        [{}]
+    );
+}
+
+function applyPoint(point: Record<string, number>, base: MonteCarloConfig): MonteCarloConfig {
+    const config: MonteCarloConfig = {
+        ...base,
+        thresholds: { ...base.thresholds },
+        nodeTypes: { ...base.nodeTypes },
+    };
+    for (const name of NODE_TYPE_NAMES) {
+        const params: NodeTypeParams = { ...base.nodeTypes[name].params };
+        const value = (field: string) => point[`${name}.${field}`];
+        if (value("minETHStake") !== undefined) params.minETHStake = parseEther(value("minETHStake").toString());
+        if (value("minDPNStake") !== undefined) params.minDPNStake = parseEther(value("minDPNStake").toString());
+        if (value("baseRewardRate") !== undefined) {
+            params.baseRewardRate = parseEther(value("baseRewardRate").toString()) / DAY_SECONDS;
+        }
+        if (value("maxCapacity") !== undefined) params.maxCapacity = BigInt(value("maxCapacity"));
+        config.nodeTypes[name] = {
+            ...base.nodeTypes[name],
+            params,
+            stakeETH: params.minETHStake,
+            stakeDPN: params.minDPNStake,
+        };
+    }
+    for (const field of ["active", "minor", "major"] as const) {
+        const value = point[`thresholds.${field}`];
+        if (value !== undefined) config.thresholds[field] = BigInt(value);
+    }
+    if (!(config.thresholds.active >= config.thresholds.minor && config.thresholds.minor >= config.thresholds.major)) {
+        throw new Error(`Thresholds must satisfy active >= minor >= major at ${JSON.stringify(point)}`);
+    }
+    return config;
+}
+
+function networkHealth(config: MonteCarloConfig, report: TokenomicsReport, operatorsPerType: number) {
+    let admittedNodes = 0;
+    let active = 0;
+    let terminated = 0;
+    let emitted = 0;
+    let stakedEth = 0;
+    let aprWeighted = 0;
+    let stakeValue = 0;
+
+    for (const name of NODE_TYPE_NAMES) {
+        const economics = config.nodeTypes[name];
+        const result = report.nodeTypes[name];
+        const admitted = Math.min(operatorsPerType, Number(economics.params.maxCapacity));
+
+        admittedNodes += admitted;
+        active += admitted * result.activeProbability;
+        terminated += admitted * result.terminationProbability;
+        emitted += admitted * result.emissions[result.emissions.length - 1].mean;
+        stakedEth += admitted * Number(formatEther(economics.stakeETH));
+        aprWeighted += admitted * result.stakeValueDPN * result.apr.mean;
+        stakeValue += admitted * result.stakeValueDPN;
+    }
+
+    return {
+        admittedNodes,
+        activeNodeRatio: admittedNodes > 0 ? active / admittedNodes : 0,
+        terminationRate: admittedNodes > 0 ? terminated / admittedNodes : 0,
+        emissionPerStakedEth: stakedEth > 0 ? emitted / stakedEth : 0,
+        netApr: stakeValue > 0 ? aprWeighted / stakeValue : 0,
+    };
+}
+
+/**
+ * Run the model at every grid point. `baseParams` are the NodeType parameters
+ * unswept fields keep, normally read from the deployed contract.
+ */
+export function runSweep(spec: SweepSpec, baseParams?: Record<NodeTypeName, NodeTypeParams>): SweepResult[] {
+    const base = defaultMonteCarloConfig({
+        trajectories: spec.trajectories ?? 200,
+        days: spec.days ?? 90,
+        seed: spec.seed ?? 1,
+        dpnPerEth: spec.dpnPerEth ?? 1000,
+    });
+    if (baseParams) {
+        for (const name of NODE_TYPE_NAMES) {
+            base.nodeTypes[name] = {
+                ...base.nodeTypes[name],
+                params: baseParams[name],
+                stakeETH: baseParams[name].minETHStake,
+                stakeDPN: baseParams[name].minDPNStake,
+            };
+        }
+    }
+
+    return gridPoints(spec).map((parameters) => {
+        const config = applyPoint(parameters, base);
+        // Same seed at every point, so differences come from the parameters alone
+        const report = runMonteCarlo(config);
+        return { parameters, ...networkHealth(config, report, spec.operatorsPerType) };
+    });
+}
+
+export function loadSweepSpec(file: string): SweepSpec {
+    const spec = JSON.parse(fs.readFileSync(file, "utf8")) as SweepSpec;
+    if (!spec.name || !Number.isInteger(spec.operatorsPerType) || spec.operatorsPerType < 1) {
+        throw new Error(`${file}: "name" and a positive integer "operatorsPerType" are required`);
+    }
+    return spec;
+}
+
+export function sweepResultsToCsv(results: SweepResult[]): string {
+    const parameterKeys = results.length > 0 ? Object.keys(results[0].parameters) : [];
+    const header = [...parameterKeys, "admittedNodes", "activeNodeRatio", "terminationRate", "emissionPerStakedEth", "netApr"];
+    const rows = results.map((result) =>
+        [
+            ...parameterKeys.map((key) => result.parameters[key]),
+            result.admittedNodes,
+            result.activeNodeRatio.toFixed(4),
+            result.terminationRate.toFixed(4),
+            result.emissionPerStakedEth.toFixed(4),
+            result.netApr.toFixed(4),
+        ].join(",")
+    );
+    return [header.join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,2738 @@
+// THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+
+import {
+  ethereum,
+  JSONValue,
+  TypedMap,
+  Entity,
+  Bytes,
+  Address,
+  BigInt,
+} from "@graphprotocol/graph-ts";
+
+export class Approval extends ethereum.Event {
+  get params(): Approval__Params {
+    return new Approval__Params(this);
+  }
+}
+
+export class Approval__Params {
+  _event: Approval;
+
+  constructor(event: Approval) {
+    this._event = event;
+  }
+
+  get owner(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get approved(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class ApprovalForAll extends ethereum.Event {
+  get params(): ApprovalForAll__Params {
+    return new ApprovalForAll__Params(this);
+  }
+}
+
+export class ApprovalForAll__Params {
+  _event: ApprovalForAll;
+
+  constructor(event: ApprovalForAll) {
+    this._event = event;
+  }
+
+  get owner(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get operator(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get approved(): boolean {
+    return this._event.parameters[2].value.toBoolean();
+  }
+}
+
+export class BridgeRelayerUpdated extends ethereum.Event {
+  get params(): BridgeRelayerUpdated__Params {
+    return new BridgeRelayerUpdated__Params(this);
+  }
+}
+
+export class BridgeRelayerUpdated__Params {
+  _event: BridgeRelayerUpdated;
+
+  constructor(event: BridgeRelayerUpdated) {
+    this._event = event;
+  }
+
+  get relayer(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+}
+
+export class CapacityConsumerUpdated extends ethereum.Event {
+  get params(): CapacityConsumerUpdated__Params {
+    return new CapacityConsumerUpdated__Params(this);
+  }
+}
+
+export class CapacityConsumerUpdated__Params {
+  _event: CapacityConsumerUpdated;
+
+  constructor(event: CapacityConsumerUpdated) {
+    this._event = event;
+  }
+
+  get consumer(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get allowed(): boolean {
+    return this._event.parameters[1].value.toBoolean();
+  }
+}
+
+export class CapacityReleased extends ethereum.Event {
+  get params(): CapacityReleased__Params {
+    return new CapacityReleased__Params(this);
+  }
+}
+
+export class CapacityReleased__Params {
+  _event: CapacityReleased;
+
+  constructor(event: CapacityReleased) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get consumer(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get units(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get capacityUsed(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
+export class CapacityReserved extends ethereum.Event {
+  get params(): CapacityReserved__Params {
+    return new CapacityReserved__Params(this);
+  }
+}
+
+export class CapacityReserved__Params {
+  _event: CapacityReserved;
+
+  constructor(event: CapacityReserved) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get consumer(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get units(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get capacityUsed(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
+export class CrossChainBridge extends ethereum.Event {
+  get params(): CrossChainBridge__Params {
+    return new CrossChainBridge__Params(this);
+  }
+}
+
+export class CrossChainBridge__Params {
+  _event: CrossChainBridge;
+
+  constructor(event: CrossChainBridge) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get destinationChain(): string {
+    return this._event.parameters[1].value.toString();
+  }
+
+  get operator(): Address {
+    return this._event.parameters[2].value.toAddress();
+  }
+
+  get bridgeNonce(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
+export class ExitRequested extends ethereum.Event {
+  get params(): ExitRequested__Params {
+    return new ExitRequested__Params(this);
+  }
+}
+
+export class ExitRequested__Params {
+  _event: ExitRequested;
+
+  constructor(event: ExitRequested) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get owner(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get withdrawableAt(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class NodeExited extends ethereum.Event {
+  get params(): NodeExited__Params {
+    return new NodeExited__Params(this);
+  }
+}
+
+export class NodeExited__Params {
+  _event: NodeExited;
+
+  constructor(event: NodeExited) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get owner(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get ethReturned(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get dpnReturned(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
+export class NodeReturned extends ethereum.Event {
+  get params(): NodeReturned__Params {
+    return new NodeReturned__Params(this);
+  }
+}
+
+export class NodeReturned__Params {
+  _event: NodeReturned;
+
+  constructor(event: NodeReturned) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get sourceChain(): string {
+    return this._event.parameters[1].value.toString();
+  }
+
+  get recipient(): Address {
+    return this._event.parameters[2].value.toAddress();
+  }
+}
+
+export class NodeRightsMinted extends ethereum.Event {
+  get params(): NodeRightsMinted__Params {
+    return new NodeRightsMinted__Params(this);
+  }
+}
+
+export class NodeRightsMinted__Params {
+  _event: NodeRightsMinted;
+
+  constructor(event: NodeRightsMinted) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get owner(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get nodeType(): i32 {
+    return this._event.parameters[2].value.toI32();
+  }
+
+  get ethStaked(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+
+  get dpnStaked(): BigInt {
+    return this._event.parameters[4].value.toBigInt();
+  }
+}
+
+export class NodeSlashed extends ethereum.Event {
+  get params(): NodeSlashed__Params {
+    return new NodeSlashed__Params(this);
+  }
+}
+
+export class NodeSlashed__Params {
+  _event: NodeSlashed;
+
+  constructor(event: NodeSlashed) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get newStatus(): i32 {
+    return this._event.parameters[1].value.toI32();
+  }
+
+  get penaltyAmount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get reason(): string {
+    return this._event.parameters[3].value.toString();
+  }
+}
+
+export class NodeUpgraded extends ethereum.Event {
+  get params(): NodeUpgraded__Params {
+    return new NodeUpgraded__Params(this);
+  }
+}
+
+export class NodeUpgraded__Params {
+  _event: NodeUpgraded;
+
+  constructor(event: NodeUpgraded) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get additionalETH(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+
+  get additionalDPN(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get newPerformanceScore(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
+export class OwnershipTransferred extends ethereum.Event {
+  get params(): OwnershipTransferred__Params {
+    return new OwnershipTransferred__Params(this);
+  }
+}
+
+export class OwnershipTransferred__Params {
+  _event: OwnershipTransferred;
+
+  constructor(event: OwnershipTransferred) {
+    this._event = event;
+  }
+
+  get previousOwner(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get newOwner(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+}
+
+export class PerformanceUpdated extends ethereum.Event {
+  get params(): PerformanceUpdated__Params {
+    return new PerformanceUpdated__Params(this);
+  }
+}
+
+export class PerformanceUpdated__Params {
+  _event: PerformanceUpdated;
+
+  constructor(event: PerformanceUpdated) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get newScore(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+
+  get uptimeAdded(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get status(): i32 {
+    return this._event.parameters[3].value.toI32();
+  }
+}
+
+export class RewardCalculatorUpdated extends ethereum.Event {
+  get params(): RewardCalculatorUpdated__Params {
+    return new RewardCalculatorUpdated__Params(this);
+  }
+}
+
+export class RewardCalculatorUpdated__Params {
+  _event: RewardCalculatorUpdated;
+
+  constructor(event: RewardCalculatorUpdated) {
+    this._event = event;
+  }
+
+  get rewardCalculator(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+}
+
+export class RewardPoolUpdated extends ethereum.Event {
+  get params(): RewardPoolUpdated__Params {
+    return new RewardPoolUpdated__Params(this);
+  }
+}
+
+export class RewardPoolUpdated__Params {
+  _event: RewardPoolUpdated;
+
+  constructor(event: RewardPoolUpdated) {
+    this._event = event;
+  }
+
+  get rewardPool(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+}
+
+export class RewardsDistributed extends ethereum.Event {
+  get params(): RewardsDistributed__Params {
+    return new RewardsDistributed__Params(this);
+  }
+}
+
+export class RewardsDistributed__Params {
+  _event: RewardsDistributed;
+
+  constructor(event: RewardsDistributed) {
+    this._event = event;
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get rewardAmount(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+
+  get performanceBonus(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class SupportedChainUpdated extends ethereum.Event {
+  get params(): SupportedChainUpdated__Params {
+    return new SupportedChainUpdated__Params(this);
+  }
+}
+
+export class SupportedChainUpdated__Params {
+  _event: SupportedChainUpdated;
+
+  constructor(event: SupportedChainUpdated) {
+    this._event = event;
+  }
+
+  get chain(): string {
+    return this._event.parameters[0].value.toString();
+  }
+
+  get supported(): boolean {
+    return this._event.parameters[1].value.toBoolean();
+  }
+}
+
+export class Transfer extends ethereum.Event {
+  get params(): Transfer__Params {
+    return new Transfer__Params(this);
+  }
+}
+
+export class Transfer__Params {
+  _event: Transfer;
+
+  constructor(event: Transfer) {
+    this._event = event;
+  }
+
+  get from(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get to(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class NodeRightsNFT__getNodeDetailsResultNodeStruct extends ethereum.Tuple {
+  get nodeType(): i32 {
+    return this[0].toI32();
+  }
+
+  get stakedETH(): BigInt {
+    return this[1].toBigInt();
+  }
+
+  get stakedDPN(): BigInt {
+    return this[2].toBigInt();
+  }
+
+  get mintedAt(): BigInt {
+    return this[3].toBigInt();
+  }
+
+  get lastRewardClaim(): BigInt {
+    return this[4].toBigInt();
+  }
+
+  get status(): i32 {
+    return this[5].toI32();
+  }
+
+  get totalUptime(): BigInt {
+    return this[6].toBigInt();
+  }
+
+  get performanceScore(): BigInt {
+    return this[7].toBigInt();
+  }
+
+  get metadata(): string {
+    return this[8].toString();
+  }
+
+  get isUpgraded(): boolean {
+    return this[9].toBoolean();
+  }
+}
+
+export class NodeRightsNFT__getNodeDetailsResultConfigStruct extends ethereum.Tuple {
+  get minETHStake(): BigInt {
+    return this[0].toBigInt();
+  }
+
+  get minDPNStake(): BigInt {
+    return this[1].toBigInt();
+  }
+
+  get baseRewardRate(): BigInt {
+    return this[2].toBigInt();
+  }
+
+  get maxCapacity(): BigInt {
+    return this[3].toBigInt();
+  }
+
+  get isActive(): boolean {
+    return this[4].toBoolean();
+  }
+}
+
+export class NodeRightsNFT__getNodeDetailsResult {
+  value0: NodeRightsNFT__getNodeDetailsResultNodeStruct;
+  value1: NodeRightsNFT__getNodeDetailsResultConfigStruct;
+  value2: BigInt;
+  value3: BigInt;
+
+  constructor(
+    value0: NodeRightsNFT__getNodeDetailsResultNodeStruct,
+    value1: NodeRightsNFT__getNodeDetailsResultConfigStruct,
+    value2: BigInt,
+    value3: BigInt,
+  ) {
+    this.value0 = value0;
+    this.value1 = value1;
+    this.value2 = value2;
+    this.value3 = value3;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set("value0", ethereum.Value.fromTuple(this.value0));
+    map.set("value1", ethereum.Value.fromTuple(this.value1));
+    map.set("value2", ethereum.Value.fromUnsignedBigInt(this.value2));
+    map.set("value3", ethereum.Value.fromUnsignedBigInt(this.value3));
+    return map;
+  }
+
+  getNode(): NodeRightsNFT__getNodeDetailsResultNodeStruct {
+    return this.value0;
+  }
+
+  getConfig(): NodeRightsNFT__getNodeDetailsResultConfigStruct {
+    return this.value1;
+  }
+
+  getTimeStaked(): BigInt {
+    return this.value2;
+  }
+
+  getEstimatedRewards(): BigInt {
+    return this.value3;
+  }
+}
+
+export class NodeRightsNFT__getNodeTypeStatsResult {
+  value0: BigInt;
+  value1: BigInt;
+  value2: BigInt;
+  value3: BigInt;
+
+  constructor(value0: BigInt, value1: BigInt, value2: BigInt, value3: BigInt) {
+    this.value0 = value0;
+    this.value1 = value1;
+    this.value2 = value2;
+    this.value3 = value3;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set("value0", ethereum.Value.fromUnsignedBigInt(this.value0));
+    map.set("value1", ethereum.Value.fromUnsignedBigInt(this.value1));
+    map.set("value2", ethereum.Value.fromUnsignedBigInt(this.value2));
+    map.set("value3", ethereum.Value.fromUnsignedBigInt(this.value3));
+    return map;
+  }
+
+  getTotalNodes(): BigInt {
+    return this.value0;
+  }
+
+  getTotalStakedETH(): BigInt {
+    return this.value1;
+  }
+
+  getAveragePerformance(): BigInt {
+    return this.value2;
+  }
+
+  getActiveNodes(): BigInt {
+    return this.value3;
+  }
+}
+
+export class NodeRightsNFT__getNodeTypeUtilizationResult {
+  value0: BigInt;
+  value1: BigInt;
+
+  constructor(value0: BigInt, value1: BigInt) {
+    this.value0 = value0;
+    this.value1 = value1;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set("value0", ethereum.Value.fromUnsignedBigInt(this.value0));
+    map.set("value1", ethereum.Value.fromUnsignedBigInt(this.value1));
+    return map;
+  }
+
+  getCapacityUsed(): BigInt {
+    return this.value0;
+  }
+
+  getTotalCapacity(): BigInt {
+    return this.value1;
+  }
+}
+
+export class NodeRightsNFT__nodeRightsResult {
+  value0: i32;
+  value1: BigInt;
+  value2: BigInt;
+  value3: BigInt;
+  value4: BigInt;
+  value5: i32;
+  value6: BigInt;
+  value7: BigInt;
+  value8: string;
+  value9: boolean;
+
+  constructor(
+    value0: i32,
+    value1: BigInt,
+    value2: BigInt,
+    value3: BigInt,
+    value4: BigInt,
+    value5: i32,
+    value6: BigInt,
+    value7: BigInt,
+    value8: string,
+    value9: boolean,
+  ) {
+    this.value0 = value0;
+    this.value1 = value1;
+    this.value2 = value2;
+    this.value3 = value3;
+    this.value4 = value4;
+    this.value5 = value5;
+    this.value6 = value6;
+    this.value7 = value7;
+    this.value8 = value8;
+    this.value9 = value9;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set(
+      "value0",
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(this.value0)),
+    );
+    map.set("value1", ethereum.Value.fromUnsignedBigInt(this.value1));
+    map.set("value2", ethereum.Value.fromUnsignedBigInt(this.value2));
+    map.set("value3", ethereum.Value.fromUnsignedBigInt(this.value3));
+    map.set("value4", ethereum.Value.fromUnsignedBigInt(this.value4));
+    map.set(
+      "value5",
+      ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(this.value5)),
+    );
+    map.set("value6", ethereum.Value.fromUnsignedBigInt(this.value6));
+    map.set("value7", ethereum.Value.fromUnsignedBigInt(this.value7));
+    map.set("value8", ethereum.Value.fromString(this.value8));
+    map.set("value9", ethereum.Value.fromBoolean(this.value9));
+    return map;
+  }
+
+  getNodeType(): i32 {
+    return this.value0;
+  }
+
+  getStakedETH(): BigInt {
+    return this.value1;
+  }
+
+  getStakedDPN(): BigInt {
+    return this.value2;
+  }
+
+  getMintedAt(): BigInt {
+    return this.value3;
+  }
+
+  getLastRewardClaim(): BigInt {
+    return this.value4;
+  }
+
+  getStatus(): i32 {
+    return this.value5;
+  }
+
+  getTotalUptime(): BigInt {
+    return this.value6;
+  }
+
+  getPerformanceScore(): BigInt {
+    return this.value7;
+  }
+
+  getMetadata(): string {
+    return this.value8;
+  }
+
+  getIsUpgraded(): boolean {
+    return this.value9;
+  }
+}
+
+export class NodeRightsNFT__nodeTypeConfigsResult {
+  value0: BigInt;
+  value1: BigInt;
+  value2: BigInt;
+  value3: BigInt;
+  value4: boolean;
+
+  constructor(
+    value0: BigInt,
+    value1: BigInt,
+    value2: BigInt,
+    value3: BigInt,
+    value4: boolean,
+  ) {
+    this.value0 = value0;
+    this.value1 = value1;
+    this.value2 = value2;
+    this.value3 = value3;
+    this.value4 = value4;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set("value0", ethereum.Value.fromUnsignedBigInt(this.value0));
+    map.set("value1", ethereum.Value.fromUnsignedBigInt(this.value1));
+    map.set("value2", ethereum.Value.fromUnsignedBigInt(this.value2));
+    map.set("value3", ethereum.Value.fromUnsignedBigInt(this.value3));
+    map.set("value4", ethereum.Value.fromBoolean(this.value4));
+    return map;
+  }
+
+  getMinETHStake(): BigInt {
+    return this.value0;
+  }
+
+  getMinDPNStake(): BigInt {
+    return this.value1;
+  }
+
+  getBaseRewardRate(): BigInt {
+    return this.value2;
+  }
+
+  getMaxCapacity(): BigInt {
+    return this.value3;
+  }
+
+  getIsActive(): boolean {
+    return this.value4;
+  }
+}
+
+export class NodeRightsNFT extends ethereum.SmartContract {
+  static bind(address: Address): NodeRightsNFT {
+    return new NodeRightsNFT("NodeRightsNFT", address);
+  }
+
+  PERFORMANCE_DECIMALS(): BigInt {
+    let result = super.call(
+      "PERFORMANCE_DECIMALS",
+      "PERFORMANCE_DECIMALS():(uint256)",
+      [],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_PERFORMANCE_DECIMALS(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "PERFORMANCE_DECIMALS",
+      "PERFORMANCE_DECIMALS():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  SLASHING_COOLDOWN(): BigInt {
+    let result = super.call(
+      "SLASHING_COOLDOWN",
+      "SLASHING_COOLDOWN():(uint256)",
+      [],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_SLASHING_COOLDOWN(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "SLASHING_COOLDOWN",
+      "SLASHING_COOLDOWN():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  UTILIZATION_BONUS(): BigInt {
+    let result = super.call(
+      "UTILIZATION_BONUS",
+      "UTILIZATION_BONUS():(uint256)",
+      [],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_UTILIZATION_BONUS(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "UTILIZATION_BONUS",
+      "UTILIZATION_BONUS():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  accruedRewards(param0: BigInt): BigInt {
+    let result = super.call(
+      "accruedRewards",
+      "accruedRewards(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_accruedRewards(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "accruedRewards",
+      "accruedRewards(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  balanceOf(owner: Address): BigInt {
+    let result = super.call("balanceOf", "balanceOf(address):(uint256)", [
+      ethereum.Value.fromAddress(owner),
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_balanceOf(owner: Address): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("balanceOf", "balanceOf(address):(uint256)", [
+      ethereum.Value.fromAddress(owner),
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  bridgeNonces(param0: BigInt): BigInt {
+    let result = super.call("bridgeNonces", "bridgeNonces(uint256):(uint256)", [
+      ethereum.Value.fromUnsignedBigInt(param0),
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_bridgeNonces(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "bridgeNonces",
+      "bridgeNonces(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  bridgeRelayer(): Address {
+    let result = super.call("bridgeRelayer", "bridgeRelayer():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_bridgeRelayer(): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "bridgeRelayer",
+      "bridgeRelayer():(address)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  capacityConsumers(param0: Address): boolean {
+    let result = super.call(
+      "capacityConsumers",
+      "capacityConsumers(address):(bool)",
+      [ethereum.Value.fromAddress(param0)],
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_capacityConsumers(param0: Address): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "capacityConsumers",
+      "capacityConsumers(address):(bool)",
+      [ethereum.Value.fromAddress(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  capacityReservations(param0: BigInt, param1: Address): BigInt {
+    let result = super.call(
+      "capacityReservations",
+      "capacityReservations(uint256,address):(uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(param0),
+        ethereum.Value.fromAddress(param1),
+      ],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_capacityReservations(
+    param0: BigInt,
+    param1: Address,
+  ): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "capacityReservations",
+      "capacityReservations(uint256,address):(uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(param0),
+        ethereum.Value.fromAddress(param1),
+      ],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  crossChainBridges(param0: BigInt): string {
+    let result = super.call(
+      "crossChainBridges",
+      "crossChainBridges(uint256):(string)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toString();
+  }
+
+  try_crossChainBridges(param0: BigInt): ethereum.CallResult<string> {
+    let result = super.tryCall(
+      "crossChainBridges",
+      "crossChainBridges(uint256):(string)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  dpnTokenContract(): Address {
+    let result = super.call(
+      "dpnTokenContract",
+      "dpnTokenContract():(address)",
+      [],
+    );
+
+    return result[0].toAddress();
+  }
+
+  try_dpnTokenContract(): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "dpnTokenContract",
+      "dpnTokenContract():(address)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  exitRequestedAt(param0: BigInt): BigInt {
+    let result = super.call(
+      "exitRequestedAt",
+      "exitRequestedAt(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_exitRequestedAt(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "exitRequestedAt",
+      "exitRequestedAt(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  getApproved(tokenId: BigInt): Address {
+    let result = super.call("getApproved", "getApproved(uint256):(address)", [
+      ethereum.Value.fromUnsignedBigInt(tokenId),
+    ]);
+
+    return result[0].toAddress();
+  }
+
+  try_getApproved(tokenId: BigInt): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "getApproved",
+      "getApproved(uint256):(address)",
+      [ethereum.Value.fromUnsignedBigInt(tokenId)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  getNodeDetails(tokenId: BigInt): NodeRightsNFT__getNodeDetailsResult {
+    let result = super.call(
+      "getNodeDetails",
+      "getNodeDetails(uint256):((uint8,uint256,uint256,uint256,uint256,uint8,uint256,uint256,string,bool),(uint256,uint256,uint256,uint256,bool),uint256,uint256)",
+      [ethereum.Value.fromUnsignedBigInt(tokenId)],
+    );
+
+    return changetype<NodeRightsNFT__getNodeDetailsResult>(
+      new NodeRightsNFT__getNodeDetailsResult(
+        changetype<NodeRightsNFT__getNodeDetailsResultNodeStruct>(
+          result[0].toTuple(),
+        ),
+        changetype<NodeRightsNFT__getNodeDetailsResultConfigStruct>(
+          result[1].toTuple(),
+        ),
+        result[2].toBigInt(),
+        result[3].toBigInt(),
+      ),
+    );
+  }
+
+  try_getNodeDetails(
+    tokenId: BigInt,
+  ): ethereum.CallResult<NodeRightsNFT__getNodeDetailsResult> {
+    let result = super.tryCall(
+      "getNodeDetails",
+      "getNodeDetails(uint256):((uint8,uint256,uint256,uint256,uint256,uint8,uint256,uint256,string,bool),(uint256,uint256,uint256,uint256,bool),uint256,uint256)",
+      [ethereum.Value.fromUnsignedBigInt(tokenId)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      changetype<NodeRightsNFT__getNodeDetailsResult>(
+        new NodeRightsNFT__getNodeDetailsResult(
+          changetype<NodeRightsNFT__getNodeDetailsResultNodeStruct>(
+            value[0].toTuple(),
+          ),
+          changetype<NodeRightsNFT__getNodeDetailsResultConfigStruct>(
+            value[1].toTuple(),
+          ),
+          value[2].toBigInt(),
+          value[3].toBigInt(),
+        ),
+      ),
+    );
+  }
+
+  getNodeTypeStats(nodeType: i32): NodeRightsNFT__getNodeTypeStatsResult {
+    let result = super.call(
+      "getNodeTypeStats",
+      "getNodeTypeStats(uint8):(uint256,uint256,uint256,uint256)",
+      [ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeType))],
+    );
+
+    return new NodeRightsNFT__getNodeTypeStatsResult(
+      result[0].toBigInt(),
+      result[1].toBigInt(),
+      result[2].toBigInt(),
+      result[3].toBigInt(),
+    );
+  }
+
+  try_getNodeTypeStats(
+    nodeType: i32,
+  ): ethereum.CallResult<NodeRightsNFT__getNodeTypeStatsResult> {
+    let result = super.tryCall(
+      "getNodeTypeStats",
+      "getNodeTypeStats(uint8):(uint256,uint256,uint256,uint256)",
+      [ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeType))],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new NodeRightsNFT__getNodeTypeStatsResult(
+        value[0].toBigInt(),
+        value[1].toBigInt(),
+        value[2].toBigInt(),
+        value[3].toBigInt(),
+      ),
+    );
+  }
+
+  getNodeTypeUtilization(
+    nodeType: i32,
+  ): NodeRightsNFT__getNodeTypeUtilizationResult {
+    let result = super.call(
+      "getNodeTypeUtilization",
+      "getNodeTypeUtilization(uint8):(uint256,uint256)",
+      [ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeType))],
+    );
+
+    return new NodeRightsNFT__getNodeTypeUtilizationResult(
+      result[0].toBigInt(),
+      result[1].toBigInt(),
+    );
+  }
+
+  try_getNodeTypeUtilization(
+    nodeType: i32,
+  ): ethereum.CallResult<NodeRightsNFT__getNodeTypeUtilizationResult> {
+    let result = super.tryCall(
+      "getNodeTypeUtilization",
+      "getNodeTypeUtilization(uint8):(uint256,uint256)",
+      [ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeType))],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new NodeRightsNFT__getNodeTypeUtilizationResult(
+        value[0].toBigInt(),
+        value[1].toBigInt(),
+      ),
+    );
+  }
+
+  getOwnerNodes(owner: Address): Array<BigInt> {
+    let result = super.call(
+      "getOwnerNodes",
+      "getOwnerNodes(address):(uint256[])",
+      [ethereum.Value.fromAddress(owner)],
+    );
+
+    return result[0].toBigIntArray();
+  }
+
+  try_getOwnerNodes(owner: Address): ethereum.CallResult<Array<BigInt>> {
+    let result = super.tryCall(
+      "getOwnerNodes",
+      "getOwnerNodes(address):(uint256[])",
+      [ethereum.Value.fromAddress(owner)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigIntArray());
+  }
+
+  isApprovedForAll(owner: Address, operator: Address): boolean {
+    let result = super.call(
+      "isApprovedForAll",
+      "isApprovedForAll(address,address):(bool)",
+      [ethereum.Value.fromAddress(owner), ethereum.Value.fromAddress(operator)],
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_isApprovedForAll(
+    owner: Address,
+    operator: Address,
+  ): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "isApprovedForAll",
+      "isApprovedForAll(address,address):(bool)",
+      [ethereum.Value.fromAddress(owner), ethereum.Value.fromAddress(operator)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  lastPerformanceUpdate(param0: BigInt): BigInt {
+    let result = super.call(
+      "lastPerformanceUpdate",
+      "lastPerformanceUpdate(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_lastPerformanceUpdate(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "lastPerformanceUpdate",
+      "lastPerformanceUpdate(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  name(): string {
+    let result = super.call("name", "name():(string)", []);
+
+    return result[0].toString();
+  }
+
+  try_name(): ethereum.CallResult<string> {
+    let result = super.tryCall("name", "name():(string)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  nodeCapacityUsed(param0: BigInt): BigInt {
+    let result = super.call(
+      "nodeCapacityUsed",
+      "nodeCapacityUsed(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_nodeCapacityUsed(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "nodeCapacityUsed",
+      "nodeCapacityUsed(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  nodeRights(param0: BigInt): NodeRightsNFT__nodeRightsResult {
+    let result = super.call(
+      "nodeRights",
+      "nodeRights(uint256):(uint8,uint256,uint256,uint256,uint256,uint8,uint256,uint256,string,bool)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return new NodeRightsNFT__nodeRightsResult(
+      result[0].toI32(),
+      result[1].toBigInt(),
+      result[2].toBigInt(),
+      result[3].toBigInt(),
+      result[4].toBigInt(),
+      result[5].toI32(),
+      result[6].toBigInt(),
+      result[7].toBigInt(),
+      result[8].toString(),
+      result[9].toBoolean(),
+    );
+  }
+
+  try_nodeRights(
+    param0: BigInt,
+  ): ethereum.CallResult<NodeRightsNFT__nodeRightsResult> {
+    let result = super.tryCall(
+      "nodeRights",
+      "nodeRights(uint256):(uint8,uint256,uint256,uint256,uint256,uint8,uint256,uint256,string,bool)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new NodeRightsNFT__nodeRightsResult(
+        value[0].toI32(),
+        value[1].toBigInt(),
+        value[2].toBigInt(),
+        value[3].toBigInt(),
+        value[4].toBigInt(),
+        value[5].toI32(),
+        value[6].toBigInt(),
+        value[7].toBigInt(),
+        value[8].toString(),
+        value[9].toBoolean(),
+      ),
+    );
+  }
+
+  nodeTypeConfigs(param0: i32): NodeRightsNFT__nodeTypeConfigsResult {
+    let result = super.call(
+      "nodeTypeConfigs",
+      "nodeTypeConfigs(uint8):(uint256,uint256,uint256,uint256,bool)",
+      [ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(param0))],
+    );
+
+    return new NodeRightsNFT__nodeTypeConfigsResult(
+      result[0].toBigInt(),
+      result[1].toBigInt(),
+      result[2].toBigInt(),
+      result[3].toBigInt(),
+      result[4].toBoolean(),
+    );
+  }
+
+  try_nodeTypeConfigs(
+    param0: i32,
+  ): ethereum.CallResult<NodeRightsNFT__nodeTypeConfigsResult> {
+    let result = super.tryCall(
+      "nodeTypeConfigs",
+      "nodeTypeConfigs(uint8):(uint256,uint256,uint256,uint256,bool)",
+      [ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(param0))],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new NodeRightsNFT__nodeTypeConfigsResult(
+        value[0].toBigInt(),
+        value[1].toBigInt(),
+        value[2].toBigInt(),
+        value[3].toBigInt(),
+        value[4].toBoolean(),
+      ),
+    );
+  }
+
+  owner(): Address {
+    let result = super.call("owner", "owner():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_owner(): ethereum.CallResult<Address> {
+    let result = super.tryCall("owner", "owner():(address)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  ownerNodes(param0: Address, param1: BigInt): BigInt {
+    let result = super.call(
+      "ownerNodes",
+      "ownerNodes(address,uint256):(uint256)",
+      [
+        ethereum.Value.fromAddress(param0),
+        ethereum.Value.fromUnsignedBigInt(param1),
+      ],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_ownerNodes(param0: Address, param1: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "ownerNodes",
+      "ownerNodes(address,uint256):(uint256)",
+      [
+        ethereum.Value.fromAddress(param0),
+        ethereum.Value.fromUnsignedBigInt(param1),
+      ],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  ownerOf(tokenId: BigInt): Address {
+    let result = super.call("ownerOf", "ownerOf(uint256):(address)", [
+      ethereum.Value.fromUnsignedBigInt(tokenId),
+    ]);
+
+    return result[0].toAddress();
+  }
+
+  try_ownerOf(tokenId: BigInt): ethereum.CallResult<Address> {
+    let result = super.tryCall("ownerOf", "ownerOf(uint256):(address)", [
+      ethereum.Value.fromUnsignedBigInt(tokenId),
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  participationContract(): Address {
+    let result = super.call(
+      "participationContract",
+      "participationContract():(address)",
+      [],
+    );
+
+    return result[0].toAddress();
+  }
+
+  try_participationContract(): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "participationContract",
+      "participationContract():(address)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  rewardCalculatorContract(): Address {
+    let result = super.call(
+      "rewardCalculatorContract",
+      "rewardCalculatorContract():(address)",
+      [],
+    );
+
+    return result[0].toAddress();
+  }
+
+  try_rewardCalculatorContract(): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "rewardCalculatorContract",
+      "rewardCalculatorContract():(address)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  rewardPool(): Address {
+    let result = super.call("rewardPool", "rewardPool():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_rewardPool(): ethereum.CallResult<Address> {
+    let result = super.tryCall("rewardPool", "rewardPool():(address)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  supportedChains(param0: string): boolean {
+    let result = super.call(
+      "supportedChains",
+      "supportedChains(string):(bool)",
+      [ethereum.Value.fromString(param0)],
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_supportedChains(param0: string): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "supportedChains",
+      "supportedChains(string):(bool)",
+      [ethereum.Value.fromString(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  supportsInterface(interfaceId: Bytes): boolean {
+    let result = super.call(
+      "supportsInterface",
+      "supportsInterface(bytes4):(bool)",
+      [ethereum.Value.fromFixedBytes(interfaceId)],
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_supportsInterface(interfaceId: Bytes): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "supportsInterface",
+      "supportsInterface(bytes4):(bool)",
+      [ethereum.Value.fromFixedBytes(interfaceId)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  symbol(): string {
+    let result = super.call("symbol", "symbol():(string)", []);
+
+    return result[0].toString();
+  }
+
+  try_symbol(): ethereum.CallResult<string> {
+    let result = super.tryCall("symbol", "symbol():(string)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  tokenByIndex(index: BigInt): BigInt {
+    let result = super.call("tokenByIndex", "tokenByIndex(uint256):(uint256)", [
+      ethereum.Value.fromUnsignedBigInt(index),
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_tokenByIndex(index: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "tokenByIndex",
+      "tokenByIndex(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(index)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  tokenOfOwnerByIndex(owner: Address, index: BigInt): BigInt {
+    let result = super.call(
+      "tokenOfOwnerByIndex",
+      "tokenOfOwnerByIndex(address,uint256):(uint256)",
+      [
+        ethereum.Value.fromAddress(owner),
+        ethereum.Value.fromUnsignedBigInt(index),
+      ],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_tokenOfOwnerByIndex(
+    owner: Address,
+    index: BigInt,
+  ): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "tokenOfOwnerByIndex",
+      "tokenOfOwnerByIndex(address,uint256):(uint256)",
+      [
+        ethereum.Value.fromAddress(owner),
+        ethereum.Value.fromUnsignedBigInt(index),
+      ],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  tokenURI(tokenId: BigInt): string {
+    let result = super.call("tokenURI", "tokenURI(uint256):(string)", [
+      ethereum.Value.fromUnsignedBigInt(tokenId),
+    ]);
+
+    return result[0].toString();
+  }
+
+  try_tokenURI(tokenId: BigInt): ethereum.CallResult<string> {
+    let result = super.tryCall("tokenURI", "tokenURI(uint256):(string)", [
+      ethereum.Value.fromUnsignedBigInt(tokenId),
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  totalStakedETH(): BigInt {
+    let result = super.call("totalStakedETH", "totalStakedETH():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_totalStakedETH(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "totalStakedETH",
+      "totalStakedETH():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  totalSupply(): BigInt {
+    let result = super.call("totalSupply", "totalSupply():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_totalSupply(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("totalSupply", "totalSupply():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  treasury(): Address {
+    let result = super.call("treasury", "treasury():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_treasury(): ethereum.CallResult<Address> {
+    let result = super.tryCall("treasury", "treasury():(address)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+}
+
+export class ConstructorCall extends ethereum.Call {
+  get inputs(): ConstructorCall__Inputs {
+    return new ConstructorCall__Inputs(this);
+  }
+
+  get outputs(): ConstructorCall__Outputs {
+    return new ConstructorCall__Outputs(this);
+  }
+}
+
+export class ConstructorCall__Inputs {
+  _call: ConstructorCall;
+
+  constructor(call: ConstructorCall) {
+    this._call = call;
+  }
+}
+
+export class ConstructorCall__Outputs {
+  _call: ConstructorCall;
+
+  constructor(call: ConstructorCall) {
+    this._call = call;
+  }
+}
+
+export class ApproveCall extends ethereum.Call {
+  get inputs(): ApproveCall__Inputs {
+    return new ApproveCall__Inputs(this);
+  }
+
+  get outputs(): ApproveCall__Outputs {
+    return new ApproveCall__Outputs(this);
+  }
+}
+
+export class ApproveCall__Inputs {
+  _call: ApproveCall;
+
+  constructor(call: ApproveCall) {
+    this._call = call;
+  }
+
+  get to(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class ApproveCall__Outputs {
+  _call: ApproveCall;
+
+  constructor(call: ApproveCall) {
+    this._call = call;
+  }
+}
+
+export class BridgeToChainCall extends ethereum.Call {
+  get inputs(): BridgeToChainCall__Inputs {
+    return new BridgeToChainCall__Inputs(this);
+  }
+
+  get outputs(): BridgeToChainCall__Outputs {
+    return new BridgeToChainCall__Outputs(this);
+  }
+}
+
+export class BridgeToChainCall__Inputs {
+  _call: BridgeToChainCall;
+
+  constructor(call: BridgeToChainCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get destinationChain(): string {
+    return this._call.inputValues[1].value.toString();
+  }
+}
+
+export class BridgeToChainCall__Outputs {
+  _call: BridgeToChainCall;
+
+  constructor(call: BridgeToChainCall) {
+    this._call = call;
+  }
+}
+
+export class ClaimNodeRewardsCall extends ethereum.Call {
+  get inputs(): ClaimNodeRewardsCall__Inputs {
+    return new ClaimNodeRewardsCall__Inputs(this);
+  }
+
+  get outputs(): ClaimNodeRewardsCall__Outputs {
+    return new ClaimNodeRewardsCall__Outputs(this);
+  }
+}
+
+export class ClaimNodeRewardsCall__Inputs {
+  _call: ClaimNodeRewardsCall;
+
+  constructor(call: ClaimNodeRewardsCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class ClaimNodeRewardsCall__Outputs {
+  _call: ClaimNodeRewardsCall;
+
+  constructor(call: ClaimNodeRewardsCall) {
+    this._call = call;
+  }
+}
+
+export class ClaimNodeRewardsBatchCall extends ethereum.Call {
+  get inputs(): ClaimNodeRewardsBatchCall__Inputs {
+    return new ClaimNodeRewardsBatchCall__Inputs(this);
+  }
+
+  get outputs(): ClaimNodeRewardsBatchCall__Outputs {
+    return new ClaimNodeRewardsBatchCall__Outputs(this);
+  }
+}
+
+export class ClaimNodeRewardsBatchCall__Inputs {
+  _call: ClaimNodeRewardsBatchCall;
+
+  constructor(call: ClaimNodeRewardsBatchCall) {
+    this._call = call;
+  }
+
+  get tokenIds(): Array<BigInt> {
+    return this._call.inputValues[0].value.toBigIntArray();
+  }
+}
+
+export class ClaimNodeRewardsBatchCall__Outputs {
+  _call: ClaimNodeRewardsBatchCall;
+
+  constructor(call: ClaimNodeRewardsBatchCall) {
+    this._call = call;
+  }
+}
+
+export class EmergencyWithdrawCall extends ethereum.Call {
+  get inputs(): EmergencyWithdrawCall__Inputs {
+    return new EmergencyWithdrawCall__Inputs(this);
+  }
+
+  get outputs(): EmergencyWithdrawCall__Outputs {
+    return new EmergencyWithdrawCall__Outputs(this);
+  }
+}
+
+export class EmergencyWithdrawCall__Inputs {
+  _call: EmergencyWithdrawCall;
+
+  constructor(call: EmergencyWithdrawCall) {
+    this._call = call;
+  }
+}
+
+export class EmergencyWithdrawCall__Outputs {
+  _call: EmergencyWithdrawCall;
+
+  constructor(call: EmergencyWithdrawCall) {
+    this._call = call;
+  }
+}
+
+export class MintNodeRightsCall extends ethereum.Call {
+  get inputs(): MintNodeRightsCall__Inputs {
+    return new MintNodeRightsCall__Inputs(this);
+  }
+
+  get outputs(): MintNodeRightsCall__Outputs {
+    return new MintNodeRightsCall__Outputs(this);
+  }
+}
+
+export class MintNodeRightsCall__Inputs {
+  _call: MintNodeRightsCall;
+
+  constructor(call: MintNodeRightsCall) {
+    this._call = call;
+  }
+
+  get nodeType(): i32 {
+    return this._call.inputValues[0].value.toI32();
+  }
+
+  get dpnStakeAmount(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+
+  get metadata(): string {
+    return this._call.inputValues[2].value.toString();
+  }
+}
+
+export class MintNodeRightsCall__Outputs {
+  _call: MintNodeRightsCall;
+
+  constructor(call: MintNodeRightsCall) {
+    this._call = call;
+  }
+}
+
+export class ReleaseBridgedNodeCall extends ethereum.Call {
+  get inputs(): ReleaseBridgedNodeCall__Inputs {
+    return new ReleaseBridgedNodeCall__Inputs(this);
+  }
+
+  get outputs(): ReleaseBridgedNodeCall__Outputs {
+    return new ReleaseBridgedNodeCall__Outputs(this);
+  }
+}
+
+export class ReleaseBridgedNodeCall__Inputs {
+  _call: ReleaseBridgedNodeCall;
+
+  constructor(call: ReleaseBridgedNodeCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get recipient(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+
+  get bridgeNonce(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+}
+
+export class ReleaseBridgedNodeCall__Outputs {
+  _call: ReleaseBridgedNodeCall;
+
+  constructor(call: ReleaseBridgedNodeCall) {
+    this._call = call;
+  }
+}
+
+export class ReleaseCapacityCall extends ethereum.Call {
+  get inputs(): ReleaseCapacityCall__Inputs {
+    return new ReleaseCapacityCall__Inputs(this);
+  }
+
+  get outputs(): ReleaseCapacityCall__Outputs {
+    return new ReleaseCapacityCall__Outputs(this);
+  }
+}
+
+export class ReleaseCapacityCall__Inputs {
+  _call: ReleaseCapacityCall;
+
+  constructor(call: ReleaseCapacityCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get units(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class ReleaseCapacityCall__Outputs {
+  _call: ReleaseCapacityCall;
+
+  constructor(call: ReleaseCapacityCall) {
+    this._call = call;
+  }
+}
+
+export class RenounceOwnershipCall extends ethereum.Call {
+  get inputs(): RenounceOwnershipCall__Inputs {
+    return new RenounceOwnershipCall__Inputs(this);
+  }
+
+  get outputs(): RenounceOwnershipCall__Outputs {
+    return new RenounceOwnershipCall__Outputs(this);
+  }
+}
+
+export class RenounceOwnershipCall__Inputs {
+  _call: RenounceOwnershipCall;
+
+  constructor(call: RenounceOwnershipCall) {
+    this._call = call;
+  }
+}
+
+export class RenounceOwnershipCall__Outputs {
+  _call: RenounceOwnershipCall;
+
+  constructor(call: RenounceOwnershipCall) {
+    this._call = call;
+  }
+}
+
+export class RequestExitCall extends ethereum.Call {
+  get inputs(): RequestExitCall__Inputs {
+    return new RequestExitCall__Inputs(this);
+  }
+
+  get outputs(): RequestExitCall__Outputs {
+    return new RequestExitCall__Outputs(this);
+  }
+}
+
+export class RequestExitCall__Inputs {
+  _call: RequestExitCall;
+
+  constructor(call: RequestExitCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class RequestExitCall__Outputs {
+  _call: RequestExitCall;
+
+  constructor(call: RequestExitCall) {
+    this._call = call;
+  }
+}
+
+export class ReserveCapacityCall extends ethereum.Call {
+  get inputs(): ReserveCapacityCall__Inputs {
+    return new ReserveCapacityCall__Inputs(this);
+  }
+
+  get outputs(): ReserveCapacityCall__Outputs {
+    return new ReserveCapacityCall__Outputs(this);
+  }
+}
+
+export class ReserveCapacityCall__Inputs {
+  _call: ReserveCapacityCall;
+
+  constructor(call: ReserveCapacityCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get units(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class ReserveCapacityCall__Outputs {
+  _call: ReserveCapacityCall;
+
+  constructor(call: ReserveCapacityCall) {
+    this._call = call;
+  }
+}
+
+export class SafeTransferFromCall extends ethereum.Call {
+  get inputs(): SafeTransferFromCall__Inputs {
+    return new SafeTransferFromCall__Inputs(this);
+  }
+
+  get outputs(): SafeTransferFromCall__Outputs {
+    return new SafeTransferFromCall__Outputs(this);
+  }
+}
+
+export class SafeTransferFromCall__Inputs {
+  _call: SafeTransferFromCall;
+
+  constructor(call: SafeTransferFromCall) {
+    this._call = call;
+  }
+
+  get from(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get to(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+}
+
+export class SafeTransferFromCall__Outputs {
+  _call: SafeTransferFromCall;
+
+  constructor(call: SafeTransferFromCall) {
+    this._call = call;
+  }
+}
+
+export class SafeTransferFrom1Call extends ethereum.Call {
+  get inputs(): SafeTransferFrom1Call__Inputs {
+    return new SafeTransferFrom1Call__Inputs(this);
+  }
+
+  get outputs(): SafeTransferFrom1Call__Outputs {
+    return new SafeTransferFrom1Call__Outputs(this);
+  }
+}
+
+export class SafeTransferFrom1Call__Inputs {
+  _call: SafeTransferFrom1Call;
+
+  constructor(call: SafeTransferFrom1Call) {
+    this._call = call;
+  }
+
+  get from(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get to(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+
+  get data(): Bytes {
+    return this._call.inputValues[3].value.toBytes();
+  }
+}
+
+export class SafeTransferFrom1Call__Outputs {
+  _call: SafeTransferFrom1Call;
+
+  constructor(call: SafeTransferFrom1Call) {
+    this._call = call;
+  }
+}
+
+export class SetApprovalForAllCall extends ethereum.Call {
+  get inputs(): SetApprovalForAllCall__Inputs {
+    return new SetApprovalForAllCall__Inputs(this);
+  }
+
+  get outputs(): SetApprovalForAllCall__Outputs {
+    return new SetApprovalForAllCall__Outputs(this);
+  }
+}
+
+export class SetApprovalForAllCall__Inputs {
+  _call: SetApprovalForAllCall;
+
+  constructor(call: SetApprovalForAllCall) {
+    this._call = call;
+  }
+
+  get operator(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get approved(): boolean {
+    return this._call.inputValues[1].value.toBoolean();
+  }
+}
+
+export class SetApprovalForAllCall__Outputs {
+  _call: SetApprovalForAllCall;
+
+  constructor(call: SetApprovalForAllCall) {
+    this._call = call;
+  }
+}
+
+export class SetBridgeRelayerCall extends ethereum.Call {
+  get inputs(): SetBridgeRelayerCall__Inputs {
+    return new SetBridgeRelayerCall__Inputs(this);
+  }
+
+  get outputs(): SetBridgeRelayerCall__Outputs {
+    return new SetBridgeRelayerCall__Outputs(this);
+  }
+}
+
+export class SetBridgeRelayerCall__Inputs {
+  _call: SetBridgeRelayerCall;
+
+  constructor(call: SetBridgeRelayerCall) {
+    this._call = call;
+  }
+
+  get _relayer(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class SetBridgeRelayerCall__Outputs {
+  _call: SetBridgeRelayerCall;
+
+  constructor(call: SetBridgeRelayerCall) {
+    this._call = call;
+  }
+}
+
+export class SetCapacityConsumerCall extends ethereum.Call {
+  get inputs(): SetCapacityConsumerCall__Inputs {
+    return new SetCapacityConsumerCall__Inputs(this);
+  }
+
+  get outputs(): SetCapacityConsumerCall__Outputs {
+    return new SetCapacityConsumerCall__Outputs(this);
+  }
+}
+
+export class SetCapacityConsumerCall__Inputs {
+  _call: SetCapacityConsumerCall;
+
+  constructor(call: SetCapacityConsumerCall) {
+    this._call = call;
+  }
+
+  get consumer(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get allowed(): boolean {
+    return this._call.inputValues[1].value.toBoolean();
+  }
+}
+
+export class SetCapacityConsumerCall__Outputs {
+  _call: SetCapacityConsumerCall;
+
+  constructor(call: SetCapacityConsumerCall) {
+    this._call = call;
+  }
+}
+
+export class SetDPNTokenContractCall extends ethereum.Call {
+  get inputs(): SetDPNTokenContractCall__Inputs {
+    return new SetDPNTokenContractCall__Inputs(this);
+  }
+
+  get outputs(): SetDPNTokenContractCall__Outputs {
+    return new SetDPNTokenContractCall__Outputs(this);
+  }
+}
+
+export class SetDPNTokenContractCall__Inputs {
+  _call: SetDPNTokenContractCall;
+
+  constructor(call: SetDPNTokenContractCall) {
+    this._call = call;
+  }
+
+  get _dpnToken(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class SetDPNTokenContractCall__Outputs {
+  _call: SetDPNTokenContractCall;
+
+  constructor(call: SetDPNTokenContractCall) {
+    this._call = call;
+  }
+}
+
+export class SetParticipationContractCall extends ethereum.Call {
+  get inputs(): SetParticipationContractCall__Inputs {
+    return new SetParticipationContractCall__Inputs(this);
+  }
+
+  get outputs(): SetParticipationContractCall__Outputs {
+    return new SetParticipationContractCall__Outputs(this);
+  }
+}
+
+export class SetParticipationContractCall__Inputs {
+  _call: SetParticipationContractCall;
+
+  constructor(call: SetParticipationContractCall) {
+    this._call = call;
+  }
+
+  get _participation(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class SetParticipationContractCall__Outputs {
+  _call: SetParticipationContractCall;
+
+  constructor(call: SetParticipationContractCall) {
+    this._call = call;
+  }
+}
+
+export class SetRewardCalculatorContractCall extends ethereum.Call {
+  get inputs(): SetRewardCalculatorContractCall__Inputs {
+    return new SetRewardCalculatorContractCall__Inputs(this);
+  }
+
+  get outputs(): SetRewardCalculatorContractCall__Outputs {
+    return new SetRewardCalculatorContractCall__Outputs(this);
+  }
+}
+
+export class SetRewardCalculatorContractCall__Inputs {
+  _call: SetRewardCalculatorContractCall;
+
+  constructor(call: SetRewardCalculatorContractCall) {
+    this._call = call;
+  }
+
+  get _rewardCalculator(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class SetRewardCalculatorContractCall__Outputs {
+  _call: SetRewardCalculatorContractCall;
+
+  constructor(call: SetRewardCalculatorContractCall) {
+    this._call = call;
+  }
+}
+
+export class SetRewardPoolCall extends ethereum.Call {
+  get inputs(): SetRewardPoolCall__Inputs {
+    return new SetRewardPoolCall__Inputs(this);
+  }
+
+  get outputs(): SetRewardPoolCall__Outputs {
+    return new SetRewardPoolCall__Outputs(this);
+  }
+}
+
+export class SetRewardPoolCall__Inputs {
+  _call: SetRewardPoolCall;
+
+  constructor(call: SetRewardPoolCall) {
+    this._call = call;
+  }
+
+  get _rewardPool(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class SetRewardPoolCall__Outputs {
+  _call: SetRewardPoolCall;
+
+  constructor(call: SetRewardPoolCall) {
+    this._call = call;
+  }
+}
+
+export class SetSupportedChainCall extends ethereum.Call {
+  get inputs(): SetSupportedChainCall__Inputs {
+    return new SetSupportedChainCall__Inputs(this);
+  }
+
+  get outputs(): SetSupportedChainCall__Outputs {
+    return new SetSupportedChainCall__Outputs(this);
+  }
+}
+
+export class SetSupportedChainCall__Inputs {
+  _call: SetSupportedChainCall;
+
+  constructor(call: SetSupportedChainCall) {
+    this._call = call;
+  }
+
+  get chain(): string {
+    return this._call.inputValues[0].value.toString();
+  }
+
+  get supported(): boolean {
+    return this._call.inputValues[1].value.toBoolean();
+  }
+}
+
+export class SetSupportedChainCall__Outputs {
+  _call: SetSupportedChainCall;
+
+  constructor(call: SetSupportedChainCall) {
+    this._call = call;
+  }
+}
+
+export class SetTreasuryCall extends ethereum.Call {
+  get inputs(): SetTreasuryCall__Inputs {
+    return new SetTreasuryCall__Inputs(this);
+  }
+
+  get outputs(): SetTreasuryCall__Outputs {
+    return new SetTreasuryCall__Outputs(this);
+  }
+}
+
+export class SetTreasuryCall__Inputs {
+  _call: SetTreasuryCall;
+
+  constructor(call: SetTreasuryCall) {
+    this._call = call;
+  }
+
+  get _treasury(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class SetTreasuryCall__Outputs {
+  _call: SetTreasuryCall;
+
+  constructor(call: SetTreasuryCall) {
+    this._call = call;
+  }
+}
+
+export class TransferFromCall extends ethereum.Call {
+  get inputs(): TransferFromCall__Inputs {
+    return new TransferFromCall__Inputs(this);
+  }
+
+  get outputs(): TransferFromCall__Outputs {
+    return new TransferFromCall__Outputs(this);
+  }
+}
+
+export class TransferFromCall__Inputs {
+  _call: TransferFromCall;
+
+  constructor(call: TransferFromCall) {
+    this._call = call;
+  }
+
+  get from(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get to(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+}
+
+export class TransferFromCall__Outputs {
+  _call: TransferFromCall;
+
+  constructor(call: TransferFromCall) {
+    this._call = call;
+  }
+}
+
+export class TransferOwnershipCall extends ethereum.Call {
+  get inputs(): TransferOwnershipCall__Inputs {
+    return new TransferOwnershipCall__Inputs(this);
+  }
+
+  get outputs(): TransferOwnershipCall__Outputs {
+    return new TransferOwnershipCall__Outputs(this);
+  }
+}
+
+export class TransferOwnershipCall__Inputs {
+  _call: TransferOwnershipCall;
+
+  constructor(call: TransferOwnershipCall) {
+    this._call = call;
+  }
+
+  get newOwner(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class TransferOwnershipCall__Outputs {
+  _call: TransferOwnershipCall;
+
+  constructor(call: TransferOwnershipCall) {
+    this._call = call;
+  }
+}
+
+export class UpdateNodeTypeConfigCall extends ethereum.Call {
+  get inputs(): UpdateNodeTypeConfigCall__Inputs {
+    return new UpdateNodeTypeConfigCall__Inputs(this);
+  }
+
+  get outputs(): UpdateNodeTypeConfigCall__Outputs {
+    return new UpdateNodeTypeConfigCall__Outputs(this);
+  }
+}
+
+export class UpdateNodeTypeConfigCall__Inputs {
+  _call: UpdateNodeTypeConfigCall;
+
+  constructor(call: UpdateNodeTypeConfigCall) {
+    this._call = call;
+  }
+
+  get nodeType(): i32 {
+    return this._call.inputValues[0].value.toI32();
+  }
+
+  get minETHStake(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+
+  get minDPNStake(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+
+  get baseRewardRate(): BigInt {
+    return this._call.inputValues[3].value.toBigInt();
+  }
+
+  get isActive(): boolean {
+    return this._call.inputValues[4].value.toBoolean();
+  }
+}
+
+export class UpdateNodeTypeConfigCall__Outputs {
+  _call: UpdateNodeTypeConfigCall;
+
+  constructor(call: UpdateNodeTypeConfigCall) {
+    this._call = call;
+  }
+}
+
+export class UpdatePerformanceCall extends ethereum.Call {
+  get inputs(): UpdatePerformanceCall__Inputs {
+    return new UpdatePerformanceCall__Inputs(this);
+  }
+
+  get outputs(): UpdatePerformanceCall__Outputs {
+    return new UpdatePerformanceCall__Outputs(this);
+  }
+}
+
+export class UpdatePerformanceCall__Inputs {
+  _call: UpdatePerformanceCall;
+
+  constructor(call: UpdatePerformanceCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get uptimeSeconds(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+
+  get performanceScore(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+}
+
+export class UpdatePerformanceCall__Outputs {
+  _call: UpdatePerformanceCall;
+
+  constructor(call: UpdatePerformanceCall) {
+    this._call = call;
+  }
+}
+
+export class UpgradeNodeCall extends ethereum.Call {
+  get inputs(): UpgradeNodeCall__Inputs {
+    return new UpgradeNodeCall__Inputs(this);
+  }
+
+  get outputs(): UpgradeNodeCall__Outputs {
+    return new UpgradeNodeCall__Outputs(this);
+  }
+}
+
+export class UpgradeNodeCall__Inputs {
+  _call: UpgradeNodeCall;
+
+  constructor(call: UpgradeNodeCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get additionalDPN(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class UpgradeNodeCall__Outputs {
+  _call: UpgradeNodeCall;
+
+  constructor(call: UpgradeNodeCall) {
+    this._call = call;
+  }
+}
+
+export class WithdrawStakeCall extends ethereum.Call {
+  get inputs(): WithdrawStakeCall__Inputs {
+    return new WithdrawStakeCall__Inputs(this);
+  }
+
+  get outputs(): WithdrawStakeCall__Outputs {
+    return new WithdrawStakeCall__Outputs(this);
+  }
+}
+
+export class WithdrawStakeCall__Inputs {
+  _call: WithdrawStakeCall;
+
+  constructor(call: WithdrawStakeCall) {
+    this._call = call;
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class WithdrawStakeCall__Outputs {
+  _call: WithdrawStakeCall;
+
+  constructor(call: WithdrawStakeCall) {
+    this._call = call;
+  }
+}
@@ -10,6 +10,106 @@ import {
   BigInt,
 } from "@graphprotocol/graph-ts";
 
+export class CommissionUpdated extends ethereum.Event {
+  get params(): CommissionUpdated__Params {
+    return new CommissionUpdated__Params(this);
+  }
+}
+
+export class CommissionUpdated__Params {
+  _event: CommissionUpdated;
+
+  constructor(event: CommissionUpdated) {
+    this._event = event;
+  }
+
+  get nodeId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get commission(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+}
+
+export class DelegatorRewardClaimed extends ethereum.Event {
+  get params(): DelegatorRewardClaimed__Params {
+    return new DelegatorRewardClaimed__Params(this);
+  }
+}
+
+export class DelegatorRewardClaimed__Params {
+  _event: DelegatorRewardClaimed;
+
+  constructor(event: DelegatorRewardClaimed) {
+    this._event = event;
+  }
+
+  get nodeId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get staker(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get amount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get timestamp(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
+export class EIP712DomainChanged extends ethereum.Event {
+  get params(): EIP712DomainChanged__Params {
+    return new EIP712DomainChanged__Params(this);
+  }
+}
+
+export class EIP712DomainChanged__Params {
+  _event: EIP712DomainChanged;
+
+  constructor(event: EIP712DomainChanged) {
+    this._event = event;
+  }
+}
+
+export class HeartbeatAccepted extends ethereum.Event {
+  get params(): HeartbeatAccepted__Params {
+    return new HeartbeatAccepted__Params(this);
+  }
+}
+
+export class HeartbeatAccepted__Params {
+  _event: HeartbeatAccepted;
+
+  constructor(event: HeartbeatAccepted) {
+    this._event = event;
+  }
+
+  get nodeId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get nonce(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+
+  get windowStart(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get windowEnd(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+
+  get heartbeats(): BigInt {
+    return this._event.parameters[4].value.toBigInt();
+  }
+}
+
 export class NodeRegistered extends ethereum.Event {
   get params(): NodeRegistered__Params {
     return new NodeRegistered__Params(this);
@@ -36,6 +136,24 @@ export class NodeRegistered__Params {
   }
 }
 
+export class ReportingWindowUpdated extends ethereum.Event {
+  get params(): ReportingWindowUpdated__Params {
+    return new ReportingWindowUpdated__Params(this);
+  }
+}
+
+export class ReportingWindowUpdated__Params {
+  _event: ReportingWindowUpdated;
+
+  constructor(event: ReportingWindowUpdated) {
+    this._event = event;
+  }
+
+  get reportingWindow(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+}
+
 export class RewardClaimed extends ethereum.Event {
   get params(): RewardClaimed__Params {
     return new RewardClaimed__Params(this);
@@ -66,6 +184,128 @@ export class RewardClaimed__Params {
   }
 }
 
+export class RewardPoolUpdated extends ethereum.Event {
+  get params(): RewardPoolUpdated__Params {
+    return new RewardPoolUpdated__Params(this);
+  }
+}
+
+export class RewardPoolUpdated__Params {
+  _event: RewardPoolUpdated;
+
+  constructor(event: RewardPoolUpdated) {
+    this._event = event;
+  }
+
+  get rewardPool(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+}
+
+export class RewardsShared extends ethereum.Event {
+  get params(): RewardsShared__Params {
+    return new RewardsShared__Params(this);
+  }
+}
+
+export class RewardsShared__Params {
+  _event: RewardsShared;
+
+  constructor(event: RewardsShared) {
+    this._event = event;
+  }
+
+  get nodeId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get operatorAmount(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+
+  get delegatorAmount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class RoleAdminChanged extends ethereum.Event {
+  get params(): RoleAdminChanged__Params {
+    return new RoleAdminChanged__Params(this);
+  }
+}
+
+export class RoleAdminChanged__Params {
+  _event: RoleAdminChanged;
+
+  constructor(event: RoleAdminChanged) {
+    this._event = event;
+  }
+
+  get role(): Bytes {
+    return this._event.parameters[0].value.toBytes();
+  }
+
+  get previousAdminRole(): Bytes {
+    return this._event.parameters[1].value.toBytes();
+  }
+
+  get newAdminRole(): Bytes {
+    return this._event.parameters[2].value.toBytes();
+  }
+}
+
+export class RoleGranted extends ethereum.Event {
+  get params(): RoleGranted__Params {
+    return new RoleGranted__Params(this);
+  }
+}
+
+export class RoleGranted__Params {
+  _event: RoleGranted;
+
+  constructor(event: RoleGranted) {
+    this._event = event;
+  }
+
+  get role(): Bytes {
+    return this._event.parameters[0].value.toBytes();
+  }
+
+  get account(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get sender(): Address {
+    return this._event.parameters[2].value.toAddress();
+  }
+}
+
+export class RoleRevoked extends ethereum.Event {
+  get params(): RoleRevoked__Params {
+    return new RoleRevoked__Params(this);
+  }
+}
+
+export class RoleRevoked__Params {
+  _event: RoleRevoked;
+
+  constructor(event: RoleRevoked) {
+    this._event = event;
+  }
+
+  get role(): Bytes {
+    return this._event.parameters[0].value.toBytes();
+  }
+
+  get account(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get sender(): Address {
+    return this._event.parameters[2].value.toAddress();
+  }
+}
+
 export class StakeUpdated extends ethereum.Event {
   get params(): StakeUpdated__Params {
     return new StakeUpdated__Params(this);
@@ -96,6 +336,62 @@ export class StakeUpdated__Params {
   }
 }
 
+export class UnstakeRequested extends ethereum.Event {
+  get params(): UnstakeRequested__Params {
+    return new UnstakeRequested__Params(this);
+  }
+}
+
+export class UnstakeRequested__Params {
+  _event: UnstakeRequested;
+
+  constructor(event: UnstakeRequested) {
+    this._event = event;
+  }
+
+  get nodeId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get staker(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get amount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get availableAt(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
+export class Unstaked extends ethereum.Event {
+  get params(): Unstaked__Params {
+    return new Unstaked__Params(this);
+  }
+}
+
+export class Unstaked__Params {
+  _event: Unstaked;
+
+  constructor(event: Unstaked) {
+    this._event = event;
+  }
+
+  get nodeId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get staker(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get amount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
 export class UptimeRecorded extends ethereum.Event {
   get params(): UptimeRecorded__Params {
     return new UptimeRecorded__Params(this);
@@ -122,6 +418,126 @@ export class UptimeRecorded__Params {
   }
 }
 
+export class Participation__delegationsResult {
+  value0: BigInt;
+  value1: BigInt;
+  value2: BigInt;
+  value3: BigInt;
+  value4: BigInt;
+
+  constructor(
+    value0: BigInt,
+    value1: BigInt,
+    value2: BigInt,
+    value3: BigInt,
+    value4: BigInt,
+  ) {
+    this.value0 = value0;
+    this.value1 = value1;
+    this.value2 = value2;
+    this.value3 = value3;
+    this.value4 = value4;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set("value0", ethereum.Value.fromUnsignedBigInt(this.value0));
+    map.set("value1", ethereum.Value.fromUnsignedBigInt(this.value1));
+    map.set("value2", ethereum.Value.fromUnsignedBigInt(this.value2));
+    map.set("value3", ethereum.Value.fromUnsignedBigInt(this.value3));
+    map.set("value4", ethereum.Value.fromUnsignedBigInt(this.value4));
+    return map;
+  }
+
+  getAmount(): BigInt {
+    return this.value0;
+  }
+
+  getRewardDebt(): BigInt {
+    return this.value1;
+  }
+
+  getRewards(): BigInt {
+    return this.value2;
+  }
+
+  getUnstaking(): BigInt {
+    return this.value3;
+  }
+
+  getUnstakeAvailableAt(): BigInt {
+    return this.value4;
+  }
+}
+
+export class Participation__eip712DomainResult {
+  value0: Bytes;
+  value1: string;
+  value2: string;
+  value3: BigInt;
+  value4: Address;
+  value5: Bytes;
+  value6: Array<BigInt>;
+
+  constructor(
+    value0: Bytes,
+    value1: string,
+    value2: string,
+    value3: BigInt,
+    value4: Address,
+    value5: Bytes,
+    value6: Array<BigInt>,
+  ) {
+    this.value0 = value0;
+    this.value1 = value1;
+    this.value2 = value2;
+    this.value3 = value3;
+    this.value4 = value4;
+    this.value5 = value5;
+    this.value6 = value6;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set("value0", ethereum.Value.fromFixedBytes(this.value0));
+    map.set("value1", ethereum.Value.fromString(this.value1));
+    map.set("value2", ethereum.Value.fromString(this.value2));
+    map.set("value3", ethereum.Value.fromUnsignedBigInt(this.value3));
+    map.set("value4", ethereum.Value.fromAddress(this.value4));
+    map.set("value5", ethereum.Value.fromFixedBytes(this.value5));
+    map.set("value6", ethereum.Value.fromUnsignedBigIntArray(this.value6));
+    return map;
+  }
+
+  getFields(): Bytes {
+    return this.value0;
+  }
+
+  getName(): string {
+    return this.value1;
+  }
+
+  getVersion(): string {
+    return this.value2;
+  }
+
+  getChainId(): BigInt {
+    return this.value3;
+  }
+
+  getVerifyingContract(): Address {
+    return this.value4;
+  }
+
+  getSalt(): Bytes {
+    return this.value5;
+  }
+
+  getExtensions(): Array<BigInt> {
+    return this.value6;
+  }
+}
+
 export class Participation__nodesResult {
   value0: Address;
   value1: string;
@@ -191,6 +607,423 @@ export class Participation extends ethereum.SmartContract {
     return new Participation("Participation", address);
   }
 
+  COMMISSION_DECIMALS(): BigInt {
+    let result = super.call(
+      "COMMISSION_DECIMALS",
+      "COMMISSION_DECIMALS():(uint256)",
+      [],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_COMMISSION_DECIMALS(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "COMMISSION_DECIMALS",
+      "COMMISSION_DECIMALS():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  DEFAULT_ADMIN_ROLE(): Bytes {
+    let result = super.call(
+      "DEFAULT_ADMIN_ROLE",
+      "DEFAULT_ADMIN_ROLE():(bytes32)",
+      [],
+    );
+
+    return result[0].toBytes();
+  }
+
+  try_DEFAULT_ADMIN_ROLE(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "DEFAULT_ADMIN_ROLE",
+      "DEFAULT_ADMIN_ROLE():(bytes32)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  HEARTBEAT_TYPEHASH(): Bytes {
+    let result = super.call(
+      "HEARTBEAT_TYPEHASH",
+      "HEARTBEAT_TYPEHASH():(bytes32)",
+      [],
+    );
+
+    return result[0].toBytes();
+  }
+
+  try_HEARTBEAT_TYPEHASH(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "HEARTBEAT_TYPEHASH",
+      "HEARTBEAT_TYPEHASH():(bytes32)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  MAX_COMMISSION(): BigInt {
+    let result = super.call("MAX_COMMISSION", "MAX_COMMISSION():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_MAX_COMMISSION(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "MAX_COMMISSION",
+      "MAX_COMMISSION():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  OPERATOR_STAKE_FLOOR(): BigInt {
+    let result = super.call(
+      "OPERATOR_STAKE_FLOOR",
+      "OPERATOR_STAKE_FLOOR():(uint256)",
+      [],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_OPERATOR_STAKE_FLOOR(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "OPERATOR_STAKE_FLOOR",
+      "OPERATOR_STAKE_FLOOR():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  REPORTER_ROLE(): Bytes {
+    let result = super.call("REPORTER_ROLE", "REPORTER_ROLE():(bytes32)", []);
+
+    return result[0].toBytes();
+  }
+
+  try_REPORTER_ROLE(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "REPORTER_ROLE",
+      "REPORTER_ROLE():(bytes32)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  REWARD_PER_UNIT(): BigInt {
+    let result = super.call(
+      "REWARD_PER_UNIT",
+      "REWARD_PER_UNIT():(uint256)",
+      [],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_REWARD_PER_UNIT(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "REWARD_PER_UNIT",
+      "REWARD_PER_UNIT():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  UNSTAKE_DELAY(): BigInt {
+    let result = super.call("UNSTAKE_DELAY", "UNSTAKE_DELAY():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_UNSTAKE_DELAY(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "UNSTAKE_DELAY",
+      "UNSTAKE_DELAY():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  accRewardPerStake(param0: BigInt): BigInt {
+    let result = super.call(
+      "accRewardPerStake",
+      "accRewardPerStake(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_accRewardPerStake(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "accRewardPerStake",
+      "accRewardPerStake(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  commissions(param0: BigInt): BigInt {
+    let result = super.call("commissions", "commissions(uint256):(uint256)", [
+      ethereum.Value.fromUnsignedBigInt(param0),
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_commissions(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "commissions",
+      "commissions(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  delegatedStakes(param0: BigInt): BigInt {
+    let result = super.call(
+      "delegatedStakes",
+      "delegatedStakes(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_delegatedStakes(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "delegatedStakes",
+      "delegatedStakes(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  delegations(
+    param0: BigInt,
+    param1: Address,
+  ): Participation__delegationsResult {
+    let result = super.call(
+      "delegations",
+      "delegations(uint256,address):(uint256,uint256,uint256,uint256,uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(param0),
+        ethereum.Value.fromAddress(param1),
+      ],
+    );
+
+    return new Participation__delegationsResult(
+      result[0].toBigInt(),
+      result[1].toBigInt(),
+      result[2].toBigInt(),
+      result[3].toBigInt(),
+      result[4].toBigInt(),
+    );
+  }
+
+  try_delegations(
+    param0: BigInt,
+    param1: Address,
+  ): ethereum.CallResult<Participation__delegationsResult> {
+    let result = super.tryCall(
+      "delegations",
+      "delegations(uint256,address):(uint256,uint256,uint256,uint256,uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(param0),
+        ethereum.Value.fromAddress(param1),
+      ],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new Participation__delegationsResult(
+        value[0].toBigInt(),
+        value[1].toBigInt(),
+        value[2].toBigInt(),
+        value[3].toBigInt(),
+        value[4].toBigInt(),
+      ),
+    );
+  }
+
+  eip712Domain(): Participation__eip712DomainResult {
+    let result = super.call(
+      "eip712Domain",
+      "eip712Domain():(bytes1,string,string,uint256,address,bytes32,uint256[])",
+      [],
+    );
+
+    return new Participation__eip712DomainResult(
+      result[0].toBytes(),
+      result[1].toString(),
+      result[2].toString(),
+      result[3].toBigInt(),
+      result[4].toAddress(),
+      result[5].toBytes(),
+      result[6].toBigIntArray(),
+    );
+  }
+
+  try_eip712Domain(): ethereum.CallResult<Participation__eip712DomainResult> {
+    let result = super.tryCall(
+      "eip712Domain",
+      "eip712Domain():(bytes1,string,string,uint256,address,bytes32,uint256[])",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new Participation__eip712DomainResult(
+        value[0].toBytes(),
+        value[1].toString(),
+        value[2].toString(),
+        value[3].toBigInt(),
+        value[4].toAddress(),
+        value[5].toBytes(),
+        value[6].toBigIntArray(),
+      ),
+    );
+  }
+
+  getRoleAdmin(role: Bytes): Bytes {
+    let result = super.call("getRoleAdmin", "getRoleAdmin(bytes32):(bytes32)", [
+      ethereum.Value.fromFixedBytes(role),
+    ]);
+
+    return result[0].toBytes();
+  }
+
+  try_getRoleAdmin(role: Bytes): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "getRoleAdmin",
+      "getRoleAdmin(bytes32):(bytes32)",
+      [ethereum.Value.fromFixedBytes(role)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  hasRole(role: Bytes, account: Address): boolean {
+    let result = super.call("hasRole", "hasRole(bytes32,address):(bool)", [
+      ethereum.Value.fromFixedBytes(role),
+      ethereum.Value.fromAddress(account),
+    ]);
+
+    return result[0].toBoolean();
+  }
+
+  try_hasRole(role: Bytes, account: Address): ethereum.CallResult<boolean> {
+    let result = super.tryCall("hasRole", "hasRole(bytes32,address):(bool)", [
+      ethereum.Value.fromFixedBytes(role),
+      ethereum.Value.fromAddress(account),
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  heartbeatNonces(param0: BigInt): BigInt {
+    let result = super.call(
+      "heartbeatNonces",
+      "heartbeatNonces(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_heartbeatNonces(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "heartbeatNonces",
+      "heartbeatNonces(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  lastWindowEnd(param0: BigInt): BigInt {
+    let result = super.call(
+      "lastWindowEnd",
+      "lastWindowEnd(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_lastWindowEnd(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "lastWindowEnd",
+      "lastWindowEnd(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
   nextId(): BigInt {
     let result = super.call("nextId", "nextId():(uint256)", []);
 
@@ -232,30 +1065,169 @@ export class Participation extends ethereum.SmartContract {
       [ethereum.Value.fromUnsignedBigInt(param0)],
     );
 
-    return new Participation__nodesResult(
-      result[0].toAddress(),
-      result[1].toString(),
-      result[2].toBigInt(),
-    );
+    return new Participation__nodesResult(
+      result[0].toAddress(),
+      result[1].toString(),
+      result[2].toBigInt(),
+    );
+  }
+
+  try_nodes(param0: BigInt): ethereum.CallResult<Participation__nodesResult> {
+    let result = super.tryCall(
+      "nodes",
+      "nodes(uint256):(address,string,uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new Participation__nodesResult(
+        value[0].toAddress(),
+        value[1].toString(),
+        value[2].toBigInt(),
+      ),
+    );
+  }
+
+  operatorRemainders(param0: BigInt): BigInt {
+    let result = super.call(
+      "operatorRemainders",
+      "operatorRemainders(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_operatorRemainders(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "operatorRemainders",
+      "operatorRemainders(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  pendingDelegatorReward(nodeId: BigInt, staker: Address): BigInt {
+    let result = super.call(
+      "pendingDelegatorReward",
+      "pendingDelegatorReward(uint256,address):(uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(nodeId),
+        ethereum.Value.fromAddress(staker),
+      ],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_pendingDelegatorReward(
+    nodeId: BigInt,
+    staker: Address,
+  ): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "pendingDelegatorReward",
+      "pendingDelegatorReward(uint256,address):(uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(nodeId),
+        ethereum.Value.fromAddress(staker),
+      ],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  reportedInWindow(param0: BigInt): BigInt {
+    let result = super.call(
+      "reportedInWindow",
+      "reportedInWindow(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_reportedInWindow(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "reportedInWindow",
+      "reportedInWindow(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  reportedWindow(param0: BigInt): BigInt {
+    let result = super.call(
+      "reportedWindow",
+      "reportedWindow(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_reportedWindow(param0: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "reportedWindow",
+      "reportedWindow(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(param0)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  reportingWindow(): BigInt {
+    let result = super.call(
+      "reportingWindow",
+      "reportingWindow():(uint256)",
+      [],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_reportingWindow(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "reportingWindow",
+      "reportingWindow():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  rewardPool(): Address {
+    let result = super.call("rewardPool", "rewardPool():(address)", []);
+
+    return result[0].toAddress();
   }
 
-  try_nodes(param0: BigInt): ethereum.CallResult<Participation__nodesResult> {
-    let result = super.tryCall(
-      "nodes",
-      "nodes(uint256):(address,string,uint256)",
-      [ethereum.Value.fromUnsignedBigInt(param0)],
-    );
+  try_rewardPool(): ethereum.CallResult<Address> {
+    let result = super.tryCall("rewardPool", "rewardPool():(address)", []);
     if (result.reverted) {
       return new ethereum.CallResult();
     }
     let value = result.value;
-    return ethereum.CallResult.fromValue(
-      new Participation__nodesResult(
-        value[0].toAddress(),
-        value[1].toString(),
-        value[2].toBigInt(),
-      ),
-    );
+    return ethereum.CallResult.fromValue(value[0].toAddress());
   }
 
   stats(param0: BigInt): Participation__statsResult {
@@ -290,6 +1262,85 @@ export class Participation extends ethereum.SmartContract {
       ),
     );
   }
+
+  supportsInterface(interfaceId: Bytes): boolean {
+    let result = super.call(
+      "supportsInterface",
+      "supportsInterface(bytes4):(bool)",
+      [ethereum.Value.fromFixedBytes(interfaceId)],
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_supportsInterface(interfaceId: Bytes): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "supportsInterface",
+      "supportsInterface(bytes4):(bool)",
+      [ethereum.Value.fromFixedBytes(interfaceId)],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+}
+
+export class ConstructorCall extends ethereum.Call {
+  get inputs(): ConstructorCall__Inputs {
+    return new ConstructorCall__Inputs(this);
+  }
+
+  get outputs(): ConstructorCall__Outputs {
+    return new ConstructorCall__Outputs(this);
+  }
+}
+
+export class ConstructorCall__Inputs {
+  _call: ConstructorCall;
+
+  constructor(call: ConstructorCall) {
+    this._call = call;
+  }
+}
+
+export class ConstructorCall__Outputs {
+  _call: ConstructorCall;
+
+  constructor(call: ConstructorCall) {
+    this._call = call;
+  }
+}
+
+export class ClaimDelegatorRewardCall extends ethereum.Call {
+  get inputs(): ClaimDelegatorRewardCall__Inputs {
+    return new ClaimDelegatorRewardCall__Inputs(this);
+  }
+
+  get outputs(): ClaimDelegatorRewardCall__Outputs {
+    return new ClaimDelegatorRewardCall__Outputs(this);
+  }
+}
+
+export class ClaimDelegatorRewardCall__Inputs {
+  _call: ClaimDelegatorRewardCall;
+
+  constructor(call: ClaimDelegatorRewardCall) {
+    this._call = call;
+  }
+
+  get nodeId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class ClaimDelegatorRewardCall__Outputs {
+  _call: ClaimDelegatorRewardCall;
+
+  constructor(call: ClaimDelegatorRewardCall) {
+    this._call = call;
+  }
 }
 
 export class ClaimRewardCall extends ethereum.Call {
@@ -322,6 +1373,100 @@ export class ClaimRewardCall__Outputs {
   }
 }
 
+export class GrantRoleCall extends ethereum.Call {
+  get inputs(): GrantRoleCall__Inputs {
+    return new GrantRoleCall__Inputs(this);
+  }
+
+  get outputs(): GrantRoleCall__Outputs {
+    return new GrantRoleCall__Outputs(this);
+  }
+}
+
+export class GrantRoleCall__Inputs {
+  _call: GrantRoleCall;
+
+  constructor(call: GrantRoleCall) {
+    this._call = call;
+  }
+
+  get role(): Bytes {
+    return this._call.inputValues[0].value.toBytes();
+  }
+
+  get account(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class GrantRoleCall__Outputs {
+  _call: GrantRoleCall;
+
+  constructor(call: GrantRoleCall) {
+    this._call = call;
+  }
+}
+
+export class RecordSignedUptimeCall extends ethereum.Call {
+  get inputs(): RecordSignedUptimeCall__Inputs {
+    return new RecordSignedUptimeCall__Inputs(this);
+  }
+
+  get outputs(): RecordSignedUptimeCall__Outputs {
+    return new RecordSignedUptimeCall__Outputs(this);
+  }
+}
+
+export class RecordSignedUptimeCall__Inputs {
+  _call: RecordSignedUptimeCall;
+
+  constructor(call: RecordSignedUptimeCall) {
+    this._call = call;
+  }
+
+  get heartbeats(): Array<RecordSignedUptimeCallHeartbeatsStruct> {
+    return this._call.inputValues[0].value.toTupleArray<RecordSignedUptimeCallHeartbeatsStruct>();
+  }
+
+  get signatures(): Array<Bytes> {
+    return this._call.inputValues[1].value.toBytesArray();
+  }
+}
+
+export class RecordSignedUptimeCall__Outputs {
+  _call: RecordSignedUptimeCall;
+
+  constructor(call: RecordSignedUptimeCall) {
+    this._call = call;
+  }
+}
+
+export class RecordSignedUptimeCallHeartbeatsStruct extends ethereum.Tuple {
+  get nodeId(): BigInt {
+    return this[0].toBigInt();
+  }
+
+  get windowStart(): BigInt {
+    return this[1].toBigInt();
+  }
+
+  get windowEnd(): BigInt {
+    return this[2].toBigInt();
+  }
+
+  get heartbeats(): BigInt {
+    return this[3].toBigInt();
+  }
+
+  get uptimeMinutes(): BigInt {
+    return this[4].toBigInt();
+  }
+
+  get nonce(): BigInt {
+    return this[5].toBigInt();
+  }
+}
+
 export class RecordUptimeCall extends ethereum.Call {
   get inputs(): RecordUptimeCall__Inputs {
     return new RecordUptimeCall__Inputs(this);
@@ -386,6 +1531,202 @@ export class RegisterNodeCall__Outputs {
   }
 }
 
+export class RenounceRoleCall extends ethereum.Call {
+  get inputs(): RenounceRoleCall__Inputs {
+    return new RenounceRoleCall__Inputs(this);
+  }
+
+  get outputs(): RenounceRoleCall__Outputs {
+    return new RenounceRoleCall__Outputs(this);
+  }
+}
+
+export class RenounceRoleCall__Inputs {
+  _call: RenounceRoleCall;
+
+  constructor(call: RenounceRoleCall) {
+    this._call = call;
+  }
+
+  get role(): Bytes {
+    return this._call.inputValues[0].value.toBytes();
+  }
+
+  get callerConfirmation(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class RenounceRoleCall__Outputs {
+  _call: RenounceRoleCall;
+
+  constructor(call: RenounceRoleCall) {
+    this._call = call;
+  }
+}
+
+export class RequestUnstakeCall extends ethereum.Call {
+  get inputs(): RequestUnstakeCall__Inputs {
+    return new RequestUnstakeCall__Inputs(this);
+  }
+
+  get outputs(): RequestUnstakeCall__Outputs {
+    return new RequestUnstakeCall__Outputs(this);
+  }
+}
+
+export class RequestUnstakeCall__Inputs {
+  _call: RequestUnstakeCall;
+
+  constructor(call: RequestUnstakeCall) {
+    this._call = call;
+  }
+
+  get nodeId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get amount(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class RequestUnstakeCall__Outputs {
+  _call: RequestUnstakeCall;
+
+  constructor(call: RequestUnstakeCall) {
+    this._call = call;
+  }
+}
+
+export class RevokeRoleCall extends ethereum.Call {
+  get inputs(): RevokeRoleCall__Inputs {
+    return new RevokeRoleCall__Inputs(this);
+  }
+
+  get outputs(): RevokeRoleCall__Outputs {
+    return new RevokeRoleCall__Outputs(this);
+  }
+}
+
+export class RevokeRoleCall__Inputs {
+  _call: RevokeRoleCall;
+
+  constructor(call: RevokeRoleCall) {
+    this._call = call;
+  }
+
+  get role(): Bytes {
+    return this._call.inputValues[0].value.toBytes();
+  }
+
+  get account(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class RevokeRoleCall__Outputs {
+  _call: RevokeRoleCall;
+
+  constructor(call: RevokeRoleCall) {
+    this._call = call;
+  }
+}
+
+export class SetCommissionCall extends ethereum.Call {
+  get inputs(): SetCommissionCall__Inputs {
+    return new SetCommissionCall__Inputs(this);
+  }
+
+  get outputs(): SetCommissionCall__Outputs {
+    return new SetCommissionCall__Outputs(this);
+  }
+}
+
+export class SetCommissionCall__Inputs {
+  _call: SetCommissionCall;
+
+  constructor(call: SetCommissionCall) {
+    this._call = call;
+  }
+
+  get nodeId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get commission(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class SetCommissionCall__Outputs {
+  _call: SetCommissionCall;
+
+  constructor(call: SetCommissionCall) {
+    this._call = call;
+  }
+}
+
+export class SetReportingWindowCall extends ethereum.Call {
+  get inputs(): SetReportingWindowCall__Inputs {
+    return new SetReportingWindowCall__Inputs(this);
+  }
+
+  get outputs(): SetReportingWindowCall__Outputs {
+    return new SetReportingWindowCall__Outputs(this);
+  }
+}
+
+export class SetReportingWindowCall__Inputs {
+  _call: SetReportingWindowCall;
+
+  constructor(call: SetReportingWindowCall) {
+    this._call = call;
+  }
+
+  get _reportingWindow(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class SetReportingWindowCall__Outputs {
+  _call: SetReportingWindowCall;
+
+  constructor(call: SetReportingWindowCall) {
+    this._call = call;
+  }
+}
+
+export class SetRewardPoolCall extends ethereum.Call {
+  get inputs(): SetRewardPoolCall__Inputs {
+    return new SetRewardPoolCall__Inputs(this);
+  }
+
+  get outputs(): SetRewardPoolCall__Outputs {
+    return new SetRewardPoolCall__Outputs(this);
+  }
+}
+
+export class SetRewardPoolCall__Inputs {
+  _call: SetRewardPoolCall;
+
+  constructor(call: SetRewardPoolCall) {
+    this._call = call;
+  }
+
+  get _rewardPool(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class SetRewardPoolCall__Outputs {
+  _call: SetRewardPoolCall;
+
+  constructor(call: SetRewardPoolCall) {
+    this._call = call;
+  }
+}
+
 export class StakeToNodeCall extends ethereum.Call {
   get inputs(): StakeToNodeCall__Inputs {
     return new StakeToNodeCall__Inputs(this);
@@ -415,3 +1756,33 @@ export class StakeToNodeCall__Outputs {
     this._call = call;
   }
 }
+
+export class WithdrawUnstakedCall extends ethereum.Call {
+  get inputs(): WithdrawUnstakedCall__Inputs {
+    return new WithdrawUnstakedCall__Inputs(this);
+  }
+
+  get outputs(): WithdrawUnstakedCall__Outputs {
+    return new WithdrawUnstakedCall__Outputs(this);
+  }
+}
+
+export class WithdrawUnstakedCall__Inputs {
+  _call: WithdrawUnstakedCall;
+
+  constructor(call: WithdrawUnstakedCall) {
+    this._call = call;
+  }
+
+  get nodeId(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class WithdrawUnstakedCall__Outputs {
+  _call: WithdrawUnstakedCall;
+
+  constructor(call: WithdrawUnstakedCall) {
+    this._call = call;
+  }
+}
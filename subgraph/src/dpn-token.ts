@@ -0,0 +1,99 @@
+import { Address, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts";
+import { Transfer } from "../generated/DPNToken/DPNToken";
+import {
+    Account,
+    AccountBalanceSnapshot,
+    Token,
+    TokenTransfer
+} from "../generated/schema";
+
+function loadToken(address: Address): Token {
+    let token = Token.load(address);
+    if (token == null) {
+        token = new Token(address);
+        token.totalSupply = BigInt.zero();
+        token.totalMinted = BigInt.zero();
+        token.totalBurned = BigInt.zero();
+        token.holderCount = 0;
+        token.transferCount = BigInt.zero();
+    }
+    return token;
+}
+
+function loadAccount(address: Address, timestamp: BigInt): Account {
+    let account = Account.load(address);
+    if (account == null) {
+        account = new Account(address);
+        account.balance = BigInt.zero();
+        account.transferCount = BigInt.zero();
+        account.firstSeenAt = timestamp;
+    }
+    account.updatedAt = timestamp;
+    return account;
+}
+
+// Apply a signed balance change, keep holderCount in sync and record a snapshot
+function applyDelta(token: Token, account: Account, delta: BigInt, transfer: TokenTransfer, event: ethereum.Event): void {
+    let wasHolder = account.balance.gt(BigInt.zero());
+    account.balance = account.balance.plus(delta);
+    account.transferCount = account.transferCount.plus(BigInt.fromI32(1));
+    account.save();
+
+    let isHolder = account.balance.gt(BigInt.zero());
+    if (!wasHolder && isHolder) token.holderCount = token.holderCount + 1;
+    if (wasHolder && !isHolder) token.holderCount = token.holderCount - 1;
+
+    let snapshot = new AccountBalanceSnapshot(transfer.id.concat(account.id));
+    snapshot.account = account.id;
+    snapshot.balance = account.balance;
+    snapshot.delta = delta;
+    snapshot.transfer = transfer.id;
+    snapshot.blockNumber = event.block.number;
+    snapshot.timestamp = event.block.timestamp;
+    snapshot.save();
+}
+
+export function handleTransfer(event: Transfer): void {
+    let token = loadToken(event.address);
+    let value = event.params.value;
+    let isMint = event.params.from.equals(Address.zero());
+    let isBurn = event.params.to.equals(Address.zero());
+
+    let transfer = new TokenTransfer(event.transaction.hash.concatI32(event.logIndex.toI32()));
+    transfer.value = value;
+    transfer.blockNumber = event.block.number;
+    transfer.timestamp = event.block.timestamp;
+    transfer.transactionHash = event.transaction.hash;
+
+    let from: Account | null = null;
+    let to: Account | null = null;
+    if (!isMint) {
+        from = loadAccount(event.params.from, event.block.timestamp);
+        transfer.from = from.id;
+    }
+    if (!isBurn) {
+        to = loadAccount(event.params.to, event.block.timestamp);
+        transfer.to = to.id;
+    }
+    transfer.save();
+
+    if (from != null && to != null && from.id.equals(to.id)) {
+        // A self-transfer leaves the balance alone; applying both deltas to two
+        // copies of the same account would save the second over the first
+        applyDelta(token, to, BigInt.zero(), transfer, event);
+    } else {
+        if (from != null) applyDelta(token, from, value.neg(), transfer, event);
+        if (to != null) applyDelta(token, to, value, transfer, event);
+    }
+
+    if (isMint) {
+        token.totalSupply = token.totalSupply.plus(value);
+        token.totalMinted = token.totalMinted.plus(value);
+    }
+    if (isBurn) {
+        token.totalSupply = token.totalSupply.minus(value);
+        token.totalBurned = token.totalBurned.plus(value);
+    }
+    token.transferCount = token.transferCount.plus(BigInt.fromI32(1));
+    token.save();
+}
@@ -1,28 +1,88 @@
+import { Address, BigInt, Bytes } from "@graphprotocol/graph-ts";
 import {
+    CommissionUpdated,
+    DelegatorRewardClaimed,
     NodeRegistered,
     RewardClaimed,
+    RewardsShared,
     StakeUpdated,
+    Unstaked,
+    UnstakeRequested,
     UptimeRecorded,
 } from "../generated/Participation/Participation";
 import {
+    DelegatorReward,
     Node,
+    NodeStaker,
     Reward,
     Stake,
+    UnstakeRequest,
     Uptime
 } from "../generated/schema";
+import { recordClaim, recordNodeRegistered, recordStake, recordUnstake, recordUptime } from "./snapshots";
+
+// Participation.REWARD_PER_UNIT: DPN wei paid per earned unit
+const REWARD_PER_UNIT = BigInt.fromString("1000000000000000000");
+
+// Participation used to accept uptime and stakes for node ids that were never
+// registered, so every handler has to be able to create the Node.
+function getOrCreateNode(nodeId: BigInt, timestamp: BigInt): Node {
+    let node = Node.load(nodeId.toString());
+    if (node == null) {
+        node = new Node(nodeId.toString());
+        node.nodeId = nodeId;
+        node.owner = Address.zero();
+        node.timestamp = timestamp;
+        node.totalStaked = BigInt.zero();
+        node.totalUptimeMinutes = BigInt.zero();
+        node.totalClaimed = BigInt.zero();
+        node.pendingEarned = BigInt.zero();
+        node.stakerCount = 0;
+        node.activeStake = BigInt.zero();
+        node.commission = BigInt.zero();
+        node.delegatorRewards = BigInt.zero();
+        node.operatorRemainder = BigInt.zero();
+    }
+    return node;
+}
+
+// Counts a new staker on the node, which the caller saves
+function getOrCreateStaker(node: Node, staker: Bytes): NodeStaker {
+    let id = node.id + "-" + staker.toHexString();
+    let entity = NodeStaker.load(id);
+    if (entity == null) {
+        entity = new NodeStaker(id);
+        entity.node = node.id;
+        entity.staker = staker;
+        entity.totalStaked = BigInt.zero();
+        entity.amount = BigInt.zero();
+        entity.unstaking = BigInt.zero();
+        entity.totalRewardsClaimed = BigInt.zero();
+        node.stakerCount = node.stakerCount + 1;
+    }
+    return entity;
+}
 
 export function handleNodeRegistered(event: NodeRegistered): void {
-    let id = event.transaction.hash.concatI32(event.logIndex.toI32());
-    let entity = new Node(id);
-    entity.nodeId = event.params.nodeId;
-    entity.owner = event.params.owner;
-    entity.timestamp = event.params.timestamp;
-    entity.save();
+    let node = getOrCreateNode(event.params.nodeId, event.params.timestamp);
+    node.owner = event.params.owner;
+    node.timestamp = event.params.timestamp;
+    node.save();
+
+    recordNodeRegistered(event.params.timestamp);
 }
 
 export function handleRewardClaimed(event: RewardClaimed): void {
+    let node = getOrCreateNode(event.params.nodeId, event.params.timestamp);
+    node.totalClaimed = node.totalClaimed.plus(event.params.amount);
+    node.pendingEarned = BigInt.zero(); // claimReward pays out everything earned
+    node.save();
+
+    recordClaim(node, event.params.amount, event.params.timestamp);
+
     let id = event.transaction.hash.concatI32(event.logIndex.toI32());
     let entity = new Reward(id);
+    entity.node = node.id;
     entity.nodeId = event.params.nodeId;
     entity.owner = event.params.owner;
     entity.amount = event.params.amount;
@@ -31,8 +91,22 @@ export function handleRewardClaimed(event: RewardClaimed): void {
 }
 
 export function handleStakeUpdated(event: StakeUpdated): void {
+    let node = getOrCreateNode(event.params.nodeId, event.params.timestamp);
+
+    let staker = getOrCreateStaker(node, event.params.staker);
+    staker.totalStaked = staker.totalStaked.plus(event.params.amount);
+    staker.amount = staker.amount.plus(event.params.amount);
+    staker.save();
+
+    node.totalStaked = node.totalStaked.plus(event.params.amount);
+    node.activeStake = node.activeStake.plus(event.params.amount);
+    node.save();
+
+    recordStake(node, event.params.amount, event.params.timestamp);
+
     let id = event.transaction.hash.concatI32(event.logIndex.toI32());
     let entity = new Stake(id);
+    entity.node = node.id;
     entity.nodeId = event.params.nodeId;
     entity.staker = event.params.staker;
     entity.amount = event.params.amount;
@@ -41,10 +115,87 @@ export function handleStakeUpdated(event: StakeUpdated): void {
 }
 
 export function handleUptimeRecorded(event: UptimeRecorded): void {
+    let node = getOrCreateNode(event.params.nodeId, event.params.timestamp);
+    node.totalUptimeMinutes = node.totalUptimeMinutes.plus(event.params.minutesUp);
+    node.pendingEarned = node.pendingEarned.plus(event.params.minutesUp); // 1 token per minute
+    node.save();
+
+    recordUptime(node, event.params.minutesUp, event.params.timestamp);
+
     let id = event.transaction.hash.concatI32(event.logIndex.toI32());
     let entity = new Uptime(id);
+    entity.node = node.id;
     entity.nodeId = event.params.nodeId;
     entity.minutesUp = event.params.minutesUp;
     entity.timestamp = event.params.timestamp;
     entity.save();
 }
+
+export function handleUnstakeRequested(event: UnstakeRequested): void {
+    let node = getOrCreateNode(event.params.nodeId, event.block.timestamp);
+    node.activeStake = node.activeStake.minus(event.params.amount);
+
+    let staker = getOrCreateStaker(node, event.params.staker);
+    staker.amount = staker.amount.minus(event.params.amount);
+    staker.unstaking = staker.unstaking.plus(event.params.amount);
+    staker.unstakeAvailableAt = event.params.availableAt;
+    staker.save();
+    node.save();
+
+    let entity = new UnstakeRequest(event.transaction.hash.concatI32(event.logIndex.toI32()));
+    entity.delegation = staker.id;
+    entity.nodeId = event.params.nodeId;
+    entity.staker = event.params.staker;
+    entity.amount = event.params.amount;
+    entity.availableAt = event.params.availableAt;
+    entity.timestamp = event.block.timestamp;
+    entity.save();
+}
+
+export function handleUnstaked(event: Unstaked): void {
+    let node = getOrCreateNode(event.params.nodeId, event.block.timestamp);
+    let staker = getOrCreateStaker(node, event.params.staker);
+    staker.unstaking = BigInt.zero(); // withdrawUnstaked releases everything requested
+    staker.unstakeAvailableAt = null;
+    staker.save();
+    node.totalStaked = node.totalStaked.minus(event.params.amount);
+    node.save();
+
+    recordUnstake(node, event.params.amount, event.block.timestamp);
+}
+
+export function handleCommissionUpdated(event: CommissionUpdated): void {
+    let node = getOrCreateNode(event.params.nodeId, event.block.timestamp);
+    node.commission = event.params.commission;
+    node.save();
+}
+
+export function handleRewardsShared(event: RewardsShared): void {
+    // UptimeRecorded credited every minute to the operator; keep the whole units
+    // of its share and carry the rest, as Participation.operatorRemainders does
+    let node = getOrCreateNode(event.params.nodeId, event.block.timestamp);
+    let operatorAmount = event.params.operatorAmount;
+    let delegatorAmount = event.params.delegatorAmount;
+    let minutesUp = operatorAmount.plus(delegatorAmount).div(REWARD_PER_UNIT);
+    let operatorWei = node.operatorRemainder.plus(operatorAmount);
+    node.pendingEarned = node.pendingEarned.minus(minutesUp).plus(operatorWei.div(REWARD_PER_UNIT));
+    node.operatorRemainder = operatorWei.mod(REWARD_PER_UNIT);
+    node.delegatorRewards = node.delegatorRewards.plus(delegatorAmount);
+    node.save();
+}
+
+export function handleDelegatorRewardClaimed(event: DelegatorRewardClaimed): void {
+    let node = getOrCreateNode(event.params.nodeId, event.params.timestamp);
+    let staker = getOrCreateStaker(node, event.params.staker);
+    staker.totalRewardsClaimed = staker.totalRewardsClaimed.plus(event.params.amount);
+    staker.save();
+    node.save();
+
+    let entity = new DelegatorReward(event.transaction.hash.concatI32(event.logIndex.toI32()));
+    entity.delegation = staker.id;
+    entity.nodeId = event.params.nodeId;
+    entity.staker = event.params.staker;
+    entity.amount = event.params.amount;
+    entity.timestamp = event.params.timestamp;
+    entity.save();
+}
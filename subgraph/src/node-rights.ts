@@ -0,0 +1,275 @@
+import { Address, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts";
+import {
+    CapacityReleased as CapacityReleasedEvent,
+    CapacityReserved as CapacityReservedEvent,
+    CrossChainBridge as CrossChainBridgeEvent,
+    ExitRequested as ExitRequestedEvent,
+    NodeExited as NodeExitedEvent,
+    NodeReturned as NodeReturnedEvent,
+    NodeRightsMinted as NodeRightsMintedEvent,
+    NodeSlashed as NodeSlashedEvent,
+    NodeUpgraded as NodeUpgradedEvent,
+    PerformanceUpdated as PerformanceUpdatedEvent,
+    RewardsDistributed as RewardsDistributedEvent,
+    Transfer as TransferEvent,
+} from "../generated/NodeRightsNFT/NodeRightsNFT";
+import {
+    CapacityReleased,
+    CapacityReserved,
+    CrossChainBridge,
+    ExitRequested,
+    NodeExited,
+    NodeReturned,
+    NodeRight,
+    NodeRightsMinted,
+    NodeSlashed,
+    NodeUpgraded,
+    PerformanceUpdated,
+    RewardsDistributed,
+} from "../generated/schema";
+
+// Mirrors NodeRightsNFT.NodeType / NodeStatus (uint8 in events)
+const NODE_TYPES = ["STORAGE", "COMPUTE", "BANDWIDTH"];
+const NODE_STATUSES = ["ACTIVE", "SLASHED_MINOR", "SLASHED_MAJOR", "TERMINATED"];
+
+function eventId(event: ethereum.Event): Bytes {
+    return event.transaction.hash.concatI32(event.logIndex.toI32());
+}
+
+function loadNodeRight(tokenId: BigInt, event: ethereum.Event): NodeRight {
+    let node = NodeRight.load(tokenId.toString());
+    if (node == null) {
+        // Only reachable if the data source starts after the mint
+        node = new NodeRight(tokenId.toString());
+        node.tokenId = tokenId;
+        node.owner = Address.zero();
+        node.nodeType = NODE_TYPES[0];
+        node.status = NODE_STATUSES[0];
+        node.stakedETH = BigInt.zero();
+        node.stakedDPN = BigInt.zero();
+        node.performanceScore = BigInt.zero();
+        node.totalUptime = BigInt.zero();
+        node.totalSlashed = BigInt.zero();
+        node.totalRewards = BigInt.zero();
+        node.isUpgraded = false;
+        node.capacityUsed = BigInt.zero();
+        node.mintedAt = event.block.timestamp;
+    }
+    node.updatedAt = event.block.timestamp;
+    return node;
+}
+
+export function handleNodeRightsMinted(event: NodeRightsMintedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.owner = event.params.owner;
+    node.nodeType = NODE_TYPES[event.params.nodeType];
+    node.stakedETH = event.params.ethStaked;
+    node.stakedDPN = event.params.dpnStaked;
+    node.performanceScore = BigInt.fromI32(10000); // Contract starts every node at 100%
+    node.mintedAt = event.block.timestamp;
+    node.save();
+
+    let entity = new NodeRightsMinted(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.owner = event.params.owner;
+    entity.nodeType = node.nodeType;
+    entity.ethStaked = event.params.ethStaked;
+    entity.dpnStaked = event.params.dpnStaked;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleNodeUpgraded(event: NodeUpgradedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.stakedETH = node.stakedETH.plus(event.params.additionalETH);
+    node.stakedDPN = node.stakedDPN.plus(event.params.additionalDPN);
+    node.performanceScore = event.params.newPerformanceScore;
+    node.isUpgraded = true;
+    node.save();
+
+    let entity = new NodeUpgraded(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.additionalETH = event.params.additionalETH;
+    entity.additionalDPN = event.params.additionalDPN;
+    entity.newPerformanceScore = event.params.newPerformanceScore;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handlePerformanceUpdated(event: PerformanceUpdatedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.performanceScore = event.params.newScore;
+    node.totalUptime = node.totalUptime.plus(event.params.uptimeAdded);
+    node.status = NODE_STATUSES[event.params.status];
+    node.save();
+
+    let entity = new PerformanceUpdated(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.newScore = event.params.newScore;
+    entity.uptimeAdded = event.params.uptimeAdded;
+    entity.status = node.status;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleNodeSlashed(event: NodeSlashedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.status = NODE_STATUSES[event.params.newStatus];
+    node.stakedDPN = node.stakedDPN.minus(event.params.penaltyAmount);
+    node.totalSlashed = node.totalSlashed.plus(event.params.penaltyAmount);
+    node.save();
+
+    let entity = new NodeSlashed(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.newStatus = node.status;
+    entity.penaltyAmount = event.params.penaltyAmount;
+    entity.reason = event.params.reason;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleCrossChainBridge(event: CrossChainBridgeEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.bridgedTo = event.params.destinationChain;
+    node.save();
+
+    let entity = new CrossChainBridge(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.destinationChain = event.params.destinationChain;
+    entity.operator = event.params.operator;
+    entity.bridgeNonce = event.params.bridgeNonce;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleNodeReturned(event: NodeReturnedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.bridgedTo = null;
+    node.save();
+
+    let entity = new NodeReturned(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.sourceChain = event.params.sourceChain;
+    entity.recipient = event.params.recipient;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleRewardsDistributed(event: RewardsDistributedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.totalRewards = node.totalRewards.plus(event.params.rewardAmount);
+    node.save();
+
+    let entity = new RewardsDistributed(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.rewardAmount = event.params.rewardAmount;
+    entity.performanceBonus = event.params.performanceBonus;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleCapacityReserved(event: CapacityReservedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.capacityUsed = event.params.capacityUsed;
+    node.save();
+
+    let entity = new CapacityReserved(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.consumer = event.params.consumer;
+    entity.units = event.params.units;
+    entity.capacityUsed = event.params.capacityUsed;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleCapacityReleased(event: CapacityReleasedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.capacityUsed = event.params.capacityUsed;
+    node.save();
+
+    let entity = new CapacityReleased(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.consumer = event.params.consumer;
+    entity.units = event.params.units;
+    entity.capacityUsed = event.params.capacityUsed;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleExitRequested(event: ExitRequestedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    node.exitRequestedAt = event.block.timestamp;
+    node.withdrawableAt = event.params.withdrawableAt;
+    node.save();
+
+    let entity = new ExitRequested(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.owner = event.params.owner;
+    entity.withdrawableAt = event.params.withdrawableAt;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleNodeExited(event: NodeExitedEvent): void {
+    let node = loadNodeRight(event.params.tokenId, event);
+    // Mirrors withdrawStake: the record stays, terminated with nothing staked
+    node.status = NODE_STATUSES[3];
+    node.stakedETH = BigInt.zero();
+    node.stakedDPN = BigInt.zero();
+    node.exitedAt = event.block.timestamp;
+    node.save();
+
+    let entity = new NodeExited(eventId(event));
+    entity.node = node.id;
+    entity.tokenId = event.params.tokenId;
+    entity.owner = event.params.owner;
+    entity.ethReturned = event.params.ethReturned;
+    entity.dpnReturned = event.params.dpnReturned;
+    entity.blockNumber = event.block.number;
+    entity.timestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
+export function handleTransfer(event: TransferEvent): void {
+    // Mints are handled by NodeRightsMinted, which follows the mint Transfer;
+    // burns by NodeExited, and the node keeps its last owner
+    if (event.params.from.equals(Address.zero()) || event.params.to.equals(Address.zero())) return;
+
+    let node = NodeRight.load(event.params.tokenId.toString());
+    if (node == null) return;
+
+    node.owner = event.params.to;
+    node.updatedAt = event.block.timestamp;
+    node.save();
+}
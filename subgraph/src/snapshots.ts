@@ -0,0 +1,195 @@
+import { BigInt } from "@graphprotocol/graph-ts";
+import {
+    Network,
+    NetworkDayData,
+    NetworkHourData,
+    Node,
+    NodeDayData,
+    NodeHourData
+} from "../generated/schema";
+
+// Daily and hourly snapshot entities maintained by the Participation handlers,
+// so charts can query a bounded window instead of every Reward/Stake/Uptime row.
+// Callers update the Node's running totals before recording an event here.
+
+const NETWORK_ID = "participation";
+const DAY_SECONDS = 86400;
+const HOUR_SECONDS = 3600;
+
+function loadNetwork(): Network {
+    let network = Network.load(NETWORK_ID);
+    if (network == null) {
+        network = new Network(NETWORK_ID);
+        network.nodeCount = 0;
+        network.totalStaked = BigInt.zero();
+        network.totalUptimeMinutes = BigInt.zero();
+        network.totalClaimed = BigInt.zero();
+    }
+    return network;
+}
+
+function loadNetworkDay(network: Network, timestamp: BigInt): NetworkDayData {
+    let dayIndex = timestamp.toI32() / DAY_SECONDS;
+    let day = NetworkDayData.load(dayIndex.toString());
+    if (day == null) {
+        day = new NetworkDayData(dayIndex.toString());
+        day.date = dayIndex * DAY_SECONDS;
+        day.newNodes = 0;
+        day.stakeInflow = BigInt.zero();
+        day.uptimeMinutes = BigInt.zero();
+        day.claimedRewards = BigInt.zero();
+        day.activeNodeCount = 0;
+    }
+    day.totalNodes = network.nodeCount;
+    day.totalStaked = network.totalStaked;
+    day.cumulativeClaimed = network.totalClaimed;
+    return day;
+}
+
+function loadNetworkHour(network: Network, timestamp: BigInt): NetworkHourData {
+    let hourIndex = timestamp.toI32() / HOUR_SECONDS;
+    let hour = NetworkHourData.load(hourIndex.toString());
+    if (hour == null) {
+        hour = new NetworkHourData(hourIndex.toString());
+        hour.periodStartUnix = hourIndex * HOUR_SECONDS;
+        hour.newNodes = 0;
+        hour.stakeInflow = BigInt.zero();
+        hour.uptimeMinutes = BigInt.zero();
+        hour.claimedRewards = BigInt.zero();
+        hour.activeNodeCount = 0;
+    }
+    hour.totalNodes = network.nodeCount;
+    hour.totalStaked = network.totalStaked;
+    hour.cumulativeClaimed = network.totalClaimed;
+    return hour;
+}
+
+function loadNodeDay(node: Node, timestamp: BigInt): NodeDayData {
+    let dayIndex = timestamp.toI32() / DAY_SECONDS;
+    let id = node.id + "-" + dayIndex.toString();
+    let day = NodeDayData.load(id);
+    if (day == null) {
+        day = new NodeDayData(id);
+        day.node = node.id;
+        day.date = dayIndex * DAY_SECONDS;
+        day.stakeInflow = BigInt.zero();
+        day.uptimeMinutes = BigInt.zero();
+        day.claimedRewards = BigInt.zero();
+    }
+    day.totalStaked = node.totalStaked;
+    day.totalUptimeMinutes = node.totalUptimeMinutes;
+    return day;
+}
+
+function loadNodeHour(node: Node, timestamp: BigInt): NodeHourData {
+    let hourIndex = timestamp.toI32() / HOUR_SECONDS;
+    let id = node.id + "-" + hourIndex.toString();
+    let hour = NodeHourData.load(id);
+    if (hour == null) {
+        hour = new NodeHourData(id);
+        hour.node = node.id;
+        hour.periodStartUnix = hourIndex * HOUR_SECONDS;
+        hour.stakeInflow = BigInt.zero();
+        hour.uptimeMinutes = BigInt.zero();
+        hour.claimedRewards = BigInt.zero();
+    }
+    hour.totalStaked = node.totalStaked;
+    hour.totalUptimeMinutes = node.totalUptimeMinutes;
+    return hour;
+}
+
+export function recordNodeRegistered(timestamp: BigInt): void {
+    let network = loadNetwork();
+    network.nodeCount = network.nodeCount + 1;
+    network.save();
+
+    let day = loadNetworkDay(network, timestamp);
+    day.newNodes = day.newNodes + 1;
+    day.save();
+
+    let hour = loadNetworkHour(network, timestamp);
+    hour.newNodes = hour.newNodes + 1;
+    hour.save();
+}
+
+export function recordStake(node: Node, amount: BigInt, timestamp: BigInt): void {
+    let network = loadNetwork();
+    network.totalStaked = network.totalStaked.plus(amount);
+    network.save();
+
+    let day = loadNetworkDay(network, timestamp);
+    day.stakeInflow = day.stakeInflow.plus(amount);
+    day.save();
+
+    let hour = loadNetworkHour(network, timestamp);
+    hour.stakeInflow = hour.stakeInflow.plus(amount);
+    hour.save();
+
+    let nodeDay = loadNodeDay(node, timestamp);
+    nodeDay.stakeInflow = nodeDay.stakeInflow.plus(amount);
+    nodeDay.save();
+
+    let nodeHour = loadNodeHour(node, timestamp);
+    nodeHour.stakeInflow = nodeHour.stakeInflow.plus(amount);
+    nodeHour.save();
+}
+
+// Withdrawn stake leaves the running totals; the buckets only record inflow
+export function recordUnstake(node: Node, amount: BigInt, timestamp: BigInt): void {
+    let network = loadNetwork();
+    network.totalStaked = network.totalStaked.minus(amount);
+    network.save();
+
+    loadNetworkDay(network, timestamp).save();
+    loadNetworkHour(network, timestamp).save();
+    loadNodeDay(node, timestamp).save();
+    loadNodeHour(node, timestamp).save();
+}
+
+export function recordUptime(node: Node, minutesUp: BigInt, timestamp: BigInt): void {
+    let network = loadNetwork();
+    network.totalUptimeMinutes = network.totalUptimeMinutes.plus(minutesUp);
+    network.save();
+
+    let day = loadNetworkDay(network, timestamp);
+    let nodeDay = loadNodeDay(node, timestamp);
+    if (nodeDay.uptimeMinutes.isZero()) {
+        day.activeNodeCount = day.activeNodeCount + 1; // First report from this node today
+    }
+    day.uptimeMinutes = day.uptimeMinutes.plus(minutesUp);
+    nodeDay.uptimeMinutes = nodeDay.uptimeMinutes.plus(minutesUp);
+    day.save();
+    nodeDay.save();
+
+    let hour = loadNetworkHour(network, timestamp);
+    let nodeHour = loadNodeHour(node, timestamp);
+    if (nodeHour.uptimeMinutes.isZero()) {
+        hour.activeNodeCount = hour.activeNodeCount + 1;
+    }
+    hour.uptimeMinutes = hour.uptimeMinutes.plus(minutesUp);
+    nodeHour.uptimeMinutes = nodeHour.uptimeMinutes.plus(minutesUp);
+    hour.save();
+    nodeHour.save();
+}
+
+export function recordClaim(node: Node, amount: BigInt, timestamp: BigInt): void {
+    let network = loadNetwork();
+    network.totalClaimed = network.totalClaimed.plus(amount);
+    network.save();
+
+    let day = loadNetworkDay(network, timestamp);
+    day.claimedRewards = day.claimedRewards.plus(amount);
+    day.save();
+
+    let hour = loadNetworkHour(network, timestamp);
+    hour.claimedRewards = hour.claimedRewards.plus(amount);
+    hour.save();
+
+    let nodeDay = loadNodeDay(node, timestamp);
+    nodeDay.claimedRewards = nodeDay.claimedRewards.plus(amount);
+    nodeDay.save();
+
+    let nodeHour = loadNodeHour(node, timestamp);
+    nodeHour.claimedRewards = nodeHour.claimedRewards.plus(amount);
+    nodeHour.save();
+}
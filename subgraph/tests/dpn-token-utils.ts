@@ -0,0 +1,22 @@
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts";
+import { newMockEvent } from "matchstick-as/assembly/index";
+import { Transfer } from "../generated/DPNToken/DPNToken";
+
+// Mock events share a transaction hash, so each one gets its own log index
+// to keep the immutable TokenTransfer ids distinct.
+let nextLogIndex = 0;
+
+function withLogIndex<T extends ethereum.Event>(event: T): T {
+    event.logIndex = BigInt.fromI32(nextLogIndex++);
+    return event;
+}
+
+export function createTransferEvent(from: Address, to: Address, value: BigInt, timestamp: i32): Transfer {
+    let event = withLogIndex(changetype<Transfer>(newMockEvent()));
+    event.block.timestamp = BigInt.fromI32(timestamp);
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("from", ethereum.Value.fromAddress(from)));
+    event.parameters.push(new ethereum.EventParam("to", ethereum.Value.fromAddress(to)));
+    event.parameters.push(new ethereum.EventParam("value", ethereum.Value.fromUnsignedBigInt(value)));
+    return event;
+}
@@ -0,0 +1,39 @@
+import { Address, BigInt } from "@graphprotocol/graph-ts";
+import { afterEach, assert, clearStore, describe, test } from "matchstick-as/assembly/index";
+import { handleTransfer } from "../src/dpn-token";
+import { createTransferEvent } from "./dpn-token-utils";
+
+const HOLDER = Address.fromString("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+const OTHER = Address.fromString("0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc");
+// newMockEvent's default event.address
+const TOKEN = "0xa16081f360e3847006db660bae1c6d1b2e17ec2a";
+
+const T0 = 1704067200;
+const ONE_DPN = BigInt.fromString("1000000000000000000");
+
+describe("handleTransfer", () => {
+    afterEach(() => {
+        clearStore();
+    });
+
+    test("moves the value between two accounts", () => {
+        handleTransfer(createTransferEvent(Address.zero(), HOLDER, ONE_DPN.times(BigInt.fromI32(5)), T0));
+        handleTransfer(createTransferEvent(HOLDER, OTHER, ONE_DPN.times(BigInt.fromI32(2)), T0 + 60));
+
+        assert.fieldEquals("Account", HOLDER.toHexString(), "balance", ONE_DPN.times(BigInt.fromI32(3)).toString());
+        assert.fieldEquals("Account", OTHER.toHexString(), "balance", ONE_DPN.times(BigInt.fromI32(2)).toString());
+        assert.entityCount("AccountBalanceSnapshot", 3);
+    });
+
+    test("leaves the balance unchanged on a self-transfer", () => {
+        handleTransfer(createTransferEvent(Address.zero(), HOLDER, ONE_DPN.times(BigInt.fromI32(5)), T0));
+        handleTransfer(createTransferEvent(HOLDER, HOLDER, ONE_DPN.times(BigInt.fromI32(2)), T0 + 60));
+
+        let balance = ONE_DPN.times(BigInt.fromI32(5)).toString();
+        assert.fieldEquals("Account", HOLDER.toHexString(), "balance", balance);
+        assert.fieldEquals("Account", HOLDER.toHexString(), "transferCount", "2");
+        assert.entityCount("AccountBalanceSnapshot", 2);
+        assert.entityCount("TokenTransfer", 2);
+        assert.fieldEquals("Token", TOKEN, "holderCount", "1");
+    });
+});
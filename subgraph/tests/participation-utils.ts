@@ -0,0 +1,99 @@
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts";
+import { newMockEvent } from "matchstick-as/assembly/index";
+import {
+    DelegatorRewardClaimed,
+    NodeRegistered,
+    RewardClaimed,
+    RewardsShared,
+    StakeUpdated,
+    Unstaked,
+    UnstakeRequested,
+    UptimeRecorded,
+} from "../generated/Participation/Participation";
+
+// Mock events share a transaction hash, so each one gets its own log index
+// to keep the immutable Reward/Stake/Uptime ids distinct.
+let nextLogIndex = 0;
+
+function withLogIndex<T extends ethereum.Event>(event: T): T {
+    event.logIndex = BigInt.fromI32(nextLogIndex++);
+    return event;
+}
+
+export function createNodeRegisteredEvent(nodeId: i32, owner: Address, timestamp: i32): NodeRegistered {
+    let event = withLogIndex(changetype<NodeRegistered>(newMockEvent()));
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("nodeId", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeId))));
+    event.parameters.push(new ethereum.EventParam("owner", ethereum.Value.fromAddress(owner)));
+    event.parameters.push(new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(timestamp))));
+    return event;
+}
+
+export function createStakeUpdatedEvent(nodeId: i32, staker: Address, amount: BigInt, timestamp: i32): StakeUpdated {
+    let event = withLogIndex(changetype<StakeUpdated>(newMockEvent()));
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("nodeId", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeId))));
+    event.parameters.push(new ethereum.EventParam("staker", ethereum.Value.fromAddress(staker)));
+    event.parameters.push(new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount)));
+    event.parameters.push(new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(timestamp))));
+    return event;
+}
+
+export function createRewardClaimedEvent(nodeId: i32, owner: Address, amount: BigInt, timestamp: i32): RewardClaimed {
+    let event = withLogIndex(changetype<RewardClaimed>(newMockEvent()));
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("nodeId", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeId))));
+    event.parameters.push(new ethereum.EventParam("owner", ethereum.Value.fromAddress(owner)));
+    event.parameters.push(new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount)));
+    event.parameters.push(new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(timestamp))));
+    return event;
+}
+
+export function createUptimeRecordedEvent(nodeId: i32, minutesUp: i32, timestamp: i32): UptimeRecorded {
+    let event = withLogIndex(changetype<UptimeRecorded>(newMockEvent()));
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("nodeId", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeId))));
+    event.parameters.push(new ethereum.EventParam("minutesUp", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(minutesUp))));
+    event.parameters.push(new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(timestamp))));
+    return event;
+}
+
+export function createUnstakeRequestedEvent(nodeId: i32, staker: Address, amount: BigInt, availableAt: i32): UnstakeRequested {
+    let event = withLogIndex(changetype<UnstakeRequested>(newMockEvent()));
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("nodeId", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeId))));
+    event.parameters.push(new ethereum.EventParam("staker", ethereum.Value.fromAddress(staker)));
+    event.parameters.push(new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount)));
+    event.parameters.push(new ethereum.EventParam("availableAt", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(availableAt))));
+    return event;
+}
+
+export function createRewardsSharedEvent(nodeId: i32, operatorAmount: BigInt, delegatorAmount: BigInt): RewardsShared {
+    let event = withLogIndex(changetype<RewardsShared>(newMockEvent()));
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("nodeId", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeId))));
+    event.parameters.push(new ethereum.EventParam("operatorAmount", ethereum.Value.fromUnsignedBigInt(operatorAmount)));
+    event.parameters.push(new ethereum.EventParam("delegatorAmount", ethereum.Value.fromUnsignedBigInt(delegatorAmount)));
+    return event;
+}
+
+export function createDelegatorRewardClaimedEvent(nodeId: i32, staker: Address, amount: BigInt, timestamp: i32): DelegatorRewardClaimed {
+    let event = withLogIndex(changetype<DelegatorRewardClaimed>(newMockEvent()));
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("nodeId", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeId))));
+    event.parameters.push(new ethereum.EventParam("staker", ethereum.Value.fromAddress(staker)));
+    event.parameters.push(new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount)));
+    event.parameters.push(new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(timestamp))));
+    return event;
+}
+
+// Unstaked carries no timestamp, so the handler reads the block's
+export function createUnstakedEvent(nodeId: i32, staker: Address, amount: BigInt, timestamp: i32): Unstaked {
+    let event = withLogIndex(changetype<Unstaked>(newMockEvent()));
+    event.block.timestamp = BigInt.fromI32(timestamp);
+    event.parameters = new Array();
+    event.parameters.push(new ethereum.EventParam("nodeId", ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(nodeId))));
+    event.parameters.push(new ethereum.EventParam("staker", ethereum.Value.fromAddress(staker)));
+    event.parameters.push(new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount)));
+    return event;
+}
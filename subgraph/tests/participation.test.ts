@@ -0,0 +1,227 @@
+import { Address, BigInt } from "@graphprotocol/graph-ts";
+import { afterEach, assert, clearStore, describe, test } from "matchstick-as/assembly/index";
+import {
+    handleDelegatorRewardClaimed,
+    handleNodeRegistered,
+    handleRewardClaimed,
+    handleRewardsShared,
+    handleStakeUpdated,
+    handleUnstaked,
+    handleUnstakeRequested,
+    handleUptimeRecorded,
+} from "../src/mapping";
+import {
+    createDelegatorRewardClaimedEvent,
+    createNodeRegisteredEvent,
+    createRewardClaimedEvent,
+    createRewardsSharedEvent,
+    createStakeUpdatedEvent,
+    createUnstakedEvent,
+    createUnstakeRequestedEvent,
+    createUptimeRecordedEvent,
+} from "./participation-utils";
+
+const OWNER = Address.fromString("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+const STAKER = Address.fromString("0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc");
+const OTHER_STAKER = Address.fromString("0x90f79bf6eb2c4f870365e785982e1f101e93b906");
+
+// 2024-01-01T00:00:00Z, so day and hour ids are easy to read
+const T0 = 1704067200;
+const ONE_ETH = BigInt.fromString("1000000000000000000");
+
+describe("handleNodeRegistered", () => {
+    afterEach(() => {
+        clearStore();
+    });
+
+    test("creates the Node keyed by nodeId", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+
+        assert.entityCount("Node", 1);
+        assert.fieldEquals("Node", "0", "nodeId", "0");
+        assert.fieldEquals("Node", "0", "owner", OWNER.toHexString());
+        assert.fieldEquals("Node", "0", "timestamp", T0.toString());
+        assert.fieldEquals("Node", "0", "totalStaked", "0");
+        assert.fieldEquals("Node", "0", "stakerCount", "0");
+    });
+
+    test("counts the node in the network and daily snapshots", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleNodeRegistered(createNodeRegisteredEvent(1, OWNER, T0 + 60));
+
+        let dayId = (T0 / 86400).toString();
+        assert.fieldEquals("Network", "participation", "nodeCount", "2");
+        assert.fieldEquals("NetworkDayData", dayId, "newNodes", "2");
+        assert.fieldEquals("NetworkDayData", dayId, "totalNodes", "2");
+    });
+
+    test("fills in the owner of a node first seen through another event", () => {
+        handleUptimeRecorded(createUptimeRecordedEvent(3, 10, T0));
+        assert.fieldEquals("Node", "3", "owner", Address.zero().toHexString());
+
+        handleNodeRegistered(createNodeRegisteredEvent(3, OWNER, T0 + 60));
+        assert.fieldEquals("Node", "3", "owner", OWNER.toHexString());
+        assert.fieldEquals("Node", "3", "totalUptimeMinutes", "10");
+    });
+});
+
+describe("handleStakeUpdated", () => {
+    afterEach(() => {
+        clearStore();
+    });
+
+    test("records the stake and accumulates node totals", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleStakeUpdated(createStakeUpdatedEvent(0, STAKER, ONE_ETH, T0 + 60));
+        handleStakeUpdated(createStakeUpdatedEvent(0, STAKER, ONE_ETH, T0 + 120));
+
+        assert.entityCount("Stake", 2);
+        assert.fieldEquals("Node", "0", "totalStaked", ONE_ETH.times(BigInt.fromI32(2)).toString());
+        assert.fieldEquals("Network", "participation", "totalStaked", ONE_ETH.times(BigInt.fromI32(2)).toString());
+    });
+
+    test("tracks distinct stakers per node", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleStakeUpdated(createStakeUpdatedEvent(0, STAKER, ONE_ETH, T0 + 60));
+        handleStakeUpdated(createStakeUpdatedEvent(0, STAKER, ONE_ETH, T0 + 120));
+        handleStakeUpdated(createStakeUpdatedEvent(0, OTHER_STAKER, ONE_ETH, T0 + 180));
+
+        let stakerId = "0-" + STAKER.toHexString();
+        assert.entityCount("NodeStaker", 2);
+        assert.fieldEquals("Node", "0", "stakerCount", "2");
+        assert.fieldEquals("NodeStaker", stakerId, "totalStaked", ONE_ETH.times(BigInt.fromI32(2)).toString());
+    });
+
+    test("splits stake inflow across hourly snapshots", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleStakeUpdated(createStakeUpdatedEvent(0, STAKER, ONE_ETH, T0 + 60));
+        handleStakeUpdated(createStakeUpdatedEvent(0, STAKER, ONE_ETH, T0 + 3600));
+
+        let firstHour = "0-" + (T0 / 3600).toString();
+        let secondHour = "0-" + (T0 / 3600 + 1).toString();
+        assert.fieldEquals("NodeHourData", firstHour, "stakeInflow", ONE_ETH.toString());
+        assert.fieldEquals("NodeHourData", secondHour, "stakeInflow", ONE_ETH.toString());
+        assert.fieldEquals("NodeHourData", secondHour, "totalStaked", ONE_ETH.times(BigInt.fromI32(2)).toString());
+    });
+});
+
+describe("handleUptimeRecorded", () => {
+    afterEach(() => {
+        clearStore();
+    });
+
+    test("accumulates uptime and pending earnings", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleUptimeRecorded(createUptimeRecordedEvent(0, 30, T0 + 60));
+        handleUptimeRecorded(createUptimeRecordedEvent(0, 15, T0 + 120));
+
+        assert.entityCount("Uptime", 2);
+        assert.fieldEquals("Node", "0", "totalUptimeMinutes", "45");
+        assert.fieldEquals("Node", "0", "pendingEarned", "45");
+        assert.fieldEquals("NodeDayData", "0-" + (T0 / 86400).toString(), "uptimeMinutes", "45");
+    });
+
+    test("creates a Node for an unregistered nodeId", () => {
+        handleUptimeRecorded(createUptimeRecordedEvent(7, 5, T0));
+
+        assert.entityCount("Node", 1);
+        assert.fieldEquals("Node", "7", "nodeId", "7");
+        assert.fieldEquals("Node", "7", "totalUptimeMinutes", "5");
+    });
+});
+
+describe("handleRewardClaimed", () => {
+    afterEach(() => {
+        clearStore();
+    });
+
+    test("records the claim and resets pending earnings", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleUptimeRecorded(createUptimeRecordedEvent(0, 30, T0 + 60));
+        handleRewardClaimed(createRewardClaimedEvent(0, OWNER, BigInt.fromI32(30), T0 + 120));
+
+        assert.entityCount("Reward", 1);
+        assert.fieldEquals("Node", "0", "totalClaimed", "30");
+        assert.fieldEquals("Node", "0", "pendingEarned", "0");
+        assert.fieldEquals("Node", "0", "totalUptimeMinutes", "30");
+    });
+
+    test("rolls claims into the cumulative daily snapshot", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleRewardClaimed(createRewardClaimedEvent(0, OWNER, BigInt.fromI32(10), T0 + 60));
+        handleRewardClaimed(createRewardClaimedEvent(0, OWNER, BigInt.fromI32(20), T0 + 86400));
+
+        let firstDay = (T0 / 86400).toString();
+        let secondDay = (T0 / 86400 + 1).toString();
+        assert.fieldEquals("NetworkDayData", firstDay, "claimedRewards", "10");
+        assert.fieldEquals("NetworkDayData", secondDay, "claimedRewards", "20");
+        assert.fieldEquals("NetworkDayData", secondDay, "cumulativeClaimed", "30");
+    });
+});
+
+describe("delegations", () => {
+    afterEach(() => {
+        clearStore();
+    });
+
+    test("moves unstake requests out of the active stake", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleStakeUpdated(createStakeUpdatedEvent(0, STAKER, ONE_ETH.times(BigInt.fromI32(3)), T0 + 60));
+        handleUnstakeRequested(createUnstakeRequestedEvent(0, STAKER, ONE_ETH, T0 + 7 * 86400));
+
+        let stakerId = "0-" + STAKER.toHexString();
+        assert.entityCount("UnstakeRequest", 1);
+        assert.fieldEquals("NodeStaker", stakerId, "amount", ONE_ETH.times(BigInt.fromI32(2)).toString());
+        assert.fieldEquals("NodeStaker", stakerId, "unstaking", ONE_ETH.toString());
+        assert.fieldEquals("NodeStaker", stakerId, "totalStaked", ONE_ETH.times(BigInt.fromI32(3)).toString());
+        assert.fieldEquals("Node", "0", "activeStake", ONE_ETH.times(BigInt.fromI32(2)).toString());
+    });
+
+    test("takes withdrawn stake out of the running totals", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleStakeUpdated(createStakeUpdatedEvent(0, STAKER, ONE_ETH.times(BigInt.fromI32(3)), T0 + 60));
+        handleUnstakeRequested(createUnstakeRequestedEvent(0, STAKER, ONE_ETH, T0 + 7 * 86400));
+        handleUnstaked(createUnstakedEvent(0, STAKER, ONE_ETH, T0 + 8 * 86400));
+
+        let remaining = ONE_ETH.times(BigInt.fromI32(2)).toString();
+        let day = (T0 / 86400 + 8).toString();
+        let hour = (T0 / 3600 + 8 * 24).toString();
+        assert.fieldEquals("Node", "0", "totalStaked", remaining);
+        assert.fieldEquals("Node", "0", "activeStake", remaining);
+        assert.fieldEquals("Network", "participation", "totalStaked", remaining);
+        assert.fieldEquals("NetworkDayData", day, "totalStaked", remaining);
+        assert.fieldEquals("NetworkHourData", hour, "totalStaked", remaining);
+        assert.fieldEquals("NodeDayData", "0-" + day, "totalStaked", remaining);
+        assert.fieldEquals("NodeHourData", "0-" + hour, "totalStaked", remaining);
+        assert.fieldEquals("NetworkDayData", (T0 / 86400).toString(), "stakeInflow", ONE_ETH.times(BigInt.fromI32(3)).toString());
+    });
+
+    test("keeps the delegators' share out of the operator's pending earnings", () => {
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleUptimeRecorded(createUptimeRecordedEvent(0, 100, T0 + 60));
+        handleRewardsShared(createRewardsSharedEvent(0, ONE_ETH.times(BigInt.fromI32(36)), ONE_ETH.times(BigInt.fromI32(64))));
+        handleDelegatorRewardClaimed(createDelegatorRewardClaimedEvent(0, STAKER, ONE_ETH.times(BigInt.fromI32(48)), T0 + 120));
+
+        assert.fieldEquals("Node", "0", "pendingEarned", "36");
+        assert.fieldEquals("Node", "0", "delegatorRewards", ONE_ETH.times(BigInt.fromI32(64)).toString());
+        assert.entityCount("DelegatorReward", 1);
+        assert.fieldEquals("NodeStaker", "0-" + STAKER.toHexString(), "totalRewardsClaimed", ONE_ETH.times(BigInt.fromI32(48)).toString());
+    });
+
+    test("carries the operator's fraction of a unit between reports", () => {
+        let tenth = ONE_ETH.div(BigInt.fromI32(10));
+        handleNodeRegistered(createNodeRegisteredEvent(0, OWNER, T0));
+        handleUptimeRecorded(createUptimeRecordedEvent(0, 10, T0 + 60));
+        handleRewardsShared(createRewardsSharedEvent(0, tenth.times(BigInt.fromI32(99)), tenth));
+
+        assert.fieldEquals("Node", "0", "pendingEarned", "9");
+        assert.fieldEquals("Node", "0", "operatorRemainder", tenth.times(BigInt.fromI32(9)).toString());
+
+        handleUptimeRecorded(createUptimeRecordedEvent(0, 10, T0 + 120));
+        handleRewardsShared(createRewardsSharedEvent(0, tenth.times(BigInt.fromI32(99)), tenth));
+
+        assert.fieldEquals("Node", "0", "pendingEarned", "19");
+        assert.fieldEquals("Node", "0", "operatorRemainder", tenth.times(BigInt.fromI32(8)).toString());
+        assert.fieldEquals("Node", "0", "delegatorRewards", tenth.times(BigInt.fromI32(2)).toString());
+    });
+});
@@ -0,0 +1,168 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { Participation__factory } from "@depin/contracts-client";
+import { createApp } from "../src/api/app";
+import { ParticipationService } from "../src/services/participation";
+
+const API_KEY = "test-key";
+
+describe("DePIN API", function () {
+    let server: Server;
+    let baseUrl: string;
+    let participation: any;
+    let owner: any;
+    let addr1: any;
+
+    beforeEach(async function () {
+        [owner, addr1] = await ethers.getSigners();
+
+        const Participation = await ethers.getContractFactory("Participation", owner);
+        participation = await Participation.deploy();
+        await participation.waitForDeployment();
+
+        const contract = Participation__factory.connect(await participation.getAddress(), owner);
+        const app = createApp({
+            participation: new ParticipationService(contract, 86400),
+            subgraph: {
+                listRewards: async () => [{ nodeId: 0, timestamp: 1719000000, reward: 10 }],
+            },
+            rpcUrl: "http://127.0.0.1:1",
+            apiKey: API_KEY,
+        });
+
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(function () {
+        server.close();
+    });
+
+    it("should list registered nodes with on-chain stats", async function () {
+        await participation.connect(addr1).registerNode("Node Alpha");
+        await participation.connect(addr1).registerNode("Node Beta");
+        await participation.connect(owner).recordUptime(0, 30);
+
+        const res = await fetch(`${baseUrl}/nodes`);
+        const nodes = await res.json();
+
+        expect(res.status).to.equal(200);
+        expect(nodes).to.have.length(2);
+        expect(nodes[0]).to.include({ id: 0, owner: addr1.address, metadata: "Node Alpha", status: "active", uptimeMinutes: 30 });
+        expect(nodes[1]).to.include({ id: 1, status: "inactive", uptimeMinutes: 0 });
+    });
+
+    it("should stake to a node and return the transaction hash", async function () {
+        await participation.connect(addr1).registerNode("Node Alpha");
+
+        const res = await fetch(`${baseUrl}/stake`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${API_KEY}` },
+            body: JSON.stringify({ nodeId: "0", amount: "1.5" }),
+        });
+        const body = await res.json();
+
+        expect(res.status).to.equal(200);
+        expect(body.success).to.be.true;
+        expect(body.txHash).to.match(/^0x[0-9a-f]{64}$/);
+        expect(await participation.nodeStakes(0)).to.equal(ethers.parseEther("1.5"));
+    });
+
+    it("should reject invalid stake requests with an error body", async function () {
+        const res = await fetch(`${baseUrl}/stake`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${API_KEY}` },
+            body: JSON.stringify({ nodeId: "abc", amount: "1" }),
+        });
+        const body = await res.json();
+
+        expect(res.status).to.equal(400);
+        expect(body).to.deep.equal({
+            success: false,
+            code: "BAD_REQUEST",
+            message: "nodeId must be a non-negative integer",
+        });
+    });
+
+    it("should return 404 when staking to an unregistered node", async function () {
+        const res = await fetch(`${baseUrl}/stake`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${API_KEY}` },
+            body: JSON.stringify({ nodeId: 7, amount: "1" }),
+        });
+        const body = await res.json();
+
+        expect(res.status).to.equal(404);
+        expect(body.code).to.equal("NOT_FOUND");
+    });
+
+    it("should only stake for callers with the API key", async function () {
+        await participation.connect(addr1).registerNode("Node Alpha");
+        const stake = (headers: Record<string, string>) =>
+            fetch(`${baseUrl}/stake`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json", ...headers },
+                body: JSON.stringify({ nodeId: 0, amount: "1" }),
+            });
+
+        const anonymous = await stake({});
+        expect(anonymous.status).to.equal(401);
+        expect((await anonymous.json()).code).to.equal("UNAUTHORIZED");
+        expect((await stake({ Authorization: "Bearer wrong-key" })).status).to.equal(401);
+        expect(await participation.nodeStakes(0)).to.equal(0);
+
+        // Without a configured key the route is off entirely
+        server.close();
+        const contract = Participation__factory.connect(await participation.getAddress(), owner);
+        const app = createApp({
+            participation: new ParticipationService(contract, 86400),
+            subgraph: { listRewards: async () => [] },
+            rpcUrl: "http://127.0.0.1:1",
+        });
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const disabled = await stake({ Authorization: "Bearer " });
+        expect(disabled.status).to.equal(403);
+        expect((await disabled.json()).code).to.equal("FORBIDDEN");
+    });
+
+    it("should serve rewards from the subgraph", async function () {
+        const res = await fetch(`${baseUrl}/rewards`);
+        expect(await res.json()).to.deep.equal([{ nodeId: 0, timestamp: 1719000000, reward: 10 }]);
+    });
+
+    it("should only relay read-only RPC methods", async function () {
+        const rpc = (body: unknown) =>
+            fetch(`${baseUrl}/rpc`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+            });
+        const request = (method: string, params: unknown[] = []) => ({ jsonrpc: "2.0", method, params, id: 1 });
+
+        const send = await rpc(request("eth_sendTransaction", [{ from: owner.address, to: addr1.address, value: "0x1" }]));
+        expect(send.status).to.equal(403);
+        expect(await send.json()).to.deep.equal({
+            success: false,
+            code: "FORBIDDEN",
+            message: "RPC method eth_sendTransaction is not allowed",
+        });
+        // One forbidden call rejects the whole batch
+        expect((await rpc([request("eth_blockNumber"), request("hardhat_setBalance")])).status).to.equal(403);
+        expect((await rpc({ jsonrpc: "2.0", id: 1 })).status).to.equal(400);
+    });
+
+    it("should surface an unreachable RPC node as RPC_ERROR", async function () {
+        const res = await fetch(`${baseUrl}/rpc`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ jsonrpc: "2.0", method: "eth_blockNumber", params: [], id: 1 }),
+        });
+        const body = await res.json();
+
+        expect(res.status).to.equal(502);
+        expect(body.code).to.equal("RPC_ERROR");
+    });
+});
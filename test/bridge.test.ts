@@ -0,0 +1,177 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { NodeRightsNFT__factory, WrappedNodeRights__factory } from "@depin/contracts-client";
+import { BridgeRelayer } from "../src/bridge";
+
+const DESTINATION = "localhost-b";
+
+// Both sides of the bridge live on the in-process Hardhat chain here; the
+// relayer only sees two contracts, so `npm run bridge` across two chains runs
+// the same code (see the README's "Cross-Chain Bridge" section).
+describe("Cross-Chain Bridge", function () {
+    let nodeRights: any;
+    let wrapped: any;
+    let relayer: BridgeRelayer;
+    let owner: any;
+    let addr1: any;
+    let addr2: any;
+
+    beforeEach(async function () {
+        [owner, addr1, addr2] = await ethers.getSigners();
+
+        const NodeRightsNFT = await ethers.getContractFactory("NodeRightsNFT", owner);
+        const deployed = await NodeRightsNFT.deploy();
+        const DPNToken = await ethers.getContractFactory("DPNToken", owner);
+        const dpnToken = await DPNToken.deploy(ethers.parseEther("1000000"));
+        await deployed.setDPNTokenContract(await dpnToken.getAddress());
+        await deployed.setBridgeRelayer(owner.address);
+        await deployed.setSupportedChain(DESTINATION, true);
+        await deployed.setSupportedChain("polygon-matic", true);
+        await dpnToken.transfer(addr1.address, ethers.parseEther("10000"));
+        await dpnToken.connect(addr1).approve(await deployed.getAddress(), ethers.MaxUint256);
+
+        const WrappedNodeRights = await ethers.getContractFactory("WrappedNodeRights", owner);
+        const { chainId } = await ethers.provider.getNetwork();
+        const deployedWrapped = await WrappedNodeRights.deploy(chainId, await deployed.getAddress(), owner.address);
+
+        nodeRights = NodeRightsNFT__factory.connect(await deployed.getAddress(), owner);
+        wrapped = WrappedNodeRights__factory.connect(await deployedWrapped.getAddress(), owner);
+        relayer = new BridgeRelayer(nodeRights, wrapped, { destinationChain: DESTINATION });
+
+        await nodeRights.connect(addr1).mintNodeRights(1, ethers.parseEther("2000"), "ipfs://QmCompute", {
+            value: ethers.parseEther("2.0"),
+        });
+    });
+
+    it("should lock the node and mint its wrapped copy", async function () {
+        await expect(nodeRights.connect(addr1).bridgeToChain(0, DESTINATION))
+            .to.emit(nodeRights, "CrossChainBridge")
+            .withArgs(0, DESTINATION, addr1.address, 1);
+        expect(await nodeRights.ownerOf(0)).to.equal(await nodeRights.getAddress());
+        await expect(nodeRights.connect(addr1).upgradeNode(0, 0, { value: 1 })).to.be.revertedWith("Not node owner");
+
+        const [result] = await relayer.sync();
+        expect(result).to.include({ direction: "lock", tokenId: 0, recipient: addr1.address, status: "relayed" });
+
+        expect(await wrapped.ownerOf(0)).to.equal(addr1.address);
+        const copy = await wrapped.wrappedNodes(0);
+        expect(copy.nodeType).to.equal(1);
+        expect(copy.stakedETH).to.equal(ethers.parseEther("2.0"));
+        expect(copy.metadata).to.equal("ipfs://QmCompute");
+    });
+
+    it("should release the node to whoever burns the wrapped copy", async function () {
+        await nodeRights.connect(addr1).bridgeToChain(0, DESTINATION);
+        await relayer.sync();
+        await wrapped.connect(addr1).transferFrom(addr1.address, addr2.address, 0);
+
+        await expect(wrapped.connect(addr1).bridgeBack(0)).to.be.revertedWith("Not token owner");
+        await wrapped.connect(addr2).bridgeBack(0);
+        const [result] = await relayer.sync();
+        expect(result).to.include({ direction: "return", tokenId: 0, recipient: addr2.address, status: "relayed" });
+
+        expect(await nodeRights.ownerOf(0)).to.equal(addr2.address);
+        expect(await nodeRights.crossChainBridges(0)).to.equal("");
+        expect((await wrapped.wrappedNodes(0)).wrappedAt).to.equal(0);
+        await expect(wrapped.ownerOf(0)).to.be.revertedWithCustomError(wrapped, "ERC721NonexistentToken");
+    });
+
+    it("should not relay other chains or replayed events", async function () {
+        await nodeRights.connect(addr1).bridgeToChain(0, "polygon-matic");
+        expect(await relayer.sync()).to.deep.equal([]);
+
+        await nodeRights.releaseBridgedNode(0, addr1.address, 1);
+        await nodeRights.connect(addr1).bridgeToChain(0, DESTINATION);
+        await relayer.sync();
+        await wrapped.connect(addr1).bridgeBack(0);
+        await relayer.sync();
+
+        // A restarted relayer rescans every block and finds nothing left to do
+        const restarted = new BridgeRelayer(nodeRights, wrapped, { destinationChain: DESTINATION });
+        const replayed = await restarted.sync();
+        expect(replayed.map((result) => [result.direction, result.status])).to.deep.equal([
+            ["lock", "skipped"],
+            ["return", "skipped"],
+        ]);
+        expect(await nodeRights.ownerOf(0)).to.equal(addr1.address);
+        expect(await wrapped.balanceOf(addr1.address)).to.equal(0);
+    });
+
+    it("should return a node whose release was missed before a restart", async function () {
+        await nodeRights.connect(addr1).bridgeToChain(0, DESTINATION);
+        await relayer.sync();
+        await wrapped.connect(addr1).bridgeBack(0);
+
+        // Replaying the lock must not mint a second copy of the same trip
+        const restarted = new BridgeRelayer(nodeRights, wrapped, { destinationChain: DESTINATION });
+        const replayed = await restarted.sync();
+        expect(replayed.map((result) => [result.direction, result.status])).to.deep.equal([
+            ["lock", "skipped"],
+            ["return", "relayed"],
+        ]);
+        expect(await nodeRights.ownerOf(0)).to.equal(addr1.address);
+        expect(await wrapped.balanceOf(addr1.address)).to.equal(0);
+    });
+
+    it("should retry the rest of a batch after a relay fails", async function () {
+        await nodeRights.connect(addr1).mintNodeRights(1, ethers.parseEther("2000"), "ipfs://QmSecond", {
+            value: ethers.parseEther("2.0"),
+        });
+        await nodeRights.connect(addr1).bridgeToChain(0, DESTINATION);
+        await nodeRights.connect(addr1).bridgeToChain(1, DESTINATION);
+
+        await wrapped.setRelayer(addr2.address);
+        await expect(relayer.sync()).to.be.revertedWith("Not bridge relayer");
+
+        await wrapped.setRelayer(owner.address);
+        const results = await relayer.sync();
+        expect(results.map((result) => [result.tokenId, result.status])).to.deep.equal([
+            [0, "relayed"],
+            [1, "relayed"],
+        ]);
+        expect(await wrapped.ownerOf(1)).to.equal(addr1.address);
+
+        await wrapped.connect(addr1).bridgeBack(0);
+        await wrapped.connect(addr1).bridgeBack(1);
+        await nodeRights.setBridgeRelayer(addr2.address);
+        await expect(relayer.sync()).to.be.revertedWith("Not bridge relayer");
+
+        await nodeRights.setBridgeRelayer(owner.address);
+        expect((await relayer.sync()).map((result) => [result.tokenId, result.status])).to.deep.equal([
+            [0, "relayed"],
+            [1, "relayed"],
+        ]);
+        expect(await nodeRights.ownerOf(1)).to.equal(addr1.address);
+    });
+
+    it("should still return nodes after their chain lost support", async function () {
+        await nodeRights.connect(addr1).bridgeToChain(0, DESTINATION);
+        await relayer.sync();
+        await nodeRights.setSupportedChain(DESTINATION, false);
+        await expect(nodeRights.connect(addr1).bridgeToChain(0, DESTINATION)).to.be.revertedWith("Not node owner");
+
+        await wrapped.connect(addr1).bridgeBack(0);
+        await relayer.sync();
+        expect(await nodeRights.ownerOf(0)).to.equal(addr1.address);
+        await expect(nodeRights.connect(addr1).bridgeToChain(0, DESTINATION)).to.be.revertedWith("Unsupported chain");
+    });
+
+    it("should only let the relayers mint and release", async function () {
+        await nodeRights.connect(addr1).bridgeToChain(0, DESTINATION);
+
+        await expect(nodeRights.connect(addr1).releaseBridgedNode(0, addr1.address, 1)).to.be.revertedWith(
+            "Not bridge relayer"
+        );
+        await expect(wrapped.connect(addr1).mintWrapped(addr1.address, 0, 1, 1, 0, 0, "")).to.be.revertedWith(
+            "Not bridge relayer"
+        );
+        await expect(nodeRights.releaseBridgedNode(1, addr1.address, 1)).to.be.revertedWith("Node not bridged");
+        await expect(nodeRights.releaseBridgedNode(0, addr1.address, 0)).to.be.revertedWith("Stale bridge nonce");
+
+        await relayer.sync();
+        await expect(wrapped.mintWrapped(addr1.address, 0, 1, 1, 0, 0, "")).to.be.revertedWith("Already relayed");
+        await expect(wrapped.mintWrapped(addr1.address, 0, 2, 1, 0, 0, "")).to.be.revertedWith("Already wrapped");
+        await expect(nodeRights.connect(addr1).setBridgeRelayer(addr1.address))
+            .to.be.revertedWithCustomError(nodeRights, "OwnableUnauthorizedAccount");
+    });
+});
@@ -0,0 +1,152 @@
+import { ethers, ignition } from "hardhat";
+import { expect } from "chai";
+import { NodeRightsNFT__factory, Participation__factory } from "@depin/contracts-client";
+import DePINModule from "../ignition/modules/DePIN";
+import {
+    ScenarioError,
+    SimulationEngine,
+    applyFaults,
+    parseFaults,
+    planFromConfig,
+    resolveSimulationConfig,
+    slashingReport,
+} from "../src/simulation";
+
+const PERFECT = { mean: 1, stdDev: 0, outageProbability: 0 };
+
+describe("Simulation Fault Injection", function () {
+    let contracts: any;
+    let tracker: any;
+    let operators: any[];
+
+    beforeEach(async function () {
+        [tracker, ...operators] = await ethers.getSigners();
+        const { participation, nodeRights } = await ignition.deploy(DePINModule);
+        contracts = {
+            participation: Participation__factory.connect(await participation.getAddress(), tracker),
+            nodeRights: NodeRightsNFT__factory.connect(await nodeRights.getAddress(), tracker),
+        };
+    });
+
+    function runWith(overrides: any) {
+        const config = resolveSimulationConfig({
+            reliability: { STORAGE: PERFECT, COMPUTE: PERFECT, BANDWIDTH: PERFECT },
+            claimEverySteps: 100,
+            ...overrides,
+        });
+        return new SimulationEngine(contracts, tracker, ethers.provider, planFromConfig(config, operators)).run();
+    }
+
+    function statusesAt(log: any, step: number) {
+        return Object.fromEntries(log.steps[step - 1].nodes.map((node: any) => [node.label, node.status]));
+    }
+
+    it("should take down every node in the affected region only", async function () {
+        const log = await runWith({
+            operatorsPerType: { STORAGE: 3, COMPUTE: 0, BANDWIDTH: 0 },
+            regions: ["us-east", "eu-west", "ap-south"],
+            steps: 2,
+            faults: [{ kind: "regionOutage", region: "eu-west", from: 2 }],
+        });
+
+        expect(statusesAt(log, 1)).to.deep.equal({ "storage-0": "ACTIVE", "storage-1": "ACTIVE", "storage-2": "ACTIVE" });
+        expect(statusesAt(log, 2)).to.deep.equal({ "storage-0": "ACTIVE", "storage-1": "TERMINATED", "storage-2": "ACTIVE" });
+        expect(log.steps[1].nodes[1].faults).to.deep.equal(["regionOutage:eu-west"]);
+    });
+
+    it("should degrade a whole NodeType into the slashing bands", async function () {
+        const log = await runWith({
+            operatorsPerType: { STORAGE: 1, COMPUTE: 2, BANDWIDTH: 0 },
+            steps: 1,
+            faults: [{ kind: "nodeTypeDegradation", nodeType: "COMPUTE", from: 1, severity: 0.2 }],
+        });
+
+        // 80% uptime sits between the major (50%) and active (90%) thresholds
+        expect(statusesAt(log, 1)).to.deep.equal({
+            "storage-0": "ACTIVE",
+            "compute-0": "SLASHED_MINOR",
+            "compute-1": "SLASHED_MINOR",
+        });
+    });
+
+    it("should alternate flapping nodes between degraded and normal steps", async function () {
+        const log = await runWith({
+            operatorsPerType: { STORAGE: 1, COMPUTE: 0, BANDWIDTH: 0 },
+            steps: 4,
+            faults: [{ kind: "flapping", operators: ["storage-0"], from: 1, period: 1, severity: 0.6 }],
+        });
+
+        const history = log.steps.map((step) => step.nodes[0]);
+        expect(history.map((node) => node.reliability)).to.deep.equal([0.4, 1, 0.4, 1]);
+        expect(history.map((node) => node.status)).to.deep.equal(["SLASHED_MAJOR", "ACTIVE", "SLASHED_MAJOR", "ACTIVE"]);
+        // Each fall into SLASHED_MAJOR costs 15% of the remaining stake
+        expect(history.filter((node) => node.penalty !== "0")).to.have.length(2);
+    });
+
+    it("should record fake uptime in Participation while the tracker slashes the node", async function () {
+        const log = await runWith({
+            operatorsPerType: { STORAGE: 1, COMPUTE: 0, BANDWIDTH: 0 },
+            reliability: { STORAGE: { mean: 0.3, stdDev: 0, outageProbability: 0 } },
+            steps: 1,
+            stepSeconds: 600,
+            faults: [{ kind: "fakeUptime", operator: "storage-0", from: 1 }],
+        });
+
+        const node = log.steps[0].nodes[0];
+        expect(node.uptimeMinutes).to.equal(10);
+        expect(node.actualUptimeMinutes).to.equal(3);
+        expect(node.status).to.equal("SLASHED_MAJOR");
+
+        const stats = await contracts.participation.stats(log.operators[0].nodeId);
+        expect(stats.uptime).to.equal(10);
+    });
+
+    it("should summarize slashing and penalized DPN", async function () {
+        const log = await runWith({
+            operatorsPerType: { STORAGE: 3, COMPUTE: 0, BANDWIDTH: 0 },
+            regions: ["us-east", "eu-west", "ap-south"],
+            steps: 2,
+            faults: [
+                { kind: "regionOutage", region: "eu-west", from: 2 },
+                { kind: "regionOutage", region: "ap-south", from: 1, to: 1, severity: 0.6 },
+            ],
+        });
+        const report = slashingReport(log);
+
+        expect(report.finalStatus).to.deep.equal({ ACTIVE: 2, SLASHED_MINOR: 0, SLASHED_MAJOR: 0, TERMINATED: 1 });
+        expect(report.everReached).to.deep.equal({ SLASHED_MINOR: 0, SLASHED_MAJOR: 1, TERMINATED: 1 });
+        expect(report.slashedUnderFault).to.deep.equal({ "regionOutage:eu-west": 1, "regionOutage:ap-south": 1 });
+
+        const penalties = log.steps.flatMap((step) => step.nodes).map((node) => BigInt(node.penalty));
+        const total = penalties.reduce((sum, penalty) => sum + penalty, 0n);
+        expect(total).to.be.greaterThan(0n);
+        expect(report.totalPenalized).to.equal(total.toString());
+        expect(BigInt(report.penalizedByStatus.SLASHED_MAJOR) + BigInt(report.penalizedByStatus.TERMINATED)).to.equal(total);
+        expect(report.penalizedByNodeType.STORAGE).to.equal(total.toString());
+    });
+
+    describe("Schema", function () {
+        it("should apply overlapping faults multiplicatively", async function () {
+            const faults = parseFaults([
+                { kind: "regionOutage", region: "eu-west", from: 1, severity: 0.5 },
+                { kind: "nodeTypeDegradation", nodeType: "STORAGE", from: 1, severity: 0.5 },
+            ], "faults");
+            const effect = applyFaults(faults, { label: "a", nodeType: "STORAGE", region: "eu-west" }, 1, 0.8);
+            expect(effect.actual).to.equal(0.2);
+            expect(effect.reported).to.equal(0.2);
+            expect(effect.active).to.have.length(2);
+
+            expect(applyFaults(faults, { label: "a", nodeType: "COMPUTE", region: "us-east" }, 1, 0.8).active).to.be.empty;
+        });
+
+        it("should report the path of invalid faults", async function () {
+            expect(() => parseFaults([{ kind: "meteor", from: 1 }], "faults")).to.throw(ScenarioError, "faults[0].kind");
+            expect(() => parseFaults([{ kind: "regionOutage", region: "eu-west", from: 3, to: 2 }], "faults"))
+                .to.throw(ScenarioError, "faults[0].to");
+            expect(() => parseFaults([{ kind: "nodeTypeDegradation", nodeType: "GPU", from: 1, severity: 0.5 }], "faults"))
+                .to.throw(ScenarioError, "faults[0].nodeType");
+            expect(() => parseFaults([{ kind: "fakeUptime", operator: "ghost", from: 1 }], "faults", ["solo"]))
+                .to.throw(ScenarioError, 'unknown operator "ghost"');
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+    Heartbeat,
+    aggregateHeartbeats,
+    participationHeartbeatDomain,
+    recoverHeartbeatSigner,
+    signHeartbeat,
+    verifyHeartbeat,
+} from "@depin/contracts-client";
+
+const WINDOW = 3600;
+
+describe("Signed Heartbeats", function () {
+    let participation: any;
+    let domain: any;
+    let owner: any;
+    let addr1: any;
+    let addr2: any;
+    let windowStart: number;
+
+    beforeEach(async function () {
+        [owner, addr1, addr2] = await ethers.getSigners();
+
+        const Participation = await ethers.getContractFactory("Participation", owner);
+        participation = await Participation.deploy();
+        await participation.waitForDeployment();
+        domain = await participationHeartbeatDomain(participation);
+
+        await participation.connect(addr1).registerNode("Node A");
+        await participation.connect(addr2).registerNode("Node B");
+
+        const latest = await ethers.provider.getBlock("latest");
+        windowStart = latest!.timestamp;
+        await ethers.provider.send("evm_increaseTime", [3 * WINDOW]);
+        await ethers.provider.send("evm_mine", []);
+    });
+
+    function heartbeat(overrides: Partial<Heartbeat> = {}): Heartbeat {
+        return {
+            nodeId: 0n,
+            windowStart,
+            windowEnd: windowStart + WINDOW,
+            heartbeats: 55,
+            uptimeMinutes: 55,
+            nonce: 0n,
+            ...overrides,
+        };
+    }
+
+    async function submit(signer: any, ...messages: Heartbeat[]) {
+        const signatures = await Promise.all(messages.map((message) => signHeartbeat(signer, domain, message)));
+        return participation.recordSignedUptime(messages, signatures);
+    }
+
+    describe("SDK", function () {
+        it("should sign heartbeats that verify against the signer only", async function () {
+            const message = heartbeat();
+            const signature = await signHeartbeat(addr1, domain, message);
+
+            expect(recoverHeartbeatSigner(domain, message, signature)).to.equal(addr1.address);
+            expect(verifyHeartbeat(domain, message, signature, addr1.address)).to.be.true;
+            expect(verifyHeartbeat(domain, message, signature, addr2.address)).to.be.false;
+            expect(verifyHeartbeat(domain, { ...message, uptimeMinutes: 60 }, signature, addr1.address)).to.be.false;
+            expect(verifyHeartbeat(domain, message, "0x1234", addr1.address)).to.be.false;
+        });
+
+        it("should cap aggregated uptime at the window length", async function () {
+            expect(aggregateHeartbeats(0n, 0, WINDOW, 30, 60, 0n).uptimeMinutes).to.equal(30);
+            expect(aggregateHeartbeats(0n, 0, WINDOW, 90, 60, 0n).uptimeMinutes).to.equal(60);
+        });
+    });
+
+    it("should record uptime from an owner-signed heartbeat relayed by a reporter", async function () {
+        const message = heartbeat();
+        const signature = await signHeartbeat(addr1, domain, message);
+
+        await expect(participation.connect(owner).recordSignedUptime([message], [signature]))
+            .to.emit(participation, "HeartbeatAccepted")
+            .withArgs(0, 0, message.windowStart, message.windowEnd, 55)
+            .and.to.emit(participation, "UptimeRecorded");
+
+        const stats = await participation.stats(0);
+        expect(stats.uptime).to.equal(55);
+        expect(stats.earned).to.equal(55);
+        expect(await participation.heartbeatNonces(0)).to.equal(1);
+        expect(await participation.lastWindowEnd(0)).to.equal(message.windowEnd);
+    });
+
+    it("should accept a batch of consecutive windows across nodes", async function () {
+        await submit(addr1, heartbeat(), heartbeat({ windowStart: windowStart + WINDOW, windowEnd: windowStart + 2 * WINDOW, nonce: 1n }));
+        await submit(addr2, heartbeat({ nodeId: 1n, uptimeMinutes: 60 }));
+
+        expect((await participation.stats(0)).uptime).to.equal(110);
+        expect((await participation.stats(1)).uptime).to.equal(60);
+        expect(await participation.heartbeatNonces(0)).to.equal(2);
+    });
+
+    it("should reject heartbeats an operator relays for its own node", async function () {
+        // addr1 staked nothing anywhere; without the role check it could credit
+        // itself uptime (and RewardPool DPN) at will
+        const message = heartbeat();
+        const signature = await signHeartbeat(addr1, domain, message);
+
+        await expect(participation.connect(addr1).recordSignedUptime([message], [signature]))
+            .to.be.revertedWithCustomError(participation, "AccessControlUnauthorizedAccount")
+            .withArgs(addr1.address, await participation.REPORTER_ROLE());
+        expect((await participation.stats(0)).uptime).to.equal(0);
+    });
+
+    it("should count signed uptime towards the reporter's window cap", async function () {
+        // Start at a window boundary so every call below lands in the same window
+        const latest = await ethers.provider.getBlock("latest");
+        await ethers.provider.send("evm_setNextBlockTimestamp", [(Math.floor(latest!.timestamp / WINDOW) + 1) * WINDOW]);
+        await participation.setReportingWindow(WINDOW);
+        await participation.recordUptime(0, 30);
+
+        await expect(submit(addr1, heartbeat({ uptimeMinutes: 31 }))).to.be.revertedWith("Exceeds window cap");
+        await submit(addr1, heartbeat({ uptimeMinutes: 30 }));
+        await expect(participation.recordUptime(0, 1)).to.be.revertedWith("Exceeds window cap");
+        expect((await participation.stats(0)).uptime).to.equal(60);
+    });
+
+    it("should reject a replayed heartbeat", async function () {
+        const message = heartbeat();
+        const signature = await signHeartbeat(addr1, domain, message);
+        await participation.recordSignedUptime([message], [signature]);
+
+        await expect(participation.recordSignedUptime([message], [signature])).to.be.revertedWith("Invalid nonce");
+    });
+
+    it("should reject heartbeats not signed by the node owner", async function () {
+        await expect(submit(addr2, heartbeat())).to.be.revertedWith("Invalid signature");
+
+        // A valid signature over different values does not carry over
+        const signature = await signHeartbeat(addr1, domain, heartbeat());
+        await expect(
+            participation.recordSignedUptime([heartbeat({ uptimeMinutes: 60 })], [signature])
+        ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("should reject heartbeats signed for another Participation deployment", async function () {
+        const Participation = await ethers.getContractFactory("Participation", owner);
+        const other = await Participation.deploy();
+        const otherDomain = await participationHeartbeatDomain(other as any);
+
+        const signature = await signHeartbeat(addr1, otherDomain, heartbeat());
+        await expect(participation.recordSignedUptime([heartbeat()], [signature])).to.be.revertedWith("Invalid signature");
+    });
+
+    it("should reject invalid windows", async function () {
+        await expect(submit(addr1, heartbeat({ uptimeMinutes: 61 }))).to.be.revertedWith("Uptime exceeds window");
+        await expect(submit(addr1, heartbeat({ windowEnd: windowStart }))).to.be.revertedWith("Empty window");
+        await expect(
+            submit(addr1, heartbeat({ windowStart: windowStart + 3 * WINDOW, windowEnd: windowStart + 4 * WINDOW }))
+        ).to.be.revertedWith("Window not ended");
+
+        await submit(addr1, heartbeat());
+        await expect(
+            submit(addr1, heartbeat({ windowStart: windowStart + WINDOW / 2, windowEnd: windowStart + 2 * WINDOW, nonce: 1n }))
+        ).to.be.revertedWith("Window overlaps");
+    });
+
+    it("should reject windows that start before the node registered", async function () {
+        // Without the check a first heartbeat from 0 would credit ~29.8M minutes
+        const minutes = Math.floor((windowStart + WINDOW) / 60);
+        await expect(submit(addr1, heartbeat({ windowStart: 0, uptimeMinutes: minutes }))).to.be.revertedWith(
+            "Window before registration"
+        );
+        await expect(submit(addr1, heartbeat({ windowStart: windowStart - 120 }))).to.be.revertedWith(
+            "Window before registration"
+        );
+    });
+
+    it("should reject heartbeats for unregistered nodes and mismatched signatures", async function () {
+        await expect(submit(addr1, heartbeat({ nodeId: 5n }))).to.be.revertedWith("Node does not exist");
+        await expect(participation.recordSignedUptime([heartbeat()], [])).to.be.revertedWith("Length mismatch");
+    });
+});
@@ -0,0 +1,76 @@
+import { ethers, ignition } from "hardhat";
+import { expect } from "chai";
+import DePINModule from "../ignition/modules/DePIN";
+import HalvingRewardCalculatorModule from "../ignition/modules/HalvingRewardCalculator";
+import WrappedNodeRightsModule from "../ignition/modules/WrappedNodeRights";
+
+describe("DePIN Ignition Module", function () {
+    it("should deploy and wire the full stack", async function () {
+        const { dpnToken, rewardPool, participation, nodeRights } = await ignition.deploy(DePINModule);
+
+        const [owner] = await ethers.getSigners();
+        expect(await dpnToken.balanceOf(owner.address)).to.equal(ethers.parseEther("1000000"));
+        expect(await nodeRights.participationContract()).to.equal(await participation.getAddress());
+        expect(await nodeRights.dpnTokenContract()).to.equal(await dpnToken.getAddress());
+        expect(await dpnToken.minter()).to.equal(await rewardPool.getAddress());
+        expect(await participation.rewardPool()).to.equal(await rewardPool.getAddress());
+        expect(await rewardPool.hasRole(await rewardPool.DISTRIBUTOR_ROLE(), await participation.getAddress())).to.be.true;
+        expect(await nodeRights.rewardPool()).to.equal(await rewardPool.getAddress());
+        expect(await rewardPool.hasRole(await rewardPool.DISTRIBUTOR_ROLE(), await nodeRights.getAddress())).to.be.true;
+        expect(await rewardPool.mintAllowance()).to.equal(ethers.parseEther("1000000"));
+        expect(await nodeRights.bridgeRelayer()).to.equal(owner.address);
+        expect(await nodeRights.supportedChains("localhost-b")).to.be.true;
+
+        const storage = await nodeRights.nodeTypeConfigs(0);
+        expect(storage.minETHStake).to.equal(ethers.parseEther("1"));
+        expect(storage.baseRewardRate).to.equal(11574074074074n);
+        expect(storage.maxCapacity).to.equal(1000);
+    });
+
+    it("should apply per-NodeType parameters", async function () {
+        const { nodeRights } = await ignition.deploy(DePINModule, {
+            parameters: {
+                DPNTokenModule: { initialSupply: ethers.parseEther("500") },
+                NodeRightsNFTModule: {
+                    computeMinETHStake: ethers.parseEther("4"),
+                    bandwidthIsActive: false,
+                },
+            },
+        });
+
+        const compute = await nodeRights.nodeTypeConfigs(1);
+        const bandwidth = await nodeRights.nodeTypeConfigs(2);
+        expect(compute.minETHStake).to.equal(ethers.parseEther("4"));
+        expect(compute.minDPNStake).to.equal(ethers.parseEther("2000"));
+        expect(bandwidth.isActive).to.be.false;
+
+        await expect(
+            nodeRights.mintNodeRights(2, ethers.parseEther("500"), "metadata", { value: ethers.parseEther("1") })
+        ).to.be.revertedWith("Node type not active");
+    });
+
+    it("should plug a halving reward calculator into a deployed NodeRightsNFT", async function () {
+        const { nodeRights } = await ignition.deploy(DePINModule);
+        const { rewardCalculator } = await ignition.deploy(HalvingRewardCalculatorModule, {
+            parameters: {
+                HalvingRewardCalculatorModule: { nodeRights: await nodeRights.getAddress(), halvingInterval: 3600n },
+            },
+        });
+
+        expect(await nodeRights.rewardCalculatorContract()).to.equal(await rewardCalculator.getAddress());
+        expect(await rewardCalculator.halvingInterval()).to.equal(3600);
+    });
+
+    it("should deploy the bridge's WrappedNodeRights relayed by the deployer", async function () {
+        const [owner] = await ethers.getSigners();
+        const { wrappedNodeRights } = await ignition.deploy(WrappedNodeRightsModule, {
+            parameters: {
+                WrappedNodeRightsModule: { originChainId: 1n, originContract: owner.address },
+            },
+        });
+
+        expect(await wrappedNodeRights.originChainId()).to.equal(1);
+        expect(await wrappedNodeRights.originContract()).to.equal(owner.address);
+        expect(await wrappedNodeRights.relayer()).to.equal(owner.address);
+    });
+});
@@ -1,8 +1,10 @@
 import { ethers } from "hardhat";
 import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 
 describe("NodeRightsNFT Contract", function () {
     let nodeRights: any;
+    let dpnToken: any;
     let owner: any;
     let addr1: any;
     let addr2: any;
@@ -14,6 +16,15 @@ describe("NodeRightsNFT Contract", function () {
         const NodeRightsNFT = await ethers.getContractFactory("NodeRightsNFT", owner);
         nodeRights = await NodeRightsNFT.deploy();
         await nodeRights.waitForDeployment();
+
+        // Operators stake real DPN: fund each one and approve the NFT contract
+        const DPNToken = await ethers.getContractFactory("DPNToken", owner);
+        dpnToken = await DPNToken.deploy(ethers.parseEther("1000000"));
+        await nodeRights.setDPNTokenContract(await dpnToken.getAddress());
+        for (const operator of [addr1, addr2, addr3]) {
+            await dpnToken.transfer(operator.address, ethers.parseEther("100000"));
+            await dpnToken.connect(operator).approve(await nodeRights.getAddress(), ethers.MaxUint256);
+        }
     });
 
     describe("Basic NFT Functionality", function () {
@@ -177,6 +188,7 @@ describe("NodeRightsNFT Contract", function () {
 
     describe("Cross-Chain Features", function () {
         beforeEach(async function () {
+            await nodeRights.setSupportedChain("ethereum-mainnet", true);
             await nodeRights.connect(addr1).mintNodeRights(
                 1, // COMPUTE
                 ethers.parseEther("2000"),
@@ -190,6 +202,8 @@ describe("NodeRightsNFT Contract", function () {
 
             const bridgeDestination = await nodeRights.crossChainBridges(0);
             expect(bridgeDestination).to.equal("ethereum-mainnet");
+            // Locked until the bridge relayer releases it
+            expect(await nodeRights.ownerOf(0)).to.equal(await nodeRights.getAddress());
         });
 
         it("should reject bridge from non-owner", async function () {
@@ -197,6 +211,27 @@ describe("NodeRightsNFT Contract", function () {
                 nodeRights.connect(addr2).bridgeToChain(0, "polygon")
             ).to.be.revertedWith("Not node owner");
         });
+
+        it("should reject bridges to chains no relayer serves", async function () {
+            await expect(
+                nodeRights.connect(addr1).bridgeToChain(0, "polygon")
+            ).to.be.revertedWith("Unsupported chain");
+
+            await nodeRights.setSupportedChain("ethereum-mainnet", false);
+            await expect(
+                nodeRights.connect(addr1).bridgeToChain(0, "ethereum-mainnet")
+            ).to.be.revertedWith("Unsupported chain");
+            expect(await nodeRights.ownerOf(0)).to.equal(addr1.address);
+        });
+
+        it("should only let the owner manage supported chains", async function () {
+            await expect(nodeRights.connect(addr1).setSupportedChain("polygon", true))
+                .to.be.revertedWithCustomError(nodeRights, "OwnableUnauthorizedAccount");
+            await expect(nodeRights.setSupportedChain("polygon", true))
+                .to.emit(nodeRights, "SupportedChainUpdated")
+                .withArgs("polygon", true);
+            expect(await nodeRights.supportedChains("polygon")).to.be.true;
+        });
     });
 
     describe("Analytics & View Functions", function () {
@@ -260,7 +295,7 @@ describe("NodeRightsNFT Contract", function () {
         it("should generate all NodeRights events for subgraph testing", async function () {
             const contractAddress = await nodeRights.getAddress();
             console.log("\n🏗️  NodeRightsNFT deployed at:", contractAddress);
-            console.log("📝 Update your subgraph.yaml to include this contract");
+            console.log("📝 Point deployments/<network>.json at this address to index it");
 
             // 1. Mint different types of nodes
             console.log("\n1️⃣  Minting Node Rights NFTs...");
@@ -363,6 +398,9 @@ describe("NodeRightsNFT Contract", function () {
             // 5. Cross-chain bridging simulation
             console.log("\n5️⃣  Cross-chain bridging...");
 
+            for (const chain of ["ethereum-mainnet", "polygon-matic", "avalanche-subnet"]) {
+                await nodeRights.setSupportedChain(chain, true);
+            }
             const tx14 = await nodeRights.connect(addr1).bridgeToChain(0, "ethereum-mainnet");
             await tx14.wait();
             console.log("   🌉 Node #0 bridged to ethereum-mainnet, TX:", tx14.hash);
@@ -392,7 +430,25 @@ describe("NodeRightsNFT Contract", function () {
             console.log("\n📝 Sample GraphQL query for NodeRights:");
             console.log(`
 query {
-  nodeRightsMinted: events(where: {eventName: "NodeRightsMinted"}) {
+  nodeRights(orderBy: tokenId) {
+    id
+    owner
+    nodeType
+    status
+    stakedETH
+    stakedDPN
+    performanceScore
+    totalUptime
+    bridgedTo
+    performanceUpdates(orderBy: timestamp) {
+      newScore
+      uptimeAdded
+      status
+      timestamp
+    }
+  }
+
+  nodeRightsMinteds(orderBy: timestamp) {
     id
     tokenId
     owner
@@ -401,32 +457,24 @@ query {
     dpnStaked
     timestamp
   }
-  
-  nodeUpgrades: events(where: {eventName: "NodeUpgraded"}) {
+
+  nodeUpgradeds(orderBy: timestamp) {
     id
     tokenId
     additionalETH
     additionalDPN
     newPerformanceScore
   }
-  
-  performanceUpdates: events(where: {eventName: "PerformanceUpdated"}) {
-    id
-    tokenId
-    newScore
-    uptimeAdded
-    status
-  }
-  
-  nodeSlashings: events(where: {eventName: "NodeSlashed"}) {
+
+  nodeSlasheds(orderBy: timestamp) {
     id
     tokenId
     newStatus
     penaltyAmount
     reason
   }
-  
-  crossChainBridges: events(where: {eventName: "CrossChainBridge"}) {
+
+  crossChainBridges(orderBy: timestamp) {
     id
     tokenId
     destinationChain
@@ -475,6 +523,414 @@ query {
         });
     });
 
+    describe("DPN Custody", function () {
+        it("should take custody of the DPN stake on mint and upgrade", async function () {
+            const nodeRightsAddress = await nodeRights.getAddress();
+            await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1200"), "metadata", {
+                value: ethers.parseEther("1"),
+            });
+            expect(await dpnToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("98800"));
+            expect(await dpnToken.balanceOf(nodeRightsAddress)).to.equal(ethers.parseEther("1200"));
+
+            await nodeRights.connect(addr1).upgradeNode(0, ethers.parseEther("300"));
+            expect(await dpnToken.balanceOf(nodeRightsAddress)).to.equal(ethers.parseEther("1500"));
+            expect((await nodeRights.nodeRights(0)).stakedDPN).to.equal(ethers.parseEther("1500"));
+        });
+
+        it("should reject stakes without enough allowance or balance", async function () {
+            const nodeRightsAddress = await nodeRights.getAddress();
+            await dpnToken.connect(addr1).approve(nodeRightsAddress, ethers.parseEther("999"));
+            await expect(
+                nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                    value: ethers.parseEther("1"),
+                })
+            )
+                .to.be.revertedWithCustomError(dpnToken, "ERC20InsufficientAllowance")
+                .withArgs(nodeRightsAddress, ethers.parseEther("999"), ethers.parseEther("1000"));
+
+            const [, , , , broke] = await ethers.getSigners();
+            await dpnToken.connect(broke).approve(nodeRightsAddress, ethers.MaxUint256);
+            await expect(
+                nodeRights.connect(broke).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                    value: ethers.parseEther("1"),
+                })
+            ).to.be.revertedWithCustomError(dpnToken, "ERC20InsufficientBalance");
+
+            await nodeRights.connect(addr2).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                value: ethers.parseEther("1"),
+            });
+            await dpnToken.connect(addr2).approve(nodeRightsAddress, 0);
+            await expect(nodeRights.connect(addr2).upgradeNode(0, ethers.parseEther("1")))
+                .to.be.revertedWithCustomError(dpnToken, "ERC20InsufficientAllowance");
+        });
+
+        it("should route slashing penalties to the treasury", async function () {
+            const nodeRightsAddress = await nodeRights.getAddress();
+            await nodeRights.setTreasury(addr3.address);
+            const treasuryBefore = await dpnToken.balanceOf(addr3.address);
+            for (const operator of [addr1, addr2]) {
+                await nodeRights.connect(operator).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                    value: ethers.parseEther("1"),
+                });
+            }
+
+            await nodeRights.updatePerformance(0, 0, 7000); // SLASHED_MINOR: 5%
+            await nodeRights.updatePerformance(0, 0, 3000); // SLASHED_MAJOR: 15% of the rest
+            await nodeRights.updatePerformance(1, 0, 1000); // TERMINATED: everything
+
+            const node0 = await nodeRights.nodeRights(0);
+            const node1 = await nodeRights.nodeRights(1);
+            expect(node0.stakedDPN).to.equal(ethers.parseEther("807.5"));
+            expect(node1.stakedDPN).to.equal(0);
+
+            const slashed = ethers.parseEther("2000") - node0.stakedDPN - node1.stakedDPN;
+            expect(await dpnToken.balanceOf(addr3.address)).to.equal(treasuryBefore + slashed);
+            // The contract holds exactly the remaining stakes
+            expect(await dpnToken.balanceOf(nodeRightsAddress)).to.equal(node0.stakedDPN + node1.stakedDPN);
+        });
+
+        it("should require a DPN token and lock it once stakes are held", async function () {
+            const NodeRightsNFT = await ethers.getContractFactory("NodeRightsNFT", owner);
+            const bare = await NodeRightsNFT.deploy();
+            await expect(
+                bare.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                    value: ethers.parseEther("1"),
+                })
+            ).to.be.revertedWith("DPN token not set");
+
+            await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                value: ethers.parseEther("1"),
+            });
+            await expect(nodeRights.setDPNTokenContract(addr1.address)).to.be.revertedWith("Stakes already held");
+        });
+
+        it("should only let the owner set a non-zero treasury", async function () {
+            expect(await nodeRights.treasury()).to.equal(owner.address);
+            await expect(nodeRights.setTreasury(ethers.ZeroAddress)).to.be.revertedWith("Invalid treasury");
+            await expect(nodeRights.connect(addr1).setTreasury(addr1.address))
+                .to.be.revertedWithCustomError(nodeRights, "OwnableUnauthorizedAccount");
+        });
+    });
+
+    describe("Reward Claims", function () {
+        let rewardPool: any;
+
+        beforeEach(async function () {
+            const RewardPool = await ethers.getContractFactory("RewardPool", owner);
+            rewardPool = await RewardPool.deploy(await dpnToken.getAddress(), ethers.parseEther("1000000"));
+            await dpnToken.setMinter(await rewardPool.getAddress());
+            await rewardPool.grantRole(await rewardPool.DISTRIBUTOR_ROLE(), await nodeRights.getAddress());
+
+            // Minimum STORAGE stakes, so only performance and time scale the reward
+            for (let i = 0; i < 2; i++) {
+                await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                    value: ethers.parseEther("1"),
+                });
+            }
+        });
+
+        async function rewardsDistributed(tx: any) {
+            const receipt = await tx.wait();
+            const address = await nodeRights.getAddress();
+            return receipt.logs
+                .filter((log: any) => log.address === address)
+                .map((log: any) => nodeRights.interface.parseLog(log))
+                .filter((event: any) => event.name === "RewardsDistributed")
+                .map((event: any) => event.args);
+        }
+
+        it("should pay pending rewards in DPN and restart accrual", async function () {
+            await nodeRights.setRewardPool(await rewardPool.getAddress());
+            const mintedAt = (await nodeRights.nodeRights(0)).lastRewardClaim;
+            await time.increase(86400);
+
+            const before = await dpnToken.balanceOf(addr1.address);
+            const tx = await nodeRights.connect(addr1).claimNodeRewards(0);
+            const [event] = await rewardsDistributed(tx);
+            const claimedAt = (await nodeRights.nodeRights(0)).lastRewardClaim;
+
+            const config = await nodeRights.nodeTypeConfigs(0);
+            expect(event.rewardAmount).to.equal(config.baseRewardRate * (claimedAt - mintedAt));
+            expect(event.performanceBonus).to.equal(0);
+            expect(await dpnToken.balanceOf(addr1.address)).to.equal(before + event.rewardAmount);
+            expect(await rewardPool.totalPaid()).to.equal(event.rewardAmount);
+            expect((await nodeRights.getNodeDetails(0)).estimatedRewards).to.equal(0);
+        });
+
+        it("should split out the bonus earned above a 100% score", async function () {
+            await nodeRights.setRewardPool(await rewardPool.getAddress());
+            await nodeRights.updatePerformance(0, 0, 12000); // 120%
+            await time.increase(86400);
+
+            const [event] = await rewardsDistributed(await nodeRights.connect(addr1).claimNodeRewards(0));
+            expect(event.performanceBonus).to.be.greaterThan(0);
+            expect(event.performanceBonus).to.equal(event.rewardAmount - (event.rewardAmount * 10000n) / 12000n);
+        });
+
+        it("should claim many nodes with one payout", async function () {
+            await nodeRights.setRewardPool(await rewardPool.getAddress());
+            await time.increase(86400);
+
+            const tx = await nodeRights.connect(addr1).claimNodeRewardsBatch([0, 1]);
+            const events = await rewardsDistributed(tx);
+            expect(events.map((event: any) => event.tokenId)).to.deep.equal([0n, 1n]);
+            const total = events.reduce((sum: bigint, event: any) => sum + event.rewardAmount, 0n);
+            await expect(tx).to.emit(rewardPool, "RewardPaid")
+                .withArgs(await nodeRights.getAddress(), addr1.address, total, total);
+        });
+
+        it("should only pay the node owner once a pool is set", async function () {
+            await expect(nodeRights.connect(addr1).claimNodeRewards(0)).to.be.revertedWith("Reward pool not set");
+            await nodeRights.setRewardPool(await rewardPool.getAddress());
+
+            await expect(nodeRights.connect(addr2).claimNodeRewards(0)).to.be.revertedWith("Not node owner");
+            await expect(nodeRights.connect(addr2).claimNodeRewardsBatch([0])).to.be.revertedWith("Not node owner");
+            await expect(nodeRights.connect(addr1).claimNodeRewards(9)).to.be.revertedWith("Node does not exist");
+            await expect(nodeRights.connect(addr1).setRewardPool(await rewardPool.getAddress()))
+                .to.be.revertedWithCustomError(nodeRights, "OwnableUnauthorizedAccount");
+        });
+
+        it("should pay nothing for slashed nodes", async function () {
+            await nodeRights.setRewardPool(await rewardPool.getAddress());
+            await nodeRights.updatePerformance(0, 0, 7500); // SLASHED_MINOR
+            await time.increase(86400);
+
+            const [event] = await rewardsDistributed(await nodeRights.connect(addr1).claimNodeRewards(0));
+            expect(event.rewardAmount).to.equal(0);
+            expect(await rewardPool.totalPaid()).to.equal(0);
+        });
+
+        it("should not pay a node back to ACTIVE for the time it was slashed", async function () {
+            await nodeRights.setRewardPool(await rewardPool.getAddress());
+            await time.increase(86400);
+            await nodeRights.updatePerformance(0, 0, 7500); // SLASHED_MINOR, forfeits the day
+            await time.increase(3 * 86400);
+            await nodeRights.updatePerformance(0, 0, 10000); // ACTIVE again
+            const reactivatedAt = BigInt(await time.latest());
+            await time.increase(86400);
+
+            const tx = await nodeRights.connect(addr1).claimNodeRewards(0);
+            const [event] = await rewardsDistributed(tx);
+            const claimedAt = (await nodeRights.nodeRights(0)).lastRewardClaim;
+
+            // Node 0 lost 5% of its DPN, not of its ETH, so the reward is the plain rate
+            const config = await nodeRights.nodeTypeConfigs(0);
+            expect(event.rewardAmount).to.equal(config.baseRewardRate * (claimedAt - reactivatedAt));
+        });
+    });
+
+    describe("Capacity Allocation", function () {
+        beforeEach(async function () {
+            // STORAGE nodes hold 1000 units
+            await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                value: ethers.parseEther("1"),
+            });
+            await nodeRights.setCapacityConsumer(addr2.address, true);
+        });
+
+        it("should reserve and release capacity per consumer", async function () {
+            await expect(nodeRights.connect(addr2).reserveCapacity(0, 600))
+                .to.emit(nodeRights, "CapacityReserved")
+                .withArgs(0, addr2.address, 600, 600);
+            await nodeRights.reserveCapacity(0, 100); // the owner is always a consumer
+            expect(await nodeRights.nodeCapacityUsed(0)).to.equal(700);
+            expect(await nodeRights.capacityReservations(0, addr2.address)).to.equal(600);
+
+            await expect(nodeRights.connect(addr2).releaseCapacity(0, 200))
+                .to.emit(nodeRights, "CapacityReleased")
+                .withArgs(0, addr2.address, 200, 500);
+            await expect(nodeRights.connect(addr2).releaseCapacity(0, 401)).to.be.revertedWith("Invalid units");
+            await expect(nodeRights.connect(addr3).releaseCapacity(0, 1)).to.be.revertedWith("Invalid units");
+        });
+
+        it("should reject reservations beyond maxCapacity or from unknown consumers", async function () {
+            await nodeRights.connect(addr2).reserveCapacity(0, 999);
+            await expect(nodeRights.connect(addr2).reserveCapacity(0, 2)).to.be.revertedWith("Capacity exceeded");
+            await nodeRights.connect(addr2).reserveCapacity(0, 1);
+
+            await expect(nodeRights.connect(addr3).reserveCapacity(0, 1)).to.be.revertedWith("Unauthorized");
+            await expect(nodeRights.connect(addr2).reserveCapacity(0, 0)).to.be.revertedWith("Invalid units");
+            await expect(nodeRights.connect(addr1).setCapacityConsumer(addr3.address, true))
+                .to.be.revertedWithCustomError(nodeRights, "OwnableUnauthorizedAccount");
+        });
+
+        it("should refuse new reservations on terminated or exiting nodes", async function () {
+            await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                value: ethers.parseEther("1"),
+            });
+            await nodeRights.updatePerformance(0, 0, 1000); // TERMINATED
+            await expect(nodeRights.connect(addr2).reserveCapacity(0, 1)).to.be.revertedWith("Node terminated");
+
+            await nodeRights.connect(addr2).reserveCapacity(1, 10);
+            await nodeRights.connect(addr1).requestExit(1);
+            await expect(nodeRights.connect(addr2).reserveCapacity(1, 1)).to.be.revertedWith("Exit requested");
+            await nodeRights.connect(addr2).releaseCapacity(1, 10);
+        });
+
+        it("should weight pending rewards by utilization", async function () {
+            await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                value: ethers.parseEther("1"),
+            });
+            await nodeRights.connect(addr2).reserveCapacity(1, 1000);
+            await time.increase(86400);
+
+            // Same stake and score; the fully reserved node earns UTILIZATION_BONUS (50%) more
+            const idle = (await nodeRights.getNodeDetails(0)).estimatedRewards;
+            const full = (await nodeRights.getNodeDetails(1)).estimatedRewards;
+            expect(full).to.be.closeTo((idle * 3n) / 2n, idle / 10000n);
+        });
+
+        it("should only apply a reservation to rewards earned after it", async function () {
+            await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                value: ethers.parseEther("1"),
+            });
+            const config = await nodeRights.nodeTypeConfigs(0);
+            const day = config.baseRewardRate * 86400n;
+            await time.increase(86400);
+
+            // A full reservation just before claiming does not lift the day already earned
+            await nodeRights.connect(addr2).reserveCapacity(1, 1000);
+            const idle = (await nodeRights.getNodeDetails(0)).estimatedRewards;
+            expect((await nodeRights.getNodeDetails(1)).estimatedRewards).to.be.closeTo(idle, day / 1000n);
+            expect(await nodeRights.accruedRewards(1)).to.be.closeTo(day, day / 1000n);
+
+            // The next day earns UTILIZATION_BONUS on top, and releasing settles it too
+            await time.increase(86400);
+            await nodeRights.connect(addr2).releaseCapacity(1, 1000);
+            expect(await nodeRights.accruedRewards(1)).to.be.closeTo((day * 5n) / 2n, day / 1000n);
+            await time.increase(86400);
+            const [node0, node1] = await Promise.all([nodeRights.getNodeDetails(0), nodeRights.getNodeDetails(1)]);
+            expect(node1.estimatedRewards - node0.estimatedRewards).to.be.closeTo(day / 2n, day / 1000n);
+        });
+
+        it("should report utilization per node type", async function () {
+            await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                value: ethers.parseEther("1"),
+            });
+            await nodeRights.connect(addr1).mintNodeRights(2, ethers.parseEther("500"), "metadata", {
+                value: ethers.parseEther("0.5"),
+            });
+            await nodeRights.connect(addr2).reserveCapacity(0, 250);
+            await nodeRights.connect(addr2).reserveCapacity(2, 1500);
+
+            const storage = await nodeRights.getNodeTypeUtilization(0);
+            expect(storage.capacityUsed).to.equal(250);
+            expect(storage.totalCapacity).to.equal(2000);
+            const bandwidth = await nodeRights.getNodeTypeUtilization(2);
+            expect(bandwidth.capacityUsed).to.equal(1500);
+            expect(bandwidth.totalCapacity).to.equal(2000);
+        });
+    });
+
+    describe("Exit Flow", function () {
+        const COOLDOWN = 7 * 24 * 60 * 60;
+        let rewardPool: any;
+
+        beforeEach(async function () {
+            const RewardPool = await ethers.getContractFactory("RewardPool", owner);
+            rewardPool = await RewardPool.deploy(await dpnToken.getAddress(), ethers.parseEther("1000000"));
+            await dpnToken.setMinter(await rewardPool.getAddress());
+            await rewardPool.grantRole(await rewardPool.DISTRIBUTOR_ROLE(), await nodeRights.getAddress());
+            await nodeRights.setRewardPool(await rewardPool.getAddress());
+
+            await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+                value: ethers.parseEther("1.5"),
+            });
+        });
+
+        it("should return the stake and burn the NFT after the cooldown", async function () {
+            const request = await nodeRights.connect(addr1).requestExit(0);
+            const requestedAt = (await ethers.provider.getBlock(request.blockNumber))!.timestamp;
+            await expect(request)
+                .to.emit(nodeRights, "ExitRequested")
+                .withArgs(0, addr1.address, requestedAt + COOLDOWN);
+
+            await expect(nodeRights.connect(addr1).withdrawStake(0)).to.be.revertedWith("Cooldown active");
+            await time.increaseTo(requestedAt + COOLDOWN);
+
+            const withdrawal = nodeRights.connect(addr1).withdrawStake(0);
+            await expect(withdrawal)
+                .to.emit(nodeRights, "NodeExited")
+                .withArgs(0, addr1.address, ethers.parseEther("1.5"), ethers.parseEther("1000"));
+            await expect(withdrawal).to.changeEtherBalance(addr1, ethers.parseEther("1.5"));
+            // The stake plus the rewards earned since minting, cooldown included
+            const paid = await rewardPool.totalPaid();
+            expect(paid).to.be.greaterThan(0);
+            expect(await dpnToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("100000") + paid);
+
+            expect(await nodeRights.balanceOf(addr1.address)).to.equal(0);
+            expect(await nodeRights.getOwnerNodes(addr1.address)).to.deep.equal([]);
+            expect(await nodeRights.totalStakedETH()).to.equal(0);
+            const node = await nodeRights.nodeRights(0);
+            expect(node.status).to.equal(3); // TERMINATED
+            expect(node.stakedETH).to.equal(0);
+            expect(node.stakedDPN).to.equal(0);
+        });
+
+        it("should pay the rewards pending at withdrawal before burning the NFT", async function () {
+            const mintedAt = (await nodeRights.nodeRights(0)).lastRewardClaim;
+            await nodeRights.connect(addr1).requestExit(0);
+            await time.increase(COOLDOWN);
+
+            const withdrawal = await nodeRights.connect(addr1).withdrawStake(0);
+            const withdrawnAt = BigInt((await ethers.provider.getBlock(withdrawal.blockNumber))!.timestamp);
+            const config = await nodeRights.nodeTypeConfigs(0);
+            // 1.5 ETH against the 1 ETH minimum earns a 5% staking bonus
+            const reward = (config.baseRewardRate * (withdrawnAt - mintedAt) * 10500n) / 10000n;
+
+            await expect(withdrawal).to.emit(nodeRights, "RewardsDistributed").withArgs(0, reward, 0);
+            await expect(withdrawal).to.emit(rewardPool, "RewardPaid");
+            expect(await rewardPool.totalPaid()).to.equal(reward);
+        });
+
+        it("should not withdraw with rewards pending and no pool to pay them", async function () {
+            await nodeRights.setRewardPool(ethers.ZeroAddress);
+            await nodeRights.connect(addr1).requestExit(0);
+            await time.increase(COOLDOWN);
+
+            await expect(nodeRights.connect(addr1).withdrawStake(0)).to.be.revertedWith("Reward pool not set");
+        });
+
+        it("should keep the node slashable and locked during the cooldown", async function () {
+            await nodeRights.connect(addr1).requestExit(0);
+
+            await nodeRights.updatePerformance(0, 0, 7000); // SLASHED_MINOR: 5%
+            await expect(nodeRights.connect(addr1).upgradeNode(0, 0, { value: ethers.parseEther("1") }))
+                .to.be.revertedWith("Node not active");
+            await expect(nodeRights.connect(addr1).transferFrom(addr1.address, addr2.address, 0))
+                .to.be.revertedWith("Exit requested");
+
+            await time.increase(COOLDOWN);
+            await expect(nodeRights.connect(addr1).withdrawStake(0))
+                .to.emit(nodeRights, "NodeExited")
+                .withArgs(0, addr1.address, ethers.parseEther("1.5"), ethers.parseEther("950"));
+        });
+
+        it("should reject upgrades of an exiting active node", async function () {
+            await nodeRights.connect(addr1).requestExit(0);
+            await expect(nodeRights.connect(addr1).upgradeNode(0, 0, { value: ethers.parseEther("1") }))
+                .to.be.revertedWith("Exit requested");
+        });
+
+        it("should only let the owner exit once", async function () {
+            await expect(nodeRights.connect(addr2).requestExit(0)).to.be.revertedWith("Not node owner");
+            await expect(nodeRights.connect(addr1).withdrawStake(0)).to.be.revertedWith("Exit not requested");
+
+            await nodeRights.connect(addr1).requestExit(0);
+            await expect(nodeRights.connect(addr1).requestExit(0)).to.be.revertedWith("Exit already requested");
+            await time.increase(COOLDOWN);
+            await expect(nodeRights.connect(addr2).withdrawStake(0)).to.be.revertedWith("Not node owner");
+
+            await nodeRights.connect(addr1).withdrawStake(0);
+            await expect(nodeRights.connect(addr1).withdrawStake(0)).to.be.revertedWith("Node does not exist");
+        });
+
+        it("should keep staked ETH out of emergencyWithdraw", async function () {
+            await expect(nodeRights.emergencyWithdraw()).to.changeEtherBalance(owner, 0);
+            expect(await ethers.provider.getBalance(await nodeRights.getAddress())).to.equal(ethers.parseEther("1.5"));
+        });
+    });
+
     describe("Admin Functions", function () {
         it("should allow owner to update node type configs", async function () {
             await nodeRights.updateNodeTypeConfig(
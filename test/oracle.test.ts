@@ -0,0 +1,266 @@
+import { ethers, ignition } from "hardhat";
+import { expect } from "chai";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { NodeRightsNFT__factory, aggregateHeartbeats, oracleHeartbeatDomain, signHeartbeat } from "@depin/contracts-client";
+import DePINModule from "../ignition/modules/DePIN";
+import { HeartbeatStore, PerformanceOracle, PerformanceSubmitter, createOracleApp } from "../src/oracle";
+
+const WINDOW = 600;
+const INTERVAL = 60;
+const SKEW = 30;
+
+describe("Performance Oracle", function () {
+    let nodeRights: any;
+    let dpnToken: any;
+    let owner: any;
+    let addr1: any;
+
+    beforeEach(async function () {
+        [owner, addr1] = await ethers.getSigners();
+        const deployed = await ignition.deploy(DePINModule);
+        nodeRights = NodeRightsNFT__factory.connect(await deployed.nodeRights.getAddress(), owner);
+        dpnToken = deployed.dpnToken;
+    });
+
+    async function mintNodes(count: number) {
+        const config = await nodeRights.nodeTypeConfigs(0);
+        await dpnToken.transfer(addr1.address, config.minDPNStake * BigInt(count));
+        await dpnToken.connect(addr1).approve(await nodeRights.getAddress(), config.minDPNStake * BigInt(count));
+        for (let i = 0; i < count; i++) {
+            await nodeRights
+                .connect(addr1)
+                .mintNodeRights(0, config.minDPNStake, `ipfs://node-${i}`, { value: config.minETHStake });
+        }
+    }
+
+    function submitter(signer: any = owner, maxRetries = 2) {
+        return new PerformanceSubmitter(nodeRights, signer, { maxRetries, retryDelayMs: 1 });
+    }
+
+    describe("Heartbeat scoring", function () {
+        it("should count overlapping heartbeat coverage once and clip it to the window", async function () {
+            const store = new HeartbeatStore(INTERVAL);
+            // Coverage: [0,60) and [30,90) overlap, [300,360), and [570,630) is clipped at 600
+            for (const timestamp of [0, 30, 300, 570]) store.record(7, timestamp);
+            store.record(7, 650); // next window
+
+            expect(store.scoreWindow(0, WINDOW)).to.deep.equal([
+                { tokenId: 7, heartbeats: 4, uptimeSeconds: 90 + 60 + 30, performanceScore: 3000 },
+            ]);
+        });
+
+        it("should keep scoring silent nodes as zero until they report again", async function () {
+            const store = new HeartbeatStore(INTERVAL);
+            store.record(1, 590);
+            store.prune(WINDOW);
+
+            // The last heartbeat still covers the first 50 seconds of the next window
+            expect(store.scoreWindow(WINDOW, 2 * WINDOW)[0]).to.include({ uptimeSeconds: 50, performanceScore: 833 });
+            store.prune(2 * WINDOW);
+            expect(store.scoreWindow(2 * WINDOW, 3 * WINDOW)[0]).to.include({ heartbeats: 0, performanceScore: 0 });
+        });
+    });
+
+    describe("Service", function () {
+        let server: Server;
+        let baseUrl: string;
+        let clock: number;
+        let oracle: PerformanceOracle;
+
+        beforeEach(async function () {
+            clock = 10 * WINDOW;
+            oracle = new PerformanceOracle(nodeRights, new HeartbeatStore(INTERVAL), submitter(), {
+                windowSeconds: WINDOW,
+                maxClockSkewSeconds: SKEW,
+                now: () => clock,
+            });
+            server = createOracleApp(oracle).listen(0);
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterEach(function () {
+            server.close();
+        });
+
+        const post = (body: unknown) =>
+            fetch(`${baseUrl}/heartbeat`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+            });
+
+        // Signed by addr1, which owns every node mintNodes creates; covers the
+        // interval before windowEnd
+        async function signedHeartbeat(tokenId: unknown, { signer = addr1, windowEnd = clock } = {}) {
+            const { chainId } = await ethers.provider.getNetwork();
+            const message = aggregateHeartbeats(BigInt(Number(tokenId)), windowEnd - INTERVAL, windowEnd, 1, INTERVAL, 0n);
+            const signature = await signHeartbeat(signer, oracleHeartbeatDomain(chainId), message);
+            return { ...message, nodeId: tokenId, nonce: "0", signature };
+        }
+
+        async function heartbeat(tokenId: unknown, options: { signer?: any; windowEnd?: number } = {}) {
+            return post(await signedHeartbeat(tokenId, options));
+        }
+
+        it("should score a window of heartbeats and post it through updatePerformance", async function () {
+            await mintNodes(2);
+
+            // Node 0 beats every interval, node 1 only during the first half of the window
+            for (let t = 0; t < WINDOW; t += INTERVAL) {
+                clock = 10 * WINDOW + t;
+                expect((await heartbeat(0)).status).to.equal(202);
+                if (t < WINDOW / 2) await heartbeat("1");
+            }
+
+            clock = 11 * WINDOW;
+            const report = await oracle.tick();
+            expect(report!.results.map((r) => [r.tokenId, r.performanceScore, r.status])).to.deep.equal([
+                [0, 10000, "confirmed"],
+                [1, 5000, "confirmed"],
+            ]);
+
+            const [node0, node1] = await Promise.all([nodeRights.nodeRights(0), nodeRights.nodeRights(1)]);
+            expect(node0.performanceScore).to.equal(10000);
+            expect(node0.totalUptime).to.equal(WINDOW);
+            expect(node1.performanceScore).to.equal(5000);
+            expect(node1.status).to.equal(1); // SLASHED_MINOR
+
+            const status = await (await fetch(`${baseUrl}/status`)).json();
+            expect(status.currentWindow).to.deep.equal({ start: 11 * WINDOW, end: 12 * WINDOW });
+            expect(status.trackedNodes).to.deep.equal([0, 1]);
+            expect(status.lastWindow.results).to.have.length(2);
+        });
+
+        it("should not submit before the window ends", async function () {
+            await mintNodes(1);
+            await heartbeat(0);
+            clock = 11 * WINDOW - 1;
+            expect(await oracle.tick()).to.be.undefined;
+            expect(await nodeRights.lastPerformanceUpdate(0)).to.equal(0);
+        });
+
+        it("should reject heartbeats for unknown tokens and malformed bodies", async function () {
+            const unknown = await heartbeat(3);
+            expect(unknown.status).to.equal(404);
+            expect((await unknown.json()).code).to.equal("NOT_FOUND");
+
+            const malformed = await post({ nodeId: -1 });
+            expect(malformed.status).to.equal(400);
+            expect((await malformed.json()).message).to.equal("nodeId must be a non-negative integer");
+
+            const unsigned = await post({ ...(await signedHeartbeat(0)), signature: undefined });
+            expect(unsigned.status).to.equal(400);
+            expect((await unsigned.json()).message).to.equal("signature must be a 65-byte hex string");
+        });
+
+        it("should only record heartbeats signed by the node owner around the oracle's clock", async function () {
+            await mintNodes(1);
+
+            const forged = await heartbeat(0, { signer: owner });
+            expect(forged.status).to.equal(401);
+            expect(await forged.json()).to.include({
+                code: "UNAUTHORIZED",
+                message: "Heartbeat is not signed by the operator of node 0",
+            });
+            expect((await heartbeat(0, { windowEnd: clock - SKEW - 1 })).status).to.equal(401);
+
+            expect((await heartbeat(0, { windowEnd: clock - SKEW })).status).to.equal(202);
+            const replayed = await heartbeat(0, { windowEnd: clock - SKEW });
+            expect(replayed.status).to.equal(401);
+            expect((await replayed.json()).message).to.equal("Heartbeat overlaps one already recorded");
+            expect(oracle.status().trackedNodes).to.deep.equal([0]);
+
+            // The new owner signs after a transfer
+            await nodeRights.connect(addr1).transferFrom(addr1.address, owner.address, 0);
+            clock += INTERVAL;
+            expect((await heartbeat(0)).status).to.equal(401);
+            expect((await heartbeat(0, { signer: owner })).status).to.equal(202);
+        });
+
+        it("should keep taking the operator's heartbeats while its node is bridged", async function () {
+            await mintNodes(1);
+            await nodeRights.setSupportedChain("localhost-b", true);
+            await nodeRights.connect(addr1).bridgeToChain(0, "localhost-b");
+
+            // NodeRightsNFT holds the token now; addr1 still runs the node
+            expect((await heartbeat(0, { signer: owner })).status).to.equal(401);
+            for (let t = 0; t < WINDOW; t += INTERVAL) {
+                clock = 10 * WINDOW + t;
+                expect((await heartbeat(0)).status).to.equal(202);
+            }
+
+            clock = 11 * WINDOW;
+            const report = await oracle.tick();
+            expect(report!.results[0]).to.include({ performanceScore: 10000, status: "confirmed" });
+            expect((await nodeRights.nodeRights(0)).status).to.equal(0); // ACTIVE
+        });
+
+        it("should record only one of two copies of a heartbeat posted at once", async function () {
+            await mintNodes(1);
+            const body = await signedHeartbeat(0);
+
+            const responses = await Promise.all([post(body), post(body)]);
+            expect(responses.map((res) => res.status).sort()).to.deep.equal([202, 401]);
+
+            clock = 11 * WINDOW;
+            const report = await oracle.tick();
+            expect(report!.results[0]).to.include({ heartbeats: 1, uptimeSeconds: INTERVAL });
+        });
+    });
+
+    describe("Submission", function () {
+        const score = (tokenId: number, performanceScore = 9500) => ({
+            tokenId,
+            heartbeats: 10,
+            uptimeSeconds: WINDOW,
+            performanceScore,
+        });
+
+        it("should send a batch with consecutive nonces", async function () {
+            await mintNodes(3);
+            const nonce = await owner.getNonce();
+            const results = await submitter().submit([score(0), score(1), score(2)]);
+
+            const sent = await Promise.all(results.map((r) => ethers.provider.getTransaction(r.txHash!)));
+            expect(sent.map((tx) => tx!.nonce)).to.deep.equal([nonce, nonce + 1, nonce + 2]);
+            expect(results.every((r) => r.status === "confirmed" && r.attempts === 1)).to.be.true;
+        });
+
+        it("should resend the rest of a batch after a failed send", async function () {
+            await mintNodes(2);
+            let failures = 1;
+            const flaky = new Proxy(owner, {
+                get(target, property) {
+                    if (property === "sendTransaction") {
+                        return async (tx: any) => {
+                            if (failures-- > 0) {
+                                throw Object.assign(new Error("socket hang up"), { code: "NETWORK_ERROR" });
+                            }
+                            return target.sendTransaction(tx);
+                        };
+                    }
+                    const value = Reflect.get(target, property);
+                    return typeof value === "function" ? value.bind(target) : value;
+                },
+            });
+
+            const results = await submitter(flaky).submit([score(0), score(1)]);
+            expect(results.map((r) => [r.status, r.attempts])).to.deep.equal([
+                ["confirmed", 2],
+                ["confirmed", 2],
+            ]);
+            expect((await nodeRights.nodeRights(1)).performanceScore).to.equal(9500);
+        });
+
+        it("should fail reverts without retrying and skip terminated nodes", async function () {
+            await mintNodes(2);
+            await nodeRights.updatePerformance(1, 0, 0); // terminates node 1
+
+            const unauthorized = await submitter(addr1).submit([score(0), score(1)]);
+            expect(unauthorized[0]).to.include({ status: "failed", attempts: 1 });
+            expect(unauthorized[0].error).to.contain("Unauthorized");
+            expect(unauthorized[1]).to.include({ status: "skipped", attempts: 0, error: "Node terminated" });
+        });
+    });
+});
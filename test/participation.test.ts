@@ -1,8 +1,10 @@
 import { ethers } from "hardhat";
 import { expect } from "chai";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 
 describe("Participation Contract", function () {
     let participation: any;
+    let dpnToken: any;
     let owner: any;
     let addr1: any;
     let addr2: any;
@@ -13,6 +15,14 @@ describe("Participation Contract", function () {
         const Participation = await ethers.getContractFactory("Participation", owner);
         participation = await Participation.deploy();
         await participation.waitForDeployment();
+
+        const DPNToken = await ethers.getContractFactory("DPNToken", owner);
+        dpnToken = await DPNToken.deploy(ethers.parseEther("1000000"));
+        const RewardPool = await ethers.getContractFactory("RewardPool", owner);
+        const rewardPool = await RewardPool.deploy(await dpnToken.getAddress(), ethers.parseEther("1000000"));
+        await dpnToken.setMinter(await rewardPool.getAddress());
+        await rewardPool.grantRole(await rewardPool.DISTRIBUTOR_ROLE(), await participation.getAddress());
+        await participation.setRewardPool(await rewardPool.getAddress());
     });
 
     it("should register two nodes", async function () {
@@ -28,7 +38,7 @@ describe("Participation Contract", function () {
 
     it("should record uptime and earn rewards", async function () {
         await participation.connect(addr1).registerNode("Node A");
-        await participation.connect(addr1).recordUptime(0, 15);
+        await participation.connect(owner).recordUptime(0, 15);
 
         const stats = await participation.stats(0);
         expect(stats.uptime).to.equal(15);
@@ -37,12 +47,15 @@ describe("Participation Contract", function () {
 
     it("should claim rewards and reset earned", async function () {
         await participation.connect(addr1).registerNode("Node B");
-        await participation.connect(addr1).recordUptime(0, 10);
+        await participation.connect(owner).recordUptime(0, 10);
 
-        await participation.connect(addr1).claimReward(0);
+        await expect(participation.connect(addr1).claimReward(0))
+            .to.emit(participation, "RewardClaimed")
+            .withArgs(0, addr1.address, 10, anyValue);
 
         const statsAfter = await participation.stats(0);
         expect(statsAfter.earned).to.equal(0);
+        expect(await dpnToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("10"));
     });
 
     it("should stake to a node", async function () {
@@ -56,6 +69,181 @@ describe("Participation Contract", function () {
         expect(stake).to.equal(ethers.parseEther("1.0"));
     });
 
+    describe("Uptime Reporting Access Control", function () {
+        it("should reject uptime from accounts without REPORTER_ROLE", async function () {
+            await participation.connect(addr1).registerNode("Node A");
+
+            await expect(participation.connect(addr1).recordUptime(0, 15))
+                .to.be.revertedWithCustomError(participation, "AccessControlUnauthorizedAccount")
+                .withArgs(addr1.address, await participation.REPORTER_ROLE());
+        });
+
+        it("should let the admin grant and revoke REPORTER_ROLE", async function () {
+            await participation.connect(addr1).registerNode("Node A");
+            const role = await participation.REPORTER_ROLE();
+
+            await participation.connect(owner).grantRole(role, addr2.address);
+            await participation.connect(addr2).recordUptime(0, 15);
+            expect((await participation.stats(0)).uptime).to.equal(15);
+
+            await participation.connect(owner).revokeRole(role, addr2.address);
+            await expect(participation.connect(addr2).recordUptime(0, 15))
+                .to.be.revertedWithCustomError(participation, "AccessControlUnauthorizedAccount");
+
+            await expect(participation.connect(addr1).grantRole(role, addr1.address))
+                .to.be.revertedWithCustomError(participation, "AccessControlUnauthorizedAccount");
+        });
+
+        it("should reject uptime for unregistered nodes", async function () {
+            await expect(participation.connect(owner).recordUptime(0, 15)).to.be.revertedWith("Node does not exist");
+        });
+
+        it("should cap the minutes reported per window", async function () {
+            await participation.connect(addr1).registerNode("Node A");
+            await participation.connect(owner).setReportingWindow(3600);
+            // Start at the beginning of a window so the reports below share it
+            const latest = await ethers.provider.getBlock("latest");
+            await ethers.provider.send("evm_setNextBlockTimestamp", [latest!.timestamp - (latest!.timestamp % 3600) + 3600]);
+
+            await participation.connect(owner).recordUptime(0, 40);
+            await expect(participation.connect(owner).recordUptime(0, 21)).to.be.revertedWith("Exceeds window cap");
+            await participation.connect(owner).recordUptime(0, 20);
+
+            // The next window starts from zero
+            await ethers.provider.send("evm_increaseTime", [3600]);
+            await participation.connect(owner).recordUptime(0, 60);
+            expect((await participation.stats(0)).uptime).to.equal(120);
+        });
+
+        it("should only let the admin change the reporting window", async function () {
+            await expect(participation.connect(owner).setReportingWindow(7200))
+                .to.emit(participation, "ReportingWindowUpdated")
+                .withArgs(7200);
+            await expect(participation.connect(owner).setReportingWindow(59)).to.be.revertedWith("Window too short");
+            await expect(participation.connect(addr1).setReportingWindow(7200))
+                .to.be.revertedWithCustomError(participation, "AccessControlUnauthorizedAccount");
+        });
+    });
+
+    describe("Delegated Staking", function () {
+        beforeEach(async function () {
+            await participation.connect(addr1).registerNode("Node A");
+        });
+
+        it("should track stakes per staker and reject unregistered nodes", async function () {
+            await participation.connect(addr1).stakeToNode(0, { value: ethers.parseEther("1") });
+            await participation.connect(addr2).stakeToNode(0, { value: ethers.parseEther("2") });
+            await participation.connect(addr2).stakeToNode(0, { value: ethers.parseEther("1") });
+
+            expect((await participation.delegations(0, addr1.address)).amount).to.equal(ethers.parseEther("1"));
+            expect((await participation.delegations(0, addr2.address)).amount).to.equal(ethers.parseEther("3"));
+            expect(await participation.nodeStakes(0)).to.equal(ethers.parseEther("4"));
+            expect(await participation.delegatedStakes(0)).to.equal(ethers.parseEther("3"));
+
+            await expect(participation.connect(addr2).stakeToNode(1, { value: ethers.parseEther("1") }))
+                .to.be.revertedWith("Node does not exist");
+        });
+
+        it("should leave all earnings to the operator without delegators", async function () {
+            await participation.connect(addr1).stakeToNode(0, { value: ethers.parseEther("1") });
+            await expect(participation.connect(owner).recordUptime(0, 30))
+                .not.to.emit(participation, "RewardsShared");
+
+            expect((await participation.stats(0)).earned).to.equal(30);
+            expect(await participation.pendingDelegatorReward(0, addr1.address)).to.equal(0);
+        });
+
+        it("should share earnings pro rata after the operator's commission", async function () {
+            await participation.connect(addr1).setCommission(0, 2000); // 20%
+            await participation.connect(addr1).stakeToNode(0, { value: ethers.parseEther("1") });
+            await participation.connect(addr2).stakeToNode(0, { value: ethers.parseEther("3") });
+            await participation.connect(owner).stakeToNode(0, { value: ethers.parseEther("1") });
+
+            // Delegators hold 4 of 5 ETH: 100 * 4/5 * 80% = 64 DPN, the operator keeps 36
+            await expect(participation.connect(owner).recordUptime(0, 100))
+                .to.emit(participation, "RewardsShared")
+                .withArgs(0, ethers.parseEther("36"), ethers.parseEther("64"));
+            expect((await participation.stats(0)).earned).to.equal(36);
+            expect(await participation.pendingDelegatorReward(0, addr2.address)).to.equal(ethers.parseEther("48"));
+            expect(await participation.pendingDelegatorReward(0, owner.address)).to.equal(ethers.parseEther("16"));
+
+            await expect(participation.connect(addr2).claimDelegatorReward(0))
+                .to.emit(participation, "DelegatorRewardClaimed")
+                .withArgs(0, addr2.address, ethers.parseEther("48"), anyValue);
+            expect(await dpnToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("48"));
+            expect(await participation.pendingDelegatorReward(0, addr2.address)).to.equal(0);
+
+            await participation.connect(addr1).claimReward(0);
+            expect(await dpnToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("36"));
+        });
+
+        it("should pay small delegations in DPN wei", async function () {
+            await participation.connect(addr1).stakeToNode(0, { value: ethers.parseEther("99") });
+            await participation.connect(addr2).stakeToNode(0, { value: ethers.parseEther("1") });
+
+            // 1% of 10 minutes is a tenth of a unit; the operator carries its own fraction
+            await expect(participation.connect(owner).recordUptime(0, 10))
+                .to.emit(participation, "RewardsShared")
+                .withArgs(0, ethers.parseEther("9.9"), ethers.parseEther("0.1"));
+            expect(await participation.pendingDelegatorReward(0, addr2.address)).to.equal(ethers.parseEther("0.1"));
+            expect((await participation.stats(0)).earned).to.equal(9);
+            expect(await participation.operatorRemainders(0)).to.equal(ethers.parseEther("0.9"));
+
+            await participation.connect(owner).recordUptime(0, 10);
+            expect(await participation.pendingDelegatorReward(0, addr2.address)).to.equal(ethers.parseEther("0.2"));
+            expect((await participation.stats(0)).earned).to.equal(19);
+            expect(await participation.operatorRemainders(0)).to.equal(ethers.parseEther("0.8"));
+        });
+
+        it("should keep the operator a share when it stakes nothing here", async function () {
+            await participation.connect(addr2).stakeToNode(0, { value: 1 });
+
+            // The operator's stake counts as 1 ETH, so 1 wei of delegation earns ~1e-18 of the reward
+            await expect(participation.connect(owner).recordUptime(0, 10))
+                .to.emit(participation, "RewardsShared")
+                .withArgs(0, ethers.parseEther("10") - 9n, 9n);
+            expect(await participation.pendingDelegatorReward(0, addr2.address)).to.equal(9);
+            expect((await participation.stats(0)).earned).to.equal(9);
+            expect(await participation.operatorRemainders(0)).to.equal(ethers.parseEther("1") - 9n);
+        });
+
+        it("should stop earning on unstake and release the stake after the delay", async function () {
+            await participation.connect(addr2).stakeToNode(0, { value: ethers.parseEther("3") });
+            // 3 ETH against the operator's 1 ETH floor: 7.5 of 10 DPN
+            await participation.connect(owner).recordUptime(0, 10);
+
+            const request = await participation.connect(addr2).requestUnstake(0, ethers.parseEther("3"));
+            const requestedAt = (await ethers.provider.getBlock(request.blockNumber))!.timestamp;
+            await expect(request)
+                .to.emit(participation, "UnstakeRequested")
+                .withArgs(0, addr2.address, ethers.parseEther("3"), requestedAt + 7 * 24 * 60 * 60);
+            expect(await participation.nodeStakes(0)).to.equal(0);
+
+            // Rewards settled before the request stay claimable; new uptime goes to the operator
+            await participation.connect(owner).recordUptime(0, 10);
+            expect(await participation.pendingDelegatorReward(0, addr2.address)).to.equal(ethers.parseEther("7.5"));
+            expect((await participation.stats(0)).earned).to.equal(12);
+
+            await expect(participation.connect(addr2).withdrawUnstaked(0)).to.be.revertedWith("Unstake delay active");
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            const withdrawal = participation.connect(addr2).withdrawUnstaked(0);
+            await expect(withdrawal)
+                .to.emit(participation, "Unstaked")
+                .withArgs(0, addr2.address, ethers.parseEther("3"));
+            await expect(withdrawal).to.changeEtherBalance(addr2, ethers.parseEther("3"));
+            await expect(participation.connect(addr2).withdrawUnstaked(0)).to.be.revertedWith("Nothing to withdraw");
+            await expect(participation.connect(addr2).requestUnstake(0, 1)).to.be.revertedWith("Invalid amount");
+        });
+
+        it("should only let the node owner set a bounded commission", async function () {
+            await expect(participation.connect(addr1).setCommission(0, 1500))
+                .to.emit(participation, "CommissionUpdated")
+                .withArgs(0, 1500);
+            await expect(participation.connect(addr2).setCommission(0, 1000)).to.be.revertedWith("Not owner");
+            await expect(participation.connect(addr1).setCommission(0, 5001)).to.be.revertedWith("Commission too high");
+        });
+    });
+
     // NEW SECTION: Comprehensive test for subgraph event generation
     describe("Subgraph Event Generation", function () {
         it("should generate all events for subgraph testing", async function () {
@@ -79,11 +267,11 @@ describe("Participation Contract", function () {
 
             // 2. Record uptime for nodes
             console.log("\n2️⃣  Recording uptime...");
-            const tx4 = await participation.connect(addr1).recordUptime(0, 120); // 2 hours
+            const tx4 = await participation.connect(owner).recordUptime(0, 120); // 2 hours
             await tx4.wait();
             console.log("   ⏰ Node 0: 120 minutes uptime, TX:", tx4.hash);
 
-            const tx5 = await participation.connect(addr2).recordUptime(1, 90);  // 1.5 hours
+            const tx5 = await participation.connect(owner).recordUptime(1, 90);  // 1.5 hours
             await tx5.wait();
             console.log("   ⏰ Node 1: 90 minutes uptime, TX:", tx5.hash);
 
@@ -113,11 +301,11 @@ describe("Participation Contract", function () {
 
             // 4. More uptime to generate rewards
             console.log("\n4️⃣  Adding more uptime...");
-            const tx10 = await participation.connect(addr1).recordUptime(0, 60);
+            const tx10 = await participation.connect(owner).recordUptime(0, 60);
             await tx10.wait();
             console.log("   ⏰ Node 0: +60 minutes, TX:", tx10.hash);
 
-            const tx11 = await participation.connect(addr2).recordUptime(1, 45);
+            const tx11 = await participation.connect(owner).recordUptime(1, 45);
             await tx11.wait();
             console.log("   ⏰ Node 1: +45 minutes, TX:", tx11.hash);
 
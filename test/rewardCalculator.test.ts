@@ -0,0 +1,173 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+    DEFAULT_NODE_TYPE_PARAMS,
+    HalvingSchedule,
+    NodeState,
+    calculateHalvingRewards,
+    calculatePendingRewards,
+} from "../src/tokenomics";
+
+const DAY = 86400;
+const HALVING_INTERVAL = 10 * DAY;
+
+// One STORAGE node's life: [days to wait, what happens next]
+const HISTORY: [number, string][] = [
+    [4, "claim"],
+    [3, "score 9500"],
+    [5, "reserve 500"],
+    [6, "claim"],
+    [9, "score 12000"],
+    [8, "claim"],
+    [40, "claim"],
+];
+
+describe("Reward Calculators", function () {
+    let nodeRights: any;
+    let owner: any;
+    let addr1: any;
+
+    beforeEach(async function () {
+        [owner, addr1] = await ethers.getSigners();
+
+        const NodeRightsNFT = await ethers.getContractFactory("NodeRightsNFT", owner);
+        nodeRights = await NodeRightsNFT.deploy();
+        const DPNToken = await ethers.getContractFactory("DPNToken", owner);
+        const dpnToken = await DPNToken.deploy(ethers.parseEther("1000000"));
+        const RewardPool = await ethers.getContractFactory("RewardPool", owner);
+        const rewardPool = await RewardPool.deploy(await dpnToken.getAddress(), ethers.parseEther("1000000"));
+
+        await dpnToken.setMinter(await rewardPool.getAddress());
+        await rewardPool.grantRole(await rewardPool.DISTRIBUTOR_ROLE(), await nodeRights.getAddress());
+        await nodeRights.setRewardPool(await rewardPool.getAddress());
+        await nodeRights.setDPNTokenContract(await dpnToken.getAddress());
+        await dpnToken.transfer(addr1.address, ethers.parseEther("100000"));
+        await dpnToken.connect(addr1).approve(await nodeRights.getAddress(), ethers.MaxUint256);
+    });
+
+    async function deployHalving(genesis: number = 0): Promise<any> {
+        const HalvingRewardCalculator = await ethers.getContractFactory("HalvingRewardCalculator", owner);
+        return HalvingRewardCalculator.deploy(genesis, HALVING_INTERVAL);
+    }
+
+    async function nodeState(tokenId: number): Promise<NodeState> {
+        const node = await nodeRights.nodeRights(tokenId);
+        return {
+            stakedETH: node.stakedETH,
+            stakedDPN: node.stakedDPN,
+            performanceScore: node.performanceScore,
+            status: Number(node.status),
+            lastRewardClaim: node.lastRewardClaim,
+            capacityUsed: await nodeRights.nodeCapacityUsed(tokenId),
+        };
+    }
+
+    // Mints a node, plays HISTORY and returns each claim's payout with the payout `model` expected.
+    // Reserving capacity settles what the node earned so far, so the next claim pays that too.
+    async function replay(model: (node: NodeState, now: bigint) => bigint): Promise<{ paid: bigint; modeled: bigint }[]> {
+        await nodeRights.connect(addr1).mintNodeRights(0, ethers.parseEther("1000"), "metadata", {
+            value: ethers.parseEther("1.5"),
+        });
+        const tokenId = Number(await nodeRights.totalSupply()) - 1;
+        const address = await nodeRights.getAddress();
+
+        const claims: { paid: bigint; modeled: bigint }[] = [];
+        let accrued = 0n;
+        for (const [days, step] of HISTORY) {
+            await time.increase(days * DAY);
+            const [kind, value] = step.split(" ");
+            if (kind === "score") {
+                await nodeRights.updatePerformance(tokenId, 0, Number(value));
+            } else if (kind === "reserve") {
+                const before = await nodeState(tokenId);
+                const receipt = await (await nodeRights.reserveCapacity(tokenId, Number(value))).wait();
+                accrued += model(before, BigInt((await receipt.getBlock()).timestamp));
+            } else {
+                const before = await nodeState(tokenId);
+                const receipt = await (await nodeRights.connect(addr1).claimNodeRewards(tokenId)).wait();
+                const claimedAt = BigInt((await receipt.getBlock()).timestamp);
+                const event = receipt.logs
+                    .filter((log: any) => log.address === address)
+                    .map((log: any) => nodeRights.interface.parseLog(log))
+                    .find((parsed: any) => parsed.name === "RewardsDistributed");
+                claims.push({ paid: event.args.rewardAmount, modeled: accrued + model(before, claimedAt) });
+                accrued = 0n;
+            }
+        }
+        return claims;
+    }
+
+    describe("Same history, different curves", function () {
+        const params = DEFAULT_NODE_TYPE_PARAMS.STORAGE;
+
+        it("should pay the built-in formula through LinearRewardCalculator", async function () {
+            const builtIn = await replay((node, now) => calculatePendingRewards(node, params, now));
+
+            const LinearRewardCalculator = await ethers.getContractFactory("LinearRewardCalculator", owner);
+            const linear = await LinearRewardCalculator.deploy();
+            await nodeRights.setRewardCalculatorContract(await linear.getAddress());
+            const plugged = await replay((node, now) => calculatePendingRewards(node, params, now));
+
+            for (const claims of [builtIn, plugged]) {
+                for (const { paid, modeled } of claims) expect(paid).to.equal(modeled);
+            }
+            expect(plugged.map((claim) => claim.paid)).to.deep.equal(builtIn.map((claim) => claim.paid));
+        });
+
+        it("should halve emissions every interval with HalvingRewardCalculator", async function () {
+            const halving = await deployHalving();
+            await nodeRights.setRewardCalculatorContract(await halving.getAddress());
+            const schedule: HalvingSchedule = {
+                genesis: await halving.genesis(),
+                halvingInterval: BigInt(HALVING_INTERVAL),
+            };
+
+            const halved = await replay((node, now) => calculateHalvingRewards(node, params, now, schedule));
+            for (const { paid, modeled } of halved) expect(paid).to.equal(modeled);
+
+            await nodeRights.setRewardCalculatorContract(ethers.ZeroAddress);
+            const linear = await replay((node, now) => calculatePendingRewards(node, params, now));
+
+            // The first claim falls inside the first era; later ones earn less for the same history
+            expect(halved[0].paid).to.equal(linear[0].paid);
+            for (let i = 1; i < halved.length; i++) {
+                expect(halved[i].paid).to.be.lessThan(linear[i].paid);
+            }
+            // The last claim spans days 35-75, all past the third halving
+            expect(halved[3].paid).to.be.lessThan(linear[3].paid / 16n);
+        });
+    });
+
+    describe("HalvingRewardCalculator", function () {
+        it("should sum the halved rate across eras", async function () {
+            const genesis = (await time.latest()) + 1000;
+            const halving = await deployHalving(genesis);
+            const rate = 1000n;
+            const interval = BigInt(HALVING_INTERVAL);
+            const start = BigInt(genesis);
+
+            expect(await halving.baseReward(rate, start, start + 3n * interval))
+                .to.equal((rate + rate / 2n + rate / 4n) * interval);
+            // Time before genesis earns the full rate
+            expect(await halving.baseReward(rate, start - 100n, start + 100n)).to.equal(rate * 200n);
+            // Rates round down to zero after enough halvings
+            expect(await halving.baseReward(rate, start + 10n * interval, start + 20n * interval)).to.equal(0);
+        });
+
+        it("should reject a zero halving interval", async function () {
+            const HalvingRewardCalculator = await ethers.getContractFactory("HalvingRewardCalculator", owner);
+            await expect(HalvingRewardCalculator.deploy(0, 0)).to.be.revertedWith("Invalid halving interval");
+        });
+    });
+
+    it("should only let the owner swap the reward calculator", async function () {
+        const halving = await deployHalving();
+        await expect(nodeRights.connect(addr1).setRewardCalculatorContract(await halving.getAddress()))
+            .to.be.revertedWithCustomError(nodeRights, "OwnableUnauthorizedAccount");
+        await expect(nodeRights.setRewardCalculatorContract(await halving.getAddress()))
+            .to.emit(nodeRights, "RewardCalculatorUpdated")
+            .withArgs(await halving.getAddress());
+        expect(await nodeRights.rewardCalculatorContract()).to.equal(await halving.getAddress());
+    });
+});
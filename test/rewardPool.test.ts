@@ -0,0 +1,123 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+describe("RewardPool", function () {
+    let dpnToken: any;
+    let rewardPool: any;
+    let participation: any;
+    let owner: any;
+    let addr1: any;
+    let addr2: any;
+
+    async function deploy(mintAllowance: bigint) {
+        const DPNToken = await ethers.getContractFactory("DPNToken", owner);
+        dpnToken = await DPNToken.deploy(ethers.parseEther("1000"));
+        const RewardPool = await ethers.getContractFactory("RewardPool", owner);
+        rewardPool = await RewardPool.deploy(await dpnToken.getAddress(), mintAllowance);
+        const Participation = await ethers.getContractFactory("Participation", owner);
+        participation = await Participation.deploy();
+
+        await dpnToken.setMinter(await rewardPool.getAddress());
+        await rewardPool.grantRole(await rewardPool.DISTRIBUTOR_ROLE(), await participation.getAddress());
+        await participation.setRewardPool(await rewardPool.getAddress());
+    }
+
+    // Registers node 0 for addr1 and credits it `minutes` earned units
+    async function earn(minutes: number) {
+        if ((await participation.nextId()) === 0n) await participation.connect(addr1).registerNode("Node A");
+        await participation.connect(owner).recordUptime(0, minutes);
+    }
+
+    beforeEach(async function () {
+        [owner, addr1, addr2] = await ethers.getSigners();
+    });
+
+    it("should pay claims from the pool balance", async function () {
+        await deploy(0n);
+        await dpnToken.transfer(await rewardPool.getAddress(), ethers.parseEther("100"));
+        await earn(30);
+
+        await expect(participation.connect(addr1).claimReward(0))
+            .to.emit(rewardPool, "RewardPaid")
+            .withArgs(await participation.getAddress(), addr1.address, ethers.parseEther("30"), 0);
+
+        expect(await dpnToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("30"));
+        expect(await dpnToken.balanceOf(await rewardPool.getAddress())).to.equal(ethers.parseEther("70"));
+        expect(await rewardPool.totalPaid()).to.equal(ethers.parseEther("30"));
+    });
+
+    it("should mint the shortfall within the mint allowance", async function () {
+        await deploy(ethers.parseEther("50"));
+        await dpnToken.transfer(await rewardPool.getAddress(), ethers.parseEther("10"));
+        await earn(30);
+        const supply = await dpnToken.totalSupply();
+
+        await participation.connect(addr1).claimReward(0);
+
+        expect(await dpnToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("30"));
+        expect(await dpnToken.totalSupply()).to.equal(supply + ethers.parseEther("20"));
+        expect(await rewardPool.mintAllowance()).to.equal(ethers.parseEther("30"));
+        expect(await rewardPool.available()).to.equal(ethers.parseEther("30"));
+    });
+
+    it("should not pay out more than the pool holds", async function () {
+        await deploy(ethers.parseEther("20"));
+        await earn(30);
+
+        await expect(participation.connect(addr1).claimReward(0)).to.be.revertedWith("Reward pool exhausted");
+        // The failed claim keeps the node's earned units
+        expect((await participation.stats(0)).earned).to.equal(30);
+        expect(await dpnToken.balanceOf(addr1.address)).to.equal(0);
+    });
+
+    it("should only pay out to distributors", async function () {
+        await deploy(ethers.parseEther("1000"));
+
+        await expect(rewardPool.connect(addr1).payout(addr1.address, ethers.parseEther("1")))
+            .to.be.revertedWithCustomError(rewardPool, "AccessControlUnauthorizedAccount")
+            .withArgs(addr1.address, await rewardPool.DISTRIBUTOR_ROLE());
+        // Not even the pool admin can withdraw through payout
+        await expect(rewardPool.connect(owner).payout(owner.address, ethers.parseEther("1")))
+            .to.be.revertedWithCustomError(rewardPool, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should not pay a claim twice", async function () {
+        await deploy(ethers.parseEther("1000"));
+        await earn(30);
+
+        await participation.connect(addr1).claimReward(0);
+        await participation.connect(addr1).claimReward(0);
+        await expect(participation.connect(addr2).claimReward(0)).to.be.revertedWith("Not owner");
+
+        expect(await dpnToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("30"));
+        expect(await rewardPool.totalPaid()).to.equal(ethers.parseEther("30"));
+    });
+
+    it("should restrict DPN minting to the pool", async function () {
+        await deploy(ethers.parseEther("1000"));
+
+        await expect(dpnToken.connect(owner).mint(owner.address, 1)).to.be.revertedWith("Not minter");
+        await expect(dpnToken.connect(addr1).setMinter(addr1.address))
+            .to.be.revertedWithCustomError(dpnToken, "OwnableUnauthorizedAccount");
+        await expect(dpnToken.connect(owner).setMinter(owner.address)).to.be.revertedWith("Minter already set");
+        expect(await dpnToken.minter()).to.equal(await rewardPool.getAddress());
+    });
+
+    it("should only let the admin change the mint allowance", async function () {
+        await deploy(0n);
+
+        await expect(rewardPool.connect(owner).setMintAllowance(ethers.parseEther("5")))
+            .to.emit(rewardPool, "MintAllowanceUpdated")
+            .withArgs(ethers.parseEther("5"));
+        await expect(rewardPool.connect(addr1).setMintAllowance(ethers.parseEther("5")))
+            .to.be.revertedWithCustomError(rewardPool, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should reject claims until a pool is set", async function () {
+        const Participation = await ethers.getContractFactory("Participation", owner);
+        participation = await Participation.deploy();
+        await earn(30);
+
+        await expect(participation.connect(addr1).claimReward(0)).to.be.revertedWith("Reward pool not set");
+    });
+});
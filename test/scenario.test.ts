@@ -0,0 +1,141 @@
+import path from "path";
+import { ethers, ignition } from "hardhat";
+import { expect } from "chai";
+import { NodeRightsNFT__factory, Participation__factory } from "@depin/contracts-client";
+import DePINModule from "../ignition/modules/DePIN";
+import { ScenarioError, SimulationEngine, loadScenario, parseScenario, planFromScenario, utilizationReport } from "../src/simulation";
+
+const DEMO_SCENARIO = path.join(__dirname, "..", "scenarios", "subgraph-demo.json");
+
+describe("Simulation Scenarios", function () {
+    let contracts: any;
+    let tracker: any;
+    let operators: any[];
+
+    beforeEach(async function () {
+        [tracker, ...operators] = await ethers.getSigners();
+        const { participation, nodeRights } = await ignition.deploy(DePINModule);
+        contracts = {
+            participation: Participation__factory.connect(await participation.getAddress(), tracker),
+            nodeRights: NodeRightsNFT__factory.connect(await nodeRights.getAddress(), tracker),
+        };
+    });
+
+    function minimalScenario(overrides: any = {}) {
+        return {
+            name: "minimal",
+            seed: 1,
+            steps: 2,
+            stepSeconds: 3600,
+            operators: [{ name: "solo", account: 0, nodeType: "STORAGE", performance: { kind: "constant", value: 1 } }],
+            ...overrides,
+        };
+    }
+
+    describe("Schema", function () {
+        it("should accept the bundled demo scenario", async function () {
+            const scenario = loadScenario(DEMO_SCENARIO);
+            expect(scenario.operators).to.have.length(5);
+        });
+
+        it("should report the path of invalid fields", async function () {
+            expect(() => parseScenario(minimalScenario({ steps: 0 }))).to.throw(ScenarioError, "steps");
+            expect(() =>
+                parseScenario(minimalScenario({
+                    operators: [{ name: "solo", account: 0, nodeType: "GPU", performance: { kind: "constant", value: 1 } }],
+                }))
+            ).to.throw(ScenarioError, "operators[0].nodeType");
+            expect(() =>
+                parseScenario(minimalScenario({
+                    operators: [{ name: "solo", account: 0, nodeType: "STORAGE", performance: { kind: "constant", value: 1.5 } }],
+                }))
+            ).to.throw(ScenarioError, "operators[0].performance.value");
+            expect(() => parseScenario(minimalScenario({ operators: [null] }))).to.throw(ScenarioError, "operators[0]");
+            expect(() => parseScenario(minimalScenario({ timeline: {} }))).to.throw(ScenarioError, "timeline");
+        });
+
+        it("should reject timeline actions for unknown or not-yet-joined operators", async function () {
+            expect(() =>
+                parseScenario(minimalScenario({ timeline: [{ at: 1, operator: "ghost", action: "claim" }] }))
+            ).to.throw(ScenarioError, 'unknown operator "ghost"');
+
+            const late = minimalScenario();
+            late.operators[0].joinAt = 2;
+            late.timeline = [{ at: 1, operator: "solo", action: "claim" }];
+            expect(() => parseScenario(late)).to.throw(ScenarioError, "has not joined yet");
+        });
+
+        it("should reject owner actions once the operator bridged its node away", async function () {
+            const bridge = { at: 1, operator: "solo", action: "bridge", destinationChain: "localhost-b" };
+            expect(() =>
+                parseScenario(minimalScenario({ steps: 2, timeline: [{ at: 2, operator: "solo", action: "claimNode" }, bridge] }))
+            ).to.throw(ScenarioError, '"solo" bridged its node away at step 1');
+
+            // Consumers, not the owner, reserve capacity on a bridged node
+            const reserve = { at: 2, operator: "solo", action: "reserve", units: 10 };
+            expect(() => parseScenario(minimalScenario({ steps: 2, timeline: [bridge, reserve] }))).to.not.throw();
+        });
+    });
+
+    describe("Replay", function () {
+        it("should replay the demo scenario's mints, upgrades, slashing and bridges", async function () {
+            const scenario = loadScenario(DEMO_SCENARIO);
+            const engine = new SimulationEngine(contracts, tracker, ethers.provider, planFromScenario(scenario, operators));
+            const log = await engine.run();
+
+            const byLabel = (label: string) => log.operators.find((op) => op.label === label)!;
+            const alpha = await contracts.nodeRights.getNodeDetails(byLabel("storage-alpha").tokenId);
+            expect(alpha.node.stakedETH).to.equal(ethers.parseEther("2.3"));
+            expect(alpha.node.isUpgraded).to.be.true;
+            expect(await contracts.nodeRights.crossChainBridges(byLabel("compute-beta").tokenId)).to.equal("localhost-b");
+            expect(await contracts.participation.nodeStakes(byLabel("bandwidth-gamma").nodeId)).to.equal(ethers.parseEther("0.25"));
+
+            const final = log.steps[log.steps.length - 1].nodes;
+            const status = (label: string) => final.find((node) => node.label === label)!.status;
+            expect(status("storage-alpha")).to.equal("ACTIVE");
+            expect(status("compute-beta")).to.equal("SLASHED_MINOR");
+            expect(status("bandwidth-gamma")).to.equal("SLASHED_MAJOR");
+            expect(status("compute-delta")).to.equal("ACTIVE");
+            expect(status("failing-node")).to.equal("TERMINATED");
+            expect(byLabel("failing-node").joinedAtStep).to.equal(2);
+
+            // Minor slash on joining, then the outage window from step 3 terminates it
+            const failing = log.steps.map((step) => step.nodes.find((node) => node.label === "failing-node"));
+            expect(failing[0]).to.be.undefined;
+            expect(failing[1]!.status).to.equal("SLASHED_MINOR");
+            expect(failing[2]!.uptimeMinutes).to.equal(0);
+            expect(failing[2]!.status).to.equal("TERMINATED");
+            expect(log.actions.map((action) => action.kind)).to.deep.equal([
+                "upgrade", "upgrade", "stake", "reserve", "claimNode", "bridge", "bridge", "bridge", "release", "claim",
+            ]);
+            expect(log.steps[3].claimed).to.not.equal("0");
+        });
+
+        it("should track capacity reservations per node and per NodeType", async function () {
+            const scenario = loadScenario(DEMO_SCENARIO);
+            const engine = new SimulationEngine(contracts, tracker, ethers.provider, planFromScenario(scenario, operators));
+            const log = await engine.run();
+
+            const delta = log.steps.map((step) => step.nodes.find((node) => node.label === "compute-delta")!.capacityUsed);
+            expect(delta).to.deep.equal([0, 300, 300, 200]);
+            // Two live COMPUTE nodes of 500 units each
+            expect(log.steps[1].utilization.COMPUTE).to.deep.equal({ capacityUsed: 300, totalCapacity: 1000 });
+
+            const report = utilizationReport(log);
+            expect(report.COMPUTE.utilization).to.equal(0.2);
+            expect(report.COMPUTE.peakUtilization).to.equal(0.3);
+            expect(report.STORAGE.utilization).to.equal(0);
+        });
+
+        it("should produce the same activity from the same seed", async function () {
+            const scenario = loadScenario(DEMO_SCENARIO);
+            const activity = async () => {
+                const engine = new SimulationEngine(contracts, tracker, ethers.provider, planFromScenario(scenario, operators));
+                const log = await engine.run();
+                return log.steps.map((step) => step.nodes.map((node) => [node.label, node.uptimeMinutes, node.performanceScore, node.status]));
+            };
+
+            expect(await activity()).to.deep.equal(await activity());
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import { ethers, ignition } from "hardhat";
+import { expect } from "chai";
+import { NodeRightsNFT__factory, Participation__factory } from "@depin/contracts-client";
+import DePINModule from "../ignition/modules/DePIN";
+import { Random, SimulationEngine, planFromConfig, resolveSimulationConfig, runLogToCsv } from "../src/simulation";
+
+describe("Network Simulation", function () {
+    let contracts: any;
+    let tracker: any;
+    let operators: any[];
+
+    beforeEach(async function () {
+        [tracker, ...operators] = await ethers.getSigners();
+        const { participation, nodeRights } = await ignition.deploy(DePINModule);
+        contracts = {
+            participation: Participation__factory.connect(await participation.getAddress(), tracker),
+            nodeRights: NodeRightsNFT__factory.connect(await nodeRights.getAddress(), tracker),
+        };
+    });
+
+    function engineFor(overrides: any) {
+        const config = resolveSimulationConfig(overrides);
+        return new SimulationEngine(contracts, tracker, ethers.provider, planFromConfig(config, operators));
+    }
+
+    it("should spawn operators of each node type and advance time per step", async function () {
+        const engine = engineFor({
+            operatorsPerType: { STORAGE: 1, COMPUTE: 1, BANDWIDTH: 1 },
+            steps: 3,
+            stepSeconds: 3600,
+        });
+        const log = await engine.run();
+
+        expect(log.operators.map((op) => op.nodeType)).to.deep.equal(["STORAGE", "COMPUTE", "BANDWIDTH"]);
+        expect(await contracts.nodeRights.totalSupply()).to.equal(3);
+        expect(await contracts.participation.nextId()).to.equal(3);
+
+        expect(log.steps).to.have.length(3);
+        expect(log.endTimestamp - log.startTimestamp).to.be.at.least(3 * 3600);
+        for (let i = 1; i < log.steps.length; i++) {
+            expect(log.steps[i].timestamp - log.steps[i - 1].timestamp).to.be.at.least(3600);
+        }
+    });
+
+    it("should fit each report in its own window when the step does not divide the window", async function () {
+        // 7h steps against the default 24h window would put four reports in one window
+        const engine = engineFor({
+            operatorsPerType: { STORAGE: 1, COMPUTE: 0, BANDWIDTH: 0 },
+            reliability: { STORAGE: { mean: 1, stdDev: 0, outageProbability: 0 } },
+            steps: 8,
+            stepSeconds: 25200,
+        });
+        const log = await engine.run();
+
+        expect(await contracts.participation.reportingWindow()).to.equal(25200);
+        expect(log.steps.flatMap((step) => step.nodes).every((node) => node.uptimeMinutes === 420)).to.be.true;
+    });
+
+    it("should record the sampled uptime on-chain", async function () {
+        const engine = engineFor({
+            operatorsPerType: { STORAGE: 2, COMPUTE: 0, BANDWIDTH: 0 },
+            steps: 4,
+            claimEverySteps: 100, // never claim, so earned == total uptime
+        });
+        const log = await engine.run();
+
+        for (const operator of log.operators) {
+            const logged = log.steps
+                .flatMap((step) => step.nodes)
+                .filter((node) => node.agentId === operator.agentId)
+                .reduce((sum, node) => sum + node.uptimeMinutes, 0);
+            const stats = await contracts.participation.stats(operator.nodeId);
+            expect(stats.uptime).to.equal(logged);
+            expect(stats.earned).to.equal(logged);
+        }
+    });
+
+    it("should claim rewards on schedule", async function () {
+        const engine = engineFor({
+            operatorsPerType: { STORAGE: 1, COMPUTE: 0, BANDWIDTH: 0 },
+            reliability: { STORAGE: { mean: 1, stdDev: 0, outageProbability: 0 } },
+            steps: 4,
+            stepSeconds: 600,
+            claimEverySteps: 2,
+        });
+        const log = await engine.run();
+
+        expect(log.steps.map((step) => step.claimed)).to.deep.equal(["0", "20", "0", "20"]);
+        const stats = await contracts.participation.stats(log.operators[0].nodeId);
+        expect(stats.earned).to.equal(0);
+    });
+
+    it("should slash unreliable nodes through updatePerformance", async function () {
+        const engine = engineFor({
+            operatorsPerType: { STORAGE: 0, COMPUTE: 1, BANDWIDTH: 0 },
+            reliability: { COMPUTE: { mean: 0.1, stdDev: 0, outageProbability: 0 } },
+            steps: 2,
+        });
+        const log = await engine.run();
+
+        expect(log.steps[0].nodes[0].status).to.equal("TERMINATED");
+        expect(log.steps[0].nodes[0].stakedDPN).to.equal("0");
+        // Terminated nodes stop reporting
+        expect(log.steps[1].nodes[0].uptimeMinutes).to.equal(0);
+        expect(log.steps[1].activeNodes).to.equal(0);
+    });
+
+    it("should replay identically from the same seed", async function () {
+        const a = new Random(42);
+        const b = new Random(42);
+        const draws = Array.from({ length: 5 }, () => [a.normal(0.9, 0.1), b.normal(0.9, 0.1)]);
+        for (const [x, y] of draws) expect(x).to.equal(y);
+    });
+
+    it("should flatten the run log to CSV", async function () {
+        const engine = engineFor({
+            operatorsPerType: { STORAGE: 1, COMPUTE: 1, BANDWIDTH: 0 },
+            steps: 2,
+        });
+        const lines = runLogToCsv(await engine.run()).trim().split("\n");
+
+        expect(lines[0]).to.equal(
+            "step,timestamp,agentId,label,nodeType,reliability,uptimeMinutes,performanceScore,status,claimed,penalty,stakedDPN,estimatedRewards,capacityUsed,faults"
+        );
+        expect(lines).to.have.length(1 + 2 * 2);
+    });
+});
@@ -0,0 +1,230 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { NodeStatus } from "@depin/contracts-client";
+import {
+    DEFAULT_NODE_TYPE_PARAMS,
+    NodeState,
+    applyPerformanceUpdate,
+    calculatePendingRewards,
+    defaultMonteCarloConfig,
+    evaluateNodeStatus,
+    expandRange,
+    readNodeTypeParams,
+    runMonteCarlo,
+    runSweep,
+    sweepResultsToCsv,
+} from "../src/tokenomics";
+
+describe("Tokenomics Model", function () {
+    let nodeRights: any;
+    let owner: any;
+    let addr1: any;
+
+    beforeEach(async function () {
+        [owner, addr1] = await ethers.getSigners();
+        const NodeRightsNFT = await ethers.getContractFactory("NodeRightsNFT", owner);
+        nodeRights = await NodeRightsNFT.deploy();
+        await nodeRights.waitForDeployment();
+
+        const DPNToken = await ethers.getContractFactory("DPNToken", owner);
+        const dpnToken = await DPNToken.deploy(ethers.parseEther("1000000"));
+        await nodeRights.setDPNTokenContract(await dpnToken.getAddress());
+        await dpnToken.transfer(addr1.address, ethers.parseEther("100000"));
+        await dpnToken.connect(addr1).approve(await nodeRights.getAddress(), ethers.MaxUint256);
+    });
+
+    async function onChainState(tokenId: number): Promise<NodeState> {
+        const node = await nodeRights.nodeRights(tokenId);
+        return {
+            stakedETH: node.stakedETH,
+            stakedDPN: node.stakedDPN,
+            performanceScore: node.performanceScore,
+            status: Number(node.status),
+            lastRewardClaim: node.lastRewardClaim,
+            capacityUsed: await nodeRights.nodeCapacityUsed(tokenId),
+        };
+    }
+
+    describe("Formulas match NodeRightsNFT", function () {
+        it("should mirror the default NodeType parameters", async function () {
+            const params = await readNodeTypeParams(nodeRights);
+            expect(params).to.deep.equal(DEFAULT_NODE_TYPE_PARAMS);
+        });
+
+        it("should match _calculatePendingRewards across types, stakes, scores and utilization", async function () {
+            const cases = [
+                { type: 0, eth: "1", dpn: "1000", score: 10000, reserved: 0 },
+                { type: 0, eth: "3.7", dpn: "1500", score: 9400, reserved: 333 },
+                { type: 1, eth: "2", dpn: "2000", score: 9999, reserved: 500 },
+                { type: 1, eth: "5.5", dpn: "3000", score: 9000, reserved: 0 },
+                { type: 2, eth: "0.7", dpn: "600", score: 9731, reserved: 1999 },
+            ];
+            const params = [DEFAULT_NODE_TYPE_PARAMS.STORAGE, DEFAULT_NODE_TYPE_PARAMS.COMPUTE, DEFAULT_NODE_TYPE_PARAMS.BANDWIDTH];
+
+            for (const [tokenId, c] of cases.entries()) {
+                await nodeRights.connect(addr1).mintNodeRights(c.type, ethers.parseEther(c.dpn), "metadata", {
+                    value: ethers.parseEther(c.eth),
+                });
+                await nodeRights.updatePerformance(tokenId, 3600, c.score);
+                if (c.reserved > 0) await nodeRights.reserveCapacity(tokenId, c.reserved);
+            }
+            await time.increase(13 * 86400 + 1234);
+
+            const now = BigInt(await time.latest());
+            for (const [tokenId, c] of cases.entries()) {
+                const details = await nodeRights.getNodeDetails(tokenId);
+                const modeled = calculatePendingRewards(await onChainState(tokenId), params[c.type], now);
+                // estimatedRewards also counts what reserveCapacity settled
+                expect(modeled + (await nodeRights.accruedRewards(tokenId))).to.equal(details.estimatedRewards);
+                expect(modeled).to.be.greaterThan(0n);
+            }
+        });
+
+        it("should match slashing penalties and status transitions", async function () {
+            await nodeRights.connect(addr1).mintNodeRights(1, ethers.parseEther("2777"), "metadata", {
+                value: ethers.parseEther("2"),
+            });
+            const modeled = await onChainState(0);
+
+            for (const score of [8500, 8000, 4200, 9600, 6100, 1500]) {
+                const now = BigInt(await time.latest()) + 86400n;
+                await time.setNextBlockTimestamp(now);
+                const penalty = applyPerformanceUpdate(modeled, BigInt(score), now);
+                const tx = nodeRights.updatePerformance(0, 600, score);
+                if (penalty > 0n) {
+                    await expect(tx).to.emit(nodeRights, "NodeSlashed").withArgs(0, modeled.status, penalty, anyValue);
+                } else {
+                    await (await tx).wait();
+                }
+
+                const actual = await onChainState(0);
+                expect(actual.status).to.equal(modeled.status);
+                expect(actual.stakedDPN).to.equal(modeled.stakedDPN);
+                expect(actual.lastRewardClaim).to.equal(modeled.lastRewardClaim);
+            }
+            expect(modeled.status).to.equal(NodeStatus.TERMINATED);
+            expect(() => applyPerformanceUpdate(modeled, 9000n, 0n)).to.throw("Node terminated");
+        });
+    });
+
+    describe("Monte Carlo projection", function () {
+        it("should be reproducible from a seed", async function () {
+            const config = defaultMonteCarloConfig({ trajectories: 50, days: 30, seed: 7 });
+            expect(runMonteCarlo(config)).to.deep.equal(runMonteCarlo(config));
+        });
+
+        it("should emit the base rate for a perfect node at minimum stake", async function () {
+            const config = defaultMonteCarloConfig({ trajectories: 5, days: 10 });
+            for (const economics of Object.values(config.nodeTypes)) {
+                economics.reliability = { mean: 1, stdDev: 0, outageProbability: 0 };
+            }
+            const report = runMonteCarlo(config);
+
+            // 1 DPN/day for STORAGE, 3 for COMPUTE, 1.5 for BANDWIDTH (rates are rounded down to whole wei)
+            const storage = report.nodeTypes.STORAGE;
+            expect(storage.emissions[9].mean).to.be.closeTo(10, 1e-6);
+            expect(report.nodeTypes.COMPUTE.emissions[9].mean).to.be.closeTo(30, 1e-6);
+            expect(report.nodeTypes.BANDWIDTH.emissions[9].mean).to.be.closeTo(15, 1e-6);
+            expect(report.totalEmissions[9].mean).to.be.closeTo(55, 1e-6);
+            expect(storage.slashProbability).to.equal(0);
+            expect(storage.apr.mean).to.be.closeTo((10 / 2000) * 36.5, 1e-9); // 1 ETH at 1000 DPN + 1000 DPN
+        });
+
+        it("should only count rewards the operators have claimed", async function () {
+            const config = defaultMonteCarloConfig({ trajectories: 5, days: 10, claimEveryDays: 7 });
+            config.nodeTypes.STORAGE.reliability = { mean: 1, stdDev: 0, outageProbability: 0 };
+            const storage = runMonteCarlo(config).nodeTypes.STORAGE;
+
+            // 1 DPN/day, paid out on day 7; days 8-10 are still unclaimed at the horizon
+            expect(storage.emissions[5].mean).to.equal(0);
+            expect(storage.emissions[6].mean).to.be.closeTo(7, 1e-6);
+            expect(storage.emissions[9].mean).to.be.closeTo(7, 1e-6);
+        });
+
+        it("should stop emissions and slash the DPN stake to the treasury when a node is terminated", async function () {
+            const config = defaultMonteCarloConfig({ trajectories: 20, days: 30 });
+            config.nodeTypes.COMPUTE.reliability = { mean: 0.1, stdDev: 0, outageProbability: 0 };
+            const compute = runMonteCarlo(config).nodeTypes.COMPUTE;
+
+            expect(compute.terminationProbability).to.equal(1);
+            expect(compute.slashingLoss.mean).to.equal(2000);
+            // Day 1 accrues at the 100% mint score before the first report terminates the node
+            expect(compute.emissions[0].mean).to.equal(compute.emissions[29].mean);
+            expect(compute.apr.mean).to.be.lessThan(0);
+        });
+
+        it("should report slashing losses that grow with unreliability", async function () {
+            const reliable = defaultMonteCarloConfig({ trajectories: 200, days: 60 });
+            const flaky = defaultMonteCarloConfig({ trajectories: 200, days: 60 });
+            flaky.nodeTypes.STORAGE.reliability = { mean: 0.9, stdDev: 0.05, outageProbability: 0.01 };
+
+            const reliableLoss = runMonteCarlo(reliable).nodeTypes.STORAGE.slashingLoss.mean;
+            const flakyLoss = runMonteCarlo(flaky).nodeTypes.STORAGE.slashingLoss.mean;
+            expect(flakyLoss).to.be.greaterThan(reliableLoss);
+        });
+    });
+
+    describe("Parameter sweep", function () {
+        it("should expand explicit and stepped ranges", async function () {
+            expect(expandRange([1, 5])).to.deep.equal([1, 5]);
+            expect(expandRange({ from: 0.1, to: 0.5, step: 0.1 })).to.deep.equal([0.1, 0.2, 0.3, 0.4, 0.5]);
+            expect(() => expandRange({ from: 2, to: 1, step: 1 })).to.throw("Invalid range");
+        });
+
+        it("should evaluate status against custom thresholds", async function () {
+            const strict = { active: 9500n, minor: 7000n, major: 3000n };
+            expect(evaluateNodeStatus(9400n)).to.equal(NodeStatus.ACTIVE);
+            expect(evaluateNodeStatus(9400n, strict)).to.equal(NodeStatus.SLASHED_MINOR);
+            expect(evaluateNodeStatus(2500n, strict)).to.equal(NodeStatus.TERMINATED);
+        });
+
+        it("should run the cartesian product of the swept parameters", async function () {
+            const results = runSweep({
+                name: "grid",
+                trajectories: 20,
+                days: 20,
+                operatorsPerType: 10,
+                nodeTypes: { COMPUTE: { minETHStake: [1, 2], baseRewardRate: [3, 6] } },
+                thresholds: { active: [8000, 9000] },
+            });
+
+            expect(results).to.have.length(8);
+            expect(results[0].parameters).to.deep.equal({
+                "COMPUTE.minETHStake": 1,
+                "COMPUTE.baseRewardRate": 3,
+                "thresholds.active": 8000,
+            });
+            for (const result of results) {
+                expect(result.admittedNodes).to.equal(30);
+                expect(result.activeNodeRatio).to.be.within(0, 1);
+                expect(result.terminationRate).to.be.within(0, 1);
+            }
+
+            const csv = sweepResultsToCsv(results).trim().split("\n");
+            expect(csv[0]).to.equal(
+                "COMPUTE.minETHStake,COMPUTE.baseRewardRate,thresholds.active,admittedNodes,activeNodeRatio,terminationRate,emissionPerStakedEth,netApr"
+            );
+            expect(csv).to.have.length(9);
+        });
+
+        it("should reflect the parameters in the health metrics", async function () {
+            const small = { name: "small", trajectories: 20, days: 10, operatorsPerType: 10 };
+            const [lenient, strict] = runSweep({ ...small, thresholds: { active: [5000, 9900] } });
+            expect(lenient.activeNodeRatio).to.be.greaterThan(strict.activeNodeRatio);
+
+            const [capped, uncapped] = runSweep({ ...small, nodeTypes: { STORAGE: { maxCapacity: [2, 1000] } } });
+            expect(capped.admittedNodes).to.equal(22);
+            expect(uncapped.admittedNodes).to.equal(30);
+
+            // No slashing at all, so only the reward rate differs
+            const [slow, fast] = runSweep({
+                ...small,
+                thresholds: { active: [0], minor: [0], major: [0] },
+                nodeTypes: { STORAGE: { baseRewardRate: [1, 2] } },
+            });
+            expect(fast.emissionPerStakedEth).to.be.greaterThan(slow.emissionPerStakedEth);
+        });
+    });
+});